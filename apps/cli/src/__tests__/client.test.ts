@@ -1,7 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { RealtimeClient } from '../realtime/client.js';
 import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
-import { REALTIME_CHANNELS } from 'termbridge-shared';
+import {
+  REALTIME_CHANNELS,
+  PROTOCOL_VERSION,
+  SUPPORTED_FEATURES,
+  ChunkAssembler,
+  splitMessage,
+  generateEncryptionKey,
+  getKeyId,
+  encryptMessage,
+  decryptMessage,
+  decryptText,
+} from 'termbridge-shared';
 
 describe('RealtimeClient', () => {
   let mockSupabase: Partial<SupabaseClient>;
@@ -653,13 +664,13 @@ describe('RealtimeClient', () => {
       await client.broadcastSystem('[Model switched to Opus 4]');
 
       expect(supabaseWithInsert.from).toHaveBeenCalledWith('messages');
-      expect(mockInsert).toHaveBeenCalledWith(
+      expect(mockInsert).toHaveBeenCalledWith([
         expect.objectContaining({
           session_id: 'test-session-123',
           type: 'system',
           content: '[Model switched to Opus 4]',
-        })
-      );
+        }),
+      ]);
     });
 
     it('should skip realtime broadcast when realtime is disabled', async () => {
@@ -707,6 +718,990 @@ describe('RealtimeClient', () => {
     });
   });
 
+  describe('input acks', () => {
+    let inputHandler: ((payload: any) => void) | null;
+
+    beforeEach(() => {
+      inputHandler = null;
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+    });
+
+    it('should ack messages that carry a messageId', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      inputHandler!({
+        payload: { type: 'input', content: 'hi', messageId: 'msg-1', timestamp: Date.now(), seq: 1 },
+      });
+      await client.flush();
+
+      expect(mockOutputChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'output',
+          payload: expect.objectContaining({ type: 'ack', ackId: 'msg-1' }),
+        })
+      );
+      // Acks don't consume a sequence number
+      expect(client.getSeq()).toBe(0);
+    });
+
+    it('should emit a retried message only once but ack every copy', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      const inputCallback = vi.fn();
+      client.on('input', inputCallback);
+
+      await client.connect();
+      const payload = { type: 'input', content: 'hi', messageId: 'msg-1', timestamp: Date.now(), seq: 1 };
+      inputHandler!({ payload });
+      inputHandler!({ payload });
+      await client.flush();
+
+      expect(inputCallback).toHaveBeenCalledTimes(1);
+      expect(mockOutputChannel.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not ack messages without a messageId', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      const inputCallback = vi.fn();
+      client.on('input', inputCallback);
+
+      await client.connect();
+      const payload = { type: 'input', content: 'hi', timestamp: Date.now(), seq: 1 };
+      inputHandler!({ payload });
+      inputHandler!({ payload });
+
+      expect(inputCallback).toHaveBeenCalledTimes(2);
+      expect(mockOutputChannel.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('protocol handshake', () => {
+    let inputHandler: ((payload: any) => void) | null;
+
+    beforeEach(() => {
+      inputHandler = null;
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+    });
+
+    it('should treat mobile as legacy until it says hello', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+
+      expect(client.getPeerProtocol()).toEqual({ version: 1, features: [] });
+      expect(client.supportsFeature('replay')).toBe(false);
+    });
+
+    it('should reply to hello with the features both sides support', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      const inputCallback = vi.fn();
+      client.on('input', inputCallback);
+
+      await client.connect();
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: 3, features: ['replay', 'some-future-feature'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      await client.flush();
+
+      expect(mockOutputChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'output',
+          payload: expect.objectContaining({
+            type: 'capabilities',
+            protocol: { version: PROTOCOL_VERSION, features: SUPPORTED_FEATURES },
+          }),
+        })
+      );
+      expect(client.supportsFeature('replay')).toBe(true);
+      expect(client.supportsFeature('ack')).toBe(false);
+      // Handshake is handled by the client, not passed on to the daemon
+      expect(inputCallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('input validation', () => {
+    let inputHandler: ((payload: any) => void) | null;
+
+    beforeEach(() => {
+      inputHandler = null;
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+    });
+
+    it('should drop malformed payloads instead of emitting them', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      const inputCallback = vi.fn();
+      client.on('input', inputCallback);
+
+      await client.connect();
+      inputHandler!({ payload: null });
+      inputHandler!({ payload: { type: 'not-a-type', timestamp: 1, seq: 1 } });
+      inputHandler!({ payload: { type: 'mode-change', timestamp: 1, seq: 1 } });
+      inputHandler!({
+        payload: { type: 'resume-request', resumeSessionId: '../../etc', timestamp: 1, seq: 1 },
+      });
+
+      expect(inputCallback).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledTimes(4);
+      warnSpy.mockRestore();
+    });
+
+    it('should answer with a structured rejection once negotiated', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['rejections'] },
+          timestamp: 1,
+          seq: 1,
+        },
+      });
+      inputHandler!({
+        payload: { type: 'mode-change', permissionMode: 'yolo', messageId: 'msg-1', timestamp: 1, seq: 2 },
+      });
+      await client.flush();
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({
+            type: 'message-rejected',
+            rejection: {
+              reason: 'Invalid field: permissionMode',
+              rejectedType: 'mode-change',
+              messageId: 'msg-1',
+              protocolVersion: PROTOCOL_VERSION,
+            },
+          }),
+        })
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('chunked transfer', () => {
+    let inputHandler: ((payload: any) => void) | null;
+
+    beforeEach(() => {
+      inputHandler = null;
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+    });
+
+    const negotiate = (features: string[]) =>
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features },
+          timestamp: 1,
+          seq: 1,
+        },
+      });
+
+    it('should split oversized messages once mobile can reassemble them', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+      const content = 'x'.repeat(300 * 1024);
+
+      await client.connect();
+      negotiate(['chunking']);
+      await client.broadcastSystem(content);
+
+      const payloads = (mockOutputChannel.send as ReturnType<typeof vi.fn>).mock.calls
+        .map(([event]) => event.payload)
+        .filter((payload) => payload.type === 'chunk');
+      const assembler = new ChunkAssembler();
+      const results = payloads.map((payload) => assembler.accept(payload));
+
+      expect(payloads.length).toBeGreaterThan(1);
+      expect(results[results.length - 1]).toEqual({
+        status: 'message',
+        payload: expect.objectContaining({ type: 'system', content }),
+      });
+    });
+
+    it('should send oversized messages whole to mobiles without chunking', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      negotiate(['ack']);
+      await client.broadcastSystem('x'.repeat(300 * 1024));
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({ payload: expect.objectContaining({ type: 'system' }) })
+      );
+    });
+
+    it('should reassemble chunked input before emitting it', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+      const inputCallback = vi.fn();
+      client.on('input', inputCallback);
+      const content = 'y'.repeat(300 * 1024);
+
+      await client.connect();
+      for (const frame of splitMessage({ type: 'input', content, timestamp: 1, seq: 2 })) {
+        inputHandler!({ payload: frame });
+      }
+
+      expect(inputCallback).toHaveBeenCalledTimes(1);
+      expect(inputCallback).toHaveBeenCalledWith(expect.objectContaining({ type: 'input', content }));
+    });
+  });
+
+  describe('end-to-end encryption', () => {
+    let inputHandler: ((payload: any) => void) | null;
+    const key = generateEncryptionKey();
+
+    beforeEach(() => {
+      inputHandler = null;
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+    });
+
+    const sentPayloads = () =>
+      (mockOutputChannel.send as ReturnType<typeof vi.fn>).mock.calls.map(([event]) => event.payload);
+
+    it('should encrypt sent and stored messages but keep the handshake readable', async () => {
+      const mockInsert = vi.fn().mockResolvedValue({ error: null });
+      const client = new RealtimeClient({
+        supabase: { ...mockSupabase, from: vi.fn().mockReturnValue({ insert: mockInsert }) } as unknown as SupabaseClient,
+        sessionId: 'test-session-123',
+        encryptionKey: key,
+      });
+
+      await client.connect();
+      inputHandler!({
+        payload: { type: 'hello', protocol: { version: PROTOCOL_VERSION, features: ['e2e'] }, timestamp: 1, seq: 1 },
+      });
+      await client.broadcastSystem('secret output');
+
+      const [capabilities, envelope] = sentPayloads();
+      expect(capabilities).toEqual(
+        expect.objectContaining({
+          type: 'capabilities',
+          protocol: expect.objectContaining({ keyId: getKeyId(key) }),
+        })
+      );
+      expect(envelope.type).toBe('encrypted');
+      expect(
+        decryptMessage(envelope, key, { sessionId: 'test-session-123', direction: 'output' })
+      ).toEqual(
+        expect.objectContaining({ type: 'system', content: 'secret output' })
+      );
+
+      const [[rows]] = mockInsert.mock.calls;
+      expect(rows[0].content).not.toContain('secret');
+      expect(decryptText(rows[0].content, key)).toBe('secret output');
+    });
+
+    it('should open encrypted input and refuse plaintext once paired', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+        encryptionKey: key,
+      });
+      const inputCallback = vi.fn();
+      client.on('input', inputCallback);
+
+      const input = { sessionId: 'test-session-123', direction: 'input' as const };
+
+      await client.connect();
+      inputHandler!({ payload: { type: 'input', content: 'plain', timestamp: 1, seq: 1 } });
+      inputHandler!({
+        payload: encryptMessage({ type: 'input', content: 'sealed', timestamp: 1, seq: 2 }, key, input),
+      });
+      inputHandler!({
+        payload: encryptMessage(
+          { type: 'input', content: 'wrong key', timestamp: 1, seq: 3 },
+          generateEncryptionKey(),
+          input
+        ),
+      });
+
+      expect(inputCallback).toHaveBeenCalledTimes(1);
+      expect(inputCallback).toHaveBeenCalledWith(expect.objectContaining({ content: 'sealed' }));
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+      warnSpy.mockRestore();
+    });
+
+    it('should refuse input sealed for another session or sent as output', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+        encryptionKey: key,
+      });
+      const inputCallback = vi.fn();
+      client.on('input', inputCallback);
+
+      await client.connect();
+      // Captured from an earlier session
+      inputHandler!({
+        payload: encryptMessage(
+          { type: 'input', content: 'replayed', timestamp: 1, seq: 1 },
+          key,
+          { sessionId: 'old-session', direction: 'input' }
+        ),
+      });
+      // The CLI's own output, sent back on the input channel
+      inputHandler!({
+        payload: encryptMessage(
+          { type: 'output', content: 'echoed', timestamp: 1, seq: 2 },
+          key,
+          { sessionId: 'test-session-123', direction: 'output' }
+        ),
+      });
+
+      expect(inputCallback).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('output coalescing', () => {
+    it('should merge chunks within the window into one message and one insert', async () => {
+      const mockInsert = vi.fn().mockResolvedValue({ error: null });
+      const client = new RealtimeClient({
+        supabase: { ...mockSupabase, from: vi.fn().mockReturnValue({ insert: mockInsert }) } as unknown as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      await Promise.all([client.broadcast('a'), client.broadcast('b'), client.broadcast('c')]);
+
+      expect(client.getSeq()).toBe(1);
+      expect(mockInsert).toHaveBeenCalledTimes(1);
+      expect(mockInsert).toHaveBeenCalledWith([expect.objectContaining({ content: 'abc', seq: 1 })]);
+      expect(mockOutputChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'output', content: 'abc', seq: 1 }),
+        })
+      );
+    });
+
+    it('should flush pending output before other messages so order is kept', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      const output = client.broadcast('before');
+      await client.broadcastMode('plan');
+      await output;
+
+      const payloads = (mockOutputChannel.send as ReturnType<typeof vi.fn>).mock.calls.map(
+        ([event]) => event.payload
+      );
+      expect(payloads).toEqual([
+        expect.objectContaining({ type: 'output', content: 'before', seq: 1 }),
+        expect.objectContaining({ type: 'mode', seq: 2 }),
+      ]);
+    });
+
+    it('should send everything pending on flush', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+        coalesceMs: 60_000,
+      });
+
+      await client.connect();
+      client.broadcast('tail');
+      await client.flush();
+
+      expect(mockOutputChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'output', content: 'tail' }),
+        })
+      );
+    });
+
+    it('should hold sends back to stay within the event budget', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+        eventsPerSecond: 2,
+      });
+
+      await client.connect();
+      vi.useFakeTimers();
+
+      const sends = [
+        client.broadcastMode('plan'),
+        client.broadcastModel('opus'),
+        client.broadcastMode('default'),
+      ];
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockOutputChannel.send).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await Promise.all(sends);
+      expect(mockOutputChannel.send).toHaveBeenCalledTimes(3);
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('tool calls', () => {
+    let inputHandler: ((payload: any) => void) | null;
+    const toolCall = {
+      toolUseId: 'toolu_1',
+      toolName: 'Bash',
+      input: { command: 'npm test' },
+      status: 'running' as const,
+    };
+
+    beforeEach(() => {
+      inputHandler = null;
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+    });
+
+    it('should send and persist structured tool calls', async () => {
+      const insert = vi.fn().mockResolvedValue({ error: null });
+      mockSupabase.from = vi.fn().mockReturnValue({ insert });
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['tool-calls'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      await client.broadcastToolCall(toolCall);
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'tool-call', toolCall }),
+        })
+      );
+      expect(insert).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'tool-call', content: JSON.stringify(toolCall) }),
+      ]);
+    });
+
+    it('should send legacy mobiles the tool line as output', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      await client.broadcastToolCall(toolCall);
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({
+            type: 'output',
+            content: '\n[Using tool: Bash]\n',
+            seq: 1,
+          }),
+        })
+      );
+    });
+
+    it('should restore tool calls from the messages table', async () => {
+      const query: any = {};
+      query.select = vi.fn().mockReturnValue(query);
+      query.eq = vi.fn().mockReturnValue(query);
+      query.in = vi.fn().mockReturnValue(query);
+      query.gte = vi.fn().mockReturnValue(query);
+      query.lte = vi.fn().mockReturnValue(query);
+      query.order = vi.fn().mockResolvedValue({
+        data: [
+          {
+            type: 'tool-call',
+            content: JSON.stringify(toolCall),
+            seq: 1,
+            created_at: '2024-01-01T00:00:00Z',
+          },
+        ],
+        error: null,
+      });
+      query.insert = vi.fn().mockResolvedValue({ error: null });
+
+      const client = new RealtimeClient({
+        supabase: { ...mockSupabase, from: vi.fn().mockReturnValue(query) } as unknown as SupabaseClient,
+        sessionId: 'test-session-123',
+        replayBufferSize: 1,
+      });
+
+      await client.connect();
+      await client.broadcastToolCall(toolCall);
+      await client.broadcast('done');
+
+      const replayed = await client.getReplayMessages({ fromSeq: 1, toSeq: 2 });
+
+      expect(replayed).toEqual([
+        { type: 'tool-call', toolCall, timestamp: Date.parse('2024-01-01T00:00:00Z'), seq: 1 },
+        expect.objectContaining({ type: 'output', content: 'done', seq: 2 }),
+      ]);
+    });
+  });
+
+  describe('feature-gated messages', () => {
+    let inputHandler: ((payload: any) => void) | null;
+
+    beforeEach(() => {
+      inputHandler = null;
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+    });
+
+    it('should tell mobiles that support it which request was retracted', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['retractions'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      await client.broadcastRequestRetracted('request-1');
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'request-retracted', retractedId: 'request-1' }),
+        })
+      );
+    });
+
+    it('should not send retractions to legacy mobiles', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      await client.broadcastRequestRetracted('request-1');
+
+      expect(mockOutputChannel.send).not.toHaveBeenCalled();
+    });
+
+    it('should persist thinking but send it only to mobiles that can show it', async () => {
+      const mockInsert = vi.fn().mockResolvedValue({ error: null });
+      const client = new RealtimeClient({
+        supabase: { ...mockSupabase, from: vi.fn().mockReturnValue({ insert: mockInsert }) } as unknown as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      await client.broadcastThinking('Let me check the tests first');
+      expect(mockOutputChannel.send).not.toHaveBeenCalled();
+      expect(mockInsert).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'thinking', content: 'Let me check the tests first' }),
+      ]);
+
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['thinking'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      await client.broadcastThinking('Now the lint');
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'thinking', content: 'Now the lint' }),
+        })
+      );
+    });
+
+    it('should persist question answers as a structured record', async () => {
+      const mockInsert = vi.fn().mockResolvedValue({ error: null });
+      const client = new RealtimeClient({
+        supabase: { ...mockSupabase, from: vi.fn().mockReturnValue({ insert: mockInsert }) } as unknown as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+      const record = {
+        toolUseId: 'toolu_q',
+        questions: [{ question: 'Which?', header: 'Pick', options: [] }],
+        responses: [{ selected: [], text: 'Neither' }],
+      };
+
+      await client.connect();
+      await client.broadcastQuestionAnswer(record);
+      expect(mockOutputChannel.send).not.toHaveBeenCalled();
+      expect(mockInsert).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'question-answer', content: JSON.stringify(record) }),
+      ]);
+
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['question-answers'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      await client.broadcastQuestionAnswer(record);
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'question-answer', questionAnswer: record }),
+        })
+      );
+    });
+
+    it('should send the prompt queue only to mobiles that can show it', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+      const promptQueue = [{ id: 'p1', content: 'Next', attachmentCount: 0, queuedAt: 1 }];
+
+      await client.connect();
+      await client.broadcastPromptQueue(promptQueue);
+      expect(mockOutputChannel.send).not.toHaveBeenCalled();
+
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['prompt-queue'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      await client.broadcastPromptQueue(promptQueue);
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'prompt-queue', promptQueue }),
+        })
+      );
+    });
+
+    it('should send sub-agent updates only to mobiles that can show them', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+      const subAgent = {
+        toolUseId: 'toolu_task',
+        agentType: 'Explore',
+        description: 'Find the config loader',
+        status: 'running' as const,
+        toolCount: 0,
+        startedAt: 1,
+      };
+
+      await client.connect();
+      await client.broadcastSubAgent(subAgent);
+      expect(mockOutputChannel.send).not.toHaveBeenCalled();
+
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['sub-agents'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      await client.broadcastSubAgent(subAgent);
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'sub-agent', subAgent }),
+        })
+      );
+    });
+
+    it('should send the todo list only to mobiles that can show it', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+      const todos = [{ content: 'Run the tests', status: 'pending' as const }];
+
+      await client.connect();
+      await client.broadcastTodos(todos);
+      expect(mockOutputChannel.send).not.toHaveBeenCalled();
+
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['todos'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      await client.broadcastTodos(todos);
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({ type: 'todos', todos }),
+        })
+      );
+    });
+  });
+
+  describe('streaming', () => {
+    let inputHandler: ((payload: any) => void) | null;
+
+    beforeEach(() => {
+      inputHandler = null;
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+    });
+
+    async function connectStreamingClient(insert = vi.fn().mockResolvedValue({ error: null })) {
+      const client = new RealtimeClient({
+        supabase: { ...mockSupabase, from: vi.fn().mockReturnValue({ insert }) } as unknown as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+      await client.connect();
+      inputHandler!({
+        payload: {
+          type: 'hello',
+          protocol: { version: PROTOCOL_VERSION, features: ['streaming'] },
+          timestamp: Date.now(),
+          seq: 1,
+        },
+      });
+      return client;
+    }
+
+    // Everything sent after the capabilities reply to the hello (seq 1)
+    const sentPayloads = () =>
+      (mockOutputChannel.send as ReturnType<typeof vi.fn>).mock.calls
+        .map(([event]) => event.payload)
+        .filter((payload) => payload.type !== 'capabilities');
+
+    it('should merge deltas into one message without persisting it', async () => {
+      const insert = vi.fn().mockResolvedValue({ error: null });
+      const client = await connectStreamingClient(insert);
+
+      await client.broadcastOutputDelta('Hel');
+      await client.broadcastOutputDelta('lo');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(sentPayloads()).toEqual([
+        expect.objectContaining({ type: 'output-delta', content: 'Hello', seq: 2 }),
+      ]);
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it('should drop deltas still waiting when the finished block is sent', async () => {
+      const client = await connectStreamingClient();
+
+      await client.broadcastOutputDelta('Hel');
+      await client.broadcast('Hello');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(sentPayloads()).toEqual([
+        expect.objectContaining({ type: 'output', content: 'Hello', seq: 2 }),
+      ]);
+    });
+
+    it('should send deltas ahead of later messages', async () => {
+      const client = await connectStreamingClient();
+
+      await client.broadcastOutputDelta('Hel');
+      await client.broadcastSystem('[Cancelled]');
+
+      expect(sentPayloads()).toEqual([
+        expect.objectContaining({ type: 'output-delta', content: 'Hel', seq: 2 }),
+        expect.objectContaining({ type: 'system', seq: 3 }),
+      ]);
+    });
+
+    it('should not stream to mobiles that do not support it', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+      await client.connect();
+
+      await client.broadcastOutputDelta('Hel');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockOutputChannel.send).not.toHaveBeenCalled();
+      expect(client.getSeq()).toBe(0);
+    });
+  });
+
+  describe('broadcastReplay', () => {
+    it('should resend buffered messages in the requested range', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      await client.broadcast('message 1');
+      await client.broadcastMode('plan');
+      await client.broadcast('message 3');
+
+      await client.broadcastReplay({ fromSeq: 2, toSeq: 3 });
+
+      expect(mockOutputChannel.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          event: 'output',
+          payload: expect.objectContaining({
+            type: 'replay-response',
+            replayRange: { fromSeq: 2, toSeq: 3 },
+            replayedMessages: [
+              expect.objectContaining({ type: 'mode', seq: 2 }),
+              expect.objectContaining({ type: 'output', content: 'message 3', seq: 3 }),
+            ],
+          }),
+        })
+      );
+    });
+
+    it('should not replay seqs that were never sent', async () => {
+      const client = new RealtimeClient({
+        supabase: mockSupabase as SupabaseClient,
+        sessionId: 'test-session-123',
+      });
+
+      await client.connect();
+      await client.broadcast('message 1');
+
+      const replayed = await client.getReplayMessages({ fromSeq: 1, toSeq: 10 });
+
+      expect(replayed.map((m) => m.seq)).toEqual([1]);
+    });
+
+    it('should fall back to the messages table for evicted messages', async () => {
+      const order = vi.fn().mockResolvedValue({
+        data: [
+          { type: 'output', content: 'message 1', seq: 1, created_at: '2024-01-01T00:00:00Z' },
+        ],
+        error: null,
+      });
+      const query: any = {};
+      query.select = vi.fn().mockReturnValue(query);
+      query.eq = vi.fn().mockReturnValue(query);
+      query.in = vi.fn().mockReturnValue(query);
+      query.gte = vi.fn().mockReturnValue(query);
+      query.lte = vi.fn().mockReturnValue(query);
+      query.order = order;
+      query.insert = vi.fn().mockResolvedValue({ error: null });
+
+      const supabaseWithHistory = {
+        ...mockSupabase,
+        from: vi.fn().mockReturnValue(query),
+      };
+
+      const client = new RealtimeClient({
+        supabase: supabaseWithHistory as unknown as SupabaseClient,
+        sessionId: 'test-session-123',
+        replayBufferSize: 2,
+      });
+
+      await client.connect();
+      await client.broadcast('message 1');
+      await client.broadcast('message 2');
+      await client.broadcast('message 3');
+
+      const replayed = await client.getReplayMessages({ fromSeq: 1, toSeq: 3 });
+
+      expect(query.in).toHaveBeenCalledWith('type', [
+        'output',
+        'system',
+        'error',
+        'tool-call',
+        'thinking',
+        'question-answer',
+      ]);
+      expect(query.gte).toHaveBeenCalledWith('seq', 1);
+      expect(query.lte).toHaveBeenCalledWith('seq', 1);
+      expect(replayed.map((m) => m.content)).toEqual(['message 1', 'message 2', 'message 3']);
+    });
+  });
+
   it('should persist messages but not send via realtime when realtime is disabled', async () => {
     // Create channel that returns CHANNEL_ERROR (realtime disabled)
     const errorOutputChannel = {
@@ -376,4 +376,64 @@ describe('ConfigManager', () => {
       expect(configManager2.getThinkingMode()).toBe(false);
     });
   });
+
+  describe('permission rules', () => {
+    const PROJECT_DIR = join(TEST_DIR, 'project');
+
+    beforeEach(() => {
+      mkdirSync(join(PROJECT_DIR, '.claude'), { recursive: true });
+      configManager = new ConfigManager({ cwd: PROJECT_DIR, homeDir: TEST_DIR });
+    });
+
+    it('should collect rules from every settings file', () => {
+      writeFileSync(
+        join(CLAUDE_DIR, 'settings.json'),
+        JSON.stringify({ permissions: { allow: ['Read'], deny: ['Bash(rm:*)'] } })
+      );
+      writeFileSync(
+        join(PROJECT_DIR, '.claude', 'settings.json'),
+        JSON.stringify({ permissions: { allow: ['Bash(npm test:*)', 'not a rule'], ask: ['Write'] } })
+      );
+
+      expect(configManager.getPermissionRules()).toEqual([
+        { toolName: 'Read', behavior: 'allow' },
+        { toolName: 'Bash', ruleContent: 'rm:*', behavior: 'deny' },
+        { toolName: 'Bash', ruleContent: 'npm test:*', behavior: 'allow' },
+        { toolName: 'Write', behavior: 'ask' },
+      ]);
+    });
+
+    it('should save added rules to the destination settings file once', () => {
+      const update = {
+        type: 'addRules' as const,
+        rules: [{ toolName: 'Bash', ruleContent: 'npm test:*' }],
+        behavior: 'allow' as const,
+        destination: 'localSettings' as const,
+      };
+
+      expect(configManager.addPermissionRules(update)).toBe(true);
+      expect(configManager.addPermissionRules(update)).toBe(true);
+
+      const saved = JSON.parse(
+        readFileSync(join(PROJECT_DIR, '.claude', 'settings.local.json'), 'utf-8')
+      );
+      expect(saved.permissions.allow).toEqual(['Bash(npm test:*)']);
+      expect(configManager.getPermissionRules()).toContainEqual({
+        toolName: 'Bash',
+        ruleContent: 'npm test:*',
+        behavior: 'allow',
+      });
+    });
+
+    it('should not save session-only rules', () => {
+      configManager.addPermissionRules({
+        type: 'addRules',
+        rules: [{ toolName: 'Read' }],
+        behavior: 'allow',
+        destination: 'session',
+      });
+
+      expect(configManager.getPermissionRules()).toEqual([]);
+    });
+  });
 });
@@ -11,6 +11,9 @@ describe('Config', () => {
     // Clean env vars
     delete process.env.SUPABASE_URL;
     delete process.env.SUPABASE_ANON_KEY;
+    delete process.env.TERMBRIDGE_RELAY_URL;
+    delete process.env.TERMBRIDGE_EVENTS_PER_SECOND;
+    delete process.env.TERMBRIDGE_PERMISSION_TIMEOUT;
 
     // Create test config dir
     if (!existsSync(TEST_CONFIG_DIR)) {
@@ -230,6 +233,176 @@ describe('Config', () => {
     });
   });
 
+  describe('Relay URL', () => {
+    it('should return undefined when no relay is configured', async () => {
+      const { Config } = await import('../utils/config.js');
+      const config = new Config(TEST_CONFIG_DIR);
+
+      expect(config.getRelayUrl()).toBeUndefined();
+    });
+
+    it('should prefer TERMBRIDGE_RELAY_URL over config file', async () => {
+      writeFileSync(
+        join(TEST_CONFIG_DIR, 'config.json'),
+        JSON.stringify({ relayUrl: 'ws://config-file:8787' })
+      );
+      process.env.TERMBRIDGE_RELAY_URL = 'ws://env-var:8787';
+
+      const { Config } = await import('../utils/config.js');
+      const config = new Config(TEST_CONFIG_DIR);
+
+      expect(config.getRelayUrl()).toBe('ws://env-var:8787');
+    });
+
+    it('should validate relay URL format', async () => {
+      process.env.TERMBRIDGE_RELAY_URL = 'not-a-valid-url';
+
+      const { Config } = await import('../utils/config.js');
+      const config = new Config(TEST_CONFIG_DIR);
+
+      expect(() => config.getRelayUrl()).toThrow('TERMBRIDGE_RELAY_URL must be a valid URL');
+    });
+
+    it('should name the config file when its relay URL is invalid', async () => {
+      writeFileSync(join(TEST_CONFIG_DIR, 'config.json'), JSON.stringify({ relayUrl: 'nope' }));
+
+      const { Config } = await import('../utils/config.js');
+      const config = new Config(TEST_CONFIG_DIR);
+
+      expect(() => config.getRelayUrl()).toThrow(
+        `relayUrl in ${join(TEST_CONFIG_DIR, 'config.json')} must be a valid URL`
+      );
+    });
+  });
+
+  describe('Event budget', () => {
+    it('should default to the Supabase rate limit', async () => {
+      const { Config } = await import('../utils/config.js');
+      const config = new Config(TEST_CONFIG_DIR);
+
+      expect(config.getEventsPerSecond()).toBe(10);
+    });
+
+    it('should prefer TERMBRIDGE_EVENTS_PER_SECOND over config file', async () => {
+      writeFileSync(join(TEST_CONFIG_DIR, 'config.json'), JSON.stringify({ eventsPerSecond: 20 }));
+
+      const { Config } = await import('../utils/config.js');
+      expect(new Config(TEST_CONFIG_DIR).getEventsPerSecond()).toBe(20);
+
+      process.env.TERMBRIDGE_EVENTS_PER_SECOND = '5';
+      expect(new Config(TEST_CONFIG_DIR).getEventsPerSecond()).toBe(5);
+    });
+
+    it('should reject budgets that are not positive integers', async () => {
+      process.env.TERMBRIDGE_EVENTS_PER_SECOND = '0';
+
+      const { Config } = await import('../utils/config.js');
+      const config = new Config(TEST_CONFIG_DIR);
+
+      expect(() => config.getEventsPerSecond()).toThrow('positive integer');
+    });
+  });
+
+  describe('Permission timeouts', () => {
+    it('should read per-tool rules from the config file', async () => {
+      const permissionTimeouts = {
+        default: { timeoutSeconds: 300, action: 'deny' },
+        tools: { Read: { timeoutSeconds: 60, action: 'allow' } },
+      };
+      writeFileSync(join(TEST_CONFIG_DIR, 'config.json'), JSON.stringify({ permissionTimeouts }));
+
+      const { Config } = await import('../utils/config.js');
+
+      expect(new Config(TEST_CONFIG_DIR).getPermissionTimeouts()).toEqual(permissionTimeouts);
+    });
+
+    it('should let TERMBRIDGE_PERMISSION_TIMEOUT override the default timeout', async () => {
+      writeFileSync(
+        join(TEST_CONFIG_DIR, 'config.json'),
+        JSON.stringify({ permissionTimeouts: { default: { timeoutSeconds: 300, action: 'local' } } })
+      );
+      process.env.TERMBRIDGE_PERMISSION_TIMEOUT = '0';
+
+      const { Config } = await import('../utils/config.js');
+
+      expect(new Config(TEST_CONFIG_DIR).getPermissionTimeouts().default).toEqual({
+        timeoutSeconds: 0,
+        action: 'local',
+      });
+    });
+
+    it('should reject malformed rules', async () => {
+      writeFileSync(
+        join(TEST_CONFIG_DIR, 'config.json'),
+        JSON.stringify({ permissionTimeouts: { tools: { Bash: { timeoutSeconds: 10, action: 'ask' } } } })
+      );
+
+      const { Config } = await import('../utils/config.js');
+
+      expect(() => new Config(TEST_CONFIG_DIR).getPermissionTimeouts()).toThrow('deny, allow or local');
+    });
+  });
+
+  describe('Permission rules', () => {
+    it('should read rules, optionally scoped to a directory', async () => {
+      writeFileSync(
+        join(TEST_CONFIG_DIR, 'config.json'),
+        JSON.stringify({
+          permissionRules: {
+            allow: ['Read', { rule: 'Bash(npm test:*)', cwd: '/work/app' }],
+            deny: ['WebFetch'],
+          },
+        })
+      );
+
+      const { Config } = await import('../utils/config.js');
+
+      expect(new Config(TEST_CONFIG_DIR).getPermissionRules()).toEqual([
+        { toolName: 'Read', behavior: 'allow' },
+        { toolName: 'Bash', ruleContent: 'npm test:*', behavior: 'allow', cwd: '/work/app' },
+        { toolName: 'WebFetch', behavior: 'deny' },
+      ]);
+    });
+
+    it('should reject invalid rules and unknown lists', async () => {
+      const { Config } = await import('../utils/config.js');
+
+      writeFileSync(
+        join(TEST_CONFIG_DIR, 'config.json'),
+        JSON.stringify({ permissionRules: { allow: ['Bash(npm test'] } })
+      );
+      expect(() => new Config(TEST_CONFIG_DIR).getPermissionRules()).toThrow('Invalid permission rule');
+
+      writeFileSync(
+        join(TEST_CONFIG_DIR, 'config.json'),
+        JSON.stringify({ permissionRules: { always: ['Read'] } })
+      );
+      expect(() => new Config(TEST_CONFIG_DIR).getPermissionRules()).toThrow('allow, deny or ask');
+    });
+  });
+
+  describe('Encryption key', () => {
+    it('should round-trip the pairing key through the config file', async () => {
+      const { Config } = await import('../utils/config.js');
+      const key = new Uint8Array(32).fill(7);
+
+      expect(new Config(TEST_CONFIG_DIR).getEncryptionKey()).toBeUndefined();
+
+      new Config(TEST_CONFIG_DIR).setEncryptionKey(key);
+
+      expect(new Config(TEST_CONFIG_DIR).getEncryptionKey()).toEqual(key);
+    });
+
+    it('should reject a corrupted stored key', async () => {
+      writeFileSync(join(TEST_CONFIG_DIR, 'config.json'), JSON.stringify({ encryptionKey: 'abc' }));
+
+      const { Config } = await import('../utils/config.js');
+      const config = new Config(TEST_CONFIG_DIR);
+
+      expect(() => config.getEncryptionKey()).toThrow('pair --rotate');
+    });
+  });
+
   describe('requireConfiguration', () => {
     it('should not throw when config file has credentials', async () => {
       const configFile = join(TEST_CONFIG_DIR, 'config.json');
@@ -6,6 +6,7 @@ import type {
   RealtimeMessage,
   SlashCommand,
 } from 'termbridge-shared';
+import { generateEncryptionKey, decryptText } from 'termbridge-shared';
 
 // Mock Claude Agent SDK
 vi.mock('@anthropic-ai/claude-agent-sdk', () => ({
@@ -430,6 +431,54 @@ describe('Daemon', () => {
     });
   });
 
+  describe('replay handling', () => {
+    it('should answer replay-request with a replay-response', async () => {
+      let inputHandler: ((payload: any) => void) | null = null;
+
+      mockInputChannel.on = vi.fn((event, filter, handler) => {
+        if (event === 'broadcast' && filter.event === 'input') {
+          inputHandler = handler;
+        }
+        return mockInputChannel as RealtimeChannel;
+      });
+
+      daemon = new Daemon({
+        supabase: mockSupabase as SupabaseClient,
+        userId: 'user-456',
+        cwd: '/home/user',
+      });
+
+      await daemon.start();
+
+      // Simulate mobile detecting a gap in the output sequence
+      if (inputHandler) {
+        inputHandler({
+          payload: {
+            type: 'replay-request',
+            replayRange: { fromSeq: 1, toSeq: 2 },
+            timestamp: Date.now(),
+            seq: 1,
+          },
+        });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(mockOutputChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({
+            type: 'replay-response',
+            replayRange: { fromSeq: 1, toSeq: 2 },
+            replayedMessages: expect.arrayContaining([
+              expect.objectContaining({ seq: 1 }),
+              expect.objectContaining({ seq: 2 }),
+            ]),
+          }),
+        })
+      );
+    });
+  });
+
   describe('attachment handling', () => {
     it('should extract attachments from incoming RealtimeMessage', async () => {
       // Test the logic for extracting attachments
@@ -915,4 +964,237 @@ describe('Daemon', () => {
       );
     });
   });
+
+  describe('prompt queue', () => {
+    // Stand in for SdkSession.sendPrompt: each query runs until finish() is called
+    function trackQueries(sdkSession: any) {
+      const prompts: string[] = [];
+      const finishers: Array<() => void> = [];
+      vi.spyOn(sdkSession, 'sendPrompt').mockImplementation((prompt: any) => {
+        prompts.push(prompt);
+        return new Promise<void>((resolve) => finishers.push(resolve));
+      });
+      const finish = async () => {
+        finishers.shift()!();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      };
+      return { prompts, finish };
+    }
+
+    beforeEach(async () => {
+      daemon = new Daemon({
+        supabase: mockSupabase as SupabaseClient,
+        userId: 'user-456',
+        cwd: '/home/user',
+        hybrid: false,
+      });
+      await daemon.start();
+    });
+
+    it('should queue prompts sent during a query and run them in order', async () => {
+      const { prompts, finish } = trackQueries((daemon as any).sdkSession);
+
+      const first = daemon!.sendPrompt('one');
+      await daemon!.sendPrompt('two');
+      await daemon!.sendPrompt('three');
+      expect(prompts).toEqual(['one']);
+      expect((daemon as any).promptQueue.list().map((p: any) => p.content)).toEqual([
+        'two',
+        'three',
+      ]);
+
+      await finish();
+      expect(prompts).toEqual(['one', 'two']);
+      await finish();
+      await finish();
+      await first;
+      expect(prompts).toEqual(['one', 'two', 'three']);
+    });
+
+    it('should hold the queue after an interrupt until the next prompt', async () => {
+      const sdkSession = (daemon as any).sdkSession;
+      const { prompts, finish } = trackQueries(sdkSession);
+
+      const first = daemon!.sendPrompt('one');
+      await daemon!.sendPrompt('two');
+      sdkSession.emit('cancelled');
+      await finish();
+      await first;
+      expect(prompts).toEqual(['one']);
+
+      const next = daemon!.sendPrompt('three');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(prompts).toEqual(['one', 'two']);
+      await finish();
+      await finish();
+      await next;
+      expect(prompts).toEqual(['one', 'two', 'three']);
+    });
+
+    it('should hold queued prompts while a limit is reached until it is overridden', async () => {
+      const sdkSession = (daemon as any).sdkSession;
+      const { prompts, finish } = trackQueries(sdkSession);
+
+      const first = daemon!.sendPrompt('one');
+      await daemon!.sendPrompt('two');
+      sdkSession.setLimits({ maxCostUsd: 1 });
+      sdkSession.limitReached = 'cost';
+      await finish();
+      await first;
+      await daemon!.sendPrompt('three');
+      expect(prompts).toEqual(['one']);
+      expect((daemon as any).promptQueue.size).toBe(2);
+
+      sdkSession.overrideLimit();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(prompts).toEqual(['one', 'two']);
+      expect(sdkSession.getLimitsState()).toEqual({ limits: {} });
+    });
+  });
+
+  it('should keep a running usage total and save it on the session', async () => {
+    daemon = new Daemon({
+      supabase: mockSupabase as SupabaseClient,
+      userId: 'user-456',
+      cwd: '/home/user',
+      hybrid: false,
+    });
+    await daemon.start();
+    const updateUsage = vi
+      .spyOn((daemon as any).sessionManager, 'updateSessionUsage')
+      .mockResolvedValue(undefined);
+    const turn = {
+      inputTokens: 10,
+      outputTokens: 100,
+      cacheReadTokens: 1000,
+      cacheCreationTokens: 0,
+      costUsd: 0.5,
+      durationMs: 2000,
+      turns: 1,
+    };
+
+    const sdkSession = (daemon as any).sdkSession;
+    sdkSession.emit('usage', turn);
+    sdkSession.emit('usage', turn);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(updateUsage).toHaveBeenLastCalledWith('session-789', {
+      inputTokens: 20,
+      outputTokens: 200,
+      cacheReadTokens: 2000,
+      cacheCreationTokens: 0,
+      costUsd: 1,
+      durationMs: 4000,
+      turns: 2,
+    });
+  });
+
+  it('should save the latest todo list on the session, sealed when paired', async () => {
+    const encryptionKey = generateEncryptionKey();
+    daemon = new Daemon({
+      supabase: mockSupabase as SupabaseClient,
+      userId: 'user-456',
+      cwd: '/home/user',
+      hybrid: false,
+      encryptionKey,
+    });
+    await daemon.start();
+    const updateTodos = vi
+      .spyOn((daemon as any).sessionManager, 'updateSessionTodos')
+      .mockResolvedValue(undefined);
+    const todos = [{ content: 'Run the tests', status: 'in_progress' }];
+
+    (daemon as any).sdkSession.emit('todos', todos);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(updateTodos).toHaveBeenCalledWith('session-789', expect.any(String));
+    const stored = updateTodos.mock.calls[0]![1] as string;
+    expect(stored).not.toContain('Run the tests');
+    expect(decryptText(stored, encryptionKey)).toBe(JSON.stringify(todos));
+  });
+
+  it('should save an "always allow" rule once, leaving the SDK out of it', async () => {
+    let inputHandler: ((payload: any) => void) | null = null;
+    mockInputChannel.on = vi.fn((event, filter, handler) => {
+      if (event === 'broadcast' && filter.event === 'input') {
+        inputHandler = handler;
+      }
+      return mockInputChannel as RealtimeChannel;
+    });
+    daemon = new Daemon({
+      supabase: mockSupabase as SupabaseClient,
+      userId: 'user-456',
+      cwd: '/home/user',
+      hybrid: false,
+    });
+    await daemon.start();
+    const sdkSession = (daemon as any).sdkSession;
+    const addPermissionRules = vi
+      .spyOn((daemon as any).configManager, 'addPermissionRules')
+      .mockReturnValue(true);
+    let requestId = '';
+    sdkSession.on('permission-request', (request: any) => (requestId = request.requestId));
+    const decision = sdkSession.createCanUseTool()('Bash', { command: 'npm test' }, {
+      signal: new AbortController().signal,
+      toolUseID: 'toolu_1',
+    });
+    const update = {
+      type: 'addRules',
+      rules: [{ toolName: 'Bash', ruleContent: 'npm test:*' }],
+      behavior: 'allow',
+      destination: 'localSettings',
+    };
+
+    inputHandler!({
+      payload: {
+        type: 'permission-response',
+        permissionResponse: { requestId, behavior: 'allow', updatedPermissions: [update] },
+        timestamp: Date.now(),
+        seq: 1,
+      },
+    });
+
+    // The SDK saves rules it is given to the same settings file
+    await expect(decision).resolves.toEqual({ behavior: 'allow' });
+    expect(addPermissionRules).toHaveBeenCalledTimes(1);
+    expect(addPermissionRules).toHaveBeenCalledWith(update);
+  });
+
+  it('should send answers to a question that is no longer waiting as a prompt', async () => {
+    let inputHandler: ((payload: any) => void) | null = null;
+    mockInputChannel.on = vi.fn((event, filter, handler) => {
+      if (event === 'broadcast' && filter.event === 'input') {
+        inputHandler = handler;
+      }
+      return mockInputChannel as RealtimeChannel;
+    });
+    daemon = new Daemon({
+      supabase: mockSupabase as SupabaseClient,
+      userId: 'user-456',
+      cwd: '/home/user',
+      hybrid: false,
+    });
+    await daemon.start();
+    const sdkSession = (daemon as any).sdkSession;
+    const sendPrompt = vi.spyOn(sdkSession, 'sendPrompt').mockResolvedValue(undefined);
+    sdkSession.askedQuestions.set('toolu_q', [
+      { question: 'Which features?', header: 'Features', options: [], multiSelect: true },
+    ]);
+
+    inputHandler!({
+      payload: {
+        type: 'user-answer',
+        userAnswer: {
+          toolUseId: 'toolu_q',
+          answers: {},
+          responses: [{ selected: ['Auth', 'Search'] }],
+        },
+        timestamp: Date.now(),
+        seq: 1,
+      },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(sendPrompt).toHaveBeenCalledWith('Which features?\n→ Auth, Search', undefined);
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createToolDiff } from '../daemon/file-diff.js';
+
+const TEST_DIR = join(tmpdir(), 'termbridge-file-diff-test-' + Date.now());
+
+describe('createToolDiff', () => {
+  beforeEach(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(join(TEST_DIR, 'app.ts'), 'const a = 1;\nconst b = 2;\nconst c = 3;\n');
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should diff an Edit against the file on disk', () => {
+    const diff = createToolDiff(
+      'Edit',
+      { file_path: 'app.ts', old_string: 'const b = 2;', new_string: 'const b = 20;' },
+      TEST_DIR
+    );
+
+    expect(diff).toMatchObject({ filePath: 'app.ts', status: 'modified', additions: 1, deletions: 1 });
+    expect(diff!.snippet).toBeUndefined();
+    expect(diff!.hunks[0]).toMatchObject({
+      oldStart: 1,
+      lines: [' const a = 1;', '-const b = 2;', '+const b = 20;', ' const c = 3;'],
+    });
+  });
+
+  it('should apply MultiEdit edits in order', () => {
+    const diff = createToolDiff(
+      'MultiEdit',
+      {
+        file_path: join(TEST_DIR, 'app.ts'),
+        edits: [
+          { old_string: 'const', new_string: 'let', replace_all: true },
+          { old_string: 'let c = 3;', new_string: 'let c = 30;' },
+        ],
+      },
+      '/'
+    );
+
+    expect(diff).toMatchObject({ additions: 3, deletions: 3 });
+    expect(diff!.hunks[0]!.lines).toContain('+let c = 30;');
+  });
+
+  it('should show a Write to a new file as an added file', () => {
+    const diff = createToolDiff('Write', { file_path: 'new.ts', content: 'export {};\n' }, TEST_DIR);
+
+    expect(diff).toMatchObject({ status: 'added', additions: 1, deletions: 0 });
+  });
+
+  it('should fall back to the edited text when it is not in the file', () => {
+    const diff = createToolDiff(
+      'Edit',
+      { file_path: 'app.ts', old_string: 'missing', new_string: 'replacement' },
+      TEST_DIR
+    );
+
+    expect(diff).toMatchObject({ snippet: true, additions: 1, deletions: 1 });
+  });
+
+  it('should ignore other tools and malformed input', () => {
+    expect(createToolDiff('Bash', { command: 'ls' }, TEST_DIR)).toBeNull();
+    expect(createToolDiff('Write', { file_path: 'a.ts' }, TEST_DIR)).toBeNull();
+    expect(createToolDiff('Edit', { old_string: 'a', new_string: 'b' }, TEST_DIR)).toBeNull();
+  });
+});
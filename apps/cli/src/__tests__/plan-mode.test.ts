@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getPlanFromInput, resolvePlanDecision } from '../daemon/plan-mode.js';
+
+describe('plan mode', () => {
+  it('should read the plan from ExitPlanMode input', () => {
+    expect(getPlanFromInput({ plan: '## Plan\n1. Do it' })).toBe('## Plan\n1. Do it');
+    expect(getPlanFromInput({})).toBe('');
+  });
+
+  it('should switch modes when the plan is approved', () => {
+    expect(
+      resolvePlanDecision({ requestId: 'r1', behavior: 'allow', planDecision: 'approve' })
+    ).toEqual({
+      result: {
+        behavior: 'allow',
+        updatedPermissions: [{ type: 'setMode', mode: 'default', destination: 'session' }],
+      },
+      mode: 'default',
+    });
+    expect(
+      resolvePlanDecision({ requestId: 'r1', behavior: 'allow', planDecision: 'approve-auto-edits' })
+        .mode
+    ).toBe('acceptEdits');
+  });
+
+  it('should treat a plain allow from older apps as an approval', () => {
+    expect(resolvePlanDecision({ requestId: 'r1', behavior: 'allow' }).mode).toBe('default');
+  });
+
+  it('should stay in plan mode and pass feedback on when asked to keep planning', () => {
+    const { result, mode } = resolvePlanDecision({
+      requestId: 'r1',
+      behavior: 'deny',
+      planDecision: 'keep-planning',
+      message: 'Add tests first',
+    });
+
+    expect(mode).toBe('plan');
+    expect(result).toMatchObject({ behavior: 'deny' });
+    expect(result.behavior === 'deny' && result.message).toContain('Their feedback: Add tests first');
+    expect(
+      resolvePlanDecision({ requestId: 'r1', behavior: 'deny', message: 'Permission denied by user' })
+        .result
+    ).not.toHaveProperty('message', expect.stringContaining('Permission denied'));
+  });
+});
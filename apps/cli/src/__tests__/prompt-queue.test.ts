@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { PromptQueue } from '../daemon/prompt-queue.js';
+
+describe('PromptQueue', () => {
+  function queueOf(...contents: string[]) {
+    const queue = new PromptQueue();
+    const ids = contents.map((content) => queue.enqueue(content).id);
+    const contentsOf = () => queue.list().map((prompt) => prompt.content);
+    return { queue, ids, contentsOf };
+  }
+
+  it('should dispatch prompts in the order they were queued', () => {
+    const { queue } = queueOf('one', 'two');
+
+    expect(queue.shift()?.content).toBe('one');
+    expect(queue.shift()?.content).toBe('two');
+    expect(queue.shift()).toBeUndefined();
+  });
+
+  it('should keep attachments out of the listed queue', () => {
+    const queue = new PromptQueue();
+    const attachment = { type: 'image' as const, mediaType: 'image/png' as const, data: 'abc' };
+    queue.enqueue('look', [attachment]);
+
+    expect(queue.list()).toEqual([
+      { id: expect.any(String), content: 'look', attachmentCount: 1, queuedAt: expect.any(Number) },
+    ]);
+    expect(queue.shift()?.attachments).toEqual([attachment]);
+  });
+
+  it('should move and remove queued prompts', () => {
+    const { queue, ids, contentsOf } = queueOf('one', 'two', 'three');
+
+    expect(queue.apply({ action: 'move', promptId: ids[2]!, toIndex: 0 })).toBe(true);
+    expect(contentsOf()).toEqual(['three', 'one', 'two']);
+
+    expect(queue.apply({ action: 'move', promptId: ids[2]!, toIndex: 10 })).toBe(true);
+    expect(contentsOf()).toEqual(['one', 'two', 'three']);
+
+    expect(queue.apply({ action: 'remove', promptId: ids[1]! })).toBe(true);
+    expect(contentsOf()).toEqual(['one', 'three']);
+  });
+
+  it('should ignore updates for prompts no longer queued', () => {
+    const { queue, ids, contentsOf } = queueOf('one');
+    queue.shift();
+
+    expect(queue.apply({ action: 'remove', promptId: ids[0]! })).toBe(false);
+    expect(contentsOf()).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import WebSocket from 'ws';
+import { WebSocketTransport } from 'termbridge-shared';
+import type { TransportChannel, TransportStatus } from 'termbridge-shared';
+import { RelayServer } from '../realtime/relay-server.js';
+
+function waitFor<T>(register: (resolve: (value: T) => void) => void): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('Timed out')), 2000);
+    register((value) => {
+      clearTimeout(timeout);
+      resolve(value);
+    });
+  });
+}
+
+function subscribe(channel: TransportChannel): Promise<TransportStatus> {
+  return waitFor((resolve) => {
+    channel.subscribe((status) => resolve(status));
+  });
+}
+
+describe('RelayServer', () => {
+  let server: RelayServer;
+  let url: string;
+  const createTransport = (query: string = '') =>
+    new WebSocketTransport({ url: `${url}${query}`, WebSocket });
+
+  // Removing every channel closes the socket and stops reconnect attempts
+  const channels: Array<[WebSocketTransport, TransportChannel]> = [];
+  const createChannel = (transport: WebSocketTransport, name: string) => {
+    const channel = transport.channel(name);
+    channels.push([transport, channel]);
+    return channel;
+  };
+
+  beforeEach(async () => {
+    server = new RelayServer({ port: 0, host: '127.0.0.1' });
+    const port = await server.start();
+    url = `ws://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    for (const [transport, channel] of channels) {
+      await transport.removeChannel(channel);
+    }
+    channels.length = 0;
+    await server.stop();
+  });
+
+  it('should deliver broadcasts to other clients on the channel', async () => {
+    const cli = createChannel(createTransport(), 'session:1:output');
+    const mobile = createChannel(createTransport(), 'session:1:output');
+
+    const received = waitFor<unknown>((resolve) => {
+      mobile.onMessage('output', resolve);
+    });
+
+    expect(await subscribe(mobile)).toBe('SUBSCRIBED');
+    expect(await subscribe(cli)).toBe('SUBSCRIBED');
+
+    await cli.send('output', { type: 'output', content: 'hello', seq: 1 });
+
+    expect(await received).toEqual({ type: 'output', content: 'hello', seq: 1 });
+  });
+
+  it('should not echo broadcasts back to the sender', async () => {
+    const cli = createChannel(createTransport(), 'session:1:output');
+    const mobile = createChannel(createTransport(), 'session:1:output');
+
+    let echoed = false;
+    cli.onMessage('output', () => {
+      echoed = true;
+    });
+    const received = waitFor<unknown>((resolve) => {
+      mobile.onMessage('output', resolve);
+    });
+
+    await subscribe(cli);
+    await subscribe(mobile);
+    await cli.send('output', 'hello');
+    await received;
+
+    expect(echoed).toBe(false);
+  });
+
+  it('should sync presence and report leaves when a client disconnects', async () => {
+    const cliTransport = createTransport();
+    const cli = createChannel(cliTransport, 'session:1:presence');
+    const mobile = createChannel(createTransport(), 'session:1:presence');
+
+    await subscribe(mobile);
+
+    const joined = waitFor<void>((resolve) => {
+      mobile.onPresence('join', ({ newPresences }) => {
+        if (newPresences.some((p) => p.type === 'cli')) resolve();
+      });
+    });
+    await subscribe(cli);
+    await cli.track({ type: 'cli', online_at: new Date().toISOString() });
+    await joined;
+
+    expect(Object.values(mobile.presenceState()).flat()).toEqual([
+      expect.objectContaining({ type: 'cli' }),
+    ]);
+
+    const left = waitFor<void>((resolve) => {
+      mobile.onPresence('leave', ({ leftPresences }) => {
+        if (leftPresences.some((p) => p.type === 'cli')) resolve();
+      });
+    });
+    await cliTransport.removeChannel(cli);
+    await left;
+
+    expect(mobile.presenceState()).toEqual({});
+  });
+
+  it('should reject clients without the configured token', async () => {
+    await server.stop();
+    server = new RelayServer({ port: 0, host: '127.0.0.1', token: 'secret' });
+    url = `ws://127.0.0.1:${await server.start()}`;
+
+    const denied = createChannel(createTransport('?token=wrong'), 'session:1:output');
+    expect(await subscribe(denied)).toBe('CHANNEL_ERROR');
+
+    const allowed = createChannel(createTransport('?token=secret'), 'session:1:output');
+    expect(await subscribe(allowed)).toBe('SUBSCRIBED');
+  });
+});
@@ -1,4 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import type { ImageAttachment, ModelInfo, SlashCommand } from 'termbridge-shared';
 
 // Mock Claude Agent SDK
@@ -7,6 +10,7 @@ vi.mock('@anthropic-ai/claude-agent-sdk', () => ({
 }));
 
 import { SdkSession } from '../daemon/sdk-session.js';
+import type { SdkSessionOptions } from '../daemon/sdk-session.js';
 import { query } from '@anthropic-ai/claude-agent-sdk';
 
 describe('SdkSession', () => {
@@ -421,4 +425,875 @@ describe('SdkSession', () => {
       expect(mockSetMaxThinkingTokens).not.toHaveBeenCalled();
     });
   });
+
+  describe('usage', () => {
+    it('should report the usage and cost of each turn', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield {
+          type: 'result',
+          subtype: 'success',
+          result: 'done',
+          duration_ms: 4200,
+          total_cost_usd: 0.031,
+          usage: {
+            input_tokens: 12,
+            output_tokens: 340,
+            cache_read_input_tokens: 9000,
+            cache_creation_input_tokens: 150,
+          },
+        };
+      } as any);
+      const usageHandler = vi.fn();
+      sdkSession.on('usage', usageHandler);
+
+      await sdkSession.sendPrompt('Hi');
+
+      expect(usageHandler).toHaveBeenCalledWith({
+        inputTokens: 12,
+        outputTokens: 340,
+        cacheReadTokens: 9000,
+        cacheCreationTokens: 150,
+        costUsd: 0.031,
+        durationMs: 4200,
+        turns: 1,
+      });
+    });
+  });
+
+  describe('streaming', () => {
+    it('should emit text deltas from the main agent only', async () => {
+      const delta = (text: string, parentToolUseId: string | null = null) => ({
+        type: 'stream_event',
+        parent_tool_use_id: parentToolUseId,
+        event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+      });
+      mockedQuery.mockImplementation(async function* () {
+        yield delta('Hel');
+        yield delta('lo');
+        yield delta('sub-agent', 'toolu_task');
+        yield {
+          type: 'stream_event',
+          parent_tool_use_id: null,
+          event: { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{' } },
+        };
+        yield { type: 'assistant', message: { content: [{ type: 'text', text: 'Hello' }] } };
+        yield { type: 'result', result: 'done' };
+      } as any);
+      const deltaHandler = vi.fn();
+      const outputHandler = vi.fn();
+      sdkSession.on('output-delta', deltaHandler);
+      sdkSession.on('output', outputHandler);
+
+      await sdkSession.sendPrompt('Hi');
+
+      expect(mockedQuery.mock.calls[0]![0].options).toMatchObject({ includePartialMessages: true });
+      expect(deltaHandler.mock.calls).toEqual([['Hel'], ['lo']]);
+      expect(outputHandler).toHaveBeenCalledWith('Hello');
+    });
+  });
+
+  describe('thinking', () => {
+    it('should emit thinking blocks separately from the answer', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield {
+          type: 'assistant',
+          message: {
+            content: [
+              { type: 'thinking', thinking: 'The user wants a greeting', signature: 'sig' },
+              { type: 'redacted_thinking', data: 'opaque' },
+              { type: 'text', text: 'Hello' },
+            ],
+          },
+        };
+        yield { type: 'result', result: 'done' };
+      } as any);
+      const thinkingHandler = vi.fn();
+      const outputHandler = vi.fn();
+      sdkSession.on('thinking', thinkingHandler);
+      sdkSession.on('output', outputHandler);
+
+      await sdkSession.sendPrompt('Hi');
+
+      expect(thinkingHandler.mock.calls).toEqual([['The user wants a greeting']]);
+      expect(outputHandler.mock.calls).toEqual([['Hello']]);
+    });
+  });
+
+  describe('sub-agents', () => {
+    const taskUse = {
+      type: 'tool_use',
+      id: 'toolu_task',
+      name: 'Task',
+      input: { description: 'Find the config loader', prompt: '...', subagent_type: 'Explore' },
+    };
+    const agentMessages = [
+      { type: 'assistant', parent_tool_use_id: null, message: { content: [taskUse] } },
+      {
+        type: 'assistant',
+        parent_tool_use_id: 'toolu_task',
+        message: {
+          content: [{ type: 'tool_use', id: 'toolu_grep', name: 'Grep', input: { pattern: 'config' } }],
+        },
+      },
+    ];
+
+    it('should track a sub-agent from its Task call to its result', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield* agentMessages;
+        yield {
+          type: 'user',
+          parent_tool_use_id: null,
+          message: {
+            content: [{ type: 'tool_result', tool_use_id: 'toolu_task', content: 'src/config.ts' }],
+          },
+        };
+        yield { type: 'result', result: 'done' };
+      } as any);
+      const events: Array<[string, any]> = [];
+      for (const event of ['agent-start', 'agent-progress', 'agent-finish']) {
+        sdkSession.on(event, (agent) => events.push([event, agent]));
+      }
+      const toolCallHandler = vi.fn();
+      sdkSession.on('tool-call', toolCallHandler);
+
+      await sdkSession.sendPrompt('Where is the config loaded?');
+
+      expect(events.map(([event]) => event)).toEqual(['agent-start', 'agent-progress', 'agent-finish']);
+      expect(events[0]![1]).toMatchObject({
+        toolUseId: 'toolu_task',
+        agentType: 'Explore',
+        description: 'Find the config loader',
+        status: 'running',
+        toolCount: 0,
+      });
+      expect(events[1]![1]).toMatchObject({ toolCount: 1, currentTool: 'Grep' });
+      expect(events[2]![1]).toMatchObject({
+        status: 'completed',
+        toolCount: 1,
+        summary: 'src/config.ts',
+        currentTool: undefined,
+      });
+      expect(toolCallHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ toolUseId: 'toolu_grep', parentToolUseId: 'toolu_task' })
+      );
+    });
+
+    it('should tag permission requests with the sub-agent asking', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield* agentMessages;
+        yield { type: 'result', result: 'done' };
+      } as any);
+      await sdkSession.sendPrompt('Where is the config loaded?');
+      const { canUseTool } = mockedQuery.mock.calls[0]![0].options!;
+
+      const requestHandler = vi.fn();
+      sdkSession.on('permission-request', requestHandler);
+      const controller = new AbortController();
+      canUseTool!('Grep', { pattern: 'config' }, {
+        signal: controller.signal,
+        toolUseID: 'toolu_grep',
+      } as any).catch(() => {});
+      controller.abort();
+
+      expect(requestHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ toolUseId: 'toolu_grep', parentToolUseId: 'toolu_task' })
+      );
+    });
+
+    it('should mark running sub-agents cancelled when the query is interrupted', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield* agentMessages;
+        const error = new Error('Aborted');
+        error.name = 'AbortError';
+        throw error;
+      } as any);
+      const finishHandler = vi.fn();
+      sdkSession.on('agent-finish', finishHandler);
+
+      await sdkSession.sendPrompt('Where is the config loaded?');
+
+      expect(finishHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ toolUseId: 'toolu_task', status: 'cancelled' })
+      );
+    });
+  });
+
+  describe('todos', () => {
+    it('should emit the todo list from TodoWrite uses of the main agent', async () => {
+      const todoWrite = (id: string, content: string) => ({
+        type: 'tool_use',
+        id,
+        name: 'TodoWrite',
+        input: { todos: [{ content, status: 'in_progress', activeForm: `${content}ing` }] },
+      });
+      mockedQuery.mockImplementation(async function* () {
+        yield {
+          type: 'assistant',
+          parent_tool_use_id: null,
+          message: { content: [todoWrite('toolu_1', 'Plan')] },
+        };
+        yield {
+          type: 'assistant',
+          parent_tool_use_id: 'toolu_task',
+          message: { content: [todoWrite('toolu_2', 'Search')] },
+        };
+        yield { type: 'result', result: 'done' };
+      } as any);
+      const todosHandler = vi.fn();
+      sdkSession.on('todos', todosHandler);
+
+      await sdkSession.sendPrompt('Make a plan');
+
+      expect(todosHandler.mock.calls).toEqual([
+        [[{ content: 'Plan', status: 'in_progress', activeForm: 'Planing' }]],
+      ]);
+    });
+  });
+
+  describe('limits', () => {
+    const overBudget = {
+      type: 'result',
+      subtype: 'error_max_budget_usd',
+      total_cost_usd: 1.02,
+      num_turns: 3,
+    };
+
+    it('should pass the remaining budget to each query', async () => {
+      sdkSession = new SdkSession({ cwd: '/test', limits: { maxCostUsd: 2, maxTurns: 10 } });
+      mockedQuery.mockImplementation(async function* () {
+        yield { type: 'result', subtype: 'success', total_cost_usd: 0.5, num_turns: 4 };
+      } as any);
+
+      await sdkSession.sendPrompt('One');
+      await sdkSession.sendPrompt('Two');
+
+      expect(mockedQuery.mock.calls[0]![0].options).toMatchObject({ maxTurns: 10, maxBudgetUsd: 2 });
+      expect(mockedQuery.mock.calls[1]![0].options).toMatchObject({ maxTurns: 6, maxBudgetUsd: 1.5 });
+    });
+
+    it('should refuse prompts after a limit stops the session until it is overridden', async () => {
+      sdkSession = new SdkSession({ cwd: '/test', limits: { maxCostUsd: 1, maxTurns: 10 } });
+      mockedQuery.mockImplementation(async function* () {
+        yield overBudget;
+      } as any);
+      const limitHandler = vi.fn();
+      sdkSession.on('limit-reached', limitHandler);
+
+      await sdkSession.sendPrompt('Spend it');
+      await sdkSession.sendPrompt('More');
+
+      expect(mockedQuery).toHaveBeenCalledTimes(1);
+      expect(limitHandler.mock.calls).toEqual([['cost'], ['cost']]);
+      expect(sdkSession.getLimitsState()).toEqual({
+        limits: { maxCostUsd: 1, maxTurns: 10 },
+        reached: 'cost',
+      });
+
+      sdkSession.overrideLimit();
+      mockedQuery.mockImplementation(async function* () {
+        yield { type: 'result', subtype: 'success', total_cost_usd: 0.1, num_turns: 1 };
+      } as any);
+      await sdkSession.sendPrompt('More');
+
+      expect(mockedQuery).toHaveBeenCalledTimes(2);
+      expect(sdkSession.getLimitsState()).toEqual({ limits: { maxTurns: 10 } });
+    });
+
+    it('should stay stopped when new limits are still exceeded', async () => {
+      sdkSession = new SdkSession({ cwd: '/test', limits: { maxCostUsd: 1 } });
+      mockedQuery.mockImplementation(async function* () {
+        yield overBudget;
+      } as any);
+      await sdkSession.sendPrompt('Spend it');
+
+      sdkSession.setLimits({ maxCostUsd: 1.01 });
+      expect(sdkSession.isLimitReached()).toBe(true);
+
+      sdkSession.setLimits({ maxCostUsd: 5 });
+      expect(sdkSession.isLimitReached()).toBe(false);
+    });
+
+    it('should stop a prompt that runs past the time limit', async () => {
+      vi.useFakeTimers();
+      try {
+        sdkSession = new SdkSession({ cwd: '/test', limits: { maxPromptSeconds: 30 } });
+        mockedQuery.mockImplementation(async function* ({ options }: any) {
+          await new Promise((resolve) =>
+            options.abortController.signal.addEventListener('abort', resolve)
+          );
+          const error = new Error('aborted');
+          error.name = 'AbortError';
+          throw error;
+        } as any);
+        const limitHandler = vi.fn();
+        const cancelledHandler = vi.fn();
+        sdkSession.on('limit-reached', limitHandler);
+        sdkSession.on('cancelled', cancelledHandler);
+
+        const done = sdkSession.sendPrompt('Take forever');
+        await vi.advanceTimersByTimeAsync(30_000);
+        await done;
+
+        expect(limitHandler).toHaveBeenCalledWith('time');
+        expect(cancelledHandler).not.toHaveBeenCalled();
+
+        // Overriding the time limit only lets the next prompt start
+        sdkSession.overrideLimit();
+        expect(sdkSession.getLimitsState()).toEqual({ limits: { maxPromptSeconds: 30 } });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('tool calls', () => {
+    it('should emit a running tool call and then its result', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield {
+          type: 'assistant',
+          message: {
+            content: [
+              { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls', timeout: 5 } },
+            ],
+          },
+        };
+        yield {
+          type: 'user',
+          message: {
+            role: 'user',
+            content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'a.ts\nb.ts' }],
+          },
+        };
+        yield { type: 'result', result: 'done' };
+      } as any);
+
+      const toolCallHandler = vi.fn();
+      sdkSession.on('tool-call', toolCallHandler);
+
+      await sdkSession.sendPrompt('List files');
+
+      expect(toolCallHandler.mock.calls.map(([call]) => call)).toEqual([
+        { toolUseId: 'toolu_1', toolName: 'Bash', input: { command: 'ls' }, status: 'running' },
+        {
+          toolUseId: 'toolu_1',
+          toolName: 'Bash',
+          input: { command: 'ls' },
+          status: 'completed',
+          summary: 'a.ts\nb.ts',
+        },
+      ]);
+    });
+
+    it('should mark failed tools as errors', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield {
+          type: 'assistant',
+          message: { content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} }] },
+        };
+        yield {
+          type: 'user',
+          message: {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_1', content: 'File not found', is_error: true },
+            ],
+          },
+        };
+        yield { type: 'result', result: 'done' };
+      } as any);
+
+      const toolCallHandler = vi.fn();
+      sdkSession.on('tool-call', toolCallHandler);
+
+      await sdkSession.sendPrompt('Read it');
+
+      expect(toolCallHandler).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'error', summary: 'File not found' })
+      );
+    });
+
+    it('should no longer emit tool lines as output', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield { type: 'tool_progress', tool_use_id: 'toolu_2', tool_name: 'Grep', elapsed_time_seconds: 1 };
+        yield { type: 'result', result: 'done' };
+      } as any);
+
+      const outputHandler = vi.fn();
+      const toolCallHandler = vi.fn();
+      sdkSession.on('output', outputHandler);
+      sdkSession.on('tool-call', toolCallHandler);
+
+      await sdkSession.sendPrompt('Search');
+
+      expect(outputHandler).not.toHaveBeenCalled();
+      expect(toolCallHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ toolUseId: 'toolu_2', toolName: 'Grep', status: 'running' })
+      );
+    });
+  });
+
+  describe('questions', () => {
+    const questions = [
+      {
+        question: 'Which database?',
+        header: 'Database',
+        options: [
+          { label: 'Postgres', description: '' },
+          { label: 'SQLite', description: '' },
+        ],
+      },
+      {
+        question: 'Which features?',
+        header: 'Features',
+        options: [
+          { label: 'Auth', description: '' },
+          { label: 'Search', description: '' },
+        ],
+        multiSelect: true,
+      },
+    ];
+
+    async function askQuestions() {
+      await sdkSession.sendPrompt('Ask me');
+      const { canUseTool } = mockedQuery.mock.calls[0]![0].options!;
+      const requestHandler = vi.fn();
+      sdkSession.on('permission-request', requestHandler);
+      const result = canUseTool!('AskUserQuestion', { questions }, {
+        signal: new AbortController().signal,
+        toolUseID: 'toolu_q',
+      } as any);
+      return { result, requestHandler };
+    }
+
+    it('should return the answers in the tool input, keyed by question', async () => {
+      const { result, requestHandler } = await askQuestions();
+      const answeredHandler = vi.fn();
+      sdkSession.on('question-answered', answeredHandler);
+
+      const answered = sdkSession.answerQuestion({
+        toolUseId: 'toolu_q',
+        answers: {},
+        responses: [
+          { selected: ['Postgres'] },
+          { selected: ['Auth', 'Search'], text: 'and billing' },
+        ],
+      });
+
+      expect(answered).toBe(true);
+      expect(requestHandler).not.toHaveBeenCalled();
+      await expect(result).resolves.toEqual({
+        behavior: 'allow',
+        updatedInput: {
+          questions,
+          answers: {
+            'Which database?': 'Postgres',
+            'Which features?': 'Auth, Search, and billing',
+          },
+        },
+      });
+      expect(answeredHandler).toHaveBeenCalledWith({
+        toolUseId: 'toolu_q',
+        questions: expect.any(Array),
+        responses: [
+          { selected: ['Postgres'] },
+          { selected: ['Auth', 'Search'], text: 'and billing' },
+        ],
+      });
+    });
+
+    it('should read answers from older apps by question index', async () => {
+      const { result } = await askQuestions();
+
+      sdkSession.answerQuestion({ toolUseId: 'toolu_q', answers: { '0': 'SQLite' } });
+
+      await expect(result).resolves.toMatchObject({
+        updatedInput: { answers: { 'Which database?': 'SQLite' } },
+      });
+    });
+
+    it('should report answers to a call that is no longer waiting', () => {
+      expect(sdkSession.answerQuestion({ toolUseId: 'toolu_gone', answers: { '0': 'x' } })).toBe(
+        false
+      );
+    });
+
+    it('should deny a waiting question when the query is interrupted', async () => {
+      let decision: unknown;
+      mockedQuery.mockImplementation(async function* ({ options }: any) {
+        setTimeout(() => sdkSession.cancel(), 0);
+        decision = await options.canUseTool('AskUserQuestion', { questions }, {
+          signal: new AbortController().signal,
+          toolUseID: 'toolu_q',
+        });
+        const error = new Error('aborted');
+        error.name = 'AbortError';
+        throw error;
+      } as any);
+
+      await sdkSession.sendPrompt('Ask me');
+
+      expect(decision).toEqual({
+        behavior: 'deny',
+        message: 'Interrupted by user',
+        interrupt: true,
+      });
+    });
+  });
+
+  describe('permission requests', () => {
+    it('should attach a diff of the proposed edit against the file on disk', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'termbridge-permission-test-'));
+      writeFileSync(join(dir, 'a.ts'), 'const a = 1;\n');
+      sdkSession = new SdkSession({ cwd: dir });
+
+      await sdkSession.sendPrompt('Edit it');
+      const { canUseTool } = mockedQuery.mock.calls[0]![0].options!;
+
+      const requestHandler = vi.fn();
+      sdkSession.on('permission-request', requestHandler);
+      const controller = new AbortController();
+      canUseTool!(
+        'Edit',
+        { file_path: 'a.ts', old_string: 'const a = 1;', new_string: 'const a = 2;' },
+        { signal: controller.signal, toolUseID: 'toolu_1' } as any
+      ).catch(() => {});
+      controller.abort();
+
+      expect(requestHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          toolName: 'Edit',
+          diff: expect.objectContaining({ filePath: 'a.ts', additions: 1, deletions: 1 }),
+        })
+      );
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function requestPermission(toolName: string, input: Record<string, unknown>) {
+      sdkSession = new SdkSession({ cwd: '/tmp' });
+      await sdkSession.sendPrompt('Do it');
+      const { canUseTool } = mockedQuery.mock.calls[0]![0].options!;
+
+      let requestId = '';
+      sdkSession.on('permission-request', (request) => (requestId = request.requestId));
+      const result = canUseTool!(toolName, input, {
+        signal: new AbortController().signal,
+        toolUseID: 'toolu_1',
+      } as any);
+      return { result, requestId };
+    }
+
+    it('should send ExitPlanMode plans and switch modes on approval', async () => {
+      sdkSession = new SdkSession({ cwd: '/tmp', permissionMode: 'plan' });
+      await sdkSession.sendPrompt('Plan it');
+      const { canUseTool } = mockedQuery.mock.calls[0]![0].options!;
+
+      let request: any;
+      sdkSession.on('permission-request', (data) => (request = data));
+      const modeHandler = vi.fn();
+      sdkSession.on('permission-mode', modeHandler);
+      const result = canUseTool!('ExitPlanMode', { plan: '1. Add the flag' }, {
+        signal: new AbortController().signal,
+        toolUseID: 'toolu_plan',
+      } as any);
+
+      expect(request.plan).toBe('1. Add the flag');
+      sdkSession.handlePermissionResponse({
+        requestId: request.requestId,
+        behavior: 'allow',
+        planDecision: 'approve-auto-edits',
+      });
+
+      await expect(result).resolves.toEqual({
+        behavior: 'allow',
+        updatedPermissions: [{ type: 'setMode', mode: 'acceptEdits', destination: 'session' }],
+      });
+      expect(sdkSession.getPermissionMode()).toBe('acceptEdits');
+      expect(modeHandler).toHaveBeenCalledWith('acceptEdits');
+    });
+
+    it('should retract a request whose tool use was aborted', async () => {
+      sdkSession = new SdkSession({ cwd: '/tmp' });
+      await sdkSession.sendPrompt('Do it');
+      const { canUseTool } = mockedQuery.mock.calls[0]![0].options!;
+
+      let requestId = '';
+      sdkSession.on('permission-request', (request) => (requestId = request.requestId));
+      const retractedHandler = vi.fn();
+      sdkSession.on('request-retracted', retractedHandler);
+      const controller = new AbortController();
+      const result = canUseTool!('Bash', { command: 'ls' }, {
+        signal: controller.signal,
+        toolUseID: 'toolu_1',
+      } as any);
+      controller.abort();
+
+      await expect(result).rejects.toThrow('Permission request aborted');
+      expect(retractedHandler).toHaveBeenCalledWith(requestId);
+    });
+
+    it('should retract questions asked in a cancelled turn', async () => {
+      mockedQuery.mockImplementation(async function* () {
+        yield {
+          type: 'assistant',
+          message: {
+            content: [
+              {
+                type: 'tool_use',
+                id: 'toolu_q',
+                name: 'AskUserQuestion',
+                input: { questions: [{ question: 'Which?', header: 'Pick', options: [] }] },
+              },
+            ],
+          },
+        };
+        const error = new Error('aborted');
+        error.name = 'AbortError';
+        throw error;
+      } as any);
+
+      const retractedHandler = vi.fn();
+      sdkSession.on('request-retracted', retractedHandler);
+      await sdkSession.sendPrompt('Ask me');
+
+      expect(retractedHandler).toHaveBeenCalledWith('toolu_q');
+    });
+
+    it('should deny and retract pending requests when the query is interrupted', async () => {
+      let decision: unknown;
+      mockedQuery.mockImplementation(async function* ({ options }: any) {
+        decision = await options.canUseTool('Bash', { command: 'ls' }, {
+          signal: new AbortController().signal,
+          toolUseID: 'toolu_1',
+        });
+        const error = new Error('aborted');
+        error.name = 'AbortError';
+        throw error;
+      } as any);
+
+      let requestId = '';
+      sdkSession.on('permission-request', (request) => {
+        requestId = request.requestId;
+        setTimeout(() => sdkSession.cancel(), 0);
+      });
+      const retractedHandler = vi.fn();
+      sdkSession.on('request-retracted', retractedHandler);
+      const cancelledHandler = vi.fn();
+      sdkSession.on('cancelled', cancelledHandler);
+
+      await sdkSession.sendPrompt('Do it');
+
+      expect(decision).toEqual({
+        behavior: 'deny',
+        message: 'Interrupted by user',
+        interrupt: true,
+      });
+      expect(retractedHandler).toHaveBeenCalledWith(requestId);
+      expect(cancelledHandler).toHaveBeenCalled();
+    });
+
+    it('should allow with edited input merged over the original', async () => {
+      const { result, requestId } = await requestPermission('Bash', {
+        command: 'rm -rf build',
+        description: 'Clean',
+      });
+
+      sdkSession.handlePermissionResponse({
+        requestId,
+        behavior: 'allow',
+        updatedInput: { command: 'rm -rf build/cache' },
+      });
+
+      await expect(result).resolves.toEqual({
+        behavior: 'allow',
+        updatedInput: { command: 'rm -rf build/cache', description: 'Clean' },
+        updatedPermissions: undefined,
+      });
+    });
+
+    it('should deny when the edited input does not fit the tool', async () => {
+      const { result, requestId } = await requestPermission('Write', {
+        file_path: '/tmp/a.ts',
+        content: 'x',
+      });
+      const outputHandler = vi.fn();
+      sdkSession.on('output', outputHandler);
+
+      sdkSession.handlePermissionResponse({
+        requestId,
+        behavior: 'allow',
+        updatedInput: { file_path: 'relative.ts' },
+      });
+
+      await expect(result).resolves.toMatchObject({
+        behavior: 'deny',
+        message: expect.stringContaining('must be an absolute path'),
+      });
+      expect(outputHandler).toHaveBeenCalledWith(expect.stringContaining('Edited input rejected'));
+    });
+
+    describe('rules', () => {
+      async function useTool(toolName: string, input: Record<string, unknown>) {
+        const { canUseTool } = mockedQuery.mock.calls[0]![0].options!;
+        return canUseTool!(toolName, input, {
+          signal: new AbortController().signal,
+          toolUseID: 'toolu_1',
+        } as any);
+      }
+
+      it('should decide matching tool uses without asking mobile', async () => {
+        sdkSession = new SdkSession({
+          cwd: '/tmp',
+          permissionRules: [
+            { toolName: 'Bash', ruleContent: 'npm test:*', behavior: 'allow' },
+            { toolName: 'Bash', ruleContent: 'rm:*', behavior: 'deny' },
+          ],
+        });
+        await sdkSession.sendPrompt('Do it');
+        const requestHandler = vi.fn();
+        sdkSession.on('permission-request', requestHandler);
+
+        await expect(useTool('Bash', { command: 'npm test' })).resolves.toEqual({
+          behavior: 'allow',
+        });
+        await expect(useTool('Bash', { command: 'rm -rf /' })).resolves.toEqual({
+          behavior: 'deny',
+          message: 'Denied by permission rule Bash(rm:*)',
+        });
+        expect(requestHandler).not.toHaveBeenCalled();
+      });
+
+      it('should apply and report rules added with "always allow"', async () => {
+        const { result, requestId } = await requestPermission('Bash', { command: 'npm test' });
+        const rulesHandler = vi.fn();
+        sdkSession.on('permission-rules-added', rulesHandler);
+        const update = {
+          type: 'addRules' as const,
+          rules: [{ toolName: 'Bash', ruleContent: 'npm test:*' }],
+          behavior: 'allow' as const,
+          destination: 'localSettings' as const,
+        };
+
+        sdkSession.handlePermissionResponse({
+          requestId,
+          behavior: 'allow',
+          updatedPermissions: [update],
+        });
+
+        await expect(result).resolves.toEqual({ behavior: 'allow' });
+        expect(rulesHandler).toHaveBeenCalledWith(update);
+        await expect(useTool('Bash', { command: 'npm test -- a' })).resolves.toEqual({
+          behavior: 'allow',
+        });
+      });
+
+      it('should leave saving added rules to the daemon, so they are written once', async () => {
+        const { result, requestId } = await requestPermission('Bash', { command: 'npm test' });
+        const rulesHandler = vi.fn();
+        sdkSession.on('permission-rules-added', rulesHandler);
+        const addRules = {
+          type: 'addRules' as const,
+          rules: [{ toolName: 'Bash', ruleContent: 'npm test:*' }],
+          behavior: 'allow' as const,
+          destination: 'localSettings' as const,
+        };
+        const addDirectories = {
+          type: 'addDirectories' as const,
+          directories: ['/tmp/other'],
+          destination: 'session' as const,
+        };
+
+        sdkSession.handlePermissionResponse({
+          requestId,
+          behavior: 'allow',
+          updatedPermissions: [addRules, addDirectories],
+        });
+
+        // The SDK would save addRules updates itself - it only gets the rest
+        const decision = await result;
+        expect(decision).toMatchObject({ updatedPermissions: [addDirectories] });
+        expect(rulesHandler).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('timeouts', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      async function requestWithTimeouts(options: Partial<SdkSessionOptions>) {
+        sdkSession = new SdkSession({ cwd: '/tmp', ...options });
+        await sdkSession.sendPrompt('Do it');
+        const { canUseTool } = mockedQuery.mock.calls[0]![0].options!;
+
+        let requestId = '';
+        const retractedHandler = vi.fn();
+        const timeoutHandler = vi.fn();
+        sdkSession.on('permission-request', (request) => (requestId = request.requestId));
+        sdkSession.on('request-retracted', retractedHandler);
+        sdkSession.on('permission-timeout', timeoutHandler);
+        const result = canUseTool!('Bash', { command: 'ls' }, {
+          signal: new AbortController().signal,
+          toolUseID: 'toolu_1',
+        } as any);
+        return { result, requestId, retractedHandler, timeoutHandler };
+      }
+
+      it('should deny and retract an unanswered request by default', async () => {
+        const { result, retractedHandler, timeoutHandler } = await requestWithTimeouts({});
+
+        await vi.advanceTimersByTimeAsync(600_000);
+
+        await expect(result).resolves.toMatchObject({ behavior: 'deny' });
+        expect(retractedHandler).toHaveBeenCalled();
+        expect(timeoutHandler).toHaveBeenCalledWith(
+          expect.objectContaining({ toolName: 'Bash', action: 'deny', behavior: 'deny' })
+        );
+      });
+
+      it('should use the per-tool rule', async () => {
+        const { result, timeoutHandler } = await requestWithTimeouts({
+          permissionTimeouts: {
+            default: { timeoutSeconds: 600, action: 'deny' },
+            tools: { Bash: { timeoutSeconds: 5, action: 'allow' } },
+          },
+        });
+
+        await vi.advanceTimersByTimeAsync(5_000);
+
+        await expect(result).resolves.toEqual({ behavior: 'allow' });
+        expect(timeoutHandler).toHaveBeenCalledWith(
+          expect.objectContaining({ timeoutSeconds: 5, behavior: 'allow' })
+        );
+      });
+
+      it('should fall back to the local terminal prompt', async () => {
+        const confirmLocally = vi.fn().mockResolvedValue(true);
+        const { result } = await requestWithTimeouts({
+          permissionTimeouts: { default: { timeoutSeconds: 5, action: 'local' } },
+          confirmLocally,
+        });
+
+        await vi.advanceTimersByTimeAsync(5_000);
+
+        await expect(result).resolves.toEqual({ behavior: 'allow' });
+        expect(confirmLocally).toHaveBeenCalledWith(expect.stringContaining('Allow Bash?'));
+      });
+
+      it('should not time out a request that was answered', async () => {
+        const { result, requestId, timeoutHandler } = await requestWithTimeouts({
+          permissionTimeouts: { default: { timeoutSeconds: 5, action: 'allow' } },
+        });
+        sdkSession.handlePermissionResponse({ requestId, behavior: 'deny' });
+
+        await vi.advanceTimersByTimeAsync(5_000);
+
+        await expect(result).resolves.toMatchObject({ behavior: 'deny' });
+        expect(timeoutHandler).not.toHaveBeenCalled();
+      });
+    });
+  });
 });
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getExhaustedLimit,
+  getQueryLimitOptions,
+  overrideSessionLimit,
+  parseSessionLimits,
+} from '../daemon/session-limits.js';
+
+describe('session limits', () => {
+  describe('getExhaustedLimit', () => {
+    it('should report the cost or turn limit that was used up', () => {
+      const limits = { maxCostUsd: 1, maxTurns: 5 };
+
+      expect(getExhaustedLimit(limits, { costUsd: 0.5, agentTurns: 4 })).toBeNull();
+      expect(getExhaustedLimit(limits, { costUsd: 1, agentTurns: 0 })).toBe('cost');
+      expect(getExhaustedLimit(limits, { costUsd: 0, agentTurns: 5 })).toBe('turns');
+    });
+
+    it('should never report the time limit', () => {
+      expect(getExhaustedLimit({ maxPromptSeconds: 1 }, { costUsd: 9, agentTurns: 9 })).toBeNull();
+    });
+  });
+
+  describe('getQueryLimitOptions', () => {
+    it('should pass only the limits that are set', () => {
+      expect(getQueryLimitOptions({}, { costUsd: 0, agentTurns: 0 })).toEqual({});
+      expect(getQueryLimitOptions({ maxTurns: 8 }, { costUsd: 0, agentTurns: 3 })).toEqual({
+        maxTurns: 5,
+      });
+    });
+
+    it('should never go below what the SDK accepts', () => {
+      expect(
+        getQueryLimitOptions({ maxCostUsd: 1, maxTurns: 2 }, { costUsd: 1.5, agentTurns: 4 })
+      ).toEqual({ maxBudgetUsd: 0, maxTurns: 1 });
+    });
+  });
+
+  describe('parseSessionLimits', () => {
+    it('should parse the start flags', () => {
+      expect(parseSessionLimits({ maxCost: '2.5', maxTurns: '40', maxPromptTime: '600' })).toEqual({
+        maxCostUsd: 2.5,
+        maxTurns: 40,
+        maxPromptSeconds: 600,
+      });
+      expect(parseSessionLimits({})).toEqual({});
+    });
+
+    it('should reject values that are not positive numbers', () => {
+      expect(() => parseSessionLimits({ maxCost: 'lots' })).toThrow('Invalid --max-cost');
+      expect(() => parseSessionLimits({ maxTurns: '2.5' })).toThrow('Invalid --max-turns');
+      expect(() => parseSessionLimits({ maxPromptTime: '0' })).toThrow('Invalid --max-prompt-time');
+    });
+  });
+
+  describe('overrideSessionLimit', () => {
+    const limits = { maxCostUsd: 1, maxTurns: 5, maxPromptSeconds: 60 };
+
+    it('should lift the cost or turn limit that was reached', () => {
+      expect(overrideSessionLimit(limits, 'cost')).toEqual({ maxTurns: 5, maxPromptSeconds: 60 });
+      expect(overrideSessionLimit(limits, 'turns')).toEqual({ maxCostUsd: 1, maxPromptSeconds: 60 });
+    });
+
+    it('should keep the time limit for the next prompt', () => {
+      expect(overrideSessionLimit(limits, 'time')).toEqual(limits);
+    });
+  });
+});
@@ -189,4 +189,42 @@ describe('SessionManager', () => {
       sessionManager.updateSessionModel('session-123', 'opus')
     ).rejects.toThrow('Failed to update session model');
   });
+
+  it('should save usage totals on the session row', async () => {
+    const updateMock = vi.fn().mockReturnValue({
+      eq: vi.fn().mockResolvedValue({ error: null }),
+    });
+    mockSupabase.from = vi.fn().mockReturnValue({ update: updateMock });
+
+    await sessionManager.updateSessionUsage('session-123', {
+      inputTokens: 10,
+      outputTokens: 20,
+      cacheReadTokens: 300,
+      cacheCreationTokens: 40,
+      costUsd: 0.05,
+      durationMs: 1200,
+      turns: 2,
+    });
+
+    expect(updateMock).toHaveBeenCalledWith({
+      input_tokens: 10,
+      output_tokens: 20,
+      cache_read_tokens: 300,
+      cache_creation_tokens: 40,
+      cost_usd: 0.05,
+      duration_ms: 1200,
+      turn_count: 2,
+    });
+  });
+
+  it('should save the todo list on the session row', async () => {
+    const updateMock = vi.fn().mockReturnValue({
+      eq: vi.fn().mockResolvedValue({ error: null }),
+    });
+    mockSupabase.from = vi.fn().mockReturnValue({ update: updateMock });
+
+    await sessionManager.updateSessionTodos('session-123', '[]');
+
+    expect(updateMock).toHaveBeenCalledWith({ todos: '[]' });
+  });
 });
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { validateToolInput } from '../daemon/tool-input.js';
+
+describe('validateToolInput', () => {
+  it('should accept valid input for known tools', () => {
+    expect(validateToolInput('Bash', { command: 'ls', timeout: 1000 })).toBeNull();
+    expect(validateToolInput('Write', { file_path: '/a.ts', content: '' })).toBeNull();
+    expect(
+      validateToolInput('Edit', { file_path: '/a.ts', old_string: 'a', new_string: 'b' })
+    ).toBeNull();
+    expect(
+      validateToolInput('MultiEdit', {
+        file_path: '/a.ts',
+        edits: [{ old_string: 'a', new_string: 'b', replace_all: true }],
+      })
+    ).toBeNull();
+  });
+
+  it('should accept any input for tools without a schema', () => {
+    expect(validateToolInput('WebFetch', { anything: 1 })).toBeNull();
+  });
+
+  it('should report missing and mistyped fields', () => {
+    expect(validateToolInput('Write', { file_path: '/a.ts' })).toBe(
+      'Write input is missing "content"'
+    );
+    expect(validateToolInput('Bash', { command: 42 })).toBe('Bash input "command" must be a string');
+    expect(validateToolInput('Bash', { command: 'ls', timeout: '10' })).toBe(
+      'Bash input "timeout" must be a number'
+    );
+  });
+
+  it('should reject unknown fields, empty commands and relative paths', () => {
+    expect(validateToolInput('Bash', { command: 'ls', cwd: '/' })).toBe(
+      'Bash input has unknown field "cwd"'
+    );
+    expect(validateToolInput('Bash', { command: '  ' })).toBe('Bash command cannot be empty');
+    expect(validateToolInput('Write', { file_path: 'a.ts', content: '' })).toBe(
+      'Write input "file_path" must be an absolute path'
+    );
+  });
+
+  it('should check each MultiEdit edit', () => {
+    expect(validateToolInput('MultiEdit', { file_path: '/a.ts', edits: [] })).not.toBeNull();
+    expect(
+      validateToolInput('MultiEdit', { file_path: '/a.ts', edits: [{ old_string: 'a' }] })
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import { generateEncryptionKey, createPairingCode, getKeyId } from 'termbridge-shared';
+import { Config } from '../utils/config.js';
+import { Logger } from '../utils/logger.js';
+
+export interface PairOptions {
+  rotate?: boolean;
+}
+
+export function createPairCommand(): Command {
+  const command = new Command('pair');
+
+  command
+    .description('Show the code that pairs the mobile app for end-to-end encryption')
+    .option('--rotate', 'Replace the key - every paired device must pair again')
+    .action(async (options: PairOptions) => {
+      const config = new Config();
+      const logger = new Logger();
+
+      const machineId = config.getMachineId();
+      if (!machineId) {
+        logger.error('This machine is not registered yet. Run "termbridge start" once, then pair.');
+        process.exit(1);
+      }
+
+      let key: Uint8Array | undefined;
+      try {
+        key = options.rotate ? undefined : config.getEncryptionKey();
+      } catch (error) {
+        logger.error(error instanceof Error ? error.message : 'Invalid encryption key');
+        process.exit(1);
+      }
+
+      const created = !key;
+      if (!key) {
+        key = generateEncryptionKey();
+        config.setEncryptionKey(key);
+      }
+
+      const code = createPairingCode(machineId, key);
+
+      logger.info('');
+      logger.info(created ? '✓ Encryption key created' : '✓ Encryption key found');
+      logger.info(`  Key ID: ${getKeyId(key)}`);
+      logger.info('');
+      logger.info('On your phone, open Settings → Pair Machine and paste this code,');
+      logger.info('or open the link on the phone:');
+      logger.info('');
+      logger.info(`  ${code}`);
+      logger.info(`  termbridge://pair?code=${encodeURIComponent(code)}`);
+      logger.info('');
+      logger.info('Anyone with this code can read your sessions - share it only with your own devices.');
+      if (created) {
+        logger.info('Restart "termbridge start" for running sessions to use the new key.');
+      }
+      logger.info('');
+    });
+
+  return command;
+}
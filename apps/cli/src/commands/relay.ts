@@ -0,0 +1,75 @@
+import { Command } from 'commander';
+import { RELAY_DEFAULT_PORT } from 'termbridge-shared';
+import { RelayServer } from '../realtime/relay-server.js';
+import { Logger } from '../utils/logger.js';
+
+export interface RelayOptions {
+  port: string;
+  host: string;
+  token?: string;
+}
+
+export function createRelayCommand(): Command {
+  const command = new Command('relay');
+
+  command
+    .description('Run a self-hosted WebSocket relay in place of Supabase Realtime')
+    .option('-p, --port <port>', 'Port to listen on', String(RELAY_DEFAULT_PORT))
+    .option('--host <host>', 'Host to bind to', '0.0.0.0')
+    .option('--token <token>', 'Shared secret clients must send as ?token=')
+    .action(async (options: RelayOptions) => {
+      const logger = new Logger();
+
+      const port = parseInt(options.port, 10);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        logger.error(`Invalid port: ${options.port}`);
+        process.exit(1);
+      }
+
+      const token = options.token || process.env['TERMBRIDGE_RELAY_TOKEN'];
+      const server = new RelayServer({ port, host: options.host, token });
+
+      server.on('client-connected', (clientId: string) => {
+        logger.debug(`Client connected: ${clientId}`);
+      });
+
+      server.on('client-disconnected', (clientId: string) => {
+        logger.debug(`Client disconnected: ${clientId}`);
+      });
+
+      try {
+        const boundPort = await server.start();
+
+        logger.info('');
+        logger.info('✓ TermBridge relay is running');
+        logger.info(`  Listening: ws://${options.host}:${boundPort}`);
+        logger.info(`  Auth: ${token ? 'Token required' : 'None (use --token on untrusted networks)'}`);
+        logger.info('');
+        logger.info('Point the CLI at it with TERMBRIDGE_RELAY_URL or "termbridge start --relay <url>",');
+        logger.info('and the mobile app with EXPO_PUBLIC_RELAY_URL. Both still need Supabase');
+        logger.info('for login, machines, sessions and message history.');
+        logger.info('Press Ctrl+C to stop.');
+        logger.info('');
+      } catch (error) {
+        logger.error(
+          `Failed to start relay: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+        process.exit(1);
+      }
+
+      const shutdown = async () => {
+        await server.stop();
+        process.exit(0);
+      };
+
+      process.on('SIGINT', () => {
+        shutdown().catch(console.error);
+      });
+
+      process.on('SIGTERM', () => {
+        shutdown().catch(console.error);
+      });
+    });
+
+  return command;
+}
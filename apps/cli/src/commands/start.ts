@@ -2,6 +2,7 @@ import { Command } from 'commander';
 import { createClient } from '@supabase/supabase-js';
 import WebSocket from 'ws';
 import { Daemon } from '../daemon/daemon.js';
+import { parseSessionLimits } from '../daemon/session-limits.js';
 import { MachineManager } from '../daemon/machine.js';
 import { MachineRealtimeClient } from '../realtime/machine-client.js';
 import { Config, ConfigurationError } from '../utils/config.js';
@@ -16,7 +17,8 @@ import {
   isMacOS,
   type SleepPreventionState,
 } from '../utils/sleep-prevention.js';
-import type { MachineCommand } from 'termbridge-shared';
+import { SupabaseTransport, WebSocketTransport } from 'termbridge-shared';
+import type { MachineCommand, Transport } from 'termbridge-shared';
 
 // Polyfill WebSocket for Node.js (Supabase Realtime needs this)
 if (typeof globalThis.WebSocket === 'undefined') {
@@ -27,6 +29,10 @@ if (typeof globalThis.WebSocket === 'undefined') {
 export interface StartOptions {
   name?: string;
   preventSleep?: boolean;
+  relay?: string;
+  maxCost?: string;
+  maxTurns?: string;
+  maxPromptTime?: string;
 }
 
 export function createStartCommand(): Command {
@@ -36,6 +42,13 @@ export function createStartCommand(): Command {
     .description('Start TermBridge and listen for session requests from mobile app')
     .option('-n, --name <name>', 'Machine name')
     .option('--prevent-sleep', 'Auto-enable sleep prevention (skip prompt)')
+    .option(
+      '--relay <url>',
+      'Use a self-hosted relay (termbridge relay) for realtime; Supabase still handles auth and storage'
+    )
+    .option('--max-cost <usd>', 'Stop each session once it has cost this much')
+    .option('--max-turns <n>', 'Stop each session after this many agentic turns')
+    .option('--max-prompt-time <seconds>', 'Stop a prompt that runs longer than this')
     .action(async (options: StartOptions) => {
       const config = new Config();
       const logger = new Logger();
@@ -47,20 +60,34 @@ export function createStartCommand(): Command {
       try {
         config.requireConfiguration();
 
+        // Checked up front so a typo doesn't surface only when mobile starts a session
+        const limits = parseSessionLimits(options);
+
         spinner.start();
 
         const supabaseUrl = config.getSupabaseUrl();
         const supabaseKey = config.getSupabaseAnonKey();
 
+        const eventsPerSecond = config.getEventsPerSecond();
+        const encryptionKey = config.getEncryptionKey();
+        const permissionTimeouts = config.getPermissionTimeouts();
+        const permissionRules = config.getPermissionRules();
+
         const supabase = createClient(supabaseUrl, supabaseKey, {
           realtime: {
             params: {
-              eventsPerSecond: 10,
+              eventsPerSecond,
             },
             timeout: 30000,
           },
         });
 
+        // Realtime goes through the relay when one is configured
+        const relayUrl = options.relay || config.getRelayUrl();
+        const transport: Transport = relayUrl
+          ? new WebSocketTransport({ url: relayUrl, WebSocket })
+          : new SupabaseTransport(supabase);
+
         // Restore session from stored tokens
         const sessionTokens = config.getSessionTokens();
         if (!sessionTokens) {
@@ -206,6 +233,7 @@ export function createStartCommand(): Command {
         machineClient = new MachineRealtimeClient({
           supabase,
           machineId: machine.id,
+          transport,
         });
 
         const connected = await machineClient.connect();
@@ -222,6 +250,12 @@ export function createStartCommand(): Command {
         logger.info('');
         logger.info('✓ TermBridge is ready!');
         logger.info(`  Machine: ${machine.name}`);
+        if (relayUrl) {
+          logger.info(`  Relay: ${new URL(relayUrl).host}`);
+        }
+        logger.info(
+          `  Encryption: ${encryptionKey ? 'End-to-end' : 'Off (run "termbridge pair" to enable)'}`
+        );
         if (sleepState.caffeinateProcess) {
           logger.info(
             `  Sleep prevention: ${sleepState.pmsetEnabled ? 'Lid-closed mode' : 'Basic mode'}`
@@ -245,6 +279,12 @@ export function createStartCommand(): Command {
                 machineName: options.name,
                 cwd: process.cwd(),
                 hybrid: false,
+                transport,
+                eventsPerSecond,
+                encryptionKey,
+                permissionTimeouts,
+                permissionRules,
+                limits,
               });
 
               newDaemon.on('started', async ({ session }) => {
@@ -7,7 +7,11 @@ import type {
   InteractiveApplyPayload,
   InteractiveResult,
   InteractiveOption,
+  PermissionBehavior,
+  PermissionUpdate,
 } from 'termbridge-shared';
+import { parsePermissionRule, formatPermissionRule } from 'termbridge-shared';
+import type { PermissionRule } from './permission-rules.js';
 
 interface ClaudeSettings {
   preferences?: {
@@ -19,6 +23,8 @@ interface ClaudeSettings {
     mode?: string;
     allowedTools?: string[];
     allow?: string[];
+    deny?: string[];
+    ask?: string[];
   };
   vim?: boolean;
   alwaysThinkingEnabled?: boolean;
@@ -51,6 +57,11 @@ export class ConfigManager {
     return join(this.cwd, '.claude', 'settings.json');
   }
 
+  // Per-project settings kept out of version control
+  private getProjectLocalSettingsPath(): string {
+    return join(this.cwd, '.claude', 'settings.local.json');
+  }
+
   private readSettingsFile(path: string): ClaudeSettings | null {
     try {
       if (existsSync(path)) {
@@ -107,6 +118,69 @@ export class ConfigManager {
     return settings.alwaysThinkingEnabled ?? false;
   }
 
+  /**
+   * Permission rules from every settings file. Unlike other settings these
+   * add up across files rather than the project's replacing the global ones.
+   */
+  getPermissionRules(): PermissionRule[] {
+    const paths = [
+      this.getGlobalSettingsPath(),
+      this.getLocalSettingsPath(),
+      this.getProjectSettingsPath(),
+      this.getProjectLocalSettingsPath(),
+    ];
+    const behaviors: PermissionBehavior[] = ['allow', 'deny', 'ask'];
+
+    const rules: PermissionRule[] = [];
+    for (const path of paths) {
+      const permissions = this.readSettingsFile(path)?.permissions;
+      for (const behavior of behaviors) {
+        for (const value of permissions?.[behavior] ?? []) {
+          const rule = parsePermissionRule(value);
+          if (rule) {
+            rules.push({ ...rule, behavior });
+          }
+        }
+      }
+    }
+    return rules;
+  }
+
+  /**
+   * Save the rules of an addRules permission update (e.g. "always allow"
+   * from mobile) to the settings file its destination names. Session-only
+   * updates aren't saved. Returns false if the file couldn't be written.
+   */
+  addPermissionRules(update: PermissionUpdate): boolean {
+    if (update.type !== 'addRules') {
+      return true;
+    }
+
+    const paths: Partial<Record<PermissionUpdate['destination'], string>> = {
+      userSettings: this.getGlobalSettingsPath(),
+      projectSettings: this.getProjectSettingsPath(),
+      localSettings: this.getProjectLocalSettingsPath(),
+    };
+    const path = paths[update.destination];
+    if (!path) {
+      return true;
+    }
+
+    const settings = this.readSettingsFile(path) || {};
+    if (!settings.permissions) {
+      settings.permissions = {};
+    }
+    const existing = settings.permissions[update.behavior] || [];
+    for (const rule of update.rules.map(formatPermissionRule)) {
+      if (!existing.includes(rule)) {
+        existing.push(rule);
+      }
+    }
+    settings.permissions[update.behavior] = existing;
+
+    return this.writeSettingsFile(path, settings);
+  }
+
   getInteractiveData(command: InteractiveCommandType): InteractiveCommandData {
     const settings = this.getMergedSettings();
 
@@ -1,11 +1,17 @@
 import { EventEmitter } from 'events';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { SdkSession } from './sdk-session.js';
+import type { PermissionTimeoutDecision } from './sdk-session.js';
+import type { PermissionTimeoutConfig } from './permission-timeouts.js';
+import type { PermissionRule } from './permission-rules.js';
+import { PromptQueue } from './prompt-queue.js';
 import { SessionManager } from './session.js';
 import { MachineManager } from './machine.js';
 import { ConfigManager } from './config-manager.js';
 import { RealtimeClient } from '../realtime/client.js';
-import type { Session, Machine, RealtimeMessage, ImageAttachment, PermissionMode, UserQuestionData, PermissionRequestData } from 'termbridge-shared';
+import { promptYesNo } from '../utils/sleep-prevention.js';
+import type { Transport, Session, Machine, RealtimeMessage, ImageAttachment, PermissionMode, UserQuestionData, PermissionRequestData, PermissionUpdate, ToolCallData, UsageStats, SessionLimits, SessionLimitKind, TodoItem, SubAgentData, QuestionAnswerRecord } from 'termbridge-shared';
+import { formatToolCallText, addUsage, EMPTY_USAGE, describeSessionLimit, serializeTodos, encryptText, formatQuestionAnswers, getQuestionResponses } from 'termbridge-shared';
 
 export interface DaemonOptions {
   supabase: SupabaseClient;
@@ -14,6 +20,12 @@ export interface DaemonOptions {
   machineName?: string;
   cwd: string;
   hybrid?: boolean;
+  transport?: Transport; // Realtime transport, defaults to Supabase
+  eventsPerSecond?: number; // Realtime send budget for this session
+  encryptionKey?: Uint8Array; // Pairing key - encrypts everything sent to mobile and stored
+  permissionTimeouts?: PermissionTimeoutConfig; // What to do when mobile doesn't answer in time
+  permissionRules?: PermissionRule[]; // TermBridge rules, checked along with .claude/settings.json
+  limits?: SessionLimits; // Cost, turn and per-prompt time caps - mobile can change them
 }
 
 export class Daemon extends EventEmitter {
@@ -28,13 +40,32 @@ export class Daemon extends EventEmitter {
   private running: boolean = false;
   private commandsBroadcast: boolean = false;
   private sdkCommandsBroadcast: boolean = false;
+  // Prompts sent while a query runs, dispatched in order as each one finishes
+  private promptQueue: PromptQueue = new PromptQueue();
+  private dispatchingPrompts: boolean = false;
+  // Set when a query is interrupted - the queue waits for the next prompt
+  private promptQueuePaused: boolean = false;
+  private promptQueueShown: boolean = false; // Mobile was last sent a non-empty queue
+  private usage: UsageStats = EMPTY_USAGE; // Totals for this session so far
 
   constructor(options: DaemonOptions) {
     super();
     this.options = options;
 
+    this.configManager = new ConfigManager({
+      cwd: options.cwd,
+    });
+
     this.sdkSession = new SdkSession({
       cwd: options.cwd,
+      permissionTimeouts: options.permissionTimeouts,
+      permissionRules: [
+        ...(options.permissionRules ?? []),
+        ...this.configManager.getPermissionRules(),
+      ],
+      // Only hybrid mode has a terminal to fall back to
+      confirmLocally: options.hybrid !== false ? promptYesNo : undefined,
+      limits: options.limits,
     });
 
     this.sessionManager = new SessionManager({
@@ -45,10 +76,6 @@ export class Daemon extends EventEmitter {
       supabase: options.supabase,
     });
 
-    this.configManager = new ConfigManager({
-      cwd: options.cwd,
-    });
-
     // Initialize thinking mode from settings
     const thinkingEnabled = this.configManager.getThinkingMode();
     if (thinkingEnabled) {
@@ -78,6 +105,9 @@ export class Daemon extends EventEmitter {
     this.realtimeClient = new RealtimeClient({
       supabase: this.options.supabase,
       sessionId: this.session.id,
+      transport: this.options.transport,
+      eventsPerSecond: this.options.eventsPerSecond,
+      encryptionKey: this.options.encryptionKey,
     });
 
     // Wire up SDK session output to broadcast
@@ -97,6 +127,82 @@ export class Daemon extends EventEmitter {
       }
     });
 
+    // Thinking is only shown on mobile, where it starts collapsed
+    this.sdkSession.on('thinking', async (thinking: string) => {
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.broadcastThinking(thinking);
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
+    // Text as it's written - mobile only, the terminal prints the finished block
+    this.sdkSession.on('output-delta', async (delta: string) => {
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.broadcastOutputDelta(delta);
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
+    this.sdkSession.on('tool-call', async (toolCall: ToolCallData) => {
+      // Hybrid mode: show the tool starting in the local terminal
+      if (this.options.hybrid !== false && toolCall.status === 'running') {
+        process.stdout.write(formatToolCallText(toolCall));
+      }
+
+      // Broadcast to mobile
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.broadcastToolCall(toolCall);
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
+    // Sub-agent lifecycle - mobile shows it as a timeline, with the agent's tool calls nested
+    for (const event of ['agent-start', 'agent-progress', 'agent-finish']) {
+      this.sdkSession.on(event, async (agent: SubAgentData) => {
+        if (this.realtimeClient) {
+          try {
+            await this.realtimeClient.broadcastSubAgent(agent);
+          } catch {
+            // Silently handle broadcast errors
+          }
+        }
+      });
+    }
+
+    // Keep the latest todo list on the session row, so mobile can show it when it connects
+    this.sdkSession.on('todos', async (todos: TodoItem[]) => {
+      if (this.session) {
+        const serialized = serializeTodos(todos);
+        try {
+          await this.sessionManager.updateSessionTodos(
+            this.session.id,
+            this.options.encryptionKey
+              ? encryptText(serialized, this.options.encryptionKey)
+              : serialized
+          );
+        } catch {
+          // Silently handle - the list is still broadcast
+        }
+      }
+
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.broadcastTodos(todos);
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
     this.sdkSession.on('error', (error: Error) => {
       this.emit('error', error);
     });
@@ -116,7 +222,38 @@ export class Daemon extends EventEmitter {
       }
     });
 
+    // Add each turn's usage to the session total, save it and show it on mobile
+    this.sdkSession.on('usage', async (turn: UsageStats) => {
+      this.usage = addUsage(this.usage, turn);
+      const total = this.usage;
+
+      if (this.session) {
+        try {
+          await this.sessionManager.updateSessionUsage(this.session.id, total);
+        } catch {
+          // Silently handle - usage is informational
+        }
+      }
+
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.broadcastUsage({ turn, total });
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
     this.sdkSession.on('complete', async () => {
+      // Send any output still being coalesced before the turn is considered done
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.flush();
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+
       // Session query completed, ready for next input
       if (this.options.hybrid !== false) {
         process.stdout.write('\n> ');
@@ -130,6 +267,47 @@ export class Daemon extends EventEmitter {
       }
     });
 
+    // The running query was interrupted - from mobile, or by stop()
+    this.sdkSession.on('cancelled', async () => {
+      // Don't start the next queued prompt right after the user stopped this one
+      this.promptQueuePaused = true;
+      if (!this.running) {
+        return;
+      }
+
+      const queued = this.promptQueue.size;
+      const text =
+        queued > 0
+          ? `[Cancelled - ${queued} queued prompt(s) will run after your next message]`
+          : '[Cancelled]';
+
+      if (this.options.hybrid !== false) {
+        process.stdout.write(`\n${text}\n> `);
+      }
+
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.flush();
+          await this.realtimeClient.broadcastSystem(text);
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
+    // A limit stopped the session - queued prompts wait until it's overridden
+    this.sdkSession.on('limit-reached', async (kind: SessionLimitKind) => {
+      await this.reportLimitReached(kind);
+    });
+
+    // Limits were changed or overridden - let held prompts run if nothing blocks them now
+    this.sdkSession.on('limits', async () => {
+      await this.broadcastLimits();
+      if (!this.sdkSession.isLimitReached() && !this.promptQueuePaused) {
+        await this.dispatchPrompts();
+      }
+    });
+
     // Wire up permission mode changes to broadcast
     this.sdkSession.on('permission-mode', async (mode: PermissionMode) => {
       if (this.realtimeClient) {
@@ -152,6 +330,21 @@ export class Daemon extends EventEmitter {
       }
     });
 
+    // Keep the answers to a question in the history
+    this.sdkSession.on('question-answered', async (record: QuestionAnswerRecord) => {
+      if (this.options.hybrid !== false) {
+        process.stdout.write(`\n${formatQuestionAnswers(record.questions, record.responses)}\n`);
+      }
+
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.broadcastQuestionAnswer(record);
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
     // Wire up permission requests to broadcast to mobile
     this.sdkSession.on('permission-request', async (requestData: PermissionRequestData) => {
       if (this.realtimeClient) {
@@ -163,6 +356,48 @@ export class Daemon extends EventEmitter {
       }
     });
 
+    // Tell mobile when a permission request or question no longer needs an answer
+    this.sdkSession.on('request-retracted', async (retractedId: string) => {
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.broadcastRequestRetracted(retractedId);
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
+    // Record automatic decisions on unanswered permission requests in the session log
+    this.sdkSession.on('permission-timeout', async (decision: PermissionTimeoutDecision) => {
+      const outcome = decision.behavior === 'allow' ? 'allowed' : 'denied';
+      const how =
+        decision.action === 'local' && this.options.hybrid !== false
+          ? 'in the terminal'
+          : 'automatically';
+      const text =
+        `[Permission for ${decision.toolName} not answered within ` +
+        `${decision.timeoutSeconds}s - ${outcome} ${how}]`;
+
+      if (this.options.hybrid !== false) {
+        process.stdout.write(`\n${text}\n`);
+      }
+
+      if (this.realtimeClient) {
+        try {
+          await this.realtimeClient.broadcastSystem(text);
+        } catch {
+          // Silently handle broadcast errors
+        }
+      }
+    });
+
+    // Save rules the user chose to "always allow" from mobile
+    this.sdkSession.on('permission-rules-added', (update: PermissionUpdate) => {
+      if (!this.configManager.addPermissionRules(update)) {
+        console.warn('[WARN] Failed to save permission rule to settings');
+      }
+    });
+
     // Wire up model changes to broadcast and persist
     this.sdkSession.on('model', async (model: string) => {
       // Persist model to database for this session
@@ -190,6 +425,7 @@ export class Daemon extends EventEmitter {
       if (!this.commandsBroadcast) {
         this.commandsBroadcast = true;
         await this.broadcastCommands();
+        await this.broadcastLimits();
       }
 
       // Handle mode change requests
@@ -257,6 +493,16 @@ export class Daemon extends EventEmitter {
         return;
       }
 
+      // Handle replay request - mobile detected a gap in the output sequence
+      if (message.type === 'replay-request' && message.replayRange) {
+        try {
+          await this.realtimeClient?.broadcastReplay(message.replayRange);
+        } catch {
+          // Silently handle broadcast errors
+        }
+        return;
+      }
+
       // Handle mobile disconnect notification
       if (message.type === 'mobile-disconnect') {
         if (this.options.hybrid !== false) {
@@ -321,8 +567,47 @@ export class Daemon extends EventEmitter {
 
       // Handle user answer (response to AskUserQuestion)
       if (message.type === 'user-answer' && message.userAnswer) {
-        const answerText = Object.values(message.userAnswer.answers).join('\n');
-        await this.sdkSession.sendPrompt(answerText);
+        const answer = message.userAnswer;
+        const questions = this.sdkSession.getAskedQuestions(answer.toolUseId);
+        if (this.sdkSession.answerQuestion(answer)) {
+          return;
+        }
+        // The tool call is gone (e.g. the query was interrupted), so send the answers as a prompt
+        await this.submitPrompt(
+          questions
+            ? formatQuestionAnswers(questions, getQuestionResponses(answer, questions.length))
+            : Object.values(answer.answers).join('\n')
+        );
+        return;
+      }
+
+      // Handle interrupt from mobile (doesn't appear in chat)
+      if (message.type === 'interrupt') {
+        this.sdkSession.cancel();
+        return;
+      }
+
+      // Handle reordering or removing a queued prompt from mobile
+      if (message.type === 'prompt-queue-update' && message.queueUpdate) {
+        this.promptQueue.apply(message.queueUpdate);
+        // Sent even if nothing changed, so mobile drops a prompt that already ran
+        await this.broadcastPromptQueue();
+        return;
+      }
+
+      // Handle new limits from mobile
+      if (message.type === 'limits-change' && message.sessionLimits) {
+        this.sdkSession.setLimits(message.sessionLimits);
+        return;
+      }
+
+      // Handle an explicit override of the limit that stopped the session
+      if (message.type === 'limit-override') {
+        const { limits, reached } = this.sdkSession.getLimitsState();
+        if (reached) {
+          await this.writeSystemMessage(`[Overriding the ${describeSessionLimit(reached, limits)}]`);
+          this.sdkSession.overrideLimit();
+        }
         return;
       }
 
@@ -363,7 +648,13 @@ export class Daemon extends EventEmitter {
         }
 
         // Send a prompt to trigger the resumed session
-        await this.sdkSession.sendPrompt('Continue from where we left off.');
+        await this.submitPrompt('Continue from where we left off.');
+        return;
+      }
+
+      // Only input is a prompt - any other content (e.g. output sent back on the
+      // input channel) is ignored
+      if (message.type !== 'input') {
         return;
       }
 
@@ -391,7 +682,7 @@ export class Daemon extends EventEmitter {
           return;
         }
 
-        await this.sdkSession.sendPrompt(prompt, attachments);
+        await this.submitPrompt(prompt, attachments);
       }
     });
 
@@ -459,7 +750,109 @@ export class Daemon extends EventEmitter {
   }
 
   async sendPrompt(prompt: string, attachments?: ImageAttachment[]): Promise<void> {
-    await this.sdkSession.sendPrompt(prompt, attachments);
+    await this.submitPrompt(prompt, attachments);
+  }
+
+  /**
+   * Run a prompt, or queue it if a query is already running or a limit has
+   * stopped the session. Resolves once the queue has drained (or
+   * immediately, for a queued prompt).
+   */
+  private async submitPrompt(prompt: string, attachments?: ImageAttachment[]): Promise<void> {
+    this.promptQueue.enqueue(prompt, attachments);
+    this.promptQueuePaused = false;
+
+    if (this.dispatchingPrompts) {
+      if (this.options.hybrid !== false) {
+        process.stdout.write(`\n[Queued (position ${this.promptQueue.size})]\n`);
+      }
+      await this.broadcastPromptQueue();
+      return;
+    }
+
+    const { reached } = this.sdkSession.getLimitsState();
+    if (reached) {
+      await this.broadcastPromptQueue();
+      await this.reportLimitReached(reached);
+      return;
+    }
+
+    await this.dispatchPrompts();
+  }
+
+  private async dispatchPrompts(): Promise<void> {
+    if (this.dispatchingPrompts) {
+      return;
+    }
+
+    this.dispatchingPrompts = true;
+    try {
+      while (!this.promptQueuePaused && !this.sdkSession.isLimitReached()) {
+        const next = this.promptQueue.shift();
+        if (!next) {
+          break;
+        }
+        await this.broadcastPromptQueue();
+        // Resolves when the SDK has completed (or cancelled) the query
+        await this.sdkSession.sendPrompt(next.content, next.attachments);
+      }
+    } finally {
+      this.dispatchingPrompts = false;
+    }
+  }
+
+  private async reportLimitReached(kind: SessionLimitKind): Promise<void> {
+    const { limits } = this.sdkSession.getLimitsState();
+    const queued = this.promptQueue.size;
+    const waiting = queued > 0 ? ` ${queued} queued prompt(s) are waiting.` : '';
+    await this.writeSystemMessage(
+      `[Stopped: ${describeSessionLimit(kind, limits)} reached.${waiting} ` +
+        'Override it from the phone or raise the limit to continue]'
+    );
+    await this.broadcastLimits();
+  }
+
+  // Show a TermBridge notice in the terminal (hybrid mode) and in the chat on mobile
+  private async writeSystemMessage(text: string): Promise<void> {
+    if (this.options.hybrid !== false) {
+      process.stdout.write(`\n${text}\n> `);
+    }
+
+    if (this.realtimeClient) {
+      try {
+        await this.realtimeClient.flush();
+        await this.realtimeClient.broadcastSystem(text);
+      } catch {
+        // Silently handle broadcast errors
+      }
+    }
+  }
+
+  private async broadcastLimits(): Promise<void> {
+    if (!this.realtimeClient) {
+      return;
+    }
+
+    try {
+      await this.realtimeClient.broadcastLimits(this.sdkSession.getLimitsState());
+    } catch {
+      // Silently handle broadcast errors
+    }
+  }
+
+  private async broadcastPromptQueue(): Promise<void> {
+    const promptQueue = this.promptQueue.list();
+    // Mobile has nothing to clear if it was never shown a queue
+    if (!this.realtimeClient || (promptQueue.length === 0 && !this.promptQueueShown)) {
+      return;
+    }
+
+    this.promptQueueShown = promptQueue.length > 0;
+    try {
+      await this.realtimeClient.broadcastPromptQueue(promptQueue);
+    } catch {
+      // Silently handle broadcast errors
+    }
   }
 
   isRunning(): boolean {
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FileDiff } from 'termbridge-shared';
+import { createFileDiff } from 'termbridge-shared';
+
+// Tools whose input describes a change to a file
+export const FILE_EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write'];
+
+// Files larger than this are not read for diffing
+const MAX_DIFF_FILE_SIZE = 1024 * 1024;
+
+interface EditInput {
+  old_string?: unknown;
+  new_string?: unknown;
+  replace_all?: unknown;
+}
+
+/**
+ * Read a file for diffing. Returns null if it doesn't exist, is too large
+ * or can't be read.
+ */
+function readFileForDiff(filePath: string): string | null {
+  try {
+    const stats = fs.statSync(filePath);
+    if (!stats.isFile() || stats.size > MAX_DIFF_FILE_SIZE) {
+      return null;
+    }
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply Edit-style replacements to a file's content, or return null if an
+ * old_string isn't found (the tool would fail the same way).
+ */
+function applyEdits(content: string, edits: EditInput[]): string | null {
+  let result = content;
+  for (const edit of edits) {
+    if (typeof edit.old_string !== 'string' || typeof edit.new_string !== 'string') {
+      return null;
+    }
+    if (!edit.old_string || !result.includes(edit.old_string)) {
+      return null;
+    }
+    const replacement = edit.new_string;
+    result = edit.replace_all
+      ? result.split(edit.old_string).join(replacement)
+      : result.replace(edit.old_string, () => replacement);
+  }
+  return result;
+}
+
+/**
+ * Diff of the change an Edit, MultiEdit or Write tool use would make,
+ * computed against the file as it is on disk now. When the file can't be
+ * read, an Edit falls back to comparing its old and new strings.
+ * Returns null for other tools and malformed input.
+ */
+export function createToolDiff(
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): FileDiff | null {
+  const filePath = input['file_path'];
+  if (!FILE_EDIT_TOOLS.includes(toolName) || typeof filePath !== 'string' || !filePath) {
+    return null;
+  }
+
+  const current = readFileForDiff(path.resolve(cwd, filePath));
+
+  if (toolName === 'Write') {
+    const content = input['content'];
+    if (typeof content !== 'string') {
+      return null;
+    }
+    return current === null
+      ? createFileDiff(filePath, '', content, { status: 'added' })
+      : createFileDiff(filePath, current, content);
+  }
+
+  const edits: EditInput[] =
+    toolName === 'MultiEdit'
+      ? Array.isArray(input['edits'])
+        ? (input['edits'] as EditInput[])
+        : []
+      : [input as EditInput];
+  if (edits.length === 0) {
+    return null;
+  }
+
+  const updated = current === null ? null : applyEdits(current, edits);
+  if (current !== null && updated !== null) {
+    return createFileDiff(filePath, current, updated);
+  }
+
+  // Not on disk (or not matching it) - show just the edited text
+  const oldText = edits.map((edit) => (typeof edit.old_string === 'string' ? edit.old_string : ''));
+  const newText = edits.map((edit) => (typeof edit.new_string === 'string' ? edit.new_string : ''));
+  return createFileDiff(filePath, oldText.join('\n'), newText.join('\n'), { snippet: true });
+}
@@ -0,0 +1,166 @@
+import * as path from 'path';
+import * as os from 'os';
+import type { PermissionBehavior, PermissionRuleValue } from 'termbridge-shared';
+import { formatPermissionRule } from 'termbridge-shared';
+
+export interface PermissionRule extends PermissionRuleValue {
+  behavior: PermissionBehavior;
+  cwd?: string; // Only applies to sessions in this directory or below it
+}
+
+export interface PermissionRuleDecision {
+  behavior: 'allow' | 'deny';
+  rule: PermissionRule;
+}
+
+// Tools whose rule content is a glob on the file they touch, and the input field holding it
+const PATH_FIELDS: Record<string, string> = {
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+  Glob: 'path',
+  Grep: 'path',
+};
+
+// A prefix rule must not approve whatever is chained after the prefix
+const SHELL_OPERATORS = /[;&|<>`\n]|\$\(/;
+
+function isWithin(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Glob to RegExp: "**" crosses directories, "*" and "?" don't. A trailing
+ * "/**" also matches the directory itself.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '/' && glob.slice(i) === '/**') {
+      source += '(?:/.*)?';
+      break;
+    } else if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directories at all
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolve a path rule the way Claude Code settings write them: "//abs" is
+ * absolute, "~/" is the home directory, anything else is relative to the
+ * project (the session's working directory).
+ */
+function resolveRulePath(pattern: string, cwd: string): string {
+  if (pattern.startsWith('//')) {
+    return pattern.slice(1);
+  }
+  if (pattern.startsWith('~/')) {
+    return path.join(os.homedir(), pattern.slice(2));
+  }
+  return path.join(cwd, pattern);
+}
+
+function matchesContent(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): boolean {
+  const content = rule.ruleContent!;
+
+  if (toolName === 'Bash') {
+    const command = typeof input['command'] === 'string' ? input['command'].trim() : '';
+    if (content.endsWith(':*')) {
+      const prefix = content.slice(0, -2);
+      return (
+        !SHELL_OPERATORS.test(command) &&
+        (command === prefix || command.startsWith(`${prefix} `))
+      );
+    }
+    return command === content;
+  }
+
+  if (toolName === 'WebFetch' && content.startsWith('domain:')) {
+    try {
+      return new URL(String(input['url'])).hostname === content.slice('domain:'.length);
+    } catch {
+      return false;
+    }
+  }
+
+  const field = PATH_FIELDS[toolName];
+  if (field) {
+    const value = input[field];
+    // Glob and Grep search the working directory when no path is given
+    const target = typeof value === 'string' && value ? value : field === 'path' ? '.' : null;
+    if (target === null) {
+      return false;
+    }
+    return globToRegExp(resolveRulePath(content, cwd)).test(path.resolve(cwd, target));
+  }
+
+  return false;
+}
+
+export function matchesPermissionRule(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): boolean {
+  if (rule.cwd && !isWithin(cwd, rule.cwd)) {
+    return false;
+  }
+
+  // "mcp__server" covers every tool the server provides
+  const toolMatches =
+    rule.toolName === toolName ||
+    (rule.toolName.startsWith('mcp__') && toolName.startsWith(`${rule.toolName}__`));
+  if (!toolMatches) {
+    return false;
+  }
+
+  return !rule.ruleContent || matchesContent(rule, toolName, input, cwd);
+}
+
+/**
+ * Decide a tool use from the rules alone. Deny rules win, then "ask" rules
+ * (which always go to the phone), then allow rules. Returns null when the
+ * user has to be asked.
+ */
+export function evaluatePermissionRules(
+  rules: PermissionRule[],
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): PermissionRuleDecision | null {
+  const matching = rules.filter((rule) => matchesPermissionRule(rule, toolName, input, cwd));
+
+  const deny = matching.find((rule) => rule.behavior === 'deny');
+  if (deny) {
+    return { behavior: 'deny', rule: deny };
+  }
+  if (matching.some((rule) => rule.behavior === 'ask')) {
+    return null;
+  }
+  const allow = matching.find((rule) => rule.behavior === 'allow');
+  return allow ? { behavior: 'allow', rule: allow } : null;
+}
+
+export function describePermissionRule(rule: PermissionRule): string {
+  const scope = rule.cwd ? ` in ${rule.cwd}` : '';
+  return `${rule.behavior} ${formatPermissionRule(rule)}${scope}`;
+}
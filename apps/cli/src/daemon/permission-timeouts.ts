@@ -0,0 +1,47 @@
+// What to do with a permission request nobody answered in time
+export type PermissionTimeoutAction =
+  | 'deny'
+  | 'allow'
+  | 'local'; // Ask in the local terminal (hybrid mode), deny when there is none
+
+export interface PermissionTimeoutRule {
+  timeoutSeconds: number; // 0 = wait for an answer indefinitely
+  action: PermissionTimeoutAction;
+}
+
+export interface PermissionTimeoutConfig {
+  default?: PermissionTimeoutRule;
+  tools?: Record<string, PermissionTimeoutRule>; // Per-tool overrides, by tool name
+}
+
+export const PERMISSION_TIMEOUT_ACTIONS: PermissionTimeoutAction[] = ['deny', 'allow', 'local'];
+
+// Long enough to find the phone, short enough that a session isn't stuck for hours
+export const DEFAULT_PERMISSION_TIMEOUT: PermissionTimeoutRule = {
+  timeoutSeconds: 600,
+  action: 'deny',
+};
+
+/**
+ * The timeout rule for a tool: its own override, else the configured
+ * default, else DEFAULT_PERMISSION_TIMEOUT.
+ */
+export function getPermissionTimeout(
+  config: PermissionTimeoutConfig | undefined,
+  toolName: string
+): PermissionTimeoutRule {
+  return config?.tools?.[toolName] ?? config?.default ?? DEFAULT_PERMISSION_TIMEOUT;
+}
+
+export function isPermissionTimeoutRule(value: unknown): value is PermissionTimeoutRule {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const rule = value as Record<string, unknown>;
+  return (
+    typeof rule['timeoutSeconds'] === 'number' &&
+    Number.isInteger(rule['timeoutSeconds']) &&
+    rule['timeoutSeconds'] >= 0 &&
+    PERMISSION_TIMEOUT_ACTIONS.includes(rule['action'] as PermissionTimeoutAction)
+  );
+}
@@ -0,0 +1,54 @@
+import type { PermissionResult } from '@anthropic-ai/claude-agent-sdk';
+import type { PermissionMode, PermissionResponseData, PlanDecision } from 'termbridge-shared';
+
+// Tool Claude calls in plan mode to present its plan for approval
+export const EXIT_PLAN_MODE_TOOL = 'ExitPlanMode';
+
+const KEEP_PLANNING_MESSAGE =
+  'The user wants to keep planning. Stay in plan mode and revise the plan before presenting it again.';
+
+const APPROVED_MODES: Record<Exclude<PlanDecision, 'keep-planning'>, PermissionMode> = {
+  approve: 'default',
+  'approve-auto-edits': 'acceptEdits',
+};
+
+/**
+ * The plan out of an ExitPlanMode tool input, or an empty string if it has none.
+ */
+export function getPlanFromInput(input: Record<string, unknown>): string {
+  return typeof input['plan'] === 'string' ? input['plan'] : '';
+}
+
+/**
+ * The SDK result for an answer to an ExitPlanMode request, and the mode the
+ * session is left in. Approvals switch the running query's mode with a
+ * session setMode update, so Claude starts implementing under the new mode.
+ * Apps that don't send a decision answer with plain allow or deny.
+ */
+export function resolvePlanDecision(response: PermissionResponseData): {
+  result: PermissionResult;
+  mode: PermissionMode;
+} {
+  const decision =
+    response.planDecision ?? (response.behavior === 'allow' ? 'approve' : 'keep-planning');
+
+  if (response.behavior === 'deny' || decision === 'keep-planning') {
+    const feedback = response.planDecision === 'keep-planning' ? response.message?.trim() : '';
+    return {
+      result: {
+        behavior: 'deny',
+        message: feedback ? `${KEEP_PLANNING_MESSAGE} Their feedback: ${feedback}` : KEEP_PLANNING_MESSAGE,
+      },
+      mode: 'plan',
+    };
+  }
+
+  const mode = APPROVED_MODES[decision];
+  return {
+    result: {
+      behavior: 'allow',
+      updatedPermissions: [{ type: 'setMode', mode, destination: 'session' }],
+    },
+    mode,
+  };
+}
@@ -0,0 +1,61 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ImageAttachment, PromptQueueUpdate, QueuedPrompt } from 'termbridge-shared';
+
+export interface PromptQueueEntry extends QueuedPrompt {
+  attachments?: ImageAttachment[];
+}
+
+/**
+ * Prompts sent while a query runs, in the order they will be dispatched.
+ * Mobile sees them (without attachment data) and can reorder or remove them.
+ */
+export class PromptQueue {
+  private entries: PromptQueueEntry[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  enqueue(content: string, attachments?: ImageAttachment[]): PromptQueueEntry {
+    const entry: PromptQueueEntry = {
+      id: uuidv4(),
+      content,
+      attachmentCount: attachments?.length ?? 0,
+      queuedAt: Date.now(),
+      attachments,
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  shift(): PromptQueueEntry | undefined {
+    return this.entries.shift();
+  }
+
+  /**
+   * Move or remove a queued prompt. Returns false if it isn't queued
+   * (e.g. it was dispatched while the update was in flight).
+   */
+  apply(update: PromptQueueUpdate): boolean {
+    const index = this.entries.findIndex((entry) => entry.id === update.promptId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [entry] = this.entries.splice(index, 1);
+    if (update.action === 'move') {
+      const toIndex = Math.min(update.toIndex, this.entries.length);
+      this.entries.splice(toIndex, 0, entry!);
+    }
+    return true;
+  }
+
+  list(): QueuedPrompt[] {
+    return this.entries.map(({ id, content, attachmentCount, queuedAt }) => ({
+      id,
+      content,
+      attachmentCount,
+      queuedAt,
+    }));
+  }
+}
@@ -3,15 +3,38 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { query } from '@anthropic-ai/claude-agent-sdk';
-import type { Options, Query, SlashCommand as SDKSlashCommand, CanUseTool, PermissionResult, PermissionUpdate as SDKPermissionUpdate } from '@anthropic-ai/claude-agent-sdk';
-import type { ImageAttachment, ModelInfo, PermissionMode, SlashCommand, UserQuestionData, UserQuestion, PermissionRequestData, PermissionResponseData, PermissionUpdate } from 'termbridge-shared';
+import type { Options, Query, SlashCommand as SDKSlashCommand, CanUseTool, PermissionResult, PermissionUpdate as SDKPermissionUpdate, SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { ImageAttachment, ModelInfo, PermissionMode, SlashCommand, UserQuestionData, UserQuestion, UserAnswerData, QuestionAnswerRecord, PermissionRequestData, PermissionResponseData, PermissionUpdate, ToolCallData, SubAgentData, SubAgentStatus, UsageStats, SessionLimits, SessionLimitKind, SessionLimitsState } from 'termbridge-shared';
+import { summarizeToolInput, summarizeToolResult, formatPermissionRule, parseTodoWriteInput, getQuestionResponses, getToolAnswers } from 'termbridge-shared';
 import { v4 as uuidv4 } from 'uuid';
+import { createToolDiff } from './file-diff.js';
+import { validateToolInput } from './tool-input.js';
+import { getPermissionTimeout } from './permission-timeouts.js';
+import { evaluatePermissionRules } from './permission-rules.js';
+import type { PermissionRule } from './permission-rules.js';
+import { EXIT_PLAN_MODE_TOOL, getPlanFromInput, resolvePlanDecision } from './plan-mode.js';
+import { getExhaustedLimit, getQueryLimitOptions, overrideSessionLimit } from './session-limits.js';
+import type { LimitUsage } from './session-limits.js';
+import type { PermissionTimeoutAction, PermissionTimeoutConfig, PermissionTimeoutRule } from './permission-timeouts.js';
 
 export interface SdkSessionOptions {
   cwd: string;
   allowedTools?: string[];
   permissionMode?: PermissionMode;
   model?: string;
+  permissionTimeouts?: PermissionTimeoutConfig;
+  permissionRules?: PermissionRule[]; // Decide matching tool uses without asking mobile
+  confirmLocally?: (question: string) => Promise<boolean>; // Local terminal prompt, in hybrid mode
+  limits?: SessionLimits; // Stop the session at a cost, turn or per-prompt time cap
+}
+
+// Automatic decision on a permission request nobody answered in time
+export interface PermissionTimeoutDecision {
+  requestId: string;
+  toolName: string;
+  timeoutSeconds: number;
+  action: PermissionTimeoutAction;
+  behavior: 'allow' | 'deny';
 }
 
 interface ConversationMessage {
@@ -21,9 +44,57 @@ interface ConversationMessage {
 
 // Pending permission request with resolver
 interface PendingPermissionRequest {
+  toolName: string;
+  input: Record<string, unknown>;
   resolve: (result: PermissionResult) => void;
   reject: (error: Error) => void;
   signal: AbortSignal;
+  timer: ReturnType<typeof setTimeout> | null; // Fires the timeout action if nobody answers
+}
+
+// An AskUserQuestion call held in canUseTool until mobile answers it
+interface PendingQuestion {
+  questions: UserQuestion[];
+  input: Record<string, unknown>;
+  resolve: (result: PermissionResult) => void;
+}
+
+/**
+ * The questions out of an AskUserQuestion tool input, or null if it has none.
+ */
+function parseQuestions(input: unknown): UserQuestion[] | null {
+  const { questions } = (input ?? {}) as {
+    questions?: Array<{
+      question: string;
+      header: string;
+      options: Array<{ label: string; description: string }>;
+      multiSelect?: boolean;
+    }>;
+  };
+  if (!Array.isArray(questions)) {
+    return null;
+  }
+  return questions.map((q) => ({
+    question: q.question,
+    header: q.header,
+    options: q.options.map((o) => ({ label: o.label, description: o.description })),
+    multiSelect: q.multiSelect,
+  }));
+}
+
+/**
+ * Token usage and cost of one turn, from the SDK result message
+ */
+function getTurnUsage(result: SDKResultMessage): UsageStats {
+  return {
+    inputTokens: result.usage?.input_tokens ?? 0,
+    outputTokens: result.usage?.output_tokens ?? 0,
+    cacheReadTokens: result.usage?.cache_read_input_tokens ?? 0,
+    cacheCreationTokens: result.usage?.cache_creation_input_tokens ?? 0,
+    costUsd: result.total_cost_usd ?? 0,
+    durationMs: result.duration_ms ?? 0,
+    turns: 1,
+  };
 }
 
 export class SdkSession extends EventEmitter {
@@ -39,12 +110,27 @@ export class SdkSession extends EventEmitter {
   private pendingContextTransfer: boolean = false;
   private thinkingEnabled: boolean = false;
   private pendingPermissionRequests: Map<string, PendingPermissionRequest> = new Map();
+  private permissionRules: PermissionRule[];
+  // Tool calls seen this turn, by tool_use id, so results can be matched to them
+  private toolCalls: Map<string, ToolCallData> = new Map();
+  // Task sub-agents started this turn, by the tool_use id of their Task call
+  private subAgents: Map<string, SubAgentData> = new Map();
+  // AskUserQuestion calls asked this turn, by tool_use id, retracted if the turn is cancelled
+  private askedQuestions: Map<string, UserQuestion[]> = new Map();
+  // AskUserQuestion calls waiting in canUseTool for mobile's answers, by tool_use id
+  private pendingQuestions: Map<string, PendingQuestion> = new Map();
+  private limits: SessionLimits;
+  private limitUsage: LimitUsage = { costUsd: 0, agentTurns: 0 };
+  // Set when a limit stops the session; prompts are refused until it's overridden
+  private limitReached: SessionLimitKind | null = null;
 
   constructor(options: SdkSessionOptions) {
     super();
     this.options = options;
     this.currentPermissionMode = options.permissionMode || 'default';
     this.currentModel = options.model || 'default';
+    this.permissionRules = [...(options.permissionRules ?? [])];
+    this.limits = { ...options.limits };
   }
 
   /**
@@ -58,12 +144,53 @@ export class SdkSession extends EventEmitter {
     }
 
     this.pendingPermissionRequests.delete(response.requestId);
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+
+    // A plan approval also decides the mode Claude implements the plan in
+    if (pending.toolName === EXIT_PLAN_MODE_TOOL) {
+      const { result, mode } = resolvePlanDecision(response);
+      if (mode !== this.currentPermissionMode) {
+        this.setPermissionMode(mode);
+      }
+      pending.resolve(result);
+      return;
+    }
 
     if (response.behavior === 'allow') {
+      // Edited input replaces the fields it sets; it must still fit the tool
+      const updatedInput = response.updatedInput
+        ? { ...pending.input, ...response.updatedInput }
+        : undefined;
+      const inputError = updatedInput ? validateToolInput(pending.toolName, updatedInput) : null;
+      if (inputError) {
+        this.emit('output', `\n[TermBridge] Edited input rejected: ${inputError}\n`);
+        pending.resolve({
+          behavior: 'deny',
+          message: `The user edited the tool input, but it was invalid: ${inputError}`,
+        });
+        return;
+      }
+
+      // "Always allow": apply the new rules right away, and let the daemon save them.
+      // They are kept from the SDK, which would save them to the same settings file again.
+      const sdkUpdates: PermissionUpdate[] = [];
+      for (const update of response.updatedPermissions ?? []) {
+        if (update.type === 'addRules') {
+          const behavior = update.behavior;
+          this.permissionRules.push(...update.rules.map((rule) => ({ ...rule, behavior })));
+          this.emit('permission-rules-added', update);
+        } else {
+          sdkUpdates.push(update);
+        }
+      }
+
       const result: PermissionResult = {
         behavior: 'allow',
-        updatedInput: response.updatedInput,
-        updatedPermissions: response.updatedPermissions as SDKPermissionUpdate[] | undefined,
+        updatedInput,
+        updatedPermissions:
+          sdkUpdates.length > 0 ? (sdkUpdates as SDKPermissionUpdate[]) : undefined,
       };
       pending.resolve(result);
     } else {
@@ -75,6 +202,43 @@ export class SdkSession extends EventEmitter {
     }
   }
 
+  /**
+   * The questions asked by an AskUserQuestion call this turn, if still unanswered.
+   */
+  getAskedQuestions(toolUseId: string): UserQuestion[] | undefined {
+    return this.askedQuestions.get(toolUseId);
+  }
+
+  /**
+   * Answer an AskUserQuestion call from mobile. The answers are returned to
+   * Claude in the tool's input, keyed by question, and recorded with a
+   * 'question-answered' event. Returns false when the call is no longer
+   * waiting (e.g. the query was interrupted), so the caller can send the
+   * answers on as a prompt instead.
+   */
+  answerQuestion(answer: UserAnswerData): boolean {
+    const pending = this.pendingQuestions.get(answer.toolUseId);
+    const questions = pending?.questions ?? this.askedQuestions.get(answer.toolUseId);
+    if (!questions) {
+      return false;
+    }
+
+    const responses = getQuestionResponses(answer, questions.length);
+    const record: QuestionAnswerRecord = { toolUseId: answer.toolUseId, questions, responses };
+    this.askedQuestions.delete(answer.toolUseId);
+    this.emit('question-answered', record);
+
+    if (!pending) {
+      return false;
+    }
+    this.pendingQuestions.delete(answer.toolUseId);
+    pending.resolve({
+      behavior: 'allow',
+      updatedInput: { ...pending.input, answers: getToolAnswers(questions, responses) },
+    });
+    return true;
+  }
+
   /**
    * Create canUseTool callback for SDK
    */
@@ -91,6 +255,36 @@ export class SdkSession extends EventEmitter {
         agentID?: string;
       }
     ): Promise<PermissionResult> => {
+      // Questions are answered on mobile, and the answers go back in the tool's input
+      if (toolName === 'AskUserQuestion') {
+        const questions = parseQuestions(input);
+        if (questions) {
+          return new Promise<PermissionResult>((resolve, reject) => {
+            this.pendingQuestions.set(options.toolUseID, { questions, input, resolve });
+            options.signal.addEventListener('abort', () => {
+              this.pendingQuestions.delete(options.toolUseID);
+              reject(new Error('Question aborted'));
+            });
+          });
+        }
+      }
+
+      // A matching rule decides without a round-trip to mobile
+      const decision = evaluatePermissionRules(
+        this.permissionRules,
+        toolName,
+        input,
+        this.options.cwd
+      );
+      if (decision) {
+        return decision.behavior === 'allow'
+          ? { behavior: 'allow' }
+          : {
+              behavior: 'deny',
+              message: `Denied by permission rule ${formatPermissionRule(decision.rule)}`,
+            };
+      }
+
       const requestId = uuidv4();
 
       // Convert SDK permission updates to our type
@@ -129,28 +323,99 @@ export class SdkSession extends EventEmitter {
         blockedPath: options.blockedPath,
         decisionReason: options.decisionReason,
         agentId: options.agentID,
+        parentToolUseId: this.toolCalls.get(options.toolUseID)?.parentToolUseId,
       };
 
+      // Plans are shown rendered, with approve / keep planning choices
+      if (toolName === EXIT_PLAN_MODE_TOOL) {
+        requestData.plan = getPlanFromInput(input);
+      }
+
+      // Show edits as a diff against the file as it is now, not as raw input
+      const diff = createToolDiff(toolName, input, this.options.cwd);
+      if (diff) {
+        requestData.diff = diff;
+      }
+
       // Emit event for daemon to broadcast to mobile
       this.emit('permission-request', requestData);
 
       // Create promise that will be resolved when mobile responds
       return new Promise<PermissionResult>((resolve, reject) => {
+        const rule = getPermissionTimeout(this.options.permissionTimeouts, toolName);
+        const timer =
+          rule.timeoutSeconds > 0
+            ? setTimeout(
+                () => this.expirePermissionRequest(requestId, rule),
+                rule.timeoutSeconds * 1000
+              )
+            : null;
+
         this.pendingPermissionRequests.set(requestId, {
+          toolName,
+          input,
           resolve,
           reject,
           signal: options.signal,
+          timer,
         });
 
-        // Handle abort
+        // Handle abort - mobile drops the request from its queue
         options.signal.addEventListener('abort', () => {
-          this.pendingPermissionRequests.delete(requestId);
+          if (timer) {
+            clearTimeout(timer);
+          }
+          if (this.pendingPermissionRequests.delete(requestId)) {
+            this.emit('request-retracted', requestId);
+          }
           reject(new Error('Permission request aborted'));
         });
       });
     };
   }
 
+  /**
+   * Nobody answered a permission request in time: withdraw it from mobile
+   * and decide with the tool's timeout action instead.
+   */
+  private async expirePermissionRequest(
+    requestId: string,
+    rule: PermissionTimeoutRule
+  ): Promise<void> {
+    const pending = this.pendingPermissionRequests.get(requestId);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingPermissionRequests.delete(requestId);
+    this.emit('request-retracted', requestId);
+
+    let allow = rule.action === 'allow';
+    if (rule.action === 'local' && this.options.confirmLocally) {
+      allow = await this.options.confirmLocally(
+        `\n[TermBridge] No answer from mobile. Allow ${pending.toolName}? (y/N) `
+      );
+    }
+
+    const decision: PermissionTimeoutDecision = {
+      requestId,
+      toolName: pending.toolName,
+      timeoutSeconds: rule.timeoutSeconds,
+      action: rule.action,
+      behavior: allow ? 'allow' : 'deny',
+    };
+    this.emit('permission-timeout', decision);
+
+    pending.resolve(
+      allow
+        ? { behavior: 'allow' }
+        : {
+            behavior: 'deny',
+            message: `Permission request was not answered within ${rule.timeoutSeconds}s`,
+          }
+    );
+  }
+
   setPermissionMode(mode: PermissionMode): void {
     this.currentPermissionMode = mode;
     this.emit('permission-mode', mode);
@@ -186,9 +451,22 @@ export class SdkSession extends EventEmitter {
       return;
     }
 
+    if (this.limitReached) {
+      this.emit('limit-reached', this.limitReached);
+      return;
+    }
+
     this.isProcessing = true;
     this.abortController = new AbortController();
 
+    let timedOut = false;
+    const promptTimer = this.limits.maxPromptSeconds
+      ? setTimeout(() => {
+          timedOut = true;
+          this.abortQuery('Prompt time limit reached');
+        }, this.limits.maxPromptSeconds * 1000)
+      : null;
+
     // Track user message in conversation history
     if (prompt.trim()) {
       this.conversationHistory.push({ role: 'user', content: prompt });
@@ -204,6 +482,10 @@ export class SdkSession extends EventEmitter {
         model: this.currentModel,
         // Custom permission handler to route to mobile
         canUseTool: this.createCanUseTool(),
+        // Stream text as it's written - the full block still arrives in the assistant message
+        includePartialMessages: true,
+        // Stop where the session's remaining cost and turn budget runs out
+        ...getQueryLimitOptions(this.limits, this.limitUsage),
       };
 
       // Resume session if we have one
@@ -281,6 +563,9 @@ export class SdkSession extends EventEmitter {
 
       // Track assistant response for this turn
       let assistantResponse = '';
+      this.toolCalls.clear();
+      this.subAgents.clear();
+      this.askedQuestions.clear();
 
       for await (const message of this.currentQuery) {
         // Handle different message types based on the SDK types
@@ -319,24 +604,62 @@ export class SdkSession extends EventEmitter {
               if ('type' in block && block.type === 'text' && 'text' in block) {
                 this.emit('output', block.text);
                 assistantResponse += block.text;
+              } else if ('type' in block && block.type === 'thinking' && 'thinking' in block) {
+                // Only returned while thinking mode is on; redacted blocks have nothing to show
+                this.emit('thinking', block.thinking);
               } else if ('type' in block && block.type === 'tool_use' && 'name' in block) {
-                // Check for AskUserQuestion tool
-                if (block.name === 'AskUserQuestion' && 'input' in block && 'id' in block) {
-                  const input = block.input as { questions?: Array<{ question: string; header: string; options: Array<{ label: string; description: string }>; multiSelect?: boolean }> };
-                  if (input.questions && Array.isArray(input.questions)) {
-                    const questions: UserQuestion[] = input.questions.map(q => ({
-                      question: q.question,
-                      header: q.header,
-                      options: q.options.map(o => ({ label: o.label, description: o.description })),
-                      multiSelect: q.multiSelect,
-                    }));
-                    const questionData: UserQuestionData = {
-                      toolUseId: block.id as string,
-                      questions,
-                    };
-                    this.emit('user-question', questionData);
+                const diff = createToolDiff(
+                  block.name,
+                  block.input as Record<string, unknown>,
+                  this.options.cwd
+                );
+                const input = summarizeToolInput(block.input);
+                const parentToolUseId = message.parent_tool_use_id ?? undefined;
+                this.emitToolCall({
+                  toolUseId: block.id,
+                  toolName: block.name,
+                  input,
+                  status: 'running',
+                  ...(diff && { diff }),
+                  ...(parentToolUseId && { parentToolUseId }),
+                });
+
+                // A Task call starts a sub-agent; the agent's own messages name it as their parent
+                if (block.name === 'Task') {
+                  const { subagent_type } = block.input as { subagent_type?: unknown };
+                  this.emitSubAgent('agent-start', {
+                    toolUseId: block.id,
+                    agentType: typeof subagent_type === 'string' ? subagent_type : 'general-purpose',
+                    description: input.description ?? '',
+                    status: 'running',
+                    toolCount: 0,
+                    startedAt: Date.now(),
+                  });
+                }
+                const agent = parentToolUseId && this.subAgents.get(parentToolUseId);
+                if (agent) {
+                  this.emitSubAgent('agent-progress', {
+                    ...agent,
+                    toolCount: agent.toolCount + 1,
+                    currentTool: block.name,
+                  });
+                }
+
+                // TodoWrite replaces the whole list; sub-agents keep todo lists of their own
+                if (block.name === 'TodoWrite' && message.parent_tool_use_id === null) {
+                  const todos = parseTodoWriteInput(block.input);
+                  if (todos) {
+                    this.emit('todos', todos);
                   }
                 }
+
+                // Check for AskUserQuestion tool
+                const questions = block.name === 'AskUserQuestion' && parseQuestions(block.input);
+                if (questions) {
+                  const questionData: UserQuestionData = { toolUseId: block.id, questions };
+                  this.askedQuestions.set(questionData.toolUseId, questions);
+                  this.emit('user-question', questionData);
+                }
               }
             }
           }
@@ -345,36 +668,193 @@ export class SdkSession extends EventEmitter {
           if (assistantResponse.trim()) {
             this.conversationHistory.push({ role: 'assistant', content: assistantResponse.trim() });
           }
+          this.limitUsage = {
+            costUsd: this.limitUsage.costUsd + (message.total_cost_usd ?? 0),
+            agentTurns: this.limitUsage.agentTurns + (message.num_turns ?? 0),
+          };
+          this.emit('usage', getTurnUsage(message));
           this.emit('complete');
+
+          const reached =
+            message.subtype === 'error_max_budget_usd'
+              ? 'cost'
+              : message.subtype === 'error_max_turns'
+                ? 'turns'
+                : getExhaustedLimit(this.limits, this.limitUsage);
+          if (reached) {
+            this.limitReached = reached;
+            this.emit('limit-reached', reached);
+          }
+        } else if (message.type === 'user') {
+          // Tool results come back to Claude as user messages
+          const content = message.message?.content;
+          if (Array.isArray(content)) {
+            for (const block of content) {
+              if (block.type === 'tool_result') {
+                const toolCall = this.toolCalls.get(block.tool_use_id);
+                if (toolCall) {
+                  // The diff went out with the tool's start - don't send it twice
+                  this.emitToolCall({
+                    ...toolCall,
+                    diff: undefined,
+                    status: block.is_error ? 'error' : 'completed',
+                    summary: summarizeToolResult(block.content),
+                  });
+                }
+                const agent = this.subAgents.get(block.tool_use_id);
+                if (agent) {
+                  this.finishSubAgent(
+                    agent,
+                    block.is_error ? 'error' : 'completed',
+                    summarizeToolResult(block.content)
+                  );
+                }
+              }
+            }
+          }
         } else if (message.type === 'tool_progress') {
-          // Tool progress (tool being used)
-          if ('tool_name' in message) {
-            this.emit('output', `\n[Using tool: ${message.tool_name}]\n`);
+          // Progress for a tool we haven't seen start (e.g. one run by a sub-agent)
+          if (!this.toolCalls.has(message.tool_use_id)) {
+            this.emitToolCall({
+              toolUseId: message.tool_use_id,
+              toolName: message.tool_name,
+              input: {},
+              status: 'running',
+              ...(message.parent_tool_use_id && { parentToolUseId: message.parent_tool_use_id }),
+            });
           }
         } else if (message.type === 'tool_use_summary') {
-          // Tool use summary
-          if ('tool_name' in message) {
-            this.emit('output', `[Tool ${message.tool_name} completed]\n`);
+          // Summary covering one or more finished tools
+          for (const toolUseId of message.preceding_tool_use_ids) {
+            const toolCall = this.toolCalls.get(toolUseId);
+            if (toolCall && toolCall.status !== 'running') {
+              this.emitToolCall({ ...toolCall, summary: message.summary });
+            }
+          }
+        } else if (message.type === 'stream_event') {
+          // Text as it's written, for the main agent only - sub-agents report through tool calls
+          const event = message.event;
+          if (
+            message.parent_tool_use_id === null &&
+            event.type === 'content_block_delta' &&
+            event.delta.type === 'text_delta'
+          ) {
+            this.emit('output-delta', event.delta.text);
           }
         }
       }
     } catch (error) {
       if ((error as Error).name === 'AbortError') {
-        this.emit('output', '\n[Cancelled]\n');
+        for (const toolUseId of this.askedQuestions.keys()) {
+          this.emit('request-retracted', toolUseId);
+        }
+        this.askedQuestions.clear();
+        for (const agent of this.subAgents.values()) {
+          if (agent.status === 'running') {
+            this.finishSubAgent(agent, 'cancelled');
+          }
+        }
+        if (timedOut) {
+          this.limitReached = 'time';
+          this.emit('limit-reached', 'time');
+        } else {
+          this.emit('cancelled');
+        }
       } else {
         this.emit('error', error);
         this.emit('output', `\n[Error: ${(error as Error).message}]\n`);
       }
     } finally {
+      if (promptTimer) {
+        clearTimeout(promptTimer);
+      }
       this.isProcessing = false;
       this.abortController = null;
     }
   }
 
+  private emitToolCall(toolCall: ToolCallData): void {
+    this.toolCalls.set(toolCall.toolUseId, toolCall);
+    this.emit('tool-call', toolCall);
+  }
+
+  private emitSubAgent(
+    event: 'agent-start' | 'agent-progress' | 'agent-finish',
+    agent: SubAgentData
+  ): void {
+    this.subAgents.set(agent.toolUseId, agent);
+    this.emit(event, agent);
+  }
+
+  private finishSubAgent(agent: SubAgentData, status: SubAgentStatus, summary?: string): void {
+    this.emitSubAgent('agent-finish', {
+      ...agent,
+      status,
+      currentTool: undefined,
+      summary,
+      finishedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Interrupt the running query. Pending permission requests are denied and
+   * withdrawn from mobile.
+   */
   cancel(): void {
-    if (this.abortController) {
-      this.abortController.abort();
+    this.abortQuery('Interrupted by user');
+  }
+
+  private abortQuery(reason: string): void {
+    if (!this.abortController) {
+      return;
+    }
+
+    for (const [requestId, pending] of this.pendingPermissionRequests) {
+      this.pendingPermissionRequests.delete(requestId);
+      if (pending.timer) {
+        clearTimeout(pending.timer);
+      }
+      this.emit('request-retracted', requestId);
+      pending.resolve({ behavior: 'deny', message: reason, interrupt: true });
+    }
+    for (const [toolUseId, pending] of this.pendingQuestions) {
+      this.pendingQuestions.delete(toolUseId);
+      pending.resolve({ behavior: 'deny', message: reason, interrupt: true });
+    }
+
+    this.abortController.abort();
+  }
+
+  getLimitsState(): SessionLimitsState {
+    return this.limitReached
+      ? { limits: this.limits, reached: this.limitReached }
+      : { limits: this.limits };
+  }
+
+  isLimitReached(): boolean {
+    return this.limitReached !== null;
+  }
+
+  /**
+   * Replace the session's limits. This unblocks a stopped session unless it
+   * is still over the new cost or turn limit.
+   */
+  setLimits(limits: SessionLimits): void {
+    this.limits = { ...limits };
+    this.limitReached = getExhaustedLimit(this.limits, this.limitUsage);
+    this.emit('limits', this.getLimitsState());
+  }
+
+  /**
+   * Let the session continue past the limit it reached
+   */
+  overrideLimit(): void {
+    if (!this.limitReached) {
+      return;
     }
+    this.limits = overrideSessionLimit(this.limits, this.limitReached);
+    this.limitReached = null;
+    this.emit('limits', this.getLimitsState());
   }
 
   getSessionId(): string | null {
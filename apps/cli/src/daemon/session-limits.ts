@@ -0,0 +1,99 @@
+import type { Options } from '@anthropic-ai/claude-agent-sdk';
+import type { SessionLimitKind, SessionLimits } from 'termbridge-shared';
+
+// What the session has used of the capped resources so far
+export interface LimitUsage {
+  costUsd: number;
+  agentTurns: number; // Model round-trips, as counted by the SDK's num_turns
+}
+
+/**
+ * The cost or turn limit the session has already used up, if any. The time
+ * limit applies to each prompt, so it is never used up ahead of one.
+ */
+export function getExhaustedLimit(
+  limits: SessionLimits,
+  usage: LimitUsage
+): SessionLimitKind | null {
+  if (limits.maxCostUsd !== undefined && usage.costUsd >= limits.maxCostUsd) {
+    return 'cost';
+  }
+  if (limits.maxTurns !== undefined && usage.agentTurns >= limits.maxTurns) {
+    return 'turns';
+  }
+  return null;
+}
+
+/**
+ * Query options that make the SDK stop once the rest of the session's budget
+ * is spent, rather than only noticing after the prompt finishes.
+ */
+export function getQueryLimitOptions(
+  limits: SessionLimits,
+  usage: LimitUsage
+): Pick<Options, 'maxTurns' | 'maxBudgetUsd'> {
+  const options: Pick<Options, 'maxTurns' | 'maxBudgetUsd'> = {};
+  if (limits.maxTurns !== undefined) {
+    options.maxTurns = Math.max(limits.maxTurns - usage.agentTurns, 1);
+  }
+  if (limits.maxCostUsd !== undefined) {
+    options.maxBudgetUsd = Math.max(limits.maxCostUsd - usage.costUsd, 0);
+  }
+  return options;
+}
+
+/**
+ * Parse limits given as command-line strings. Throws on anything that isn't
+ * a positive number, or a whole number where one is needed.
+ */
+export function parseSessionLimits(values: {
+  maxCost?: string;
+  maxTurns?: string;
+  maxPromptTime?: string;
+}): SessionLimits {
+  const limits: SessionLimits = {};
+
+  if (values.maxCost !== undefined) {
+    const maxCostUsd = Number(values.maxCost);
+    if (!Number.isFinite(maxCostUsd) || maxCostUsd <= 0) {
+      throw new Error(`Invalid --max-cost: ${values.maxCost} (expected a positive amount in USD)`);
+    }
+    limits.maxCostUsd = maxCostUsd;
+  }
+  if (values.maxTurns !== undefined) {
+    const maxTurns = Number(values.maxTurns);
+    if (!Number.isInteger(maxTurns) || maxTurns <= 0) {
+      throw new Error(`Invalid --max-turns: ${values.maxTurns} (expected a positive whole number)`);
+    }
+    limits.maxTurns = maxTurns;
+  }
+  if (values.maxPromptTime !== undefined) {
+    const maxPromptSeconds = Number(values.maxPromptTime);
+    if (!Number.isInteger(maxPromptSeconds) || maxPromptSeconds <= 0) {
+      throw new Error(
+        `Invalid --max-prompt-time: ${values.maxPromptTime} (expected a positive number of seconds)`
+      );
+    }
+    limits.maxPromptSeconds = maxPromptSeconds;
+  }
+
+  return limits;
+}
+
+/**
+ * Limits after an explicit override of the one that was reached. Cost and
+ * turn limits are lifted, since the session would hit them again at once;
+ * the time limit still applies to the next prompt.
+ */
+export function overrideSessionLimit(
+  limits: SessionLimits,
+  kind: SessionLimitKind
+): SessionLimits {
+  const next = { ...limits };
+  if (kind === 'cost') {
+    delete next.maxCostUsd;
+  } else if (kind === 'turns') {
+    delete next.maxTurns;
+  }
+  return next;
+}
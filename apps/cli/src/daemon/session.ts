@@ -1,5 +1,6 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { Session, SessionStatus } from 'termbridge-shared';
+import type { Session, SessionStatus, UsageStats } from 'termbridge-shared';
+import { usageToSessionColumns } from 'termbridge-shared';
 
 export interface SessionManagerOptions {
   supabase: SupabaseClient;
@@ -113,4 +114,27 @@ export class SessionManager {
       throw new Error(`Failed to update SDK session ID: ${error.message}`);
     }
   }
+
+  async updateSessionUsage(sessionId: string, usage: UsageStats): Promise<void> {
+    const { error } = await this.supabase
+      .from('sessions')
+      .update(usageToSessionColumns(usage))
+      .eq('id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to update session usage: ${error.message}`);
+    }
+  }
+
+  // todos is the serialized list, already sealed if the machine is paired
+  async updateSessionTodos(sessionId: string, todos: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('sessions')
+      .update({ todos })
+      .eq('id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to update session todos: ${error.message}`);
+    }
+  }
 }
@@ -0,0 +1,98 @@
+import * as path from 'path';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array';
+
+interface ToolInputSchema {
+  required: Record<string, FieldType>;
+  optional: Record<string, FieldType>;
+  absolutePaths?: string[]; // Fields that must hold an absolute path
+}
+
+// Input shapes of the tools a user can edit before allowing them
+const TOOL_INPUT_SCHEMAS: Record<string, ToolInputSchema> = {
+  Bash: {
+    required: { command: 'string' },
+    optional: {
+      description: 'string',
+      timeout: 'number',
+      run_in_background: 'boolean',
+      dangerouslyDisableSandbox: 'boolean',
+    },
+  },
+  Write: {
+    required: { file_path: 'string', content: 'string' },
+    optional: {},
+    absolutePaths: ['file_path'],
+  },
+  Edit: {
+    required: { file_path: 'string', old_string: 'string', new_string: 'string' },
+    optional: { replace_all: 'boolean' },
+    absolutePaths: ['file_path'],
+  },
+  MultiEdit: {
+    required: { file_path: 'string', edits: 'array' },
+    optional: {},
+    absolutePaths: ['file_path'],
+  },
+};
+
+function hasType(value: unknown, type: FieldType): boolean {
+  return type === 'array' ? Array.isArray(value) : typeof value === type;
+}
+
+/**
+ * Check a tool's input against the shape the tool expects. Returns a
+ * description of the first problem found, or null if the input is valid.
+ * Tools without a known schema accept any input.
+ */
+export function validateToolInput(toolName: string, input: Record<string, unknown>): string | null {
+  const schema = TOOL_INPUT_SCHEMAS[toolName];
+  if (!schema) {
+    return null;
+  }
+
+  for (const [field, type] of Object.entries(schema.required)) {
+    if (input[field] === undefined) {
+      return `${toolName} input is missing "${field}"`;
+    }
+    if (!hasType(input[field], type)) {
+      return `${toolName} input "${field}" must be a ${type}`;
+    }
+  }
+
+  for (const [field, value] of Object.entries(input)) {
+    if (field in schema.required || value === undefined) {
+      continue;
+    }
+    const type = schema.optional[field];
+    if (!type) {
+      return `${toolName} input has unknown field "${field}"`;
+    }
+    if (!hasType(value, type)) {
+      return `${toolName} input "${field}" must be a ${type}`;
+    }
+  }
+
+  if (toolName === 'Bash' && !(input['command'] as string).trim()) {
+    return 'Bash command cannot be empty';
+  }
+
+  for (const field of schema.absolutePaths ?? []) {
+    if (!path.isAbsolute(input[field] as string)) {
+      return `${toolName} input "${field}" must be an absolute path`;
+    }
+  }
+
+  if (toolName === 'MultiEdit') {
+    const edits = input['edits'] as unknown[];
+    const isEdit = (edit: unknown) =>
+      typeof edit === 'object' &&
+      edit !== null &&
+      validateToolInput('Edit', { ...edit, file_path: input['file_path'] }) === null;
+    if (edits.length === 0 || !edits.every(isEdit)) {
+      return 'MultiEdit input "edits" must be a non-empty list of edits';
+    }
+  }
+
+  return null;
+}
@@ -22,6 +22,7 @@ const version = packageJson.version || '0.0.0';
 export { Config, getConfig } from './utils/config.js';
 export { Logger, getLogger } from './utils/logger.js';
 export { RealtimeClient } from './realtime/client.js';
+export { RelayServer } from './realtime/relay-server.js';
 export { MessageHandler } from './realtime/handlers.js';
 export { SessionManager } from './daemon/session.js';
 export { MachineManager } from './daemon/machine.js';
@@ -34,6 +35,8 @@ import { createStopCommand } from './commands/stop.js';
 import { createStatusCommand } from './commands/status.js';
 import { createLoginCommand } from './commands/login.js';
 import { createSetupCommand } from './commands/setup.js';
+import { createRelayCommand } from './commands/relay.js';
+import { createPairCommand } from './commands/pair.js';
 
 const program = new Command();
 
@@ -47,6 +50,8 @@ program.addCommand(createStartCommand());
 program.addCommand(createStopCommand());
 program.addCommand(createStatusCommand());
 program.addCommand(createLoginCommand());
+program.addCommand(createRelayCommand());
+program.addCommand(createPairCommand());
 
 // Only parse when run directly (not when imported as library)
 if (process.argv[1]?.includes('termbridge') || process.argv[1]?.endsWith('/index.js') || process.argv[1]?.endsWith('/index.ts')) {
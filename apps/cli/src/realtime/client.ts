@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type {
   RealtimeMessage,
   ModelInfo,
@@ -11,46 +11,155 @@ import type {
   PresencePayload,
   UserQuestionData,
   PermissionRequestData,
+  SeqRange,
+  QueuedPrompt,
+  UsageUpdate,
+  TodoItem,
+  SubAgentData,
+  QuestionAnswerRecord,
+  SessionLimitsState,
+  MessageType,
+  Transport,
+  TransportChannel,
+  ProtocolFeature,
+  ProtocolInfo,
+  ValidationResult,
+  RealtimeMessageType,
+  ToolCallData,
+} from 'termbridge-shared';
+import {
+  REALTIME_CHANNELS,
+  SupabaseTransport,
+  PROTOCOL_VERSION,
+  LEGACY_PROTOCOL_VERSION,
+  SUPPORTED_FEATURES,
+  MESSAGE_SCHEMA_VERSION,
+  validateRealtimeMessage,
+  splitMessage,
+  ChunkAssembler,
+  encryptMessage,
+  decryptMessage,
+  encryptText,
+  decryptText,
+  isEncryptedText,
+  requiresEncryption,
+  getKeyId,
+  serializeToolCall,
+  serializeQuestionAnswer,
+  parseToolCall,
+  parseQuestionAnswer,
+  formatToolCallText,
 } from 'termbridge-shared';
-import { REALTIME_CHANNELS } from 'termbridge-shared';
 
 export interface RealtimeClientOptions {
   supabase: SupabaseClient;
   sessionId: string;
+  transport?: Transport; // Defaults to Supabase Realtime
+  replayBufferSize?: number;
+  coalesceMs?: number; // Window for merging consecutive output chunks
+  eventsPerSecond?: number; // Realtime send budget, shared by every outgoing event
+  // Pairing key - when set, mobile traffic and stored content are encrypted
+  encryptionKey?: Uint8Array;
+}
+
+const DEFAULT_REPLAY_BUFFER_SIZE = 500;
+const DEFAULT_COALESCE_MS = 50;
+const DEFAULT_EVENTS_PER_SECOND = 10;
+
+// Coalesced output is flushed once it grows past this, even while sends are backed up
+const MAX_COALESCED_OUTPUT_LENGTH = 16 * 1024;
+
+// How many inbound message IDs to remember for de-duplicating retries
+const PROCESSED_MESSAGE_ID_LIMIT = 1000;
+
+// Message types persisted to the messages table by the CLI (used for replay fallback)
+const PERSISTED_OUTPUT_TYPES: MessageType[] = [
+  'output',
+  'system',
+  'error',
+  'tool-call',
+  'thinking',
+  'question-answer',
+];
+
+interface PendingOutput {
+  chunks: string[];
+  length: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  done: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// Streamed text waiting to go out as one output-delta
+interface PendingDelta {
+  text: string;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface PendingRow {
+  message: RealtimeMessage;
+  resolve: () => void;
 }
 
 export class RealtimeClient extends EventEmitter {
   private supabase: SupabaseClient;
+  private transport: Transport;
   private sessionId: string;
-  private outputChannel: RealtimeChannel | null = null;
-  private inputChannel: RealtimeChannel | null = null;
-  private presenceChannel: RealtimeChannel | null = null;
+  private outputChannel: TransportChannel | null = null;
+  private inputChannel: TransportChannel | null = null;
+  private presenceChannel: TransportChannel | null = null;
   private seq: number = 0;
   private realtimeEnabled: boolean = false;
+  private replayBuffer: RealtimeMessage[] = [];
+  private replayBufferSize: number;
+  private processedMessageIds: Set<string> = new Set();
+  private inputAssembler: ChunkAssembler = new ChunkAssembler();
+  private encryptionKey: Uint8Array | null;
+  private coalesceMs: number;
+  private eventsPerSecond: number;
+  // Output chunks waiting to be merged into a single message
+  private pendingOutput: PendingOutput | null = null;
+  // Streamed text not sent yet - dropped once the finished block is broadcast
+  private pendingDelta: PendingDelta | null = null;
+  // Rows waiting for the next batched insert, and the insert in flight
+  private pendingRows: PendingRow[] = [];
+  private persisting: Promise<void> | null = null;
+  // Sends go out one at a time, in seq order, within the event budget
+  private sendQueue: Promise<void> = Promise.resolve();
+  private queuedSends: number = 0;
+  private recentSends: number[] = [];
+  // Protocol negotiated with mobile - legacy until it says hello
+  private peerProtocol: ProtocolInfo = { version: LEGACY_PROTOCOL_VERSION, features: [] };
 
   constructor(options: RealtimeClientOptions) {
     super();
     this.supabase = options.supabase;
+    this.transport = options.transport ?? new SupabaseTransport(options.supabase);
     this.sessionId = options.sessionId;
+    this.replayBufferSize = options.replayBufferSize ?? DEFAULT_REPLAY_BUFFER_SIZE;
+    this.coalesceMs = options.coalesceMs ?? DEFAULT_COALESCE_MS;
+    this.eventsPerSecond = options.eventsPerSecond ?? DEFAULT_EVENTS_PER_SECOND;
+    this.encryptionKey = options.encryptionKey ?? null;
   }
 
   async connect(): Promise<void> {
     // Subscribe to output channel (CLI broadcasts to mobile)
     const outputChannelName = REALTIME_CHANNELS.sessionOutput(this.sessionId);
-    this.outputChannel = this.supabase.channel(outputChannelName);
+    this.outputChannel = this.transport.channel(outputChannelName);
 
     // Subscribe to input channel (mobile sends to CLI)
     const inputChannelName = REALTIME_CHANNELS.sessionInput(this.sessionId);
-    this.inputChannel = this.supabase.channel(inputChannelName);
+    this.inputChannel = this.transport.channel(inputChannelName);
 
-    this.inputChannel.on('broadcast', { event: 'input' }, (payload) => {
-      this.emit('input', payload.payload as RealtimeMessage);
+    this.inputChannel.onMessage('input', (payload) => {
+      this.handleInput(payload);
     });
 
     const SUBSCRIPTION_TIMEOUT = 10000; // 10 second timeout
 
     const subscribeWithTimeout = (
-      channel: RealtimeChannel,
+      channel: TransportChannel,
       channelName: string
     ): Promise<boolean> => {
       return new Promise<boolean>((resolve) => {
@@ -104,7 +213,7 @@ export class RealtimeClient extends EventEmitter {
     // Set up presence channel to track CLI online status
     if (this.realtimeEnabled) {
       const presenceChannelName = REALTIME_CHANNELS.sessionPresence(this.sessionId);
-      this.presenceChannel = this.supabase.channel(presenceChannelName);
+      this.presenceChannel = this.transport.channel(presenceChannelName);
 
       // Subscribe and track presence - re-track on every SUBSCRIBED (handles reconnection)
       this.presenceChannel.subscribe(async (status, err) => {
@@ -130,70 +239,105 @@ export class RealtimeClient extends EventEmitter {
   }
 
   async disconnect(): Promise<void> {
+    // Don't lose output that is still being coalesced or queued
+    try {
+      await this.flush();
+    } catch {
+      // Channel is going away regardless
+    }
+    this.discardPendingDelta();
+
     // Untrack presence before disconnecting
     if (this.presenceChannel) {
       await this.presenceChannel.untrack();
-      await this.supabase.removeChannel(this.presenceChannel);
+      await this.transport.removeChannel(this.presenceChannel);
       this.presenceChannel = null;
     }
 
     if (this.outputChannel) {
-      await this.supabase.removeChannel(this.outputChannel);
+      await this.transport.removeChannel(this.outputChannel);
       this.outputChannel = null;
     }
 
     if (this.inputChannel) {
-      await this.supabase.removeChannel(this.inputChannel);
+      await this.transport.removeChannel(this.inputChannel);
       this.inputChannel = null;
     }
 
     this.emit('disconnected');
   }
 
+  /**
+   * Queue an output chunk. Consecutive chunks within the coalesce window are
+   * merged into one message, so a burst of small writes costs a single insert
+   * and a single realtime event. Resolves once the merged message is
+   * persisted and sent.
+   */
   async broadcast(content: string): Promise<void> {
     if (!this.outputChannel) {
       throw new Error('Not connected');
     }
 
-    const message: RealtimeMessage = {
-      type: 'output',
-      content,
-      timestamp: Date.now(),
-      seq: ++this.seq,
-    };
+    // The finished block replaces whatever of it was still waiting to stream
+    this.discardPendingDelta();
 
-    // Persist message to database for history
-    try {
-      const { error } = await this.supabase.from('messages').insert({
-        session_id: this.sessionId,
-        type: message.type,
-        content: message.content,
-        seq: message.seq,
+    if (!this.pendingOutput) {
+      let resolve!: () => void;
+      let reject!: (error: unknown) => void;
+      const done = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
       });
-      if (error) {
-        console.warn('[WARN] Failed to persist message:', error.message);
-      }
-    } catch (error) {
-      // Log but don't fail - message persistence is secondary to realtime
-      console.warn('[WARN] Failed to persist message:', error);
+      this.pendingOutput = { chunks: [], length: 0, timer: null, done, resolve, reject };
     }
 
-    // Skip realtime broadcasting if not enabled
-    if (!this.realtimeEnabled) {
+    const pending = this.pendingOutput;
+    pending.chunks.push(content);
+    pending.length += content.length;
+
+    if (pending.length >= MAX_COALESCED_OUTPUT_LENGTH) {
+      this.flushPendingOutput();
+    } else if (!pending.timer) {
+      this.scheduleOutputFlush(pending);
+    }
+
+    return pending.done;
+  }
+
+  /**
+   * Queue streamed text of the block being written. Deltas are merged while
+   * sends are backed up, so streaming never holds up other messages, and are
+   * never persisted - the block's output message is what gets stored.
+   */
+  async broadcastOutputDelta(text: string): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Older apps get the finished block only
+    if (!this.realtimeEnabled || !this.supportsFeature('streaming')) {
       return;
     }
 
-    try {
-      await this.outputChannel.send({
-        type: 'broadcast',
-        event: 'output',
-        payload: message,
-      });
-    } catch (error) {
-      throw error;
+    // Output from an earlier block goes first
+    this.flushPendingOutput();
+
+    if (!this.pendingDelta) {
+      this.pendingDelta = { text: '', timer: null };
+    }
+    this.pendingDelta.text += text;
+    if (!this.pendingDelta.timer) {
+      this.scheduleDeltaFlush(this.pendingDelta);
     }
+  }
 
-    this.emit('broadcast', message);
+  /**
+   * Flush coalesced output and wait for every queued insert and send.
+   * Called when a turn completes so nothing is held back in the window.
+   */
+  async flush(): Promise<void> {
+    this.flushPendingOutput();
+    await Promise.all([this.persisting, this.sendQueue]);
   }
 
   async broadcastMode(mode: PermissionMode): Promise<void> {
@@ -210,16 +354,10 @@ export class RealtimeClient extends EventEmitter {
       type: 'mode',
       permissionMode: mode,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
-    });
-
-    this.emit('broadcast', message);
+    await this.sendOutput(message);
   }
 
   async broadcastCommands(commands: SlashCommand[]): Promise<void> {
@@ -236,16 +374,10 @@ export class RealtimeClient extends EventEmitter {
       type: 'commands',
       commands,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
-    });
-
-    this.emit('broadcast', message);
+    await this.sendOutput(message);
   }
 
   async broadcastModel(model: string): Promise<void> {
@@ -262,16 +394,10 @@ export class RealtimeClient extends EventEmitter {
       type: 'model',
       model,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
-    });
-
-    this.emit('broadcast', message);
+    await this.sendOutput(message);
   }
 
   async broadcastModels(models: ModelInfo[]): Promise<void> {
@@ -288,16 +414,10 @@ export class RealtimeClient extends EventEmitter {
       type: 'models',
       availableModels: models,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
-    });
-
-    this.emit('broadcast', message);
+    await this.sendOutput(message);
   }
 
   async broadcastSystem(content: string): Promise<void> {
@@ -309,40 +429,87 @@ export class RealtimeClient extends EventEmitter {
       type: 'system',
       content,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
     // Persist message to database for history
-    try {
-      const { error } = await this.supabase.from('messages').insert({
-        session_id: this.sessionId,
-        type: message.type,
-        content: message.content,
-        seq: message.seq,
-      });
-      if (error) {
-        console.warn('[WARN] Failed to persist system message:', error.message);
-      }
-    } catch (error) {
-      console.warn('[WARN] Failed to persist system message:', error);
+    await this.persist(message);
+
+    // Skip realtime broadcasting if not enabled
+    if (!this.realtimeEnabled) {
+      return;
+    }
+
+    await this.sendOutput(message);
+  }
+
+  async broadcastToolCall(toolCall: ToolCallData): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
     }
 
+    const message: RealtimeMessage = {
+      type: 'tool-call',
+      toolCall,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    // Persist so the tool cards survive a reload
+    await this.persist(message);
+
     // Skip realtime broadcasting if not enabled
     if (!this.realtimeEnabled) {
       return;
     }
 
-    try {
-      await this.outputChannel.send({
-        type: 'broadcast',
-        event: 'output',
-        payload: message,
-      });
-    } catch (error) {
-      throw error;
+    await this.sendOutput(message);
+  }
+
+  async broadcastThinking(content: string): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
     }
 
-    this.emit('broadcast', message);
+    const message: RealtimeMessage = {
+      type: 'thinking',
+      content,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    // Persisted either way, so the thinking is there once the app is updated
+    await this.persist(message);
+
+    // Older apps would show it as a plain system message
+    if (!this.realtimeEnabled || !this.supportsFeature('thinking')) {
+      return;
+    }
+
+    await this.sendOutput(message);
+  }
+
+  async broadcastQuestionAnswer(record: QuestionAnswerRecord): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    const message: RealtimeMessage = {
+      type: 'question-answer',
+      questionAnswer: record,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    // Persisted either way, so the answers are in the history once the app is updated
+    await this.persist(message);
+
+    // Older apps only know the question card, which the answer already dismissed
+    if (!this.realtimeEnabled || !this.supportsFeature('question-answers')) {
+      return;
+    }
+
+    await this.sendOutput(message);
   }
 
   async broadcastInteractiveResponse(data: InteractiveCommandData): Promise<void> {
@@ -359,16 +526,10 @@ export class RealtimeClient extends EventEmitter {
       type: 'interactive-response',
       interactiveData: data,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
-    });
-
-    this.emit('broadcast', message);
+    await this.sendOutput(message);
   }
 
   async broadcastInteractiveConfirm(
@@ -389,16 +550,10 @@ export class RealtimeClient extends EventEmitter {
       interactiveCommand: command,
       interactiveResult: result,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
-    });
-
-    this.emit('broadcast', message);
+    await this.sendOutput(message);
   }
 
   async broadcastResumeHistory(historySessionId: string): Promise<void> {
@@ -415,16 +570,10 @@ export class RealtimeClient extends EventEmitter {
       type: 'resume-history',
       historySessionId,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
-    });
-
-    this.emit('broadcast', message);
+    await this.sendOutput(message);
   }
 
   async broadcastUserQuestion(questionData: UserQuestionData): Promise<void> {
@@ -441,16 +590,10 @@ export class RealtimeClient extends EventEmitter {
       type: 'user-question',
       userQuestion: questionData,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
-    });
-
-    this.emit('broadcast', message);
+    await this.sendOutput(message);
   }
 
   async broadcastPermissionRequest(requestData: PermissionRequestData): Promise<void> {
@@ -467,18 +610,683 @@ export class RealtimeClient extends EventEmitter {
       type: 'permission-request',
       permissionRequest: requestData,
       timestamp: Date.now(),
-      seq: ++this.seq,
+      seq: this.nextSeq(),
+    };
+
+    await this.sendOutput(message);
+  }
+
+  async broadcastRequestRetracted(retractedId: string): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Older apps don't know the message - their picker stays until answered
+    if (!this.realtimeEnabled || !this.supportsFeature('retractions')) {
+      return;
+    }
+
+    const message: RealtimeMessage = {
+      type: 'request-retracted',
+      retractedId,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    await this.sendOutput(message);
+  }
+
+  async broadcastPromptQueue(promptQueue: QueuedPrompt[]): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Older apps can't show the queue - queued prompts still run in order
+    if (!this.realtimeEnabled || !this.supportsFeature('prompt-queue')) {
+      return;
+    }
+
+    const message: RealtimeMessage = {
+      type: 'prompt-queue',
+      promptQueue,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    await this.sendOutput(message);
+  }
+
+  async broadcastUsage(usage: UsageUpdate): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Older apps don't show usage - it's still saved on the session row
+    if (!this.realtimeEnabled || !this.supportsFeature('usage')) {
+      return;
+    }
+
+    const message: RealtimeMessage = {
+      type: 'usage',
+      usage,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    await this.sendOutput(message);
+  }
+
+  async broadcastTodos(todos: TodoItem[]): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Older apps don't show the todo list - it's still saved on the session row
+    if (!this.realtimeEnabled || !this.supportsFeature('todos')) {
+      return;
+    }
+
+    const message: RealtimeMessage = {
+      type: 'todos',
+      todos,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    await this.sendOutput(message);
+  }
+
+  async broadcastSubAgent(subAgent: SubAgentData): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Older apps only see the sub-agent's tool calls
+    if (!this.realtimeEnabled || !this.supportsFeature('sub-agents')) {
+      return;
+    }
+
+    const message: RealtimeMessage = {
+      type: 'sub-agent',
+      subAgent,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    await this.sendOutput(message);
+  }
+
+  async broadcastLimits(limitsState: SessionLimitsState): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Older apps can't override a limit - the system message still says why the session stopped
+    if (!this.realtimeEnabled || !this.supportsFeature('limits')) {
+      return;
+    }
+
+    const message: RealtimeMessage = {
+      type: 'limits',
+      limitsState,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'output',
-      payload: message,
+    await this.sendOutput(message);
+  }
+
+  async broadcastReplay(range: SeqRange): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Skip broadcasting if realtime is not enabled
+    if (!this.realtimeEnabled) {
+      return;
+    }
+
+    const replayedMessages = await this.getReplayMessages(range);
+
+    const message: RealtimeMessage = {
+      type: 'replay-response',
+      replayRange: range,
+      replayedMessages,
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    };
+
+    await this.sendOutput(message);
+  }
+
+  /**
+   * Collect previously sent messages in the given seq range.
+   * Served from the in-memory replay buffer, falling back to the
+   * messages table for anything that has already been evicted.
+   */
+  async getReplayMessages(range: SeqRange): Promise<RealtimeMessage[]> {
+    const fromSeq = Math.max(1, range.fromSeq);
+    const toSeq = Math.min(range.toSeq, this.seq);
+    if (fromSeq > toSeq) {
+      return [];
+    }
+
+    const buffered = this.replayBuffer.filter(
+      (m) => m.seq >= fromSeq && m.seq <= toSeq
+    );
+
+    const oldestBufferedSeq = this.replayBuffer[0]?.seq ?? this.seq + 1;
+    if (fromSeq >= oldestBufferedSeq) {
+      return buffered;
+    }
+
+    // Part of the range was evicted from the buffer - load it from history
+    const persisted: RealtimeMessage[] = [];
+    try {
+      const { data, error } = await this.supabase
+        .from('messages')
+        .select('type, content, seq, created_at')
+        .eq('session_id', this.sessionId)
+        .in('type', PERSISTED_OUTPUT_TYPES)
+        .gte('seq', fromSeq)
+        .lte('seq', Math.min(toSeq, oldestBufferedSeq - 1))
+        .order('seq', { ascending: true });
+
+      if (error) {
+        console.warn('[WARN] Failed to load messages for replay:', error.message);
+      } else if (data) {
+        for (const row of data) {
+          const content = this.openContent(row.content);
+          const timestamp = new Date(row.created_at).getTime();
+          if (row.type === 'tool-call') {
+            const toolCall = parseToolCall(content);
+            if (toolCall) {
+              persisted.push({ type: 'tool-call', toolCall, timestamp, seq: row.seq });
+            }
+            continue;
+          }
+          if (row.type === 'question-answer') {
+            const questionAnswer = parseQuestionAnswer(content);
+            if (questionAnswer) {
+              persisted.push({ type: 'question-answer', questionAnswer, timestamp, seq: row.seq });
+            }
+            continue;
+          }
+          persisted.push({
+            type: row.type as RealtimeMessage['type'],
+            content,
+            timestamp,
+            seq: row.seq,
+          });
+        }
+      }
+    } catch (error) {
+      console.warn('[WARN] Failed to load messages for replay:', error);
+    }
+
+    return [...persisted, ...buffered];
+  }
+
+  /**
+   * Reassemble, validate, acknowledge and de-duplicate inbound messages
+   * before handing them on. Mobile retries unacknowledged messages, so the
+   * same messageId can arrive more than once - only the first copy is emitted.
+   */
+  private handleInput(frame: unknown): void {
+    // Oversized messages arrive as chunk frames - wait for the last one
+    const assembled = this.inputAssembler.accept(frame);
+    if (assembled.status === 'pending') {
+      return;
+    }
+    if (assembled.status === 'error') {
+      this.rejectInput(frame, assembled.error);
+      return;
+    }
+
+    const opened = this.openInput(assembled.payload);
+    if (!opened.ok) {
+      this.rejectInput(assembled.payload, opened.error);
+      return;
+    }
+
+    const payload = opened.value;
+    const result = validateRealtimeMessage(payload);
+    if (!result.ok) {
+      this.rejectInput(payload, result.error);
+      return;
+    }
+
+    const message = result.value;
+
+    if (message.type === 'message-rejected') {
+      // Never answered, so two peers can't bounce rejections back and forth
+      console.warn(
+        `[WARN] Mobile rejected a ${message.rejection?.rejectedType ?? 'message'}: ${message.rejection?.reason}`
+      );
+      return;
+    }
+
+    if (message.messageId) {
+      // Always ack, even for duplicates - a retry means our last ack was lost
+      this.sendAck(message.messageId).catch(() => {
+        // Mobile will retry and we'll ack again
+      });
+
+      if (this.processedMessageIds.has(message.messageId)) {
+        return;
+      }
+
+      this.processedMessageIds.add(message.messageId);
+      if (this.processedMessageIds.size > PROCESSED_MESSAGE_ID_LIMIT) {
+        const oldest = this.processedMessageIds.values().next().value;
+        if (oldest !== undefined) {
+          this.processedMessageIds.delete(oldest);
+        }
+      }
+    }
+
+    if (message.type === 'hello') {
+      this.handleHello(message.protocol);
+      return;
+    }
+
+    this.emit('input', message);
+  }
+
+  /**
+   * Unwrap an encrypted envelope. Once this machine has a pairing key, only
+   * the handshake and rejections may arrive in the clear.
+   */
+  private openInput(payload: unknown): ValidationResult<unknown> {
+    const type =
+      typeof payload === 'object' && payload !== null
+        ? (payload as { type?: unknown }).type
+        : undefined;
+
+    if (type === 'encrypted') {
+      if (!this.encryptionKey) {
+        return { ok: false, error: 'This machine is not paired - run "termbridge pair"' };
+      }
+
+      const envelope = validateRealtimeMessage(payload);
+      if (!envelope.ok) {
+        return envelope;
+      }
+
+      const message = decryptMessage(envelope.value, this.encryptionKey, {
+        sessionId: this.sessionId,
+        direction: 'input',
+      });
+      if (message === null) {
+        return { ok: false, error: 'Could not decrypt message - pair this device again' };
+      }
+      return { ok: true, value: message };
+    }
+
+    if (
+      this.encryptionKey &&
+      typeof type === 'string' &&
+      requiresEncryption(type as RealtimeMessageType)
+    ) {
+      return { ok: false, error: 'Encryption required - pair this device with "termbridge pair"' };
+    }
+
+    return { ok: true, value: payload };
+  }
+
+  /**
+   * Log an invalid payload and tell mobile why it was dropped.
+   */
+  private rejectInput(payload: unknown, reason: string): void {
+    const fields = (typeof payload === 'object' && payload !== null ? payload : {}) as Record<
+      string,
+      unknown
+    >;
+    const rejectedType = typeof fields['type'] === 'string' ? fields['type'] : undefined;
+    const messageId = typeof fields['messageId'] === 'string' ? fields['messageId'] : undefined;
+
+    console.warn(`[WARN] Rejected invalid ${rejectedType ?? 'message'} from mobile: ${reason}`);
+
+    if (!this.realtimeEnabled || !this.supportsFeature('rejections')) {
+      return;
+    }
+
+    this.sendOutput({
+      type: 'message-rejected',
+      rejection: {
+        reason,
+        rejectedType,
+        messageId,
+        protocolVersion: MESSAGE_SCHEMA_VERSION,
+      },
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    }).catch(() => {
+      // Already logged locally
+    });
+  }
+
+  /**
+   * Record what the mobile app supports and reply with our capabilities.
+   * Only features both sides know are enabled; the reply lists all of ours,
+   * so the app can tell which ones it is missing.
+   */
+  private handleHello(protocol: ProtocolInfo | undefined): void {
+    const features = (protocol?.features ?? []).filter((f) => SUPPORTED_FEATURES.includes(f));
+    this.peerProtocol = {
+      version: protocol?.version ?? LEGACY_PROTOCOL_VERSION,
+      features,
+    };
+
+    this.sendOutput({
+      type: 'capabilities',
+      protocol: {
+        version: PROTOCOL_VERSION,
+        features: SUPPORTED_FEATURES,
+        ...(this.encryptionKey && { keyId: getKeyId(this.encryptionKey) }),
+      },
+      timestamp: Date.now(),
+      seq: this.nextSeq(),
+    }).catch(() => {
+      // Mobile re-sends hello when it reconnects
     });
 
+    this.emit('peer-protocol', this.peerProtocol);
+  }
+
+  /**
+   * Whether the connected mobile app understands messages gated by a feature.
+   * Callers should fall back to plain output when it doesn't.
+   */
+  supportsFeature(feature: ProtocolFeature): boolean {
+    return this.peerProtocol.features.includes(feature);
+  }
+
+  getPeerProtocol(): ProtocolInfo {
+    return this.peerProtocol;
+  }
+
+  private async sendAck(messageId: string): Promise<void> {
+    if (!this.outputChannel || !this.realtimeEnabled) {
+      return;
+    }
+
+    // Acks don't consume a seq - they are not part of the output stream
+    const message: RealtimeMessage = {
+      type: 'ack',
+      ackId: messageId,
+      timestamp: Date.now(),
+      seq: this.seq,
+    };
+
+    await this.enqueueSend(message);
+  }
+
+  private async sendOutput(message: RealtimeMessage): Promise<void> {
+    if (!this.outputChannel) {
+      throw new Error('Not connected');
+    }
+
+    // Remember the message before sending so a dropped broadcast can be replayed
+    // (replay responses themselves are never replayed)
+    if (message.type !== 'replay-response') {
+      this.replayBuffer.push(message);
+      if (this.replayBuffer.length > this.replayBufferSize) {
+        this.replayBuffer.shift();
+      }
+    }
+
+    await this.enqueueSend(message);
+
     this.emit('broadcast', message);
   }
 
+  /**
+   * Allocate the next seq. Output still sitting in the coalesce window is
+   * flushed first so it keeps its place ahead of the new message.
+   */
+  private nextSeq(): number {
+    this.flushPendingOutput();
+    this.flushPendingDelta();
+    return ++this.seq;
+  }
+
+  private scheduleDeltaFlush(pending: PendingDelta): void {
+    pending.timer = setTimeout(() => {
+      pending.timer = null;
+      if (this.pendingDelta !== pending) {
+        return;
+      }
+
+      // Over budget - keep merging until the send queue drains
+      if (this.queuedSends > 0) {
+        this.scheduleDeltaFlush(pending);
+        return;
+      }
+
+      this.flushPendingDelta();
+    }, this.coalesceMs);
+  }
+
+  private flushPendingDelta(): void {
+    const pending = this.pendingDelta;
+    if (!pending) {
+      return;
+    }
+    this.discardPendingDelta();
+
+    const message: RealtimeMessage = {
+      type: 'output-delta',
+      content: pending.text,
+      timestamp: Date.now(),
+      seq: ++this.seq,
+    };
+    this.sendOutput(message).catch(() => {
+      // Best effort - the finished block follows
+    });
+  }
+
+  private discardPendingDelta(): void {
+    if (this.pendingDelta?.timer) {
+      clearTimeout(this.pendingDelta.timer);
+    }
+    this.pendingDelta = null;
+  }
+
+  private scheduleOutputFlush(pending: PendingOutput): void {
+    pending.timer = setTimeout(() => {
+      pending.timer = null;
+      if (this.pendingOutput !== pending) {
+        return;
+      }
+
+      // Over budget - keep merging until the send queue drains
+      if (this.queuedSends > 0 && this.realtimeEnabled) {
+        this.scheduleOutputFlush(pending);
+        return;
+      }
+
+      this.flushPendingOutput();
+    }, this.coalesceMs);
+  }
+
+  /**
+   * Turn the coalesced chunks into one output message and queue it for
+   * persistence and sending. Does nothing when no output is pending.
+   */
+  private flushPendingOutput(): void {
+    const pending = this.pendingOutput;
+    if (!pending) {
+      return;
+    }
+
+    this.pendingOutput = null;
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+
+    const message: RealtimeMessage = {
+      type: 'output',
+      content: pending.chunks.join(''),
+      timestamp: Date.now(),
+      seq: ++this.seq,
+    };
+
+    const persisted = this.persist(message);
+    const sent = this.realtimeEnabled ? this.sendOutput(message) : Promise.resolve();
+    Promise.all([persisted, sent]).then(() => pending.resolve(), pending.reject);
+  }
+
+  /**
+   * Queue a message for the messages table. Rows that arrive while an insert
+   * is in flight are written together by the next one, in seq order.
+   */
+  private persist(message: RealtimeMessage): Promise<void> {
+    const written = new Promise<void>((resolve) => {
+      this.pendingRows.push({ message, resolve });
+    });
+
+    if (!this.persisting) {
+      this.persisting = this.persistPendingRows();
+    }
+
+    return written;
+  }
+
+  private async persistPendingRows(): Promise<void> {
+    while (this.pendingRows.length > 0) {
+      const rows = this.pendingRows;
+      this.pendingRows = [];
+
+      try {
+        const { error } = await this.supabase.from('messages').insert(
+          rows.map(({ message }) => ({
+            session_id: this.sessionId,
+            type: message.type,
+            content: this.sealContent(
+              message.toolCall
+                ? serializeToolCall(message.toolCall)
+                : message.questionAnswer
+                  ? serializeQuestionAnswer(message.questionAnswer)
+                  : message.content
+            ),
+            seq: message.seq,
+          }))
+        );
+        if (error) {
+          console.warn('[WARN] Failed to persist messages:', error.message);
+        }
+      } catch (error) {
+        // Log but don't fail - message persistence is secondary to realtime
+        console.warn('[WARN] Failed to persist messages:', error);
+      }
+
+      for (const row of rows) {
+        row.resolve();
+      }
+    }
+
+    this.persisting = null;
+  }
+
+  /**
+   * Send on the output channel once earlier sends have gone out and the
+   * event budget allows. Messages are sealed first when paired, and
+   * oversized ones go out as chunk frames, each counted against the budget.
+   * Callers awaiting this are held back under load, which gives the coalesce
+   * window time to merge more output.
+   */
+  private enqueueSend(message: RealtimeMessage): Promise<void> {
+    const channel = this.outputChannel;
+    if (!channel) {
+      return Promise.reject(new Error('Not connected'));
+    }
+
+    const outgoing = this.downgradeForPeer(message);
+    const sealed =
+      this.encryptionKey && requiresEncryption(outgoing.type)
+        ? encryptMessage(outgoing, this.encryptionKey, {
+            sessionId: this.sessionId,
+            direction: 'output',
+          })
+        : outgoing;
+
+    // Peers that can't reassemble get the message whole, as before
+    const frames = this.supportsFeature('chunking') ? splitMessage(sealed) : [sealed];
+
+    this.queuedSends++;
+    const sent = this.sendQueue.then(async () => {
+      try {
+        for (const frame of frames) {
+          await this.waitForEventBudget();
+          await channel.send('output', frame);
+        }
+      } finally {
+        this.queuedSends--;
+      }
+    });
+
+    // A failed send must not block the ones behind it
+    this.sendQueue = sent.catch(() => {});
+    return sent;
+  }
+
+  /**
+   * Rewrite messages the mobile app can't understand into ones it can:
+   * tool calls become the "[Using tool: X]" output lines older apps parse.
+   */
+  private downgradeForPeer(message: RealtimeMessage): RealtimeMessage {
+    if (this.supportsFeature('tool-calls')) {
+      return message;
+    }
+
+    if (message.type === 'tool-call' && message.toolCall) {
+      return {
+        type: 'output',
+        content: formatToolCallText(message.toolCall),
+        timestamp: message.timestamp,
+        seq: message.seq,
+      };
+    }
+    if (message.type === 'replay-response' && message.replayedMessages) {
+      return {
+        ...message,
+        replayedMessages: message.replayedMessages.map((m) => this.downgradeForPeer(m)),
+      };
+    }
+    return message;
+  }
+
+  // Stored content is encrypted too, so the messages table only holds ciphertext
+  private sealContent(content: string | undefined): string | undefined {
+    return this.encryptionKey && content !== undefined
+      ? encryptText(content, this.encryptionKey)
+      : content;
+  }
+
+  private openContent(content: string): string | undefined {
+    if (!isEncryptedText(content)) {
+      return content;
+    }
+    // Sealed with a key we no longer have (e.g. after "pair --rotate")
+    return this.encryptionKey ? (decryptText(content, this.encryptionKey) ?? undefined) : undefined;
+  }
+
+  private async waitForEventBudget(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.recentSends = this.recentSends.filter((sentAt) => now - sentAt < 1000);
+      if (this.recentSends.length < this.eventsPerSecond) {
+        break;
+      }
+
+      const waitMs = this.recentSends[0]! + 1000 - now;
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+
+    this.recentSends.push(Date.now());
+  }
+
   getSeq(): number {
     return this.seq;
   }
@@ -1,23 +1,24 @@
 import { EventEmitter } from 'events';
-import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
-import type { MachineCommand, PresencePayload } from 'termbridge-shared';
-import { REALTIME_CHANNELS } from 'termbridge-shared';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MachineCommand, PresencePayload, Transport, TransportChannel } from 'termbridge-shared';
+import { REALTIME_CHANNELS, SupabaseTransport, validateMachineCommand } from 'termbridge-shared';
 
 export interface MachineRealtimeClientOptions {
   supabase: SupabaseClient;
   machineId: string;
+  transport?: Transport; // Defaults to Supabase Realtime
 }
 
 export class MachineRealtimeClient extends EventEmitter {
-  private supabase: SupabaseClient;
+  private transport: Transport;
   private machineId: string;
-  private inputChannel: RealtimeChannel | null = null;
-  private outputChannel: RealtimeChannel | null = null;
-  private presenceChannel: RealtimeChannel | null = null;
+  private inputChannel: TransportChannel | null = null;
+  private outputChannel: TransportChannel | null = null;
+  private presenceChannel: TransportChannel | null = null;
 
   constructor(options: MachineRealtimeClientOptions) {
     super();
-    this.supabase = options.supabase;
+    this.transport = options.transport ?? new SupabaseTransport(options.supabase);
     this.machineId = options.machineId;
   }
 
@@ -25,7 +26,7 @@ export class MachineRealtimeClient extends EventEmitter {
     const SUBSCRIPTION_TIMEOUT = 10000;
 
     const subscribeWithTimeout = (
-      channel: RealtimeChannel,
+      channel: TransportChannel,
       channelName: string
     ): Promise<boolean> => {
       return new Promise<boolean>((resolve) => {
@@ -60,15 +61,23 @@ export class MachineRealtimeClient extends EventEmitter {
 
     // Subscribe to input channel (receives commands from mobile)
     const inputChannelName = REALTIME_CHANNELS.machineInput(this.machineId);
-    this.inputChannel = this.supabase.channel(inputChannelName);
-
-    this.inputChannel.on('broadcast', { event: 'machine-command' }, (payload) => {
-      this.emit('command', payload.payload as MachineCommand);
+    this.inputChannel = this.transport.channel(inputChannelName);
+
+    this.inputChannel.onMessage('machine-command', (payload) => {
+      const result = validateMachineCommand(payload);
+      if (!result.ok) {
+        console.warn(`[WARN] Rejected invalid machine command: ${result.error}`);
+        this.broadcastRejection(result.error).catch(() => {
+          // Already logged locally
+        });
+        return;
+      }
+      this.emit('command', result.value);
     });
 
     // Subscribe to output channel (sends responses to mobile)
     const outputChannelName = REALTIME_CHANNELS.machineOutput(this.machineId);
-    this.outputChannel = this.supabase.channel(outputChannelName);
+    this.outputChannel = this.transport.channel(outputChannelName);
 
     const results = await Promise.all([
       subscribeWithTimeout(this.inputChannel, 'machine-input'),
@@ -80,7 +89,7 @@ export class MachineRealtimeClient extends EventEmitter {
     // Set up presence channel to track listener online status
     if (connected) {
       const presenceChannelName = REALTIME_CHANNELS.machinePresence(this.machineId);
-      this.presenceChannel = this.supabase.channel(presenceChannelName);
+      this.presenceChannel = this.transport.channel(presenceChannelName);
 
       this.presenceChannel.subscribe(async (status) => {
         if (status === 'SUBSCRIBED' && this.presenceChannel) {
@@ -110,11 +119,7 @@ export class MachineRealtimeClient extends EventEmitter {
       timestamp: Date.now(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'machine-command',
-      payload: command,
-    });
+    await this.outputChannel.send('machine-command', command);
   }
 
   async broadcastSessionEnded(sessionId: string): Promise<void> {
@@ -126,11 +131,7 @@ export class MachineRealtimeClient extends EventEmitter {
       timestamp: Date.now(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'machine-command',
-      payload: command,
-    });
+    await this.outputChannel.send('machine-command', command);
   }
 
   async broadcastError(error: string): Promise<void> {
@@ -142,27 +143,35 @@ export class MachineRealtimeClient extends EventEmitter {
       timestamp: Date.now(),
     };
 
-    await this.outputChannel.send({
-      type: 'broadcast',
-      event: 'machine-command',
-      payload: command,
-    });
+    await this.outputChannel.send('machine-command', command);
+  }
+
+  private async broadcastRejection(reason: string): Promise<void> {
+    if (!this.outputChannel) return;
+
+    const command: MachineCommand = {
+      type: 'command-rejected',
+      error: reason,
+      timestamp: Date.now(),
+    };
+
+    await this.outputChannel.send('machine-command', command);
   }
 
   async disconnect(): Promise<void> {
     if (this.presenceChannel) {
       await this.presenceChannel.untrack();
-      await this.supabase.removeChannel(this.presenceChannel);
+      await this.transport.removeChannel(this.presenceChannel);
       this.presenceChannel = null;
     }
 
     if (this.inputChannel) {
-      await this.supabase.removeChannel(this.inputChannel);
+      await this.transport.removeChannel(this.inputChannel);
       this.inputChannel = null;
     }
 
     if (this.outputChannel) {
-      await this.supabase.removeChannel(this.outputChannel);
+      await this.transport.removeChannel(this.outputChannel);
       this.outputChannel = null;
     }
 
@@ -0,0 +1,255 @@
+import { EventEmitter } from 'events';
+import type { IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import type {
+  PresencePayload,
+  PresenceState,
+  RelayClientFrame,
+  RelayServerFrame,
+} from 'termbridge-shared';
+
+export interface RelayServerOptions {
+  port: number;
+  host?: string;
+  token?: string;
+}
+
+interface RelayClient {
+  id: string;
+  socket: WebSocket;
+  channels: Set<string>;
+}
+
+/**
+ * Self-hosted replacement for Supabase Realtime broadcast and presence.
+ * Clients join named channels; broadcasts go to every other client on the
+ * channel and presence is tracked per client connection.
+ */
+export class RelayServer extends EventEmitter {
+  private options: RelayServerOptions;
+  private server: WebSocketServer | null = null;
+  private clients: Map<WebSocket, RelayClient> = new Map();
+  private channels: Map<string, Set<RelayClient>> = new Map();
+  private presence: Map<string, Map<string, PresencePayload>> = new Map();
+  private nextClientId: number = 0;
+
+  constructor(options: RelayServerOptions) {
+    super();
+    this.options = options;
+  }
+
+  async start(): Promise<number> {
+    if (this.server) {
+      throw new Error('Relay server is already running');
+    }
+
+    const server = new WebSocketServer({
+      port: this.options.port,
+      host: this.options.host,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+
+    server.on('connection', (socket, request) => this.handleConnection(socket, request));
+    this.server = server;
+
+    return (server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    for (const socket of this.clients.keys()) {
+      socket.terminate();
+    }
+    this.clients.clear();
+    this.channels.clear();
+    this.presence.clear();
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    if (this.options.token) {
+      const url = new URL(request.url ?? '/', 'ws://relay');
+      if (url.searchParams.get('token') !== this.options.token) {
+        this.sendFrame(socket, { type: 'error', message: 'Unauthorized' });
+        socket.close(4401, 'Unauthorized');
+        return;
+      }
+    }
+
+    const client: RelayClient = {
+      id: `client-${++this.nextClientId}`,
+      socket,
+      channels: new Set(),
+    };
+    this.clients.set(socket, client);
+    this.emit('client-connected', client.id);
+
+    socket.on('message', (data) => {
+      let frame: RelayClientFrame;
+      try {
+        frame = JSON.parse(data.toString()) as RelayClientFrame;
+      } catch {
+        this.sendFrame(socket, { type: 'error', message: 'Invalid frame' });
+        return;
+      }
+      this.handleFrame(client, frame);
+    });
+
+    socket.on('close', () => {
+      for (const channel of client.channels) {
+        this.leave(client, channel);
+      }
+      this.clients.delete(socket);
+      this.emit('client-disconnected', client.id);
+    });
+
+    socket.on('error', () => {
+      // close follows and cleans up the client
+    });
+  }
+
+  private handleFrame(client: RelayClient, frame: RelayClientFrame): void {
+    if (typeof frame?.channel !== 'string') {
+      this.sendFrame(client.socket, { type: 'error', message: 'Invalid frame' });
+      return;
+    }
+
+    if (frame.type === 'join') {
+      this.join(client, frame.channel);
+      return;
+    }
+
+    if (frame.type === 'leave') {
+      this.leave(client, frame.channel);
+      return;
+    }
+
+    // Remaining frames require membership of the channel
+    if (!client.channels.has(frame.channel)) {
+      this.sendFrame(client.socket, {
+        type: 'error',
+        channel: frame.channel,
+        message: 'Not joined',
+      });
+      return;
+    }
+
+    if (frame.type === 'broadcast') {
+      const outgoing: RelayServerFrame = {
+        type: 'broadcast',
+        channel: frame.channel,
+        event: frame.event,
+        payload: frame.payload,
+      };
+      for (const member of this.channels.get(frame.channel) ?? []) {
+        // Like Supabase broadcast, senders don't receive their own messages
+        if (member !== client) {
+          this.sendFrame(member.socket, outgoing);
+        }
+      }
+      return;
+    }
+
+    if (frame.type === 'track') {
+      const entries = this.presence.get(frame.channel) ?? new Map();
+      entries.set(client.id, frame.payload);
+      this.presence.set(frame.channel, entries);
+      this.broadcastPresence(frame.channel, [frame.payload], []);
+      return;
+    }
+
+    if (frame.type === 'untrack') {
+      this.untrack(client, frame.channel);
+      return;
+    }
+
+    this.sendFrame(client.socket, { type: 'error', message: 'Unknown frame type' });
+  }
+
+  private join(client: RelayClient, channel: string): void {
+    client.channels.add(channel);
+    const members = this.channels.get(channel) ?? new Set();
+    members.add(client);
+    this.channels.set(channel, members);
+
+    this.sendFrame(client.socket, { type: 'joined', channel });
+    this.sendFrame(client.socket, {
+      type: 'presence',
+      channel,
+      state: this.getPresenceState(channel),
+      joins: [],
+      leaves: [],
+    });
+  }
+
+  private leave(client: RelayClient, channel: string): void {
+    this.untrack(client, channel);
+    client.channels.delete(channel);
+
+    const members = this.channels.get(channel);
+    members?.delete(client);
+    if (members && members.size === 0) {
+      this.channels.delete(channel);
+    }
+  }
+
+  private untrack(client: RelayClient, channel: string): void {
+    const entries = this.presence.get(channel);
+    const payload = entries?.get(client.id);
+    if (!entries || !payload) {
+      return;
+    }
+
+    entries.delete(client.id);
+    if (entries.size === 0) {
+      this.presence.delete(channel);
+    }
+    this.broadcastPresence(channel, [], [payload]);
+  }
+
+  private broadcastPresence(
+    channel: string,
+    joins: PresencePayload[],
+    leaves: PresencePayload[]
+  ): void {
+    const frame: RelayServerFrame = {
+      type: 'presence',
+      channel,
+      state: this.getPresenceState(channel),
+      joins,
+      leaves,
+    };
+    for (const member of this.channels.get(channel) ?? []) {
+      this.sendFrame(member.socket, frame);
+    }
+  }
+
+  private getPresenceState(channel: string): PresenceState {
+    const state: PresenceState = {};
+    for (const [clientId, payload] of this.presence.get(channel) ?? []) {
+      state[clientId] = [payload];
+    }
+    return state;
+  }
+
+  private sendFrame(socket: WebSocket, frame: RelayServerFrame): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  }
+}
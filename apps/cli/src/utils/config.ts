@@ -1,6 +1,16 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { encodeEncryptionKey, decodeEncryptionKey, parsePermissionRule } from 'termbridge-shared';
+import type { PermissionBehavior } from 'termbridge-shared';
+import { isPermissionTimeoutRule } from '../daemon/permission-timeouts.js';
+import type { PermissionTimeoutConfig } from '../daemon/permission-timeouts.js';
+import type { PermissionRule } from '../daemon/permission-rules.js';
+
+// A rule in settings syntax, e.g. "Bash(npm test:*)", optionally limited to one project
+type PermissionRuleEntry = string | { rule: string; cwd: string };
+
+const PERMISSION_BEHAVIORS: PermissionBehavior[] = ['allow', 'deny', 'ask'];
 
 export class ConfigurationError extends Error {
   constructor(message: string) {
@@ -17,8 +27,16 @@ interface ConfigData {
   };
   supabaseUrl?: string;
   supabaseAnonKey?: string;
+  relayUrl?: string;
+  eventsPerSecond?: number;
+  encryptionKey?: string; // base64url pairing key, see "termbridge pair"
+  permissionTimeouts?: PermissionTimeoutConfig;
+  permissionRules?: Partial<Record<PermissionBehavior, PermissionRuleEntry[]>>;
 }
 
+// Matches the Supabase Realtime default client rate limit
+export const DEFAULT_EVENTS_PER_SECOND = 10;
+
 export class Config {
   private configDir: string;
   private configFile: string;
@@ -45,7 +63,8 @@ export class Config {
     if (!existsSync(this.configDir)) {
       mkdirSync(this.configDir, { recursive: true });
     }
-    writeFileSync(this.configFile, JSON.stringify(this.data, null, 2));
+    // Holds session tokens and the encryption key - owner-only when created
+    writeFileSync(this.configFile, JSON.stringify(this.data, null, 2), { mode: 0o600 });
   }
 
   getSupabaseUrl(): string {
@@ -80,6 +99,83 @@ export class Config {
     this.saveConfig();
   }
 
+  getRelayUrl(): string | undefined {
+    // Prefer env var over config file
+    const envValue = process.env['TERMBRIDGE_RELAY_URL'];
+    const url = envValue || this.data.relayUrl;
+    if (!url) {
+      return undefined;
+    }
+
+    try {
+      new URL(url);
+    } catch {
+      const source = envValue ? 'TERMBRIDGE_RELAY_URL' : `relayUrl in ${this.configFile}`;
+      throw new Error(`${source} must be a valid URL`);
+    }
+
+    return url;
+  }
+
+  getEventsPerSecond(): number {
+    // Prefer env var over config file
+    const envValue = process.env['TERMBRIDGE_EVENTS_PER_SECOND'];
+    const value = envValue !== undefined ? Number(envValue) : this.data.eventsPerSecond;
+    if (value === undefined) {
+      return DEFAULT_EVENTS_PER_SECOND;
+    }
+
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error('TERMBRIDGE_EVENTS_PER_SECOND must be a positive integer');
+    }
+
+    return value;
+  }
+
+  getPermissionTimeouts(): PermissionTimeoutConfig {
+    const config: PermissionTimeoutConfig = { ...this.data.permissionTimeouts };
+
+    // Env var overrides the default timeout, keeping the configured action
+    const envValue = process.env['TERMBRIDGE_PERMISSION_TIMEOUT'];
+    if (envValue !== undefined) {
+      config.default = {
+        timeoutSeconds: Number(envValue),
+        action: config.default?.action ?? 'deny',
+      };
+    }
+
+    const rules = [config.default, ...Object.values(config.tools ?? {})];
+    if (!rules.every((rule) => rule === undefined || isPermissionTimeoutRule(rule))) {
+      throw new Error(
+        'Permission timeouts need a whole number of timeoutSeconds and an action of deny, allow or local'
+      );
+    }
+
+    return config;
+  }
+
+  getPermissionRules(): PermissionRule[] {
+    const rules: PermissionRule[] = [];
+    for (const [behavior, entries] of Object.entries(this.data.permissionRules ?? {})) {
+      if (!PERMISSION_BEHAVIORS.includes(behavior as PermissionBehavior)) {
+        throw new Error(`Unknown permission rule list "${behavior}" - use allow, deny or ask`);
+      }
+      for (const entry of entries ?? []) {
+        const value = typeof entry === 'string' ? entry : entry.rule;
+        const rule = parsePermissionRule(value);
+        if (!rule) {
+          throw new Error(`Invalid permission rule "${value}" - expected e.g. "Bash(npm test:*)"`);
+        }
+        rules.push({
+          ...rule,
+          behavior: behavior as PermissionBehavior,
+          ...(typeof entry !== 'string' && { cwd: entry.cwd }),
+        });
+      }
+    }
+    return rules;
+  }
+
   isConfigured(): boolean {
     const hasEnvVars = !!(process.env['SUPABASE_URL'] && process.env['SUPABASE_ANON_KEY']);
     const hasConfigFile = !!(this.data.supabaseUrl && this.data.supabaseAnonKey);
@@ -107,6 +203,23 @@ export class Config {
     this.saveConfig();
   }
 
+  getEncryptionKey(): Uint8Array | undefined {
+    if (!this.data.encryptionKey) {
+      return undefined;
+    }
+
+    const key = decodeEncryptionKey(this.data.encryptionKey);
+    if (!key) {
+      throw new Error('Stored encryption key is invalid. Run "termbridge pair --rotate".');
+    }
+    return key;
+  }
+
+  setEncryptionKey(key: Uint8Array): void {
+    this.data.encryptionKey = encodeEncryptionKey(key);
+    this.saveConfig();
+  }
+
   getSessionTokens(): ConfigData['sessionTokens'] | undefined {
     return this.data.sessionTokens;
   }
@@ -8,6 +8,7 @@ import {
   ScrollView,
 } from 'react-native';
 import Constants from 'expo-constants';
+import { router } from 'expo-router';
 import { useAuthStore } from '../../src/stores/authStore';
 
 export default function SettingsScreen() {
@@ -55,6 +56,21 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      {/* Security Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+          Security
+        </Text>
+        <View style={[styles.card, isDark && styles.cardDark]}>
+          <TouchableOpacity style={styles.row} onPress={() => router.push('/pair')}>
+            <Text style={[styles.label, isDark && styles.labelDark]}>
+              Pair Machine
+            </Text>
+            <Text style={[styles.value, isDark && styles.valueDark]}>›</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
       {/* About Section */}
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
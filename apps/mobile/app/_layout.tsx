@@ -66,6 +66,13 @@ export default function RootLayout() {
             headerBackButtonDisplayMode: 'minimal',
           }}
         />
+        <Stack.Screen
+          name="pair"
+          options={{
+            title: 'Pair Machine',
+            presentation: 'modal',
+          }}
+        />
       </Stack>
       {redirectTo && <Redirect href={redirectTo} />}
       {isLoading && (
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  useColorScheme,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { parsePairingCode, getKeyId } from 'termbridge-shared';
+import { saveMachineKey } from '../src/services/encryption';
+import { useSessionStore } from '../src/stores/sessionStore';
+
+/**
+ * Stores a machine's end-to-end encryption key on this device. Opened from
+ * Settings, or directly by the termbridge://pair?code=... link that
+ * "termbridge pair" prints.
+ */
+export default function PairScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const params = useLocalSearchParams<{ code?: string }>();
+
+  const { machines } = useSessionStore();
+  const [code, setCode] = useState(params.code ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handlePair = async () => {
+    const pairing = parsePairingCode(code);
+    if (!pairing) {
+      Alert.alert('Invalid Code', 'Copy the full code shown by "termbridge pair".');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveMachineKey(pairing.machineId, pairing.key);
+      const machine = machines.find((m) => m.id === pairing.machineId);
+      Alert.alert(
+        'Paired',
+        `${machine?.name ?? 'This machine'} is now end-to-end encrypted (key ${getKeyId(pairing.key)}).`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch {
+      Alert.alert('Pairing Failed', 'Could not store the key on this device.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <Text style={[styles.description, isDark && styles.descriptionDark]}>
+        Run "termbridge pair" on your computer and paste the code below. Messages between this
+        device and that machine are then encrypted, so the server only relays ciphertext.
+      </Text>
+      <TextInput
+        style={[styles.input, isDark && styles.inputDark]}
+        value={code}
+        onChangeText={setCode}
+        placeholder="tb1:..."
+        placeholderTextColor={isDark ? '#6b7280' : '#9ca3af'}
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+      />
+      <TouchableOpacity
+        style={[styles.button, (!code.trim() || isSaving) && styles.buttonDisabled]}
+        onPress={handlePair}
+        disabled={!code.trim() || isSaving}
+      >
+        <Text style={styles.buttonText}>Pair</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  containerDark: {
+    backgroundColor: '#0a0a0a',
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+    color: '#4b5563',
+    marginBottom: 16,
+  },
+  descriptionDark: {
+    color: '#9ca3af',
+  },
+  input: {
+    minHeight: 80,
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    fontFamily: 'Menlo',
+    color: '#1f2937',
+    textAlignVertical: 'top',
+  },
+  inputDark: {
+    backgroundColor: '#1f1f1f',
+    color: '#f3f4f6',
+  },
+  button: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -11,12 +11,19 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, Stack, router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { formatUsage, usageFromSession } from 'termbridge-shared';
 import { useConnectionStore } from '../../src/stores/connectionStore';
 import { useSessionStore } from '../../src/stores/sessionStore';
 import { Terminal } from '../../src/components/Terminal';
 import { InputBar } from '../../src/components/InputBar';
 import { UserQuestionPicker } from '../../src/components/UserQuestionPicker';
 import { PermissionRequestPicker } from '../../src/components/PermissionRequestPicker';
+import { SessionLimitsPicker } from '../../src/components/SessionLimitsPicker';
+import { TodoPanel } from '../../src/components/TodoPanel';
+import { SubAgentTimeline } from '../../src/components/SubAgentTimeline';
+import { getLimitReachedText } from '../../src/utils/limitsUtils';
+import { getAgentTimeline } from '../../src/utils/subAgentUtils';
+import { getPlanResponse } from '../../src/utils/permissionUtils';
 
 export default function SessionScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -29,17 +36,36 @@ export default function SessionScreen() {
     disconnect,
     state,
     requestModels,
-    pendingQuestion,
+    pendingQuestions,
     sendUserAnswer,
-    clearPendingQuestion,
-    pendingPermissionRequest,
+    pendingPermissionRequests,
     sendPermissionResponse,
-    clearPendingPermissionRequest,
+    protocolWarning,
+    isEncrypted,
+    pairingWarning,
+    usage,
+    limitsState,
+    sendLimitsChange,
+    sendLimitOverride,
+    todos,
+    messages,
+    subAgents,
   } = useConnectionStore();
 
+  // Pickers closed with Cancel stay queued behind a badge until reopened
+  const [requestsHidden, setRequestsHidden] = useState(false);
+  const pendingCount = pendingPermissionRequests.length + pendingQuestions.length;
+
+  const agentTimeline = useMemo(() => getAgentTimeline(messages, subAgents), [messages, subAgents]);
+
+  const [limitsVisible, setLimitsVisible] = useState(false);
+  const limitReachedText = getLimitReachedText(limitsState);
+
   const { sessions, updateSessionTitle, sessionOnlineStatus } = useSessionStore();
   const isCliOnline = sessionOnlineStatus[id!] ?? null;
   const session = sessions.find((s) => s.id === id);
+  // Live totals from the CLI, else what was saved on the session
+  const sessionUsage = usage ?? (session ? usageFromSession(session) : null);
 
   const handleEditTitle = () => {
     Alert.prompt(
@@ -61,6 +87,19 @@ export default function SessionScreen() {
     );
   };
 
+  const handleOverrideLimit = () => {
+    Alert.alert(
+      'Override Limit',
+      limitsState?.reached === 'time'
+        ? 'Claude will continue with the next prompt. The time limit still applies to it.'
+        : 'Claude will continue, and this limit is removed for the rest of the session.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Override', style: 'destructive', onPress: () => sendLimitOverride() },
+      ]
+    );
+  };
+
   // Compute effective status for badge display
   const effectiveStatus =
     state === 'connected' && isCliOnline === false
@@ -81,6 +120,15 @@ export default function SessionScreen() {
     };
   }, [id]);
 
+  // Reopen the pickers when something new needs an answer
+  const lastPendingCount = useRef(0);
+  useEffect(() => {
+    if (pendingCount > lastPendingCount.current) {
+      setRequestsHidden(false);
+    }
+    lastPendingCount.current = pendingCount;
+  }, [pendingCount]);
+
   // Request available models when connected
   useEffect(() => {
     if (state === 'connected') {
@@ -100,13 +148,27 @@ export default function SessionScreen() {
         <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
           <Text style={[styles.backText, isDark && styles.backTextDark]}>‹ Back</Text>
         </TouchableOpacity>
-        <TouchableOpacity onPress={handleEditTitle} style={styles.titleButton}>
-          <Text style={[styles.headerTitle, isDark && styles.headerTitleDark]}>
-            {session?.title || 'Session'}
-          </Text>
-          <Text style={[styles.editIcon, isDark && styles.editIconDark]}>✎</Text>
-        </TouchableOpacity>
+        <View style={styles.titleContainer}>
+          <TouchableOpacity onPress={handleEditTitle} style={styles.titleButton}>
+            <Text style={[styles.headerTitle, isDark && styles.headerTitleDark]}>
+              {isEncrypted ? '🔒 ' : ''}
+              {session?.title || 'Session'}
+            </Text>
+            <Text style={[styles.editIcon, isDark && styles.editIconDark]}>✎</Text>
+          </TouchableOpacity>
+          {sessionUsage && sessionUsage.turns > 0 && (
+            <Text style={[styles.usageText, isDark && styles.usageTextDark]}>
+              {formatUsage(sessionUsage)}
+            </Text>
+          )}
+        </View>
         <View style={styles.headerRight}>
+          {/* Only CLIs that enforce limits report them */}
+          {limitsState && (
+            <TouchableOpacity onPress={() => setLimitsVisible(true)}>
+              <Text style={[styles.limitsText, isDark && styles.limitsTextDark]}>Limits</Text>
+            </TouchableOpacity>
+          )}
           {/* Status Badge */}
           <View style={[styles.statusBadge, styles[`statusBadge_${effectiveStatus}`]]}>
             <View style={[styles.statusDot, styles[`statusDot_${effectiveStatus}`]]} />
@@ -122,26 +184,91 @@ export default function SessionScreen() {
           </View>
         </View>
       </View>
+      {protocolWarning && (
+        <View style={[styles.protocolBanner, isDark && styles.protocolBannerDark]}>
+          <Text style={[styles.protocolBannerText, isDark && styles.protocolBannerTextDark]}>
+            {protocolWarning}
+          </Text>
+        </View>
+      )}
+      {pairingWarning && (
+        <TouchableOpacity
+          style={[styles.protocolBanner, isDark && styles.protocolBannerDark]}
+          onPress={() => router.push('/pair')}
+        >
+          <Text style={[styles.protocolBannerText, isDark && styles.protocolBannerTextDark]}>
+            {pairingWarning}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {limitReachedText && (
+        <View style={[styles.limitBanner, isDark && styles.limitBannerDark]}>
+          <Text style={[styles.limitBannerText, isDark && styles.limitBannerTextDark]}>
+            {limitReachedText}
+          </Text>
+          <TouchableOpacity onPress={() => setLimitsVisible(true)}>
+            <Text style={[styles.limitsText, isDark && styles.limitsTextDark]}>Change</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleOverrideLimit}>
+            <Text style={styles.overrideText}>Override</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {requestsHidden && pendingCount > 0 && (
+        <TouchableOpacity
+          style={[styles.pendingBanner, isDark && styles.pendingBannerDark]}
+          onPress={() => setRequestsHidden(false)}
+        >
+          <View style={styles.pendingBadge}>
+            <Text style={styles.pendingBadgeText}>{pendingCount}</Text>
+          </View>
+          <Text style={[styles.pendingBannerText, isDark && styles.pendingBannerTextDark]}>
+            Claude is waiting for your {pendingCount === 1 ? 'answer' : 'answers'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {todos && <TodoPanel todos={todos} isDark={isDark} />}
+      <SubAgentTimeline entries={agentTimeline} isDark={isDark} />
       <Terminal />
       <View style={{ paddingBottom: insets.bottom }}>
         <InputBar disabled={state !== 'connected' || isCliOnline === false} />
       </View>
 
-      {/* User Question Picker (for AskUserQuestion tool) */}
+      {/* User Question Picker (for AskUserQuestion tool), after any permission requests */}
       <UserQuestionPicker
-        visible={pendingQuestion !== null}
-        questionData={pendingQuestion}
+        visible={
+          !requestsHidden && pendingPermissionRequests.length === 0 && pendingQuestions.length > 0
+        }
+        questions={pendingQuestions}
         onSubmit={sendUserAnswer}
-        onClose={clearPendingQuestion}
+        onClose={() => setRequestsHidden(true)}
       />
 
       {/* Permission Request Picker (for SDK canUseTool callback) */}
       <PermissionRequestPicker
-        visible={pendingPermissionRequest !== null}
-        requestData={pendingPermissionRequest}
-        onAllow={() => sendPermissionResponse('allow')}
-        onDeny={(message) => sendPermissionResponse('deny', message)}
-        onClose={clearPendingPermissionRequest}
+        visible={!requestsHidden && pendingPermissionRequests.length > 0}
+        requests={pendingPermissionRequests}
+        subAgents={agentTimeline.map((entry) => entry.agent)}
+        onAllow={(requestId, updatedInput, updatedPermissions) =>
+          sendPermissionResponse({ requestId, behavior: 'allow', updatedInput, updatedPermissions })
+        }
+        onDeny={(requestId, message) =>
+          sendPermissionResponse({ requestId, behavior: 'deny', message })
+        }
+        onPlanDecision={(requestId, decision, feedback) =>
+          sendPermissionResponse(getPlanResponse(requestId, decision, feedback))
+        }
+        onClose={() => setRequestsHidden(true)}
+      />
+
+      <SessionLimitsPicker
+        visible={limitsVisible}
+        limits={limitsState?.limits ?? {}}
+        onSave={(limits) => {
+          sendLimitsChange(limits);
+          setLimitsVisible(false);
+        }}
+        onClose={() => setLimitsVisible(false)}
       />
     </KeyboardAvoidingView>
   );
@@ -181,6 +308,9 @@ const styles = StyleSheet.create({
   backTextDark: {
     color: '#60a5fa',
   },
+  titleContainer: {
+    alignItems: 'center',
+  },
   titleButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -201,11 +331,110 @@ const styles = StyleSheet.create({
   editIconDark: {
     color: '#9ca3af',
   },
+  usageText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  usageTextDark: {
+    color: '#9ca3af',
+  },
   headerRight: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: 8,
   },
+  limitsText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  limitsTextDark: {
+    color: '#60a5fa',
+  },
+  // Protocol version mismatch banner
+  protocolBanner: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#fef3c7',
+    borderBottomWidth: 1,
+    borderBottomColor: '#fde68a',
+  },
+  protocolBannerDark: {
+    backgroundColor: '#422006',
+    borderBottomColor: '#78350f',
+  },
+  protocolBannerText: {
+    fontSize: 13,
+    color: '#92400e',
+  },
+  protocolBannerTextDark: {
+    color: '#fcd34d',
+  },
+  // A limit stopped the session
+  limitBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#fef2f2',
+    borderBottomWidth: 1,
+    borderBottomColor: '#fecaca',
+  },
+  limitBannerDark: {
+    backgroundColor: '#450a0a',
+    borderBottomColor: '#7f1d1d',
+  },
+  limitBannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#991b1b',
+  },
+  limitBannerTextDark: {
+    color: '#fca5a5',
+  },
+  overrideText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  // Queued requests hidden with Cancel
+  pendingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#eff6ff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#bfdbfe',
+  },
+  pendingBannerDark: {
+    backgroundColor: '#172554',
+    borderBottomColor: '#1e3a8a',
+  },
+  pendingBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#ef4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pendingBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  pendingBannerText: {
+    fontSize: 13,
+    color: '#1e40af',
+  },
+  pendingBannerTextDark: {
+    color: '#93c5fd',
+  },
   // Status badge
   statusBadge: {
     flexDirection: 'row',
@@ -1,6 +1,58 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { RealtimeMessage, ImageAttachment, PermissionMode, SlashCommand } from 'termbridge-shared';
+import type {
+  RealtimeMessage,
+  ImageAttachment,
+  PermissionMode,
+  SlashCommand,
+  ProtocolFeature,
+  Session,
+  TransportChannel,
+} from 'termbridge-shared';
+import {
+  PROTOCOL_VERSION,
+  SUPPORTED_FEATURES,
+  generateEncryptionKey,
+  decryptMessage,
+} from 'termbridge-shared';
+import { useSessionStore } from '../stores/sessionStore';
+import { supabase } from '../services/supabase';
+import { transport } from '../services/transport';
+import { getMachineKey } from '../services/encryption';
 import { convertImageToBase64, getMediaTypeFromUri } from '../utils/imageUtils';
+import { findSeqGap, getLastCliSeq, mergeReplayedMessages } from '../utils/replayUtils';
+import { createMessageId, getRetryDelay, ACK_RETRY_MAX_MS } from '../utils/ackUtils';
+import { cliSupports, getProtocolWarning, getPairingWarning } from '../utils/protocolUtils';
+import { messageFromRow, collapseToolCalls, getToolCallDetail } from '../utils/toolCallUtils';
+import { getDiffRows, getSplitDiffRows, formatHunkHeader } from '../utils/diffUtils';
+import { getLanguage, highlightLine } from '../utils/syntaxUtils';
+import {
+  getEditableFields,
+  getEditableValues,
+  buildUpdatedInput,
+  getAlwaysAllowUpdate,
+  getAlwaysAllowLabel,
+  getPlanResponse,
+} from '../utils/permissionUtils';
+import { applyQueueUpdate, getQueuedPromptLabel } from '../utils/promptQueueUtils';
+import { getLimitsForm, parseLimitsForm, getLimitReachedText } from '../utils/limitsUtils';
+import { getTodoProgress, getTodoSummary } from '../utils/todoUtils';
+import { toggleOption, isQuestionAnswered, buildUserAnswer } from '../utils/questionUtils';
+import {
+  upsertSubAgent,
+  getAgentTimeline,
+  getAgentTimelineSummary,
+  getSubAgentStatusText,
+  findParentAgent,
+} from '../utils/subAgentUtils';
+import {
+  enqueueRequest,
+  removeRequest,
+  selectRequest,
+  applyRequestMessage,
+  applyReplayedRequests,
+  getPermissionRequestId,
+  getQuestionId,
+} from '../utils/requestQueueUtils';
 
 // Mock expo-file-system/legacy
 vi.mock('expo-file-system/legacy', () => ({
@@ -30,6 +82,73 @@ vi.mock('../services/supabase', () => ({
   },
 }));
 
+vi.mock('../services/transport', () => ({
+  transport: {
+    channel: vi.fn(),
+    removeChannel: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../services/encryption', () => ({
+  getMachineKey: vi.fn().mockResolvedValue(null),
+}));
+
+describe('SessionStore', () => {
+  describe('endSession', () => {
+    function mockInputChannel() {
+      const sent: unknown[] = [];
+      const channel = {
+        subscribe: vi.fn((callback: (status: string) => void) => {
+          callback('SUBSCRIBED');
+          return channel;
+        }),
+        send: vi.fn(async (_event: string, payload: unknown) => {
+          sent.push(payload);
+        }),
+      };
+      vi.mocked(transport.channel).mockReturnValue(channel as unknown as TransportChannel);
+      vi.mocked(supabase.from).mockReturnValue({
+        update: () => ({ eq: () => Promise.resolve({ error: null }) }),
+      } as unknown as ReturnType<typeof supabase.from>);
+      return sent;
+    }
+
+    it('should seal the disconnect sent for a paired session', async () => {
+      const key = generateEncryptionKey();
+      vi.mocked(getMachineKey).mockResolvedValueOnce(key);
+      const sent = mockInputChannel();
+      useSessionStore.setState({
+        sessions: [{ id: 'session-1', machine_id: 'machine-1', status: 'active' } as Session],
+      });
+
+      await useSessionStore.getState().endSession('session-1');
+
+      expect(getMachineKey).toHaveBeenCalledWith('machine-1');
+      expect(sent).toHaveLength(1);
+      expect(sent[0]).toMatchObject({ type: 'encrypted' });
+      expect(
+        decryptMessage(sent[0] as RealtimeMessage, key, {
+          sessionId: 'session-1',
+          direction: 'input',
+        })
+      ).toMatchObject({
+        type: 'mobile-disconnect',
+      });
+    });
+
+    it('should send the disconnect in the clear for an unpaired session', async () => {
+      const sent = mockInputChannel();
+      useSessionStore.setState({
+        sessions: [{ id: 'session-2', machine_id: 'machine-2', status: 'active' } as Session],
+      });
+
+      await useSessionStore.getState().endSession('session-2');
+
+      expect(sent[0]).toMatchObject({ type: 'mobile-disconnect' });
+    });
+  });
+});
+
 // Test store logic without React Native dependencies
 describe('Store Logic', () => {
   describe('AuthStore', () => {
@@ -1264,6 +1383,516 @@ describe('Image Utils', () => {
   });
 });
 
+describe('Replay Utils', () => {
+  describe('findSeqGap', () => {
+    it('should return null for the next contiguous seq', () => {
+      expect(findSeqGap(4, 5)).toBeNull();
+    });
+
+    it('should return null for old or duplicate seqs', () => {
+      expect(findSeqGap(4, 4)).toBeNull();
+      expect(findSeqGap(4, 2)).toBeNull();
+    });
+
+    it('should return the missing range when seqs are skipped', () => {
+      expect(findSeqGap(4, 8)).toEqual({ fromSeq: 5, toSeq: 7 });
+    });
+  });
+
+  describe('getLastCliSeq', () => {
+    it('should ignore mobile input messages', () => {
+      const messages: RealtimeMessage[] = [
+        { type: 'output', content: 'A', timestamp: 1, seq: 3 },
+        { type: 'input', content: 'Q', timestamp: 2, seq: 9 },
+        { type: 'system', content: 'S', timestamp: 3, seq: 5 },
+      ];
+      expect(getLastCliSeq(messages)).toBe(5);
+    });
+
+    it('should return 0 for empty history', () => {
+      expect(getLastCliSeq([])).toBe(0);
+    });
+  });
+
+  describe('mergeReplayedMessages', () => {
+    it('should add missing chat messages in seq order', () => {
+      const messages: RealtimeMessage[] = [
+        { type: 'output', content: 'A1', timestamp: 1, seq: 1 },
+        { type: 'output', content: 'A4', timestamp: 4, seq: 4 },
+      ];
+      const replayed: RealtimeMessage[] = [
+        { type: 'output', content: 'A3', timestamp: 3, seq: 3 },
+        { type: 'output', content: 'A2', timestamp: 2, seq: 2 },
+      ];
+
+      const merged = mergeReplayedMessages(messages, replayed);
+      expect(merged.map((m) => m.content)).toEqual(['A1', 'A4', 'A2', 'A3']);
+    });
+
+    it('should skip duplicates and state messages', () => {
+      const messages: RealtimeMessage[] = [
+        { type: 'output', content: 'A1', timestamp: 1, seq: 1 },
+      ];
+      const replayed: RealtimeMessage[] = [
+        { type: 'output', content: 'A1', timestamp: 1, seq: 1 },
+        { type: 'mode', permissionMode: 'plan', timestamp: 2, seq: 2 },
+      ];
+
+      expect(mergeReplayedMessages(messages, replayed)).toBe(messages);
+    });
+
+    it('should restore thinking but not streamed text', () => {
+      const replayed: RealtimeMessage[] = [
+        { type: 'thinking', content: 'Plan first', timestamp: 1, seq: 1 },
+        { type: 'output-delta', content: 'Hel', timestamp: 2, seq: 2 },
+      ];
+
+      expect(mergeReplayedMessages([], replayed).map((m) => m.type)).toEqual(['thinking']);
+    });
+  });
+});
+
+describe('Ack Utils', () => {
+  describe('getRetryDelay', () => {
+    it('should double the delay on each attempt', () => {
+      expect(getRetryDelay(1)).toBe(1000);
+      expect(getRetryDelay(2)).toBe(2000);
+      expect(getRetryDelay(3)).toBe(4000);
+    });
+
+    it('should cap the delay', () => {
+      expect(getRetryDelay(10)).toBe(ACK_RETRY_MAX_MS);
+    });
+  });
+
+  describe('createMessageId', () => {
+    it('should generate unique IDs', () => {
+      const ids = new Set(Array.from({ length: 100 }, () => createMessageId()));
+      expect(ids.size).toBe(100);
+    });
+  });
+});
+
+describe('Protocol Utils', () => {
+  describe('cliSupports', () => {
+    it('should assume nothing before the handshake completes', () => {
+      expect(cliSupports(null, 'ack')).toBe(false);
+    });
+
+    it('should check negotiated features', () => {
+      const protocol = { version: PROTOCOL_VERSION, features: ['replay' as const] };
+      expect(cliSupports(protocol, 'replay')).toBe(true);
+      expect(cliSupports(protocol, 'ack')).toBe(false);
+    });
+  });
+
+  describe('getProtocolWarning', () => {
+    it('should return null when both sides have the same features', () => {
+      expect(
+        getProtocolWarning({ version: PROTOCOL_VERSION, features: SUPPORTED_FEATURES })
+      ).toBeNull();
+    });
+
+    it('should not warn about a version difference alone', () => {
+      expect(
+        getProtocolWarning({ version: PROTOCOL_VERSION + 1, features: SUPPORTED_FEATURES })
+      ).toBeNull();
+      expect(
+        getProtocolWarning({ version: PROTOCOL_VERSION - 1, features: SUPPORTED_FEATURES })
+      ).toBeNull();
+    });
+
+    it('should ask to update the CLI when it lacks features the app has', () => {
+      const features = SUPPORTED_FEATURES.filter((feature) => feature !== 'todos');
+      expect(getProtocolWarning({ version: PROTOCOL_VERSION - 1, features })).toContain(
+        'CLI is out of date'
+      );
+      expect(getProtocolWarning({ version: 1, features: [] })).toContain('CLI is out of date');
+    });
+
+    it('should ask to update the app when the CLI has features it lacks', () => {
+      const features = [...SUPPORTED_FEATURES, 'some-future-feature' as ProtocolFeature];
+      expect(getProtocolWarning({ version: PROTOCOL_VERSION + 1, features })).toContain(
+        'Update the app'
+      );
+    });
+  });
+
+  describe('getPairingWarning', () => {
+    it('should return null when neither side is paired or the keys match', () => {
+      expect(getPairingWarning(null, undefined)).toBeNull();
+      expect(getPairingWarning('key-a', 'key-a')).toBeNull();
+    });
+
+    it('should ask to pair when only the CLI has a key', () => {
+      expect(getPairingWarning(null, 'key-a')).toContain('Pair this device');
+    });
+
+    it('should point at the CLI when only this device has a key', () => {
+      expect(getPairingWarning('key-a', undefined)).toContain('termbridge pair');
+    });
+
+    it('should ask to pair again when the keys differ', () => {
+      expect(getPairingWarning('key-a', 'key-b')).toContain('does not match');
+    });
+  });
+});
+
+describe('Tool Call Utils', () => {
+  const toolCall = {
+    toolUseId: 'toolu_1',
+    toolName: 'Bash',
+    input: { command: 'npm test', description: 'Run tests' },
+    status: 'running' as const,
+  };
+
+  describe('messageFromRow', () => {
+    const createdAt = '2024-01-01T00:00:00Z';
+
+    it('should restore tool calls stored as JSON', () => {
+      const row = { type: 'tool-call', content: JSON.stringify(toolCall), seq: 4, created_at: createdAt };
+
+      expect(messageFromRow(row)).toEqual({ type: 'tool-call', toolCall, timestamp: Date.parse(createdAt), seq: 4 });
+    });
+
+    it('should drop tool calls that no longer parse', () => {
+      const unreadable = '[Encrypted - pair this device to read it]';
+
+      expect(
+        messageFromRow({ type: 'tool-call', content: unreadable, seq: 4, created_at: createdAt })
+      ).toBeNull();
+    });
+
+    it('should restore question answers stored as JSON', () => {
+      const questionAnswer = {
+        toolUseId: 'toolu_q',
+        questions: [{ question: 'Which?', header: 'Pick', options: [] }],
+        responses: [{ selected: [], text: 'Neither' }],
+      };
+      const row = {
+        type: 'question-answer',
+        content: JSON.stringify(questionAnswer),
+        seq: 5,
+        created_at: createdAt,
+      };
+
+      expect(messageFromRow(row)).toEqual({
+        type: 'question-answer',
+        questionAnswer,
+        timestamp: Date.parse(createdAt),
+        seq: 5,
+      });
+    });
+
+    it('should pass other rows through', () => {
+      expect(messageFromRow({ type: 'output', content: 'hi', seq: 1, created_at: createdAt })).toEqual({
+        type: 'output',
+        content: 'hi',
+        timestamp: Date.parse(createdAt),
+        seq: 1,
+      });
+    });
+  });
+
+  describe('collapseToolCalls', () => {
+    it('should keep one message per tool where it started, with its latest state', () => {
+      const messages: RealtimeMessage[] = [
+        { type: 'tool-call', toolCall, timestamp: 100, seq: 1 },
+        { type: 'output', content: 'Running tests', timestamp: 150, seq: 2 },
+        {
+          type: 'tool-call',
+          toolCall: { ...toolCall, status: 'completed', summary: '12 passed' },
+          timestamp: 200,
+          seq: 3,
+        },
+      ];
+
+      expect(collapseToolCalls(messages)).toEqual([
+        {
+          type: 'tool-call',
+          toolCall: { ...toolCall, status: 'completed', summary: '12 passed' },
+          timestamp: 100,
+          seq: 1,
+        },
+        messages[1],
+      ]);
+    });
+
+    it('should keep the diff sent with the first message', () => {
+      const diff = {
+        filePath: 'a.ts',
+        status: 'modified' as const,
+        hunks: [],
+        additions: 1,
+        deletions: 0,
+      };
+      const messages: RealtimeMessage[] = [
+        { type: 'tool-call', toolCall: { ...toolCall, diff }, timestamp: 100, seq: 1 },
+        { type: 'tool-call', toolCall: { ...toolCall, status: 'completed' }, timestamp: 200, seq: 2 },
+      ];
+
+      expect(collapseToolCalls(messages)[0]!.toolCall).toEqual({
+        ...toolCall,
+        status: 'completed',
+        diff,
+      });
+    });
+
+    it('should leave messages without tool calls alone', () => {
+      const messages: RealtimeMessage[] = [{ type: 'output', content: 'hi', timestamp: 1, seq: 1 }];
+
+      expect(collapseToolCalls(messages)).toEqual(messages);
+    });
+  });
+
+  describe('getToolCallDetail', () => {
+    it('should prefer the most specific input field', () => {
+      expect(getToolCallDetail(toolCall)).toBe('npm test');
+      expect(getToolCallDetail({ ...toolCall, input: { filePath: '/a.ts' } })).toBe('/a.ts');
+      expect(getToolCallDetail({ ...toolCall, input: {} })).toBeNull();
+    });
+  });
+});
+
+describe('Diff Utils', () => {
+  const hunk = {
+    oldStart: 10,
+    oldLines: 3,
+    newStart: 10,
+    newLines: 4,
+    lines: [' keep', '-old', '+new 1', '+new 2', ' end'],
+  };
+
+  it('should number unified rows on each side', () => {
+    expect(getDiffRows(hunk)).toEqual([
+      { type: 'context', content: 'keep', oldLine: 10, newLine: 10 },
+      { type: 'remove', content: 'old', oldLine: 11 },
+      { type: 'add', content: 'new 1', newLine: 11 },
+      { type: 'add', content: 'new 2', newLine: 12 },
+      { type: 'context', content: 'end', oldLine: 12, newLine: 13 },
+    ]);
+  });
+
+  it('should pair removed and added lines for the split view', () => {
+    const rows = getSplitDiffRows(hunk);
+
+    expect(rows).toHaveLength(4);
+    expect(rows[1]).toEqual({
+      left: { type: 'remove', content: 'old', oldLine: 11 },
+      right: { type: 'add', content: 'new 1', newLine: 11 },
+    });
+    expect(rows[2]).toEqual({ left: undefined, right: { type: 'add', content: 'new 2', newLine: 12 } });
+  });
+
+  it('should format hunk headers', () => {
+    expect(formatHunkHeader(hunk)).toBe('@@ -10,3 +10,4 @@');
+  });
+});
+
+describe('Syntax Utils', () => {
+  it('should pick a language from the file extension', () => {
+    expect(getLanguage('src/app.tsx')).toBe('javascript');
+    expect(getLanguage('main.PY')).toBe('python');
+    expect(getLanguage('README')).toBe('plain');
+  });
+
+  it('should tokenize keywords, strings, numbers and comments', () => {
+    expect(highlightLine("const a = 'x'; // note", 'javascript')).toEqual([
+      { kind: 'keyword', text: 'const' },
+      { kind: 'plain', text: ' a = ' },
+      { kind: 'string', text: "'x'" },
+      { kind: 'plain', text: '; ' },
+      { kind: 'comment', text: '// note' },
+    ]);
+    expect(highlightLine('x = 42', 'python')).toEqual([
+      { kind: 'plain', text: 'x = ' },
+      { kind: 'number', text: '42' },
+    ]);
+  });
+
+  it('should leave unknown languages as plain text', () => {
+    expect(highlightLine('const a', 'plain')).toEqual([{ kind: 'plain', text: 'const a' }]);
+  });
+});
+
+describe('Permission Utils', () => {
+  const writeInput = { file_path: '/app/a.ts', content: 'old' };
+
+  it('should list the editable fields of a tool', () => {
+    expect(getEditableFields('Bash').map((field) => field.key)).toEqual(['command']);
+    expect(getEditableFields('Edit').map((field) => field.key)).toEqual([
+      'file_path',
+      'old_string',
+      'new_string',
+    ]);
+    expect(getEditableFields('WebFetch')).toEqual([]);
+  });
+
+  it('should prefill values from the tool input', () => {
+    expect(getEditableValues('Write', writeInput)).toEqual(writeInput);
+    expect(getEditableValues('Bash', { command: 42 })).toEqual({ command: '' });
+  });
+
+  it('should send only the fields that changed', () => {
+    expect(
+      buildUpdatedInput('Write', writeInput, { file_path: '/app/a.ts', content: 'new' })
+    ).toEqual({ ok: true, updatedInput: { content: 'new' } });
+    expect(buildUpdatedInput('Write', writeInput, writeInput)).toEqual({
+      ok: true,
+      updatedInput: {},
+    });
+  });
+
+  it('should reject empty commands and relative paths', () => {
+    expect(buildUpdatedInput('Bash', { command: 'ls' }, { command: ' ' })).toEqual({
+      ok: false,
+      error: 'Command cannot be empty',
+    });
+    expect(buildUpdatedInput('Write', writeInput, { file_path: 'a.ts', content: '' })).toEqual({
+      ok: false,
+      error: 'Path must be absolute',
+    });
+  });
+
+  it('should offer the first allow rule the SDK suggested', () => {
+    const allow = {
+      type: 'addRules' as const,
+      rules: [{ toolName: 'Bash', ruleContent: 'npm test:*' }, { toolName: 'Read' }],
+      behavior: 'allow' as const,
+      destination: 'localSettings' as const,
+    };
+
+    expect(
+      getAlwaysAllowUpdate([{ type: 'setMode', mode: 'acceptEdits', destination: 'session' }, allow])
+    ).toBe(allow);
+    expect(getAlwaysAllowUpdate([{ ...allow, behavior: 'deny' }])).toBeNull();
+    expect(getAlwaysAllowUpdate(undefined)).toBeNull();
+    expect(getAlwaysAllowLabel(allow)).toBe('Always Allow Bash(npm test:*), Read');
+  });
+
+  it('should answer plans with allow for approvals and deny to keep planning', () => {
+    expect(getPlanResponse('r1', 'approve-auto-edits')).toEqual({
+      requestId: 'r1',
+      behavior: 'allow',
+      planDecision: 'approve-auto-edits',
+    });
+    expect(getPlanResponse('r1', 'keep-planning', '  Add tests first ')).toEqual({
+      requestId: 'r1',
+      behavior: 'deny',
+      planDecision: 'keep-planning',
+      message: 'Add tests first',
+    });
+    expect(getPlanResponse('r1', 'keep-planning', ' ')).not.toHaveProperty('message');
+  });
+});
+
+describe('Request Queue Utils', () => {
+  const request = (requestId: string, toolName = 'Bash') => ({
+    requestId,
+    toolName,
+    toolInput: {},
+    toolUseId: `toolu_${requestId}`,
+  });
+
+  it('should queue concurrent requests in arrival order', () => {
+    let queue = enqueueRequest([], request('a'), getPermissionRequestId);
+    queue = enqueueRequest(queue, request('b'), getPermissionRequestId);
+
+    expect(queue.map(getPermissionRequestId)).toEqual(['a', 'b']);
+  });
+
+  it('should update a request sent again in place', () => {
+    const queue = [request('a'), request('b')];
+    const updated = enqueueRequest(queue, request('a', 'Write'), getPermissionRequestId);
+
+    expect(updated.map((r) => r.toolName)).toEqual(['Write', 'Bash']);
+  });
+
+  it('should remove answered or retracted requests by id', () => {
+    const queue = [request('a'), request('b')];
+    expect(removeRequest(queue, 'a', getPermissionRequestId)).toEqual([request('b')]);
+    expect(removeRequest(queue, 'missing', getPermissionRequestId)).toEqual(queue);
+
+    const questions = [{ toolUseId: 'toolu_q', questions: [] }];
+    expect(removeRequest(questions, 'toolu_q', getQuestionId)).toEqual([]);
+  });
+
+  it('should select the picked request, falling back to the oldest', () => {
+    const queue = [request('a'), request('b')];
+    expect(selectRequest(queue, 'b', getPermissionRequestId)?.requestId).toBe('b');
+    expect(selectRequest(queue, 'gone', getPermissionRequestId)?.requestId).toBe('a');
+    expect(selectRequest(queue, null, getPermissionRequestId)?.requestId).toBe('a');
+    expect(selectRequest([], 'a', getPermissionRequestId)).toBeNull();
+  });
+
+  describe('applyRequestMessage', () => {
+    const empty = { pendingPermissionRequests: [], pendingQuestions: [] };
+
+    it('should queue permission requests and drop retracted ones', () => {
+      const queued = applyRequestMessage(empty, {
+        type: 'permission-request',
+        permissionRequest: request('a'),
+        timestamp: 1,
+        seq: 1,
+      });
+      expect(queued?.pendingPermissionRequests).toEqual([request('a')]);
+
+      const retracted = applyRequestMessage(queued!, {
+        type: 'request-retracted',
+        retractedId: 'a',
+        timestamp: 2,
+        seq: 2,
+      });
+      expect(retracted?.pendingPermissionRequests).toEqual([]);
+    });
+
+    it('should leave other messages to the caller', () => {
+      expect(applyRequestMessage(empty, { type: 'output', content: 'hi', timestamp: 1, seq: 1 }))
+        .toBeNull();
+    });
+  });
+
+  describe('applyReplayedRequests', () => {
+    it('should queue a permission request replayed after a gap', () => {
+      const queues = { pendingPermissionRequests: [request('a')], pendingQuestions: [] };
+      const replayed: RealtimeMessage[] = [
+        { type: 'output', content: 'Running it', timestamp: 1, seq: 5 },
+        { type: 'permission-request', permissionRequest: request('b'), timestamp: 2, seq: 6 },
+      ];
+
+      expect(
+        applyReplayedRequests(queues, replayed).pendingPermissionRequests.map(
+          getPermissionRequestId
+        )
+      ).toEqual(['a', 'b']);
+    });
+
+    it('should queue a question replayed after a gap', () => {
+      const question = { toolUseId: 'toolu_q', questions: [] };
+      const replayed: RealtimeMessage[] = [
+        { type: 'user-question', userQuestion: question, timestamp: 1, seq: 4 },
+      ];
+
+      expect(
+        applyReplayedRequests({ pendingPermissionRequests: [], pendingQuestions: [] }, replayed)
+          .pendingQuestions
+      ).toEqual([question]);
+    });
+
+    it('should apply replayed requests in seq order', () => {
+      const replayed: RealtimeMessage[] = [
+        { type: 'request-retracted', retractedId: 'b', timestamp: 3, seq: 7 },
+        { type: 'permission-request', permissionRequest: request('b'), timestamp: 2, seq: 6 },
+      ];
+
+      expect(
+        applyReplayedRequests({ pendingPermissionRequests: [], pendingQuestions: [] }, replayed)
+          .pendingPermissionRequests
+      ).toEqual([]);
+    });
+  });
+});
+
 describe('Terminal Message Grouping', () => {
   interface GroupedMessage {
     type: 'input' | 'output' | 'system';
@@ -1507,3 +2136,209 @@ describe('InputBar Duplicate Send Prevention', () => {
     expect(computeIsDisabled(false, 'connected', false, true)).toBe(true);
   });
 });
+
+describe('Prompt Queue Utils', () => {
+  const prompt = (id: string, content = id, attachmentCount = 0) => ({
+    id,
+    content,
+    attachmentCount,
+    queuedAt: 1,
+  });
+  const queue = [prompt('a'), prompt('b'), prompt('c')];
+
+  it('should move a prompt up the queue', () => {
+    const moved = applyQueueUpdate(queue, { action: 'move', promptId: 'c', toIndex: 1 });
+
+    expect(moved.map((queued) => queued.id)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('should remove a prompt and ignore ones no longer queued', () => {
+    expect(applyQueueUpdate(queue, { action: 'remove', promptId: 'b' }).map((q) => q.id)).toEqual([
+      'a',
+      'c',
+    ]);
+    expect(applyQueueUpdate(queue, { action: 'remove', promptId: 'x' })).toBe(queue);
+  });
+
+  it('should label prompts by their first line and attached images', () => {
+    expect(getQueuedPromptLabel(prompt('a', 'Fix the tests\nand lint'))).toBe('Fix the tests');
+    expect(getQueuedPromptLabel(prompt('a', 'Like this', 2))).toBe('Like this (+2 images)');
+    expect(getQueuedPromptLabel(prompt('a', '', 1))).toBe('(1 image)');
+  });
+});
+
+describe('Limits Utils', () => {
+  it('should round-trip limits through the form', () => {
+    const limits = { maxCostUsd: 2.5, maxTurns: 40, maxPromptSeconds: 600 };
+
+    expect(getLimitsForm(limits)).toEqual({ maxCost: '2.5', maxTurns: '40', maxPromptMinutes: '10' });
+    expect(parseLimitsForm(getLimitsForm(limits))).toEqual({ ok: true, limits });
+  });
+
+  it('should treat empty fields as no limit', () => {
+    expect(parseLimitsForm({ maxCost: ' ', maxTurns: '', maxPromptMinutes: '' })).toEqual({
+      ok: true,
+      limits: {},
+    });
+    expect(parseLimitsForm({ maxCost: '$3', maxTurns: '', maxPromptMinutes: '0.5' })).toEqual({
+      ok: true,
+      limits: { maxCostUsd: 3, maxPromptSeconds: 30 },
+    });
+  });
+
+  it('should reject values the CLI would not accept', () => {
+    expect(parseLimitsForm({ maxCost: '-1', maxTurns: '', maxPromptMinutes: '' }).ok).toBe(false);
+    expect(parseLimitsForm({ maxCost: '', maxTurns: '2.5', maxPromptMinutes: '' }).ok).toBe(false);
+    expect(parseLimitsForm({ maxCost: '', maxTurns: '', maxPromptMinutes: 'soon' }).ok).toBe(false);
+  });
+
+  it('should describe the limit that stopped the session', () => {
+    expect(getLimitReachedText(null)).toBeNull();
+    expect(getLimitReachedText({ limits: { maxTurns: 20 } })).toBeNull();
+    expect(getLimitReachedText({ limits: { maxTurns: 20 }, reached: 'turns' })).toBe(
+      'Stopped: limit of 20 turns reached'
+    );
+  });
+});
+
+describe('Todo Utils', () => {
+  const todos = [
+    { content: 'Write the parser', status: 'completed' as const },
+    { content: 'Run the tests', status: 'in_progress' as const, activeForm: 'Running the tests' },
+    { content: 'Update the README', status: 'pending' as const },
+  ];
+
+  it('should count completed todos', () => {
+    expect(getTodoProgress(todos)).toEqual({ completed: 1, total: 3 });
+    expect(getTodoProgress([])).toEqual({ completed: 0, total: 0 });
+  });
+
+  it('should summarize the todo Claude is working on', () => {
+    expect(getTodoSummary(todos)).toBe('Running the tests');
+    expect(getTodoSummary([{ content: 'Run the tests', status: 'in_progress' }])).toBe(
+      'Run the tests'
+    );
+    expect(getTodoSummary([todos[0]!, todos[2]!])).toBe('Next: Update the README');
+    expect(getTodoSummary([todos[0]!])).toBe('All tasks completed');
+  });
+});
+
+describe('Question Utils', () => {
+  const questions = [
+    { question: 'Which database?', header: 'Database', options: [] },
+    { question: 'Which features?', header: 'Features', options: [], multiSelect: true },
+  ];
+
+  it('should replace single-select choices and toggle multi-select ones', () => {
+    const picked = toggleOption({ selected: ['Postgres'] }, 'SQLite', false);
+    expect(picked.selected).toEqual(['SQLite']);
+    expect(toggleOption(picked, 'SQLite', false).selected).toEqual([]);
+
+    const both = toggleOption({ selected: ['Auth'] }, 'Search', true);
+    expect(both.selected).toEqual(['Auth', 'Search']);
+    expect(toggleOption(both, 'Auth', true).selected).toEqual(['Search']);
+  });
+
+  it('should count a question as answered by an option or text', () => {
+    expect(isQuestionAnswered(undefined)).toBe(false);
+    expect(isQuestionAnswered({ selected: [], text: '  ' })).toBe(false);
+    expect(isQuestionAnswered({ selected: ['Auth'] })).toBe(true);
+    expect(isQuestionAnswered({ selected: [], text: 'MySQL' })).toBe(true);
+  });
+
+  it('should send structured responses with text answers for older CLIs', () => {
+    expect(
+      buildUserAnswer('toolu_q', questions, {
+        0: { selected: [], text: ' MySQL ' },
+        1: { selected: ['Auth', 'Search'], text: '' },
+      })
+    ).toEqual({
+      toolUseId: 'toolu_q',
+      answers: { '0': 'MySQL', '1': 'Auth, Search' },
+      responses: [{ selected: [], text: 'MySQL' }, { selected: ['Auth', 'Search'] }],
+    });
+  });
+});
+
+describe('Sub-agent Utils', () => {
+  const agent = {
+    toolUseId: 'toolu_task',
+    agentType: 'Explore',
+    description: 'Find the config loader',
+    status: 'running' as const,
+    toolCount: 0,
+    startedAt: 1,
+  };
+  const toolCallMessage = (seq: number, toolCall: Record<string, unknown>): RealtimeMessage => ({
+    type: 'tool-call',
+    toolCall: { input: {}, status: 'running', ...toolCall } as any,
+    timestamp: seq,
+    seq,
+  });
+
+  it('should replace an agent\'s earlier update', () => {
+    const agents = upsertSubAgent([], agent);
+    const updated = upsertSubAgent(agents, { ...agent, toolCount: 1, currentTool: 'Grep' });
+
+    expect(updated).toEqual([{ ...agent, toolCount: 1, currentTool: 'Grep' }]);
+    expect(upsertSubAgent(updated, { ...agent, toolUseId: 'toolu_2' })).toHaveLength(2);
+  });
+
+  it('should nest each agent\'s tool calls under it', () => {
+    const messages = [
+      toolCallMessage(1, { toolUseId: 'toolu_task', toolName: 'Task' }),
+      toolCallMessage(2, { toolUseId: 'toolu_grep', toolName: 'Grep', parentToolUseId: 'toolu_task' }),
+      toolCallMessage(3, { toolUseId: 'toolu_read', toolName: 'Read' }),
+    ];
+
+    const timeline = getAgentTimeline(messages, [agent]);
+
+    expect(timeline).toHaveLength(1);
+    expect(timeline[0]!.agent).toBe(agent);
+    expect(timeline[0]!.toolCalls.map((toolCall) => toolCall.toolUseId)).toEqual(['toolu_grep']);
+  });
+
+  it('should rebuild agents the CLI reported before this connection from Task calls', () => {
+    const messages = [
+      toolCallMessage(1, {
+        toolUseId: 'toolu_old',
+        toolName: 'Task',
+        status: 'completed',
+        input: { description: 'Review the diff' },
+      }),
+      toolCallMessage(2, { toolUseId: 'toolu_a', toolName: 'Read', parentToolUseId: 'toolu_old' }),
+    ];
+
+    expect(getAgentTimeline(messages, [])[0]!.agent).toMatchObject({
+      toolUseId: 'toolu_old',
+      description: 'Review the diff',
+      status: 'completed',
+      toolCount: 1,
+    });
+  });
+
+  it('should describe what agents are doing', () => {
+    expect(getSubAgentStatusText(agent)).toBe('Starting');
+    expect(getSubAgentStatusText({ ...agent, toolCount: 1, currentTool: 'Grep' })).toBe(
+      'Using Grep · 1 tool'
+    );
+    expect(getSubAgentStatusText({ ...agent, status: 'completed', toolCount: 3 })).toBe(
+      'Done · 3 tools'
+    );
+    expect(
+      getAgentTimelineSummary([
+        { agent, toolCalls: [] },
+        { agent: { ...agent, status: 'completed' }, toolCalls: [] },
+      ])
+    ).toBe('1 agent running · 1 finished');
+    expect(getAgentTimelineSummary([{ agent: { ...agent, status: 'error' }, toolCalls: [] }])).toBe(
+      '1 agent finished'
+    );
+  });
+
+  it('should find the agent a permission request came from', () => {
+    expect(findParentAgent([agent], { parentToolUseId: 'toolu_task' })).toBe(agent);
+    expect(findParentAgent([agent], { parentToolUseId: 'toolu_other' })).toBeNull();
+    expect(findParentAgent([agent], {})).toBeNull();
+  });
+});
@@ -0,0 +1,346 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import type { FileDiff } from 'termbridge-shared';
+import { getDiffRows, getSplitDiffRows, formatHunkHeader } from '../utils/diffUtils';
+import type { DiffRow } from '../utils/diffUtils';
+import { getLanguage, highlightLine } from '../utils/syntaxUtils';
+import type { SyntaxLanguage, TokenKind } from '../utils/syntaxUtils';
+
+interface DiffViewerProps {
+  diff: FileDiff;
+  isDark: boolean;
+  initiallyCollapsed?: boolean;
+}
+
+type DiffLayout = 'unified' | 'split';
+
+const TOKEN_COLORS: Record<TokenKind, { light: string; dark: string }> = {
+  keyword: { light: '#7c3aed', dark: '#c084fc' },
+  string: { light: '#047857', dark: '#6ee7b7' },
+  comment: { light: '#9ca3af', dark: '#6b7280' },
+  number: { light: '#b45309', dark: '#fbbf24' },
+  plain: { light: '#1f2937', dark: '#e5e7eb' },
+};
+
+interface HighlightedCodeProps {
+  content: string;
+  language: SyntaxLanguage;
+  isDark: boolean;
+  wrap?: boolean; // Wrap long lines instead of scrolling (split layout)
+}
+
+function HighlightedCode({ content, language, isDark, wrap }: HighlightedCodeProps) {
+  const tokens = useMemo(() => highlightLine(content, language), [content, language]);
+
+  return (
+    <Text style={[styles.code, wrap && styles.codeWrap]}>
+      {tokens.map((token, index) => (
+        <Text key={index} style={{ color: TOKEN_COLORS[token.kind][isDark ? 'dark' : 'light'] }}>
+          {token.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+function LineNumber({ value, isDark }: { value?: number; isDark: boolean }) {
+  return (
+    <Text style={[styles.lineNumber, isDark && styles.lineNumberDark]}>
+      {value ?? ''}
+    </Text>
+  );
+}
+
+function rowStyle(row: DiffRow | undefined, isDark: boolean) {
+  if (!row) {
+    return [styles.emptyCell, isDark && styles.emptyCellDark];
+  }
+  if (row.type === 'add') {
+    return [styles.addRow, isDark && styles.addRowDark];
+  }
+  if (row.type === 'remove') {
+    return [styles.removeRow, isDark && styles.removeRowDark];
+  }
+  return null;
+}
+
+const ROW_MARKERS = { add: '+', remove: '-', context: ' ' } as const;
+
+/**
+ * Unified or side-by-side diff of one file, with a collapsible header
+ * showing the path and how many lines were added and removed.
+ */
+export function DiffViewer({ diff, isDark, initiallyCollapsed = false }: DiffViewerProps) {
+  const [collapsed, setCollapsed] = useState(initiallyCollapsed);
+  const [layout, setLayout] = useState<DiffLayout>('unified');
+  const language = useMemo(() => getLanguage(diff.filePath), [diff.filePath]);
+
+  const fileName = diff.filePath.split('/').pop() || diff.filePath;
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <TouchableOpacity
+        style={[styles.header, isDark && styles.headerDark]}
+        onPress={() => setCollapsed((value) => !value)}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.chevron, isDark && styles.chevronDark]}>{collapsed ? '▸' : '▾'}</Text>
+        <View style={styles.headerTitle}>
+          <Text style={[styles.fileName, isDark && styles.fileNameDark]} numberOfLines={1}>
+            {fileName}
+            {diff.status === 'added' && <Text style={styles.newFile}> (new)</Text>}
+          </Text>
+          {fileName !== diff.filePath && (
+            <Text style={[styles.filePath, isDark && styles.filePathDark]} numberOfLines={1}>
+              {diff.filePath}
+            </Text>
+          )}
+        </View>
+        <Text style={styles.additions}>+{diff.additions}</Text>
+        <Text style={styles.deletions}>-{diff.deletions}</Text>
+        {!collapsed && (
+          <TouchableOpacity
+            style={[styles.layoutButton, isDark && styles.layoutButtonDark]}
+            onPress={() => setLayout(layout === 'unified' ? 'split' : 'unified')}
+          >
+            <Text style={[styles.layoutButtonText, isDark && styles.layoutButtonTextDark]}>
+              {layout === 'unified' ? 'Split' : 'Unified'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+
+      {!collapsed && (
+        <View>
+          {diff.snippet && (
+            <Text style={[styles.note, isDark && styles.noteDark]}>
+              Showing the edited text only - the file could not be compared
+            </Text>
+          )}
+          {diff.hunks.map((hunk, hunkIndex) => (
+            <View key={hunkIndex}>
+              <Text style={[styles.hunkHeader, isDark && styles.hunkHeaderDark]}>
+                {formatHunkHeader(hunk)}
+              </Text>
+              {layout === 'unified' ? (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View>
+                    {getDiffRows(hunk).map((row, index) => (
+                      <View key={index} style={[styles.row, rowStyle(row, isDark)]}>
+                        <LineNumber value={row.oldLine} isDark={isDark} />
+                        <LineNumber value={row.newLine} isDark={isDark} />
+                        <Text style={[styles.marker, isDark && styles.markerDark]}>
+                          {ROW_MARKERS[row.type]}
+                        </Text>
+                        <HighlightedCode content={row.content} language={language} isDark={isDark} />
+                      </View>
+                    ))}
+                  </View>
+                </ScrollView>
+              ) : (
+                getSplitDiffRows(hunk).map((row, index) => (
+                  <View key={index} style={styles.row}>
+                    <View style={[styles.splitCell, rowStyle(row.left, isDark)]}>
+                      <LineNumber value={row.left?.oldLine} isDark={isDark} />
+                      {row.left && (
+                        <HighlightedCode
+                          content={row.left.content}
+                          language={language}
+                          isDark={isDark}
+                          wrap
+                        />
+                      )}
+                    </View>
+                    <View style={[styles.splitDivider, isDark && styles.splitDividerDark]} />
+                    <View style={[styles.splitCell, rowStyle(row.right, isDark)]}>
+                      <LineNumber value={row.right?.newLine} isDark={isDark} />
+                      {row.right && (
+                        <HighlightedCode
+                          content={row.right.content}
+                          language={language}
+                          isDark={isDark}
+                          wrap
+                        />
+                      )}
+                    </View>
+                  </View>
+                ))
+              )}
+            </View>
+          ))}
+          {diff.truncated && (
+            <Text style={[styles.note, isDark && styles.noteDark]}>
+              Diff too long - the rest is not shown
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#ffffff',
+    marginTop: 6,
+  },
+  containerDark: {
+    borderColor: '#374151',
+    backgroundColor: '#111827',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    backgroundColor: '#f9fafb',
+  },
+  headerDark: {
+    backgroundColor: '#1f2937',
+  },
+  chevron: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  chevronDark: {
+    color: '#9ca3af',
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  fileNameDark: {
+    color: '#f3f4f6',
+  },
+  newFile: {
+    fontWeight: '400',
+    color: '#16a34a',
+  },
+  filePath: {
+    fontSize: 10,
+    color: '#6b7280',
+  },
+  filePathDark: {
+    color: '#9ca3af',
+  },
+  additions: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#16a34a',
+  },
+  deletions: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  layoutButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#e5e7eb',
+  },
+  layoutButtonDark: {
+    backgroundColor: '#374151',
+  },
+  layoutButtonText: {
+    fontSize: 10,
+    color: '#374151',
+  },
+  layoutButtonTextDark: {
+    color: '#d1d5db',
+  },
+  hunkHeader: {
+    fontSize: 10,
+    fontFamily: 'monospace',
+    color: '#6b7280',
+    backgroundColor: '#eff6ff',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  hunkHeaderDark: {
+    color: '#93c5fd',
+    backgroundColor: '#172554',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  addRow: {
+    backgroundColor: '#dcfce7',
+  },
+  addRowDark: {
+    backgroundColor: '#14532d',
+  },
+  removeRow: {
+    backgroundColor: '#fee2e2',
+  },
+  removeRowDark: {
+    backgroundColor: '#7f1d1d',
+  },
+  emptyCell: {
+    backgroundColor: '#f3f4f6',
+  },
+  emptyCellDark: {
+    backgroundColor: '#1f2937',
+  },
+  lineNumber: {
+    width: 32,
+    paddingRight: 4,
+    fontSize: 10,
+    lineHeight: 16,
+    fontFamily: 'monospace',
+    textAlign: 'right',
+    color: '#9ca3af',
+  },
+  lineNumberDark: {
+    color: '#6b7280',
+  },
+  marker: {
+    width: 12,
+    fontSize: 11,
+    lineHeight: 16,
+    fontFamily: 'monospace',
+    color: '#6b7280',
+  },
+  markerDark: {
+    color: '#9ca3af',
+  },
+  code: {
+    fontSize: 11,
+    lineHeight: 16,
+    fontFamily: 'monospace',
+    paddingRight: 8,
+  },
+  codeWrap: {
+    flex: 1,
+  },
+  splitCell: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  splitDivider: {
+    width: 1,
+    backgroundColor: '#e5e7eb',
+  },
+  splitDividerDark: {
+    backgroundColor: '#374151',
+  },
+  note: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    color: '#6b7280',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  noteDark: {
+    color: '#9ca3af',
+  },
+});
@@ -16,10 +16,12 @@ import * as Haptics from 'expo-haptics';
 import * as ImagePicker from 'expo-image-picker';
 import { useConnectionStore } from '../stores/connectionStore';
 import { convertImageToBase64 } from '../utils/imageUtils';
+import { cliSupports } from '../utils/protocolUtils';
 import { CommandPicker } from './CommandPicker';
 import { ModelPicker } from './ModelPicker';
 import { InteractivePicker } from './InteractivePicker';
 import { ResumeSessionPicker } from './ResumeSessionPicker';
+import { PromptQueueList } from './PromptQueueList';
 import type { SlashCommand, InteractiveCommandType } from 'termbridge-shared';
 
 // Commands that require interactive UI instead of text input
@@ -57,6 +59,9 @@ export function InputBar({ disabled }: InputBarProps) {
     sendModelChange,
     sendClearRequest,
     sendResumeRequest,
+    sendInterrupt,
+    sendQueueUpdate,
+    promptQueue,
     state,
     commands,
     isTyping,
@@ -70,8 +75,11 @@ export function InputBar({ disabled }: InputBarProps) {
     clearInteractive,
     clearMessages,
     sessionId,
+    cliProtocol,
   } = useConnectionStore();
-  const isDisabled = disabled || state !== 'connected' || isSending || isTyping;
+  // A CLI with a prompt queue runs messages sent while Claude works once it's done
+  const canQueue = cliSupports(cliProtocol, 'prompt-queue');
+  const isDisabled = disabled || state !== 'connected' || isSending || (isTyping && !canQueue);
 
   // Placeholder text based on connection state (not typing/sending state)
   const placeholderText =
@@ -79,7 +87,9 @@ export function InputBar({ disabled }: InputBarProps) {
       ? 'Session disconnected'
       : disabled
         ? 'CLI offline'
-        : 'Message Claude...';
+        : isTyping && canQueue
+          ? 'Queue a message...'
+          : 'Message Claude...';
 
   const handleSend = async () => {
     if (!input.trim() || isDisabled || isSending) {
@@ -165,6 +175,19 @@ export function InputBar({ disabled }: InputBarProps) {
   );
 
   const canSend = input.trim() && !isDisabled;
+  // While Claude is working the send button becomes a stop button, until
+  // there's a message to queue
+  const canStop =
+    isTyping &&
+    !input.trim() &&
+    !disabled &&
+    state === 'connected' &&
+    cliSupports(cliProtocol, 'interrupt');
+
+  const handleStop = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    await sendInterrupt();
+  };
 
   const removeImage = (index: number) => {
     setSelectedImages(selectedImages.filter((_, i) => i !== index));
@@ -244,6 +267,7 @@ export function InputBar({ disabled }: InputBarProps) {
 
   return (
     <View style={[styles.container, isDark && styles.containerDark]}>
+      <PromptQueueList queue={promptQueue} onUpdate={sendQueueUpdate} isDark={isDark} />
       <View style={[styles.inputCard, isDark && styles.inputCardDark]}>
         {/* Input area */}
         <TextInput
@@ -303,27 +327,40 @@ export function InputBar({ disabled }: InputBarProps) {
               </View>
             </TouchableOpacity>
             <TouchableOpacity
-              style={[styles.commandsButton, isDisabled && styles.commandsButtonDisabled]}
+              style={[
+                styles.commandsButton,
+                (isDisabled || isTyping) && styles.commandsButtonDisabled,
+              ]}
               onPress={handleCommandsPress}
-              disabled={isDisabled}
+              disabled={isDisabled || isTyping}
             >
               <Text style={[styles.commandsButtonText, isDark && styles.commandsButtonTextDark]}>/</Text>
             </TouchableOpacity>
           </View>
-          <TouchableOpacity
-            style={[
-              styles.sendButton,
-              isDark && styles.sendButtonDark,
-              canSend && styles.sendButtonActive,
-            ]}
-            onPress={handleSend}
-            disabled={!canSend}
-          >
-            <View style={[styles.sendArrow, canSend && styles.sendArrowActive]}>
-              <View style={[styles.arrowUp, canSend && styles.arrowUpActive]} />
-              <View style={[styles.arrowStem, canSend && styles.arrowStemActive]} />
-            </View>
-          </TouchableOpacity>
+          {canStop ? (
+            <TouchableOpacity
+              style={[styles.sendButton, styles.stopButton]}
+              onPress={handleStop}
+              accessibilityLabel="Stop"
+            >
+              <View style={styles.stopIcon} />
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                isDark && styles.sendButtonDark,
+                canSend && styles.sendButtonActive,
+              ]}
+              onPress={handleSend}
+              disabled={!canSend}
+            >
+              <View style={[styles.sendArrow, canSend && styles.sendArrowActive]}>
+                <View style={[styles.arrowUp, canSend && styles.arrowUpActive]} />
+                <View style={[styles.arrowStem, canSend && styles.arrowStemActive]} />
+              </View>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -456,6 +493,15 @@ const styles = StyleSheet.create({
   arrowStemActive: {
     backgroundColor: '#ffffff',
   },
+  stopButton: {
+    backgroundColor: '#ef4444',
+  },
+  stopIcon: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    backgroundColor: '#ffffff',
+  },
   // Image preview
   imagePreviewContainer: {
     marginTop: 8,
@@ -1,7 +1,8 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   Modal,
   TouchableOpacity,
   StyleSheet,
@@ -12,39 +13,120 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
-import type { PermissionRequestData } from 'termbridge-shared';
+import Markdown from 'react-native-markdown-display';
+import type {
+  PermissionRequestData,
+  PermissionUpdate,
+  PlanDecision,
+  SubAgentData,
+} from 'termbridge-shared';
+import { DiffViewer } from './DiffViewer';
+import { RequestQueueTabs } from './RequestQueueTabs';
+import {
+  getEditableFields,
+  getEditableValues,
+  buildUpdatedInput,
+  getAlwaysAllowUpdate,
+  getAlwaysAllowLabel,
+  PLAN_CHOICES,
+} from '../utils/permissionUtils';
+import { selectRequest, getPermissionRequestId } from '../utils/requestQueueUtils';
+import { findParentAgent, getSubAgentLabel } from '../utils/subAgentUtils';
 
 interface PermissionRequestPickerProps {
   visible: boolean;
-  requestData: PermissionRequestData | null;
-  onAllow: () => void;
-  onDeny: (message?: string) => void;
+  requests: PermissionRequestData[]; // Queued requests, oldest first
+  subAgents?: SubAgentData[]; // To name the sub-agent a request came from
+  onAllow: (
+    requestId: string,
+    updatedInput?: Record<string, unknown>,
+    updatedPermissions?: PermissionUpdate[]
+  ) => void;
+  onDeny: (requestId: string, message?: string) => void;
+  onPlanDecision: (requestId: string, decision: PlanDecision, feedback?: string) => void;
   onClose: () => void;
 }
 
 export function PermissionRequestPicker({
   visible,
-  requestData,
+  requests,
+  subAgents = [],
   onAllow,
   onDeny,
+  onPlanDecision,
   onClose,
 }: PermissionRequestPickerProps) {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const requestData = selectRequest(requests, selectedId, getPermissionRequestId);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedValues, setEditedValues] = useState<Record<string, string>>({});
+  const [editError, setEditError] = useState<string | null>(null);
+  const [planFeedback, setPlanFeedback] = useState('');
+
+  // Start each request from the tool's own input
+  useEffect(() => {
+    setIsEditing(false);
+    setEditError(null);
+    setPlanFeedback('');
+    setEditedValues(
+      requestData ? getEditableValues(requestData.toolName, requestData.toolInput) : {}
+    );
+  }, [requestData]);
 
   const handleAllow = async () => {
+    if (isEditing && requestData) {
+      const result = buildUpdatedInput(requestData.toolName, requestData.toolInput, editedValues);
+      if (!result.ok) {
+        setEditError(result.error);
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onAllow(
+        requestData.requestId,
+        Object.keys(result.updatedInput).length > 0 ? result.updatedInput : undefined
+      );
+      return;
+    }
+
+    if (!requestData) return;
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onAllow(requestData.requestId);
+  };
+
+  const handleAlwaysAllow = async () => {
+    const update = requestData && getAlwaysAllowUpdate(requestData.suggestions);
+    if (!requestData || !update) return;
     await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    onAllow();
+    onAllow(requestData.requestId, undefined, [update]);
+  };
+
+  const handlePlanDecision = async (decision: PlanDecision) => {
+    if (!requestData) return;
+    await Haptics.notificationAsync(
+      decision === 'keep-planning'
+        ? Haptics.NotificationFeedbackType.Warning
+        : Haptics.NotificationFeedbackType.Success
+    );
+    onPlanDecision(requestData.requestId, decision, planFeedback);
   };
 
   const handleDeny = async () => {
+    if (!requestData) return;
     await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-    onDeny('Permission denied by user');
+    onDeny(requestData.requestId, 'Permission denied by user');
   };
 
   if (!requestData) return null;
 
+  const editableFields = getEditableFields(requestData.toolName);
+  const requestAgent = findParentAgent(subAgents, requestData);
+  const isPlan = requestData.plan !== undefined;
+  const alwaysAllowUpdate = getAlwaysAllowUpdate(requestData.suggestions);
+
   // Format tool input for display
   const formatInput = (input: Record<string, unknown>): string => {
     try {
@@ -63,9 +145,11 @@ export function PermissionRequestPicker({
       Read: 'Read a file',
       Write: 'Write to a file',
       Edit: 'Edit a file',
+      MultiEdit: 'Make several edits to a file',
       Glob: 'Search for files',
       Grep: 'Search file contents',
       Task: 'Run a background task',
+      ExitPlanMode: 'Claude has finished planning and is ready to start',
     };
     return descriptions[toolName] || `Use the ${toolName} tool`;
   };
@@ -95,6 +179,13 @@ export function PermissionRequestPicker({
             Permission Required
           </Text>
 
+          <RequestQueueTabs
+            tabs={requests.map((request) => ({ id: request.requestId, label: request.toolName }))}
+            selectedId={requestData.requestId}
+            onSelect={setSelectedId}
+            isDark={isDark}
+          />
+
           <ScrollView
             style={styles.content}
             showsVerticalScrollIndicator={false}
@@ -112,6 +203,18 @@ export function PermissionRequestPicker({
                 {getToolDescription(requestData.toolName)}
               </Text>
 
+              {/* Sub-agent asking, if the request didn't come from Claude itself */}
+              {requestAgent && (
+                <View style={[styles.infoCard, isDark && styles.infoCardDark]}>
+                  <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>
+                    Sub-agent
+                  </Text>
+                  <Text style={[styles.infoText, isDark && styles.infoTextDark]}>
+                    {getSubAgentLabel(requestAgent)}
+                  </Text>
+                </View>
+              )}
+
               {/* Decision reason if available */}
               {requestData.decisionReason && (
                 <View style={[styles.infoCard, isDark && styles.infoCardDark]}>
@@ -136,42 +239,166 @@ export function PermissionRequestPicker({
                 </View>
               )}
 
-              {/* Tool input preview */}
-              <View style={[styles.infoCard, isDark && styles.infoCardDark]}>
-                <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>
-                  Input
-                </Text>
-                <ScrollView
-                  style={styles.inputScroll}
-                  nestedScrollEnabled
-                  showsVerticalScrollIndicator={false}
-                >
-                  <Text style={[styles.codeText, isDark && styles.codeTextDark]}>
-                    {formatInput(requestData.toolInput)}
+              {/* Edit & Allow form */}
+              {isEditing &&
+                editableFields.map((field) => (
+                  <View key={field.key} style={[styles.infoCard, isDark && styles.infoCardDark]}>
+                    <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>
+                      {field.label}
+                    </Text>
+                    <TextInput
+                      style={[
+                        styles.editInput,
+                        field.multiline && styles.editInputMultiline,
+                        isDark && styles.editInputDark,
+                      ]}
+                      value={editedValues[field.key] ?? ''}
+                      onChangeText={(text) => {
+                        setEditedValues((values) => ({ ...values, [field.key]: text }));
+                        setEditError(null);
+                      }}
+                      multiline={field.multiline}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      spellCheck={false}
+                    />
+                  </View>
+                ))}
+              {editError && <Text style={styles.editErrorText}>{editError}</Text>}
+
+              {/* The plan, rendered, with a note for Claude in case it should keep planning */}
+              {isPlan && (
+                <>
+                  <View style={[styles.infoCard, isDark && styles.infoCardDark]}>
+                    <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>Plan</Text>
+                    <Markdown style={isDark ? planMarkdownStylesDark : planMarkdownStyles}>
+                      {requestData.plan || '_No plan text_'}
+                    </Markdown>
+                  </View>
+                  <View style={[styles.infoCard, isDark && styles.infoCardDark]}>
+                    <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>
+                      Feedback (if you keep planning)
+                    </Text>
+                    <TextInput
+                      style={[
+                        styles.editInput,
+                        styles.editInputMultiline,
+                        isDark && styles.editInputDark,
+                      ]}
+                      value={planFeedback}
+                      onChangeText={setPlanFeedback}
+                      placeholder="What should change?"
+                      placeholderTextColor={isDark ? '#6b7280' : '#9ca3af'}
+                      multiline
+                    />
+                  </View>
+                </>
+              )}
+
+              {/* Proposed change, computed by the CLI against the file on disk */}
+              {!isEditing && requestData.diff && (
+                <View style={[styles.infoCard, isDark && styles.infoCardDark]}>
+                  <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>
+                    Changes
                   </Text>
-                </ScrollView>
-              </View>
+                  <DiffViewer diff={requestData.diff} isDark={isDark} />
+                </View>
+              )}
+
+              {/* Tool input preview (edits are shown as a diff instead) */}
+              {!isEditing && !requestData.diff && !isPlan && (
+                <View style={[styles.infoCard, isDark && styles.infoCardDark]}>
+                  <Text style={[styles.infoLabel, isDark && styles.infoLabelDark]}>
+                    Input
+                  </Text>
+                  <ScrollView
+                    style={styles.inputScroll}
+                    nestedScrollEnabled
+                    showsVerticalScrollIndicator={false}
+                  >
+                    <Text style={[styles.codeText, isDark && styles.codeTextDark]}>
+                      {formatInput(requestData.toolInput)}
+                    </Text>
+                  </ScrollView>
+                </View>
+              )}
             </View>
           </ScrollView>
 
+          {/* Plan choices - each approval also picks the mode Claude implements it in */}
+          {isPlan && (
+            <View style={styles.planButtonContainer}>
+              {PLAN_CHOICES.map(({ decision, label }) =>
+                decision === 'keep-planning' ? (
+                  <TouchableOpacity
+                    key={decision}
+                    style={[styles.denyButton, isDark && styles.denyButtonDark]}
+                    onPress={() => handlePlanDecision(decision)}
+                  >
+                    <Text style={[styles.denyButtonText, isDark && styles.denyButtonTextDark]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    key={decision}
+                    style={[styles.allowButton, isDark && styles.allowButtonDark]}
+                    onPress={() => handlePlanDecision(decision)}
+                  >
+                    <Text style={styles.allowButtonText}>{label}</Text>
+                  </TouchableOpacity>
+                )
+              )}
+            </View>
+          )}
+
           {/* Action buttons */}
-          <View style={styles.buttonContainer}>
-            <TouchableOpacity
-              style={[styles.allowButton, isDark && styles.allowButtonDark]}
-              onPress={handleAllow}
-            >
-              <Text style={styles.allowButtonText}>Allow</Text>
+          {!isPlan && (
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.allowButton, isDark && styles.allowButtonDark]}
+                onPress={handleAllow}
+              >
+                <Text style={styles.allowButtonText}>{isEditing ? 'Allow Edited' : 'Allow'}</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.denyButton, isDark && styles.denyButtonDark]}
+                onPress={handleDeny}
+              >
+                <Text style={[styles.denyButtonText, isDark && styles.denyButtonTextDark]}>
+                  Deny
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Allow and save the rule the SDK suggested, so it isn't asked again */}
+          {!isEditing && !isPlan && alwaysAllowUpdate && (
+            <TouchableOpacity style={styles.editButton} onPress={handleAlwaysAllow}>
+              <Text
+                style={[styles.editButtonText, isDark && styles.editButtonTextDark]}
+                numberOfLines={1}
+              >
+                {getAlwaysAllowLabel(alwaysAllowUpdate)}
+              </Text>
             </TouchableOpacity>
+          )}
 
+          {/* Toggle the edit form for tools whose input can be changed */}
+          {editableFields.length > 0 && (
             <TouchableOpacity
-              style={[styles.denyButton, isDark && styles.denyButtonDark]}
-              onPress={handleDeny}
+              style={styles.editButton}
+              onPress={() => {
+                setIsEditing(!isEditing);
+                setEditError(null);
+              }}
             >
-              <Text style={[styles.denyButtonText, isDark && styles.denyButtonTextDark]}>
-                Deny
+              <Text style={[styles.editButtonText, isDark && styles.editButtonTextDark]}>
+                {isEditing ? 'Back to Request' : 'Edit & Allow'}
               </Text>
             </TouchableOpacity>
-          </View>
+          )}
 
           {/* Cancel button */}
           <TouchableOpacity
@@ -312,12 +539,43 @@ const styles = StyleSheet.create({
   codeTextDark: {
     color: '#d1d5db',
   },
+  // Edit & Allow form
+  editInput: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#1f2937',
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  editInputMultiline: {
+    minHeight: 72,
+    maxHeight: 160,
+    textAlignVertical: 'top',
+  },
+  editInputDark: {
+    color: '#e5e7eb',
+    backgroundColor: '#1f1f1f',
+    borderColor: '#374151',
+  },
+  editErrorText: {
+    fontSize: 13,
+    color: '#dc2626',
+    marginTop: 4,
+  },
   // Buttons
   buttonContainer: {
     flexDirection: 'row',
     gap: 12,
     marginTop: 16,
   },
+  planButtonContainer: {
+    gap: 8,
+    marginTop: 16,
+  },
   allowButton: {
     flex: 1,
     backgroundColor: '#3b82f6',
@@ -354,6 +612,19 @@ const styles = StyleSheet.create({
   denyButtonTextDark: {
     color: '#9ca3af',
   },
+  editButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  editButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  editButtonTextDark: {
+    color: '#60a5fa',
+  },
   cancelButton: {
     marginTop: 12,
     paddingVertical: 14,
@@ -373,3 +644,30 @@ const styles = StyleSheet.create({
     color: '#d1d5db',
   },
 });
+
+const planMarkdownStyles = {
+  body: { color: '#374151', fontSize: 14, lineHeight: 20 },
+  heading1: { fontSize: 18, fontWeight: 'bold' as const, marginBottom: 6 },
+  heading2: { fontSize: 16, fontWeight: 'bold' as const, marginBottom: 4, marginTop: 8 },
+  heading3: { fontSize: 15, fontWeight: 'bold' as const, marginBottom: 4, marginTop: 6 },
+  paragraph: { marginTop: 0, marginBottom: 6 },
+  code_inline: {
+    backgroundColor: '#e5e7eb',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 13,
+  },
+  fence: {
+    backgroundColor: '#1f2937',
+    color: '#e5e7eb',
+    borderRadius: 8,
+    padding: 10,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+  },
+};
+
+const planMarkdownStylesDark = {
+  ...planMarkdownStyles,
+  body: { ...planMarkdownStyles.body, color: '#d1d5db' },
+  code_inline: { ...planMarkdownStyles.code_inline, backgroundColor: '#374151' },
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import type { PromptQueueUpdate, QueuedPrompt } from 'termbridge-shared';
+import { getQueuedPromptLabel } from '../utils/promptQueueUtils';
+
+interface PromptQueueListProps {
+  queue: QueuedPrompt[];
+  onUpdate: (update: PromptQueueUpdate) => void;
+  isDark: boolean;
+}
+
+/**
+ * Prompts sent while Claude is working, in the order they will run.
+ * Each can be moved up the queue or removed before it starts.
+ */
+export function PromptQueueList({ queue, onUpdate, isDark }: PromptQueueListProps) {
+  if (queue.length === 0) return null;
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <Text style={[styles.title, isDark && styles.titleDark]}>Queued ({queue.length})</Text>
+      {queue.map((prompt, index) => (
+        <View key={prompt.id} style={styles.row}>
+          <Text style={[styles.position, isDark && styles.positionDark]}>{index + 1}.</Text>
+          <Text style={[styles.promptText, isDark && styles.promptTextDark]} numberOfLines={1}>
+            {getQueuedPromptLabel(prompt)}
+          </Text>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => onUpdate({ action: 'move', promptId: prompt.id, toIndex: index - 1 })}
+            disabled={index === 0}
+            accessibilityLabel="Move up"
+          >
+            <Text
+              style={[
+                styles.actionText,
+                isDark && styles.actionTextDark,
+                index === 0 && styles.actionTextDisabled,
+              ]}
+            >
+              ↑
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => onUpdate({ action: 'remove', promptId: prompt.id })}
+            accessibilityLabel="Remove"
+          >
+            <Text style={[styles.actionText, styles.removeText]}>×</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: '#f3f4f6',
+  },
+  containerDark: {
+    backgroundColor: '#2d2d2d',
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+  titleDark: {
+    color: '#9ca3af',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 28,
+  },
+  position: {
+    width: 20,
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  positionDark: {
+    color: '#6b7280',
+  },
+  promptText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  promptTextDark: {
+    color: '#e5e7eb',
+  },
+  actionButton: {
+    width: 28,
+    height: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  actionTextDark: {
+    color: '#d1d5db',
+  },
+  actionTextDisabled: {
+    opacity: 0.3,
+  },
+  removeText: {
+    color: '#ef4444',
+  },
+});
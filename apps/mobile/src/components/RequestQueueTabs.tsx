@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+
+export interface RequestTab {
+  id: string;
+  label: string;
+}
+
+interface RequestQueueTabsProps {
+  tabs: RequestTab[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  isDark: boolean;
+}
+
+/**
+ * Count badge and a row of tabs for switching between queued requests,
+ * so they can be answered in any order. Renders nothing for a single request.
+ */
+export function RequestQueueTabs({ tabs, selectedId, onSelect, isDark }: RequestQueueTabsProps) {
+  if (tabs.length < 2) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.countBadge}>
+        <Text style={styles.countText}>{tabs.length}</Text>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {tabs.map((tab) => {
+          const isSelected = tab.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={tab.id}
+              style={[
+                styles.tab,
+                isDark && styles.tabDark,
+                isSelected && styles.tabSelected,
+                isSelected && isDark && styles.tabSelectedDark,
+              ]}
+              onPress={() => onSelect(tab.id)}
+              activeOpacity={0.7}
+            >
+              <Text
+                style={[
+                  styles.tabText,
+                  isDark && styles.tabTextDark,
+                  isSelected && styles.tabTextSelected,
+                ]}
+                numberOfLines={1}
+              >
+                {tab.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  countBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    backgroundColor: '#ef4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  tab: {
+    maxWidth: 160,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    borderRadius: 14,
+    backgroundColor: '#f3f4f6',
+  },
+  tabDark: {
+    backgroundColor: '#2d2d2d',
+  },
+  tabSelected: {
+    backgroundColor: '#dbeafe',
+  },
+  tabSelectedDark: {
+    backgroundColor: '#1e3a5f',
+  },
+  tabText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4b5563',
+  },
+  tabTextDark: {
+    color: '#9ca3af',
+  },
+  tabTextSelected: {
+    color: '#2563eb',
+  },
+});
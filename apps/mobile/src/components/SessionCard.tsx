@@ -13,6 +13,7 @@ import { Swipeable } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
 import { useRouter } from 'expo-router';
 import type { Session } from 'termbridge-shared';
+import { formatUsage, usageFromSession } from 'termbridge-shared';
 import { useSessionStore } from '../stores/sessionStore';
 
 interface SessionCardProps {
@@ -54,6 +55,7 @@ export function SessionCard({ session }: SessionCardProps) {
     setOpenSwipeableId(session.id);
   };
 
+  const usage = usageFromSession(session);
   const machine = session.machines;
   const isActive = session.status === 'active';
   const machineOnline = machine?.status === 'online';
@@ -218,6 +220,11 @@ export function SessionCard({ session }: SessionCardProps) {
             • Ended {formatTime(session.ended_at)}
           </Text>
         )}
+        {usage.turns > 0 && (
+          <Text style={[styles.timestamp, isDark && styles.timestampDark]}>
+            • {formatUsage(usage)}
+          </Text>
+        )}
       </View>
 
       {/* Loading overlay */}
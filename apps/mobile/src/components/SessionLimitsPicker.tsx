@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  useColorScheme,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { SessionLimits } from 'termbridge-shared';
+import { getLimitsForm, parseLimitsForm } from '../utils/limitsUtils';
+import type { LimitsForm } from '../utils/limitsUtils';
+
+interface SessionLimitsPickerProps {
+  visible: boolean;
+  limits: SessionLimits;
+  onSave: (limits: SessionLimits) => void;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{
+  key: keyof LimitsForm;
+  label: string;
+  placeholder: string;
+  keyboardType: 'decimal-pad' | 'number-pad';
+}> = [
+  { key: 'maxCost', label: 'Max cost (USD)', placeholder: 'No limit', keyboardType: 'decimal-pad' },
+  { key: 'maxTurns', label: 'Max turns', placeholder: 'No limit', keyboardType: 'number-pad' },
+  {
+    key: 'maxPromptMinutes',
+    label: 'Max minutes per prompt',
+    placeholder: 'No limit',
+    keyboardType: 'decimal-pad',
+  },
+];
+
+export function SessionLimitsPicker({ visible, limits, onSave, onClose }: SessionLimitsPickerProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+
+  const [form, setForm] = useState<LimitsForm>(() => getLimitsForm(limits));
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the CLI's current limits each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setForm(getLimitsForm(limits));
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSave = () => {
+    const result = parseLimitsForm(form);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    onSave(result.limits);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View
+          style={[styles.sheet, isDark && styles.sheetDark, { paddingBottom: insets.bottom + 16 }]}
+        >
+          <View style={styles.handle} />
+          <Text style={[styles.title, isDark && styles.titleDark]}>Session Limits</Text>
+          <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
+            Claude stops when a limit is reached and waits for you to override it.
+          </Text>
+
+          {FIELDS.map((field) => (
+            <View key={field.key} style={styles.field}>
+              <Text style={[styles.label, isDark && styles.labelDark]}>{field.label}</Text>
+              <TextInput
+                style={[styles.input, isDark && styles.inputDark]}
+                value={form[field.key]}
+                onChangeText={(text) => {
+                  setForm((values) => ({ ...values, [field.key]: text }));
+                  setError(null);
+                }}
+                placeholder={field.placeholder}
+                placeholderTextColor={isDark ? '#6b7280' : '#9ca3af'}
+                keyboardType={field.keyboardType}
+              />
+            </View>
+          ))}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.cancelButton, isDark && styles.cancelButtonDark]}
+              onPress={onClose}
+            >
+              <Text style={[styles.cancelText, isDark && styles.cancelTextDark]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, isDark && styles.saveButtonDark]}
+              onPress={handleSave}
+            >
+              <Text style={styles.saveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 12,
+    paddingHorizontal: 16,
+  },
+  sheetDark: {
+    backgroundColor: '#1f1f1f',
+  },
+  handle: {
+    width: 36,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: '#d1d5db',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  titleDark: {
+    color: '#f9fafb',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  subtitleDark: {
+    color: '#9ca3af',
+  },
+  field: {
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  labelDark: {
+    color: '#d1d5db',
+  },
+  input: {
+    fontSize: 16,
+    color: '#1f2937',
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  inputDark: {
+    color: '#e5e7eb',
+    backgroundColor: '#2d2d2d',
+    borderColor: '#374151',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#dc2626',
+    marginBottom: 4,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+  },
+  cancelButtonDark: {
+    backgroundColor: '#374151',
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  cancelTextDark: {
+    color: '#d1d5db',
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderRadius: 12,
+    backgroundColor: '#3b82f6',
+  },
+  saveButtonDark: {
+    backgroundColor: '#2563eb',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import type { SubAgentStatus } from 'termbridge-shared';
+import { getToolCallDetail } from '../utils/toolCallUtils';
+import {
+  getAgentTimelineSummary,
+  getSubAgentLabel,
+  getSubAgentStatusText,
+} from '../utils/subAgentUtils';
+import type { AgentTimelineEntry } from '../utils/subAgentUtils';
+
+interface SubAgentTimelineProps {
+  entries: AgentTimelineEntry[];
+  isDark: boolean;
+}
+
+const STATUS_COLORS: Record<SubAgentStatus, string> = {
+  running: '#3b82f6',
+  completed: '#10b981',
+  error: '#ef4444',
+  cancelled: '#9ca3af',
+};
+
+/**
+ * Task sub-agents of the session, pinned above the chat. Collapsed it shows
+ * how many are running; expanded, each agent lists the tools it used.
+ */
+export function SubAgentTimeline({ entries, isDark }: SubAgentTimelineProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (entries.length === 0) return null;
+
+  const isRunning = entries.some((entry) => entry.agent.status === 'running');
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded((value) => !value)}
+        activeOpacity={0.7}
+        accessibilityLabel={expanded ? 'Hide sub-agents' : 'Show sub-agents'}
+      >
+        <View
+          style={[
+            styles.dot,
+            { backgroundColor: isRunning ? STATUS_COLORS.running : STATUS_COLORS.completed },
+          ]}
+        />
+        <Text style={[styles.summary, isDark && styles.summaryDark]} numberOfLines={1}>
+          {getAgentTimelineSummary(entries)}
+        </Text>
+        <Text style={[styles.chevron, isDark && styles.chevronDark]}>{expanded ? '▾' : '▸'}</Text>
+      </TouchableOpacity>
+
+      {expanded && (
+        <ScrollView style={styles.list} nestedScrollEnabled>
+          {entries.map(({ agent, toolCalls }) => (
+            <View key={agent.toolUseId} style={styles.agent}>
+              <View style={styles.agentHeader}>
+                <View style={[styles.dot, { backgroundColor: STATUS_COLORS[agent.status] }]} />
+                <Text
+                  style={[styles.agentLabel, isDark && styles.agentLabelDark]}
+                  numberOfLines={1}
+                >
+                  {getSubAgentLabel(agent)}
+                </Text>
+              </View>
+              <Text style={[styles.agentStatus, isDark && styles.agentStatusDark]}>
+                {getSubAgentStatusText(agent)}
+              </Text>
+              {toolCalls.map((toolCall) => {
+                const detail = getToolCallDetail(toolCall);
+                return (
+                  <View key={toolCall.toolUseId} style={[styles.toolRow, isDark && styles.toolRowDark]}>
+                    <Text style={[styles.toolName, isDark && styles.toolNameDark]}>
+                      {toolCall.toolName}
+                    </Text>
+                    {detail && (
+                      <Text
+                        style={[styles.toolDetail, isDark && styles.toolDetailDark]}
+                        numberOfLines={1}
+                      >
+                        {detail}
+                      </Text>
+                    )}
+                  </View>
+                );
+              })}
+              {agent.summary && (
+                <Text
+                  style={[styles.agentSummary, isDark && styles.agentSummaryDark]}
+                  numberOfLines={3}
+                >
+                  {agent.summary}
+                </Text>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 12,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#f3f4f6',
+  },
+  containerDark: {
+    backgroundColor: '#2d2d2d',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  summary: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  summaryDark: {
+    color: '#d1d5db',
+  },
+  chevron: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  chevronDark: {
+    color: '#9ca3af',
+  },
+  list: {
+    maxHeight: 260,
+    marginTop: 6,
+  },
+  agent: {
+    paddingVertical: 6,
+  },
+  agentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  agentLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  agentLabelDark: {
+    color: '#f3f4f6',
+  },
+  agentStatus: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginLeft: 16,
+    marginTop: 2,
+  },
+  agentStatusDark: {
+    color: '#9ca3af',
+  },
+  toolRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginLeft: 16,
+    marginTop: 4,
+    paddingLeft: 8,
+    borderLeftWidth: 2,
+    borderLeftColor: '#d1d5db',
+  },
+  toolRowDark: {
+    borderLeftColor: '#4b5563',
+  },
+  toolName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  toolNameDark: {
+    color: '#d1d5db',
+  },
+  toolDetail: {
+    flex: 1,
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  toolDetailDark: {
+    color: '#9ca3af',
+  },
+  agentSummary: {
+    fontSize: 12,
+    color: '#374151',
+    marginLeft: 16,
+    marginTop: 4,
+  },
+  agentSummaryDark: {
+    color: '#d1d5db',
+  },
+});
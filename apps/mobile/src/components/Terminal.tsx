@@ -18,16 +18,21 @@ import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import { useConnectionStore } from '../stores/connectionStore';
 import { useSessionStore } from '../stores/sessionStore';
-import type { RealtimeMessage } from 'termbridge-shared';
+import type { QuestionAnswerRecord, RealtimeMessage, ToolCallData } from 'termbridge-shared';
+import { formatQuestionAnswer } from 'termbridge-shared';
+import { collapseToolCalls, getToolCallDetail } from '../utils/toolCallUtils';
+import { DiffViewer } from './DiffViewer';
 
 interface TerminalProps {
   maxLines?: number;
 }
 
 interface GroupedMessage {
-  type: 'input' | 'output' | 'system';
+  type: 'input' | 'output' | 'system' | 'tool' | 'thinking' | 'question-answer';
   content: string;
   timestamp: number;
+  toolCall?: ToolCallData; // For tool groups
+  questionAnswer?: QuestionAnswerRecord; // For question-answer groups
 }
 
 // Avatar components using text-based icons
@@ -59,7 +64,137 @@ function ToolBadge({ toolName, isDark }: { toolName: string; isDark: boolean })
   );
 }
 
-// Parse tool usage from content
+// Card for a structured tool call - tap to show the result summary
+function ToolCard({ toolCall, isDark }: { toolCall: ToolCallData; isDark: boolean }) {
+  const [expanded, setExpanded] = useState(false);
+  const detail = getToolCallDetail(toolCall);
+
+  return (
+    <View style={styles.messageRow}>
+      <View style={toolCardStyles.spacer} />
+      <TouchableOpacity
+        style={[toolCardStyles.card, isDark && toolCardStyles.cardDark]}
+        onPress={() => setExpanded((value) => !value)}
+        disabled={!toolCall.summary}
+        activeOpacity={0.7}
+      >
+        <View style={toolCardStyles.header}>
+          {toolCall.status === 'running' ? (
+            <ActivityIndicator size="small" color={isDark ? '#fbbf24' : '#92400e'} />
+          ) : (
+            <Text
+              style={[
+                toolCardStyles.status,
+                toolCall.status === 'error' ? toolCardStyles.statusError : toolCardStyles.statusDone,
+              ]}
+            >
+              {toolCall.status === 'error' ? '✕' : '✓'}
+            </Text>
+          )}
+          <Text style={[toolCardStyles.name, isDark && toolCardStyles.nameDark]}>
+            {toolCall.toolName}
+          </Text>
+          {toolCall.summary && (
+            <Text style={[toolCardStyles.chevron, isDark && toolCardStyles.chevronDark]}>
+              {expanded ? '▾' : '▸'}
+            </Text>
+          )}
+        </View>
+        {detail && (
+          <Text
+            style={[toolCardStyles.detail, isDark && toolCardStyles.detailDark]}
+            numberOfLines={expanded ? undefined : 2}
+          >
+            {detail}
+          </Text>
+        )}
+        {expanded && toolCall.summary && (
+          <Text style={[toolCardStyles.summary, isDark && toolCardStyles.summaryDark]}>
+            {toolCall.summary}
+          </Text>
+        )}
+        {toolCall.diff && <DiffViewer diff={toolCall.diff} isDark={isDark} />}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// Claude's thinking - collapsed by default, tap to read it
+function ThinkingCard({ content, isDark }: { content: string; isDark: boolean }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <View style={styles.messageRow}>
+      <View style={thinkingCardStyles.spacer} />
+      <TouchableOpacity
+        style={[thinkingCardStyles.card, isDark && thinkingCardStyles.cardDark]}
+        onPress={() => setExpanded((value) => !value)}
+        activeOpacity={0.7}
+      >
+        <View style={thinkingCardStyles.header}>
+          <Text style={[thinkingCardStyles.title, isDark && thinkingCardStyles.titleDark]}>
+            Thinking
+          </Text>
+          <Text style={[thinkingCardStyles.chevron, isDark && thinkingCardStyles.chevronDark]}>
+            {expanded ? '▾' : '▸'}
+          </Text>
+        </View>
+        {expanded && (
+          <Text
+            style={[thinkingCardStyles.content, isDark && thinkingCardStyles.contentDark]}
+            selectable
+          >
+            {content.trim()}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// Claude's questions with the answers given on the phone
+function QuestionAnswerCard({ record, isDark }: { record: QuestionAnswerRecord; isDark: boolean }) {
+  return (
+    <View style={styles.messageRow}>
+      <View style={thinkingCardStyles.spacer} />
+      <View style={[questionAnswerCardStyles.card, isDark && questionAnswerCardStyles.cardDark]}>
+        {record.questions.map((question, index) => {
+          const answer = record.responses[index];
+          const answerText = answer ? formatQuestionAnswer(answer) : '';
+          return (
+            <View key={index} style={index > 0 && questionAnswerCardStyles.spaced}>
+              <Text
+                style={[questionAnswerCardStyles.header, isDark && questionAnswerCardStyles.headerDark]}
+              >
+                {question.header}
+              </Text>
+              <Text
+                style={[
+                  questionAnswerCardStyles.question,
+                  isDark && questionAnswerCardStyles.questionDark,
+                ]}
+              >
+                {question.question}
+              </Text>
+              <Text
+                style={[
+                  questionAnswerCardStyles.answer,
+                  isDark && questionAnswerCardStyles.answerDark,
+                  !answerText && questionAnswerCardStyles.noAnswer,
+                ]}
+                selectable
+              >
+                {answerText || 'No answer'}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+// Parse tool usage from content (output from CLIs without structured tool calls)
 function parseToolUsage(content: string): { tools: string[]; cleanContent: string } {
   const toolPattern = /\[Using tool: ([^\]]+)\]/g;
   const completedPattern = /\[Tool ([^\]]+) completed\]/g;
@@ -85,7 +220,8 @@ export function Terminal({ maxLines = 1000 }: TerminalProps) {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
 
-  const { messages, state, isTyping, sessionId, registerScrollToBottom } = useConnectionStore();
+  const { messages, state, isTyping, streamingOutput, sessionId, registerScrollToBottom } =
+    useConnectionStore();
   const { sessionOnlineStatus } = useSessionStore();
   const isCliOnline = sessionId ? (sessionOnlineStatus[sessionId] ?? null) : null;
 
@@ -108,7 +244,7 @@ export function Terminal({ maxLines = 1000 }: TerminalProps) {
         scrollViewRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingOutput]);
 
   // Scroll to bottom when keyboard opens so latest messages stay visible
   useEffect(() => {
@@ -120,21 +256,63 @@ export function Terminal({ maxLines = 1000 }: TerminalProps) {
     return () => sub.remove();
   }, []);
 
-  // Group consecutive messages of the same type (except system messages)
+  // Group consecutive messages of the same type (except system messages and tool calls)
   const groupedMessages = useMemo(() => {
     const groups: GroupedMessage[] = [];
     let currentGroup: GroupedMessage | null = null;
 
     // Sort messages by timestamp to ensure correct chronological order
     // (seq can't be used because mobile and CLI have separate seq counters)
-    const sortedMessages = [...messages].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+    // Sub-agent tool calls are shown nested under their agent in the timeline instead
+    const sortedMessages = collapseToolCalls(messages)
+      .filter((msg) => !msg.toolCall?.parentToolUseId)
+      .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
 
     for (const msg of sortedMessages) {
       const msgType = msg.type === 'input' ? 'input' :
-                      msg.type === 'output' ? 'output' : 'system';
+                      msg.type === 'output' ? 'output' :
+                      msg.type === 'tool-call' ? 'tool' :
+                      msg.type === 'thinking' ? 'thinking' :
+                      msg.type === 'question-answer' ? 'question-answer' : 'system';
 
-      // System messages should never be grouped - each one is a separate notification
-      if (msgType === 'system') {
+      // Tool cards sit between messages, splitting the output around them
+      if (msgType === 'tool') {
+        if (currentGroup) {
+          groups.push(currentGroup);
+          currentGroup = null;
+        }
+        groups.push({
+          type: 'tool',
+          content: '',
+          timestamp: msg.timestamp,
+          toolCall: msg.toolCall,
+        });
+      } else if (msgType === 'thinking') {
+        // Each thinking block is its own collapsed card
+        if (currentGroup) {
+          groups.push(currentGroup);
+          currentGroup = null;
+        }
+        groups.push({
+          type: 'thinking',
+          content: msg.content || '',
+          timestamp: msg.timestamp,
+        });
+      } else if (msgType === 'question-answer') {
+        if (currentGroup) {
+          groups.push(currentGroup);
+          currentGroup = null;
+        }
+        if (msg.questionAnswer) {
+          groups.push({
+            type: 'question-answer',
+            content: '',
+            timestamp: msg.timestamp,
+            questionAnswer: msg.questionAnswer,
+          });
+        }
+      } else if (msgType === 'system') {
+        // System messages should never be grouped - each one is a separate notification
         if (currentGroup) {
           groups.push(currentGroup);
           currentGroup = null;
@@ -160,12 +338,28 @@ export function Terminal({ maxLines = 1000 }: TerminalProps) {
       }
     }
 
+    // The answer being streamed continues Claude's last bubble, or starts one
+    if (streamingOutput) {
+      if (currentGroup && currentGroup.type === 'output') {
+        currentGroup.content += streamingOutput.content;
+      } else {
+        if (currentGroup) {
+          groups.push(currentGroup);
+        }
+        currentGroup = {
+          type: 'output',
+          content: streamingOutput.content,
+          timestamp: streamingOutput.timestamp,
+        };
+      }
+    }
+
     if (currentGroup) {
       groups.push(currentGroup);
     }
 
     return groups;
-  }, [messages]);
+  }, [messages, streamingOutput]);
 
   return (
     <View style={[styles.container, isDark && styles.containerDark]}>
@@ -200,14 +394,22 @@ export function Terminal({ maxLines = 1000 }: TerminalProps) {
         ) : (
           <>
             {groupedMessages.map((group, index) => (
-              <AnimatedBubble key={`${group.timestamp}-${index}`}>
-                <MessageBubble
-                  message={group}
-                  isDark={isDark}
-                />
+              <AnimatedBubble key={group.toolCall?.toolUseId ?? `${group.timestamp}-${index}`}>
+                {group.toolCall ? (
+                  <ToolCard toolCall={group.toolCall} isDark={isDark} />
+                ) : group.type === 'thinking' ? (
+                  <ThinkingCard content={group.content} isDark={isDark} />
+                ) : group.questionAnswer ? (
+                  <QuestionAnswerCard record={group.questionAnswer} isDark={isDark} />
+                ) : (
+                  <MessageBubble
+                    message={group}
+                    isDark={isDark}
+                  />
+                )}
               </AnimatedBubble>
             ))}
-            {isTyping && (
+            {isTyping && !streamingOutput && (
               <AnimatedBubble>
                 <TypingIndicator isDark={isDark} />
               </AnimatedBubble>
@@ -715,6 +917,180 @@ const toolBadgeStyles = StyleSheet.create({
   },
 });
 
+const toolCardStyles = StyleSheet.create({
+  spacer: {
+    width: 32, // Lines cards up with bubbles next to the avatar
+  },
+  card: {
+    flex: 1,
+    maxWidth: '85%',
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    alignSelf: 'flex-start',
+  },
+  cardDark: {
+    backgroundColor: '#1c1407',
+    borderColor: '#422006',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  status: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  statusDone: {
+    color: '#16a34a',
+  },
+  statusError: {
+    color: '#dc2626',
+  },
+  name: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#92400e',
+  },
+  nameDark: {
+    color: '#fbbf24',
+  },
+  chevron: {
+    fontSize: 12,
+    color: '#92400e',
+  },
+  chevronDark: {
+    color: '#fbbf24',
+  },
+  detail: {
+    marginTop: 4,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: '#4b5563',
+  },
+  detailDark: {
+    color: '#d1d5db',
+  },
+  summary: {
+    marginTop: 6,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: '#6b7280',
+  },
+  summaryDark: {
+    color: '#9ca3af',
+  },
+});
+
+const thinkingCardStyles = StyleSheet.create({
+  spacer: {
+    width: 32, // Lines cards up with bubbles next to the avatar
+  },
+  card: {
+    flex: 1,
+    maxWidth: '85%',
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ddd6fe',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    alignSelf: 'flex-start',
+  },
+  cardDark: {
+    backgroundColor: '#1e1533',
+    borderColor: '#3b2a63',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    fontStyle: 'italic',
+    color: '#6d28d9',
+  },
+  titleDark: {
+    color: '#c4b5fd',
+  },
+  chevron: {
+    fontSize: 12,
+    color: '#6d28d9',
+  },
+  chevronDark: {
+    color: '#c4b5fd',
+  },
+  content: {
+    marginTop: 6,
+    fontSize: 13,
+    lineHeight: 19,
+    fontStyle: 'italic',
+    color: '#4b5563',
+  },
+  contentDark: {
+    color: '#d1d5db',
+  },
+});
+
+const questionAnswerCardStyles = StyleSheet.create({
+  card: {
+    flex: 1,
+    maxWidth: '85%',
+    backgroundColor: '#eff6ff',
+    borderWidth: 1,
+    borderColor: '#bfdbfe',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    alignSelf: 'flex-start',
+  },
+  cardDark: {
+    backgroundColor: '#172033',
+    borderColor: '#1e3a5f',
+  },
+  spaced: {
+    marginTop: 10,
+  },
+  header: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+  },
+  headerDark: {
+    color: '#9ca3af',
+  },
+  question: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#374151',
+  },
+  questionDark: {
+    color: '#d1d5db',
+  },
+  answer: {
+    marginTop: 4,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1d4ed8',
+  },
+  answerDark: {
+    color: '#93c5fd',
+  },
+  noAnswer: {
+    fontWeight: '400',
+    fontStyle: 'italic',
+  },
+});
+
 const codeBlockStyles = StyleSheet.create({
   container: {
     marginVertical: 8,
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import type { TodoItem, TodoStatus } from 'termbridge-shared';
+import { getTodoProgress, getTodoSummary } from '../utils/todoUtils';
+
+interface TodoPanelProps {
+  todos: TodoItem[];
+  isDark: boolean;
+}
+
+const STATUS_MARKERS: Record<TodoStatus, string> = {
+  completed: '✓',
+  in_progress: '◐',
+  pending: '○',
+};
+
+/**
+ * Claude's todo list from TodoWrite, pinned above the chat. Collapsed it
+ * shows progress and the current task; tapping it shows the whole list.
+ */
+export function TodoPanel({ todos, isDark }: TodoPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (todos.length === 0) return null;
+
+  const { completed, total } = getTodoProgress(todos);
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded((value) => !value)}
+        activeOpacity={0.7}
+        accessibilityLabel={expanded ? 'Hide todo list' : 'Show todo list'}
+      >
+        <Text style={[styles.progress, isDark && styles.progressDark]}>
+          {completed}/{total}
+        </Text>
+        <Text style={[styles.summary, isDark && styles.summaryDark]} numberOfLines={1}>
+          {getTodoSummary(todos)}
+        </Text>
+        <Text style={[styles.chevron, isDark && styles.chevronDark]}>{expanded ? '▾' : '▸'}</Text>
+      </TouchableOpacity>
+      <View style={[styles.progressTrack, isDark && styles.progressTrackDark]}>
+        <View style={[styles.progressFill, { width: `${(completed / total) * 100}%` }]} />
+      </View>
+
+      {expanded && (
+        <ScrollView style={styles.list} nestedScrollEnabled>
+          {todos.map((todo, index) => (
+            <View key={index} style={styles.row}>
+              <Text
+                style={[
+                  styles.marker,
+                  isDark && styles.markerDark,
+                  todo.status === 'in_progress' && styles.markerActive,
+                  todo.status === 'completed' && styles.markerDone,
+                ]}
+              >
+                {STATUS_MARKERS[todo.status]}
+              </Text>
+              <Text
+                style={[
+                  styles.todoText,
+                  isDark && styles.todoTextDark,
+                  todo.status === 'in_progress' && styles.todoTextActive,
+                  todo.status === 'completed' && styles.todoTextDone,
+                ]}
+              >
+                {todo.content}
+              </Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 12,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#f3f4f6',
+  },
+  containerDark: {
+    backgroundColor: '#2d2d2d',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  progress: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  progressDark: {
+    color: '#60a5fa',
+  },
+  summary: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  summaryDark: {
+    color: '#d1d5db',
+  },
+  chevron: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  chevronDark: {
+    color: '#9ca3af',
+  },
+  progressTrack: {
+    height: 3,
+    marginTop: 6,
+    borderRadius: 2,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+  },
+  progressTrackDark: {
+    backgroundColor: '#374151',
+  },
+  progressFill: {
+    height: 3,
+    backgroundColor: '#3b82f6',
+  },
+  list: {
+    maxHeight: 220,
+    marginTop: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 3,
+  },
+  marker: {
+    width: 20,
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  markerDark: {
+    color: '#6b7280',
+  },
+  markerActive: {
+    color: '#3b82f6',
+  },
+  markerDone: {
+    color: '#10b981',
+  },
+  todoText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  todoTextDark: {
+    color: '#d1d5db',
+  },
+  todoTextActive: {
+    fontWeight: '600',
+  },
+  todoTextDone: {
+    color: '#9ca3af',
+    textDecorationLine: 'line-through',
+  },
+});
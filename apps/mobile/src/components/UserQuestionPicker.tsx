@@ -13,18 +13,23 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
-import type { UserQuestionData } from 'termbridge-shared';
+import type { QuestionAnswer, UserAnswerData, UserQuestionData } from 'termbridge-shared';
+import { RequestQueueTabs } from './RequestQueueTabs';
+import { selectRequest, getQuestionId } from '../utils/requestQueueUtils';
+import { buildUserAnswer, isQuestionAnswered, toggleOption } from '../utils/questionUtils';
+
+const EMPTY_ANSWER: QuestionAnswer = { selected: [] };
 
 interface UserQuestionPickerProps {
   visible: boolean;
-  questionData: UserQuestionData | null;
-  onSubmit: (answers: Record<string, string>) => void;
+  questions: UserQuestionData[]; // Queued questions, oldest first
+  onSubmit: (userAnswer: UserAnswerData) => void;
   onClose: () => void;
 }
 
 export function UserQuestionPicker({
   visible,
-  questionData,
+  questions,
   onSubmit,
   onClose,
 }: UserQuestionPickerProps) {
@@ -34,36 +39,35 @@ export function UserQuestionPicker({
 
   const scrollViewRef = useRef<ScrollView>(null);
 
-  // Track selected options for each question
-  const [selectedOptions, setSelectedOptions] = useState<Record<number, string>>({});
-  // Track "Other" text input for each question
-  const [otherText, setOtherText] = useState<Record<number, string>>({});
-  // Track which questions have "Other" selected
-  const [usingOther, setUsingOther] = useState<Record<number, boolean>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const questionData = selectRequest(questions, selectedId, getQuestionId);
+
+  // Options picked and text typed for each question
+  const [drafts, setDrafts] = useState<Record<number, QuestionAnswer>>({});
 
   // Reset state when data changes
   React.useEffect(() => {
     if (questionData) {
-      setSelectedOptions({});
-      setOtherText({});
-      setUsingOther({});
+      setDrafts({});
     }
   }, [questionData]);
 
-  const handleOptionSelect = useCallback(async (questionIndex: number, optionLabel: string) => {
-    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setSelectedOptions(prev => ({ ...prev, [questionIndex]: optionLabel }));
-    setUsingOther(prev => ({ ...prev, [questionIndex]: false }));
-  }, []);
+  const handleOptionSelect = useCallback(
+    async (questionIndex: number, optionLabel: string, multiSelect: boolean | undefined) => {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      setDrafts(prev => ({
+        ...prev,
+        [questionIndex]: toggleOption(prev[questionIndex] ?? EMPTY_ANSWER, optionLabel, multiSelect),
+      }));
+    },
+    []
+  );
 
-  const handleOtherSelect = useCallback(async (questionIndex: number) => {
-    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setUsingOther(prev => ({ ...prev, [questionIndex]: true }));
-    setSelectedOptions(prev => {
-      const newSelected = { ...prev };
-      delete newSelected[questionIndex];
-      return newSelected;
-    });
+  const handleTextChange = useCallback((questionIndex: number, text: string) => {
+    setDrafts(prev => ({
+      ...prev,
+      [questionIndex]: { ...(prev[questionIndex] ?? EMPTY_ANSWER), text },
+    }));
   }, []);
 
   const handleSubmit = useCallback(async () => {
@@ -71,22 +75,12 @@ export function UserQuestionPicker({
 
     await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-    // Build answers object
-    const answers: Record<string, string> = {};
-    questionData.questions.forEach((_, index) => {
-      if (usingOther[index] && otherText[index]) {
-        answers[String(index)] = otherText[index];
-      } else if (selectedOptions[index]) {
-        answers[String(index)] = selectedOptions[index];
-      }
-    });
-
-    onSubmit(answers);
-  }, [questionData, selectedOptions, usingOther, otherText, onSubmit]);
+    onSubmit(buildUserAnswer(questionData.toolUseId, questionData.questions, drafts));
+  }, [questionData, drafts, onSubmit]);
 
   // Check if all questions have been answered
   const isComplete = questionData?.questions.every((_, index) =>
-    selectedOptions[index] !== undefined || (usingOther[index] && otherText[index]?.trim())
+    isQuestionAnswered(drafts[index])
   ) ?? false;
 
   if (!questionData) return null;
@@ -116,6 +110,16 @@ export function UserQuestionPicker({
             Claude is asking...
           </Text>
 
+          <RequestQueueTabs
+            tabs={questions.map((question) => ({
+              id: question.toolUseId,
+              label: question.questions[0]?.header ?? 'Question',
+            }))}
+            selectedId={questionData.toolUseId}
+            onSelect={setSelectedId}
+            isDark={isDark}
+          />
+
           <ScrollView
             ref={scrollViewRef}
             style={styles.content}
@@ -133,10 +137,15 @@ export function UserQuestionPicker({
                 <Text style={[styles.questionText, isDark && styles.questionTextDark]}>
                   {question.question}
                 </Text>
+                {question.multiSelect && (
+                  <Text style={[styles.multiSelectHint, isDark && styles.multiSelectHintDark]}>
+                    Select all that apply
+                  </Text>
+                )}
 
                 <View style={styles.optionsContainer}>
                   {question.options.map((option, oIndex) => {
-                    const isSelected = selectedOptions[qIndex] === option.label;
+                    const isSelected = !!drafts[qIndex]?.selected.includes(option.label);
                     return (
                       <TouchableOpacity
                         key={oIndex}
@@ -146,7 +155,9 @@ export function UserQuestionPicker({
                           isSelected && styles.optionSelected,
                           isSelected && isDark && styles.optionSelectedDark,
                         ]}
-                        onPress={() => handleOptionSelect(qIndex, option.label)}
+                        onPress={() =>
+                          handleOptionSelect(qIndex, option.label, question.multiSelect)
+                        }
                         activeOpacity={0.7}
                       >
                         <View style={styles.optionContent}>
@@ -179,60 +190,25 @@ export function UserQuestionPicker({
                     );
                   })}
 
-                  {/* Other option */}
-                  <TouchableOpacity
-                    style={[
-                      styles.option,
-                      isDark && styles.optionDark,
-                      usingOther[qIndex] && styles.optionSelected,
-                      usingOther[qIndex] && isDark && styles.optionSelectedDark,
-                    ]}
-                    onPress={() => handleOtherSelect(qIndex)}
-                    activeOpacity={0.7}
-                  >
-                    <View style={styles.optionContent}>
-                      <View style={styles.optionHeader}>
-                        <Text
-                          style={[
-                            styles.optionLabel,
-                            isDark && styles.optionLabelDark,
-                            usingOther[qIndex] && styles.optionLabelSelected,
-                          ]}
-                        >
-                          Other
-                        </Text>
-                        {usingOther[qIndex] && (
-                          <Text style={styles.checkmark}>✓</Text>
-                        )}
-                      </View>
-                      <Text
-                        style={[
-                          styles.optionDescription,
-                          isDark && styles.optionDescriptionDark,
-                        ]}
-                      >
-                        Enter a custom response
-                      </Text>
-                    </View>
-                  </TouchableOpacity>
-
-                  {/* Text input for Other option */}
-                  {usingOther[qIndex] && (
-                    <TextInput
-                      style={[styles.otherInput, isDark && styles.otherInputDark]}
-                      placeholder="Type your answer..."
-                      placeholderTextColor={isDark ? '#6b7280' : '#9ca3af'}
-                      value={otherText[qIndex] || ''}
-                      onChangeText={(text) => setOtherText(prev => ({ ...prev, [qIndex]: text }))}
-                      onFocus={() => {
-                        // Scroll to bottom so the input is visible above keyboard
-                        setTimeout(() => {
-                          scrollViewRef.current?.scrollToEnd({ animated: true });
-                        }, 300);
-                      }}
-                      autoFocus
-                    />
-                  )}
+                  {/* Free text, on its own or alongside the options picked */}
+                  <TextInput
+                    style={[styles.otherInput, isDark && styles.otherInputDark]}
+                    placeholder={
+                      question.options.length > 0
+                        ? 'Add your own answer...'
+                        : 'Type your answer...'
+                    }
+                    placeholderTextColor={isDark ? '#6b7280' : '#9ca3af'}
+                    value={drafts[qIndex]?.text ?? ''}
+                    onChangeText={(text) => handleTextChange(qIndex, text)}
+                    onFocus={() => {
+                      // Scroll to bottom so the input is visible above keyboard
+                      setTimeout(() => {
+                        scrollViewRef.current?.scrollToEnd({ animated: true });
+                      }, 300);
+                    }}
+                    multiline
+                  />
                 </View>
               </View>
             ))}
@@ -342,6 +318,15 @@ const styles = StyleSheet.create({
   questionTextDark: {
     color: '#e5e7eb',
   },
+  multiSelectHint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: -6,
+    marginBottom: 12,
+  },
+  multiSelectHintDark: {
+    color: '#9ca3af',
+  },
   optionsContainer: {
     gap: 8,
   },
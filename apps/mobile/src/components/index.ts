@@ -3,3 +3,4 @@ export { InputBar } from './InputBar';
 export { SessionCard } from './SessionCard';
 export { EmptyState } from './EmptyState';
 export { CommandPicker } from './CommandPicker';
+export { DiffViewer } from './DiffViewer';
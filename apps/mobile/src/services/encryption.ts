@@ -0,0 +1,30 @@
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { setRandomSource, encodeEncryptionKey, decodeEncryptionKey } from 'termbridge-shared';
+
+// React Native has no built-in CSPRNG for tweetnacl - use the platform's
+setRandomSource((length) => Crypto.getRandomBytes(length));
+
+// Pairing keys live in the keychain, one per machine
+const keyName = (machineId: string) => `termbridge_e2e_${machineId}`;
+
+export async function getMachineKey(machineId: string): Promise<Uint8Array | null> {
+  try {
+    const stored = await SecureStore.getItemAsync(keyName(machineId));
+    return stored ? decodeEncryptionKey(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveMachineKey(machineId: string, key: Uint8Array): Promise<void> {
+  await SecureStore.setItemAsync(keyName(machineId), encodeEncryptionKey(key));
+}
+
+export async function removeMachineKey(machineId: string): Promise<void> {
+  try {
+    await SecureStore.deleteItemAsync(keyName(machineId));
+  } catch {
+    // Nothing stored
+  }
+}
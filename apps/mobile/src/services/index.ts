@@ -1 +1,3 @@
 export { supabase } from './supabase';
+export { transport } from './transport';
+export { getMachineKey, saveMachineKey, removeMachineKey } from './encryption';
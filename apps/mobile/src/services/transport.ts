@@ -0,0 +1,11 @@
+import { SupabaseTransport, WebSocketTransport } from 'termbridge-shared';
+import type { Transport } from 'termbridge-shared';
+import { supabase } from './supabase';
+
+// Self-hosted relay (termbridge relay), e.g. ws://192.168.1.10:8787?token=secret
+const RELAY_URL = process.env.EXPO_PUBLIC_RELAY_URL || '';
+
+// Realtime transport shared by all stores - Supabase unless a relay is configured
+export const transport: Transport = RELAY_URL
+  ? new WebSocketTransport({ url: RELAY_URL })
+  : new SupabaseTransport(supabase);
@@ -1,7 +1,9 @@
 import { create } from 'zustand';
 import { supabase } from '../services/supabase';
-import type { RealtimeChannel } from '@supabase/supabase-js';
+import { transport } from '../services/transport';
+import { getMachineKey } from '../services/encryption';
 import type {
+  TransportChannel,
   RealtimeMessage,
   ImageAttachment,
   ModelInfo,
@@ -15,8 +17,52 @@ import type {
   UserAnswerData,
   PermissionRequestData,
   PermissionResponseData,
+  SeqRange,
+  ProtocolInfo,
+  QueuedPrompt,
+  PromptQueueUpdate,
+  UsageStats,
+  SessionLimits,
+  SessionLimitsState,
+  TodoItem,
+  SubAgentData,
 } from 'termbridge-shared';
-import { REALTIME_CHANNELS } from 'termbridge-shared';
+import {
+  REALTIME_CHANNELS,
+  PROTOCOL_VERSION,
+  LEGACY_PROTOCOL_VERSION,
+  SUPPORTED_FEATURES,
+  MESSAGE_SCHEMA_VERSION,
+  validateRealtimeMessage,
+  splitMessage,
+  ChunkAssembler,
+  encryptMessage,
+  decryptMessage,
+  encryptText,
+  decryptText,
+  isEncryptedText,
+  requiresEncryption,
+  getKeyId,
+  parseTodos,
+} from 'termbridge-shared';
+import { findSeqGap, getLastCliSeq, mergeReplayedMessages } from '../utils/replayUtils';
+import { messageFromRow } from '../utils/toolCallUtils';
+import {
+  removeRequest,
+  applyRequestMessage,
+  applyReplayedRequests,
+  getPermissionRequestId,
+  getQuestionId,
+} from '../utils/requestQueueUtils';
+import { applyQueueUpdate } from '../utils/promptQueueUtils';
+import { upsertSubAgent } from '../utils/subAgentUtils';
+import { createMessageId, getRetryDelay, MAX_SEND_ATTEMPTS } from '../utils/ackUtils';
+import {
+  cliSupports,
+  getProtocolWarning,
+  getPairingWarning,
+  UNPAIRED_WARNING,
+} from '../utils/protocolUtils';
 
 type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
@@ -33,17 +79,39 @@ interface ConnectionStoreState {
   model: string | null;
   availableModels: ModelInfo[];
   isModelChanging: boolean;
+  cliProtocol: ProtocolInfo | null; // Negotiated via hello/capabilities (null = not yet known)
+  protocolWarning: string | null; // Shown as a banner when CLI and app versions differ
+  isEncrypted: boolean; // This device holds the pairing key for the session's machine
+  pairingWarning: string | null; // Shown as a banner when the pairing keys don't match
 
   // Interactive command state
   interactiveData: InteractiveCommandData | null;
   isInteractiveLoading: boolean;
   interactiveError: string | null;
 
-  // User question state (from AskUserQuestion tool)
-  pendingQuestion: UserQuestionData | null;
+  // User questions (from AskUserQuestion tool), oldest first
+  pendingQuestions: UserQuestionData[];
+
+  // Permission requests (from SDK canUseTool callback), oldest first
+  pendingPermissionRequests: PermissionRequestData[];
+
+  // Prompts waiting for the running query to finish, next to run first
+  promptQueue: QueuedPrompt[];
+
+  // Session token and cost totals reported by the CLI (null = none this connection)
+  usage: UsageStats | null;
+
+  // The CLI's session limits and whether one has stopped the session (null = not reported)
+  limitsState: SessionLimitsState | null;
+
+  // Claude's latest todo list from TodoWrite (null = it hasn't made one)
+  todos: TodoItem[] | null;
+
+  // Task sub-agents reported this connection, in the order they started
+  subAgents: SubAgentData[];
 
-  // Permission request state (from SDK canUseTool callback)
-  pendingPermissionRequest: PermissionRequestData | null;
+  // Text of the answer Claude is writing, until the finished block arrives
+  streamingOutput: { content: string; timestamp: number } | null;
 
   // Actions
   connect: (sessionId: string) => Promise<void>;
@@ -56,7 +124,12 @@ interface ConnectionStoreState {
   clearMessages: () => void;
   clearError: () => void;
   sendClearRequest: () => Promise<void>;
+  sendInterrupt: () => Promise<void>;
+  sendQueueUpdate: (update: PromptQueueUpdate) => Promise<void>;
+  sendLimitsChange: (limits: SessionLimits) => Promise<void>;
+  sendLimitOverride: () => Promise<void>;
   sendResumeRequest: (sdkSessionId: string) => Promise<void>;
+  requestReplay: (range: SeqRange) => Promise<void>;
 
   // Interactive actions
   requestInteractiveCommand: (command: InteractiveCommandType) => Promise<void>;
@@ -64,23 +137,225 @@ interface ConnectionStoreState {
   clearInteractive: () => void;
 
   // User question actions
-  sendUserAnswer: (answers: Record<string, string>) => Promise<void>;
-  clearPendingQuestion: () => void;
+  sendUserAnswer: (userAnswer: UserAnswerData) => Promise<void>;
 
   // Permission request actions
-  sendPermissionResponse: (behavior: 'allow' | 'deny', message?: string) => Promise<void>;
-  clearPendingPermissionRequest: () => void;
+  sendPermissionResponse: (permissionResponse: PermissionResponseData) => Promise<void>;
 
   // Scroll callback for chat UI
   registerScrollToBottom: (callback: () => void) => void;
   scrollToBottom: () => void;
 }
 
-let outputChannel: RealtimeChannel | null = null;
-let inputChannel: RealtimeChannel | null = null;
+let outputChannel: TransportChannel | null = null;
+let inputChannel: TransportChannel | null = null;
 let seq = 0;
 let scrollToBottomCallback: (() => void) | null = null;
 
+// Highest CLI seq seen on the output channel (for gap detection)
+let lastCliSeq = 0;
+// Outstanding replay request, retried until the CLI answers
+const REPLAY_RETRY_MS = 3000;
+const MAX_REPLAY_ATTEMPTS = 3;
+let pendingReplay: { range: SeqRange; attempts: number; timer: ReturnType<typeof setTimeout> } | null = null;
+
+function clearPendingReplay() {
+  if (pendingReplay) {
+    clearTimeout(pendingReplay.timer);
+    pendingReplay = null;
+  }
+}
+
+// Reassembles oversized CLI messages sent as chunk frames
+const outputAssembler = new ChunkAssembler();
+
+// Pairing key for the current session's machine (null = not paired)
+let encryptionKey: Uint8Array | null = null;
+
+const UNREADABLE_CONTENT = '[Encrypted - pair this device to read it]';
+
+/**
+ * Decrypt persisted message content. Content stored before pairing is
+ * plaintext and passed through unchanged.
+ */
+function openContent(content: string): string {
+  if (!isEncryptedText(content)) {
+    return content;
+  }
+  return (encryptionKey && decryptText(content, encryptionKey)) ?? UNREADABLE_CONTENT;
+}
+
+/**
+ * Send a message to the CLI - sealed with the pairing key when this device
+ * has one, then split into chunk frames when it is too large for one
+ * broadcast and the CLI can reassemble it.
+ */
+async function sendToCli(channel: TransportChannel, message: RealtimeMessage): Promise<void> {
+  const sealed =
+    encryptionKey && requiresEncryption(message.type)
+      ? encryptMessage(message, encryptionKey, {
+          sessionId: useConnectionStore.getState().sessionId ?? '',
+          direction: 'input',
+        })
+      : message;
+  const frames = cliSupports(useConnectionStore.getState().cliProtocol, 'chunking')
+    ? splitMessage(sealed)
+    : [sealed];
+  for (const frame of frames) {
+    await channel.send('input', frame);
+  }
+}
+
+// A message awaiting an ack from the CLI
+interface PendingAck {
+  timer: ReturnType<typeof setTimeout>; // Resends the message if no ack arrives
+  onDelivered?: () => void;
+}
+
+// Keyed by messageId
+const pendingAcks = new Map<string, PendingAck>();
+
+function clearPendingAcks() {
+  pendingAcks.forEach(({ timer }) => clearTimeout(timer));
+  pendingAcks.clear();
+}
+
+/**
+ * Stop retrying a message. Returns its pending entry, if it was still waiting.
+ */
+function acknowledge(messageId: string): PendingAck | undefined {
+  const pending = pendingAcks.get(messageId);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingAcks.delete(messageId);
+  }
+  return pending;
+}
+
+/**
+ * Send a message on the input channel and resend it with backoff until the
+ * CLI acknowledges its messageId. The CLI drops duplicates, so retrying is safe.
+ * CLIs that haven't negotiated acks get a single send, since they would
+ * neither ack nor de-duplicate.
+ */
+async function sendWithAck(
+  message: RealtimeMessage & { messageId: string },
+  onUndelivered: () => void,
+  onDelivered?: () => void,
+  attempt: number = 1
+): Promise<void> {
+  const channel = inputChannel;
+  if (!channel) {
+    return;
+  }
+
+  if (!cliSupports(useConnectionStore.getState().cliProtocol, 'ack')) {
+    try {
+      await sendToCli(channel, message);
+    } catch {
+      onUndelivered();
+      return;
+    }
+    onDelivered?.();
+    return;
+  }
+
+  pendingAcks.set(message.messageId, {
+    timer: setTimeout(() => {
+      pendingAcks.delete(message.messageId);
+      if (inputChannel !== channel) {
+        // Session changed - drop the retry
+        return;
+      }
+      if (attempt >= MAX_SEND_ATTEMPTS) {
+        onUndelivered();
+        return;
+      }
+      sendWithAck(message, onUndelivered, onDelivered, attempt + 1);
+    }, getRetryDelay(attempt)),
+    onDelivered,
+  });
+
+  try {
+    await sendToCli(channel, message);
+  } catch {
+    // Retry timer will resend the message
+  }
+}
+
+/**
+ * Unwrap an encrypted envelope from the CLI. Once paired, plaintext is only
+ * accepted for the handshake and rejections. Returns null (after surfacing
+ * the problem) when the message can't be used.
+ */
+function openOutput(payload: unknown): unknown | null {
+  const type =
+    typeof payload === 'object' && payload !== null
+      ? (payload as { type?: unknown }).type
+      : undefined;
+
+  if (type === 'encrypted') {
+    const envelope = validateRealtimeMessage(payload);
+    const sessionId = useConnectionStore.getState().sessionId;
+    const opened =
+      envelope.ok && encryptionKey && sessionId
+        ? decryptMessage(envelope.value, encryptionKey, { sessionId, direction: 'output' })
+        : null;
+    if (opened === null) {
+      useConnectionStore.setState({
+        pairingWarning: encryptionKey
+          ? 'Could not decrypt messages from this machine. Pair this device again in Settings.'
+          : UNPAIRED_WARNING,
+      });
+    }
+    return opened;
+  }
+
+  if (
+    encryptionKey &&
+    typeof type === 'string' &&
+    requiresEncryption(type as RealtimeMessage['type'])
+  ) {
+    console.warn(`[TermBridge] Dropped unencrypted ${type} from CLI`);
+    return null;
+  }
+
+  return payload;
+}
+
+/**
+ * Tell the CLI why one of its messages was dropped, if it understands
+ * rejections. Rejections themselves are never answered.
+ */
+function rejectOutput(payload: unknown, reason: string) {
+  const fields = (typeof payload === 'object' && payload !== null ? payload : {}) as Record<
+    string,
+    unknown
+  >;
+  if (
+    !inputChannel ||
+    fields['type'] === 'message-rejected' ||
+    !cliSupports(useConnectionStore.getState().cliProtocol, 'rejections')
+  ) {
+    return;
+  }
+
+  const message: RealtimeMessage = {
+    type: 'message-rejected',
+    rejection: {
+      reason,
+      rejectedType: typeof fields['type'] === 'string' ? fields['type'] : undefined,
+      protocolVersion: MESSAGE_SCHEMA_VERSION,
+    },
+    timestamp: Date.now(),
+    seq: ++seq,
+  };
+
+  sendToCli(inputChannel, message).catch(() => {
+    // Already logged locally
+  });
+}
+
 export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
   state: 'disconnected',
   sessionId: null,
@@ -94,11 +369,21 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
   model: null,
   availableModels: [],
   isModelChanging: false,
+  cliProtocol: null,
+  protocolWarning: null,
+  isEncrypted: false,
+  pairingWarning: null,
   interactiveData: null,
   isInteractiveLoading: false,
   interactiveError: null,
-  pendingQuestion: null,
-  pendingPermissionRequest: null,
+  pendingQuestions: [],
+  pendingPermissionRequests: [],
+  promptQueue: [],
+  usage: null,
+  limitsState: null,
+  todos: null,
+  subAgents: [],
+  streamingOutput: null,
 
   connect: async (sessionId: string) => {
     try {
@@ -116,17 +401,30 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
         model: null,
         availableModels: [],
         isModelChanging: false,
+        cliProtocol: null,
+        protocolWarning: null,
+        isEncrypted: false,
+        pairingWarning: null,
         interactiveData: null,
         isInteractiveLoading: false,
         interactiveError: null,
-        pendingQuestion: null,
-        pendingPermissionRequest: null,
+        pendingQuestions: [],
+        pendingPermissionRequests: [],
+        promptQueue: [],
+        usage: null,
+        limitsState: null,
+        todos: null,
+        subAgents: [],
+        streamingOutput: null,
       });
+      lastCliSeq = 0;
+      clearPendingReplay();
+      clearPendingAcks();
 
       // First check if the session is still active
       const { data: session, error: sessionError } = await supabase
         .from('sessions')
-        .select('status')
+        .select('status, machine_id, todos')
         .eq('id', sessionId)
         .single();
 
@@ -139,6 +437,13 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
         return;
       }
 
+      // Load the pairing key before touching history, which may be encrypted
+      encryptionKey = await getMachineKey(session.machine_id);
+      set({
+        isEncrypted: encryptionKey !== null,
+        todos: parseTodos(session.todos ? openContent(session.todos) : null),
+      });
+
       // Fetch message history from database
       const { data: historicalMessages, error: messagesError } = await supabase
         .from('messages')
@@ -147,15 +452,13 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
         .order('seq', { ascending: true });
 
       if (!messagesError && historicalMessages && historicalMessages.length > 0) {
-        const messages: RealtimeMessage[] = historicalMessages.map((msg) => ({
-          type: msg.type as RealtimeMessage['type'],
-          content: msg.content,
-          timestamp: new Date(msg.created_at).getTime(),
-          seq: msg.seq,
-        }));
+        const messages = historicalMessages
+          .map((msg) => messageFromRow({ ...msg, content: openContent(msg.content) }))
+          .filter((msg): msg is RealtimeMessage => msg !== null);
         const lastSeq = historicalMessages[historicalMessages.length - 1].seq;
         // Initialize seq counter to continue from where historical messages left off
         seq = lastSeq;
+        lastCliSeq = getLastCliSeq(messages);
         set({ messages, lastSeq });
       } else {
         // Reset seq counter for new session with no history
@@ -164,18 +467,118 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
 
       // Clean up existing channels
       if (outputChannel) {
-        await supabase.removeChannel(outputChannel);
+        await transport.removeChannel(outputChannel);
       }
       if (inputChannel) {
-        await supabase.removeChannel(inputChannel);
+        await transport.removeChannel(inputChannel);
       }
 
       // Subscribe to output channel
       const outputChannelName = REALTIME_CHANNELS.sessionOutput(sessionId);
-      outputChannel = supabase.channel(outputChannelName);
+      outputChannel = transport.channel(outputChannelName);
 
-      outputChannel.on('broadcast', { event: 'output' }, (payload) => {
-        const message = payload.payload as RealtimeMessage;
+      outputAssembler.clear();
+      outputChannel.onMessage('output', (frame) => {
+        // Oversized messages arrive as chunk frames - wait for the last one
+        const assembled = outputAssembler.accept(frame);
+        if (assembled.status === 'pending') {
+          return;
+        }
+        if (assembled.status === 'error') {
+          console.warn(`[TermBridge] Dropped chunked message from CLI: ${assembled.error}`);
+          rejectOutput(frame, assembled.error);
+          return;
+        }
+
+        const payload = openOutput(assembled.payload);
+        if (payload === null) {
+          return;
+        }
+        const result = validateRealtimeMessage(payload);
+        if (!result.ok) {
+          console.warn(`[TermBridge] Rejected invalid message from CLI: ${result.error}`);
+          rejectOutput(payload, result.error);
+          return;
+        }
+        const message = result.value;
+
+        // Detect messages dropped in transit and ask the CLI to resend them
+        // (skipped only once we know the CLI can't replay)
+        const gap = findSeqGap(lastCliSeq, message.seq);
+        const { cliProtocol } = get();
+        if (gap && (!cliProtocol || cliSupports(cliProtocol, 'replay'))) {
+          get().requestReplay(gap);
+        }
+        lastCliSeq = Math.max(lastCliSeq, message.seq);
+
+        // Handle delivery confirmation for a message we sent
+        if (message.type === 'ack') {
+          if (message.ackId) {
+            acknowledge(message.ackId)?.onDelivered?.();
+          }
+          return;
+        }
+
+        // CLI refused something we sent - stop retrying it and surface the reason
+        if (message.type === 'message-rejected' && message.rejection) {
+          if (message.rejection.messageId) {
+            acknowledge(message.rejection.messageId);
+          }
+          set({ error: `CLI rejected message: ${message.rejection.reason}`, isTyping: false });
+          return;
+        }
+
+        // Handle handshake reply - enables features both sides support
+        if (message.type === 'capabilities' && message.protocol) {
+          set({
+            cliProtocol: message.protocol,
+            protocolWarning: getProtocolWarning(message.protocol),
+            pairingWarning: getPairingWarning(
+              encryptionKey && getKeyId(encryptionKey),
+              message.protocol.keyId
+            ),
+          });
+          return;
+        }
+
+        // CLIs that predate the handshake ignore hello but still answer the
+        // commands/models requests sent after it, so a reply without
+        // capabilities means the CLI is out of date
+        if ((message.type === 'commands' || message.type === 'models') && !get().cliProtocol) {
+          const legacyProtocol = { version: LEGACY_PROTOCOL_VERSION, features: [] };
+          set({
+            cliProtocol: legacyProtocol,
+            protocolWarning: getProtocolWarning(legacyProtocol),
+          });
+        }
+
+        // Handle replayed messages - fill the gap in their original position
+        if (message.type === 'replay-response') {
+          const range = message.replayRange;
+          if (
+            pendingReplay &&
+            range &&
+            range.fromSeq <= pendingReplay.range.fromSeq &&
+            range.toSeq >= pendingReplay.range.toSeq
+          ) {
+            clearPendingReplay();
+          }
+          if (message.replayedMessages && message.replayedMessages.length > 0) {
+            const replayed = message.replayedMessages;
+            // Requests lost in the gap still need an answer - the CLI is waiting on them
+            set((state) => ({
+              messages: mergeReplayedMessages(state.messages, replayed),
+              ...applyReplayedRequests(
+                {
+                  pendingPermissionRequests: state.pendingPermissionRequests,
+                  pendingQuestions: state.pendingQuestions,
+                },
+                replayed
+              ),
+            }));
+          }
+          return;
+        }
 
         // Handle mode messages separately
         if (message.type === 'mode' && message.permissionMode) {
@@ -223,15 +626,55 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
           return;
         }
 
-        // Handle user question from AskUserQuestion tool
-        if (message.type === 'user-question' && message.userQuestion) {
-          set({ pendingQuestion: message.userQuestion, isTyping: false });
+        // Queue permission requests from SDK canUseTool callback (sub-agents
+        // can ask for several at once) and AskUserQuestion questions, and drop
+        // ones the CLI no longer needs answered
+        const { pendingPermissionRequests, pendingQuestions } = get();
+        const queues = applyRequestMessage({ pendingPermissionRequests, pendingQuestions }, message);
+        if (queues) {
+          set(message.type === 'request-retracted' ? queues : { ...queues, isTyping: false });
+          return;
+        }
+
+        // Running usage total, sent after every turn
+        if (message.type === 'usage' && message.usage) {
+          set({ usage: message.usage.total });
           return;
         }
 
-        // Handle permission request from SDK canUseTool callback
-        if (message.type === 'permission-request' && message.permissionRequest) {
-          set({ pendingPermissionRequest: message.permissionRequest, isTyping: false });
+        // Streamed text - the output message that follows replaces it
+        if (message.type === 'output-delta' && message.content) {
+          set((state) => ({
+            streamingOutput: {
+              content: (state.streamingOutput?.content ?? '') + message.content,
+              timestamp: state.streamingOutput?.timestamp ?? message.timestamp,
+            },
+          }));
+          return;
+        }
+
+        // Session limits, sent when they change or one stops the session
+        if (message.type === 'limits' && message.limitsState) {
+          set({ limitsState: message.limitsState });
+          return;
+        }
+
+        // Todo list, sent whole each time Claude updates it
+        if (message.type === 'todos' && message.todos) {
+          set({ todos: message.todos });
+          return;
+        }
+
+        // Sub-agent started, used a tool, or finished
+        if (message.type === 'sub-agent' && message.subAgent) {
+          const subAgent = message.subAgent;
+          set((state) => ({ subAgents: upsertSubAgent(state.subAgents, subAgent) }));
+          return;
+        }
+
+        // Prompts the CLI queued behind the running query
+        if (message.type === 'prompt-queue' && message.promptQueue) {
+          set({ promptQueue: message.promptQueue });
           return;
         }
 
@@ -245,12 +688,9 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
             .order('seq', { ascending: true })
             .then(({ data: historicalMessages, error }) => {
               if (!error && historicalMessages && historicalMessages.length > 0) {
-                const resumedMessages: RealtimeMessage[] = historicalMessages.map((msg) => ({
-                  type: msg.type as RealtimeMessage['type'],
-                  content: msg.content,
-                  timestamp: new Date(msg.created_at).getTime(),
-                  seq: msg.seq,
-                }));
+                const resumedMessages = historicalMessages
+                  .map((msg) => messageFromRow({ ...msg, content: openContent(msg.content) }))
+                  .filter((msg): msg is RealtimeMessage => msg !== null);
                 // Prepend resumed messages to current messages
                 set((state) => ({
                   messages: [...resumedMessages, ...state.messages],
@@ -268,19 +708,20 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
             (m) => m.seq === message.seq && m.type === message.type
           );
           if (isDuplicate) {
-            return { isTyping: false };
+            return { isTyping: false, streamingOutput: null };
           }
           return {
             messages: [...state.messages, message],
             lastSeq: message.seq,
             isTyping: false,
+            streamingOutput: null,
           };
         });
       });
 
       // Subscribe to input channel (for sending)
       const inputChannelName = REALTIME_CHANNELS.sessionInput(sessionId);
-      inputChannel = supabase.channel(inputChannelName);
+      inputChannel = transport.channel(inputChannelName);
 
       // Wait for subscriptions
       await Promise.all([
@@ -300,6 +741,21 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
 
       set({ state: 'connected' });
 
+      // Advertise our protocol before anything else so the CLI knows what we support
+      const hello: RealtimeMessage = {
+        type: 'hello',
+        protocol: {
+          version: PROTOCOL_VERSION,
+          features: SUPPORTED_FEATURES,
+          ...(encryptionKey && { keyId: getKeyId(encryptionKey) }),
+        },
+        timestamp: Date.now(),
+        seq: ++seq,
+      };
+      await inputChannel!.send('input', hello).catch(() => {
+        // Treated like a CLI that doesn't answer - features stay off
+      });
+
       // Request available commands and models from CLI
       get().requestCommands();
       get().requestModels();
@@ -312,12 +768,15 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
   },
 
   disconnect: async () => {
+    clearPendingReplay();
+    clearPendingAcks();
+    encryptionKey = null;
     if (outputChannel) {
-      await supabase.removeChannel(outputChannel);
+      await transport.removeChannel(outputChannel);
       outputChannel = null;
     }
     if (inputChannel) {
-      await supabase.removeChannel(inputChannel);
+      await transport.removeChannel(inputChannel);
       inputChannel = null;
     }
 
@@ -335,10 +794,11 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
     }
 
     const sessionId = get().sessionId;
-    const message: RealtimeMessage = {
-      type: 'input',
+    const message = {
+      type: 'input' as const,
       content,
       attachments,
+      messageId: createMessageId(),
       timestamp: Date.now(),
       seq: ++seq,
     };
@@ -361,22 +821,16 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
       supabase.from('messages').insert({
         session_id: sessionId,
         type: message.type,
-        content: message.content,
+        content: encryptionKey ? encryptText(message.content, encryptionKey) : message.content,
         seq: message.seq,
       }).then(() => {}).catch(() => {
         // Silent fail - persistence is secondary
       });
     }
 
-    try {
-      await inputChannel.send({
-        type: 'broadcast',
-        event: 'input',
-        payload: message,
-      });
-    } catch {
-      set({ error: 'Failed to send message' });
-    }
+    await sendWithAck(message, () => {
+      set({ error: 'Failed to send message', isTyping: false });
+    });
   },
 
   clearMessages: () => {
@@ -395,10 +849,97 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
       seq: ++seq,
     };
 
-    await inputChannel.send({
-      type: 'broadcast',
-      event: 'input',
-      payload: message,
+    await sendToCli(inputChannel, message);
+  },
+
+  sendInterrupt: async () => {
+    if (!inputChannel || get().state !== 'connected') {
+      set({ error: 'Not connected' });
+      return;
+    }
+
+    const message = {
+      type: 'interrupt' as const,
+      messageId: createMessageId(),
+      timestamp: Date.now(),
+      seq: ++seq,
+    };
+
+    // Claude counts as running until the CLI has the interrupt - its "[Cancelled]"
+    // message also ends the wait if it arrives first
+    await sendWithAck(
+      message,
+      () => {
+        set({ error: 'Failed to send interrupt' });
+      },
+      () => {
+        set({ isTyping: false });
+      }
+    );
+  },
+
+  sendQueueUpdate: async (update: PromptQueueUpdate) => {
+    if (!inputChannel || get().state !== 'connected') {
+      set({ error: 'Not connected' });
+      return;
+    }
+
+    const previous = get().promptQueue;
+    const updated = applyQueueUpdate(previous, update);
+    set({ promptQueue: updated });
+
+    const message = {
+      type: 'prompt-queue-update' as const,
+      queueUpdate: update,
+      messageId: createMessageId(),
+      timestamp: Date.now(),
+      seq: ++seq,
+    };
+
+    await sendWithAck(message, () => {
+      // The CLI still has the old order - show it again, unless the CLI has
+      // sent its queue since
+      set((state) => ({
+        promptQueue: state.promptQueue === updated ? previous : state.promptQueue,
+        error: 'Failed to update queued prompts',
+      }));
+    });
+  },
+
+  sendLimitsChange: async (limits: SessionLimits) => {
+    if (!inputChannel || get().state !== 'connected') {
+      set({ error: 'Not connected' });
+      return;
+    }
+
+    const message = {
+      type: 'limits-change' as const,
+      sessionLimits: limits,
+      messageId: createMessageId(),
+      timestamp: Date.now(),
+      seq: ++seq,
+    };
+
+    await sendWithAck(message, () => {
+      set({ error: 'Failed to update limits' });
+    });
+  },
+
+  sendLimitOverride: async () => {
+    if (!inputChannel || get().state !== 'connected') {
+      set({ error: 'Not connected' });
+      return;
+    }
+
+    const message = {
+      type: 'limit-override' as const,
+      messageId: createMessageId(),
+      timestamp: Date.now(),
+      seq: ++seq,
+    };
+
+    await sendWithAck(message, () => {
+      set({ error: 'Failed to override the limit' });
     });
   },
 
@@ -419,33 +960,70 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
     };
 
     try {
-      await inputChannel.send({
-        type: 'broadcast',
-        event: 'input',
-        payload: message,
-      });
+      await sendToCli(inputChannel, message);
     } catch {
       set({ error: 'Failed to send resume request', isTyping: false });
     }
   },
 
+  requestReplay: async (range: SeqRange) => {
+    if (!inputChannel || get().state !== 'connected') {
+      return;
+    }
+
+    // Widen an outstanding request instead of sending overlapping ones
+    const attempts = pendingReplay ? pendingReplay.attempts + 1 : 1;
+    const replayRange: SeqRange = pendingReplay
+      ? {
+          fromSeq: Math.min(pendingReplay.range.fromSeq, range.fromSeq),
+          toSeq: Math.max(pendingReplay.range.toSeq, range.toSeq),
+        }
+      : range;
+    clearPendingReplay();
+
+    // Give up after a few attempts - the next full reconnect reloads history
+    if (attempts > MAX_REPLAY_ATTEMPTS) {
+      return;
+    }
+
+    pendingReplay = {
+      range: replayRange,
+      attempts,
+      timer: setTimeout(() => {
+        get().requestReplay(replayRange);
+      }, REPLAY_RETRY_MS),
+    };
+
+    const message: RealtimeMessage = {
+      type: 'replay-request',
+      replayRange,
+      timestamp: Date.now(),
+      seq: ++seq,
+    };
+
+    try {
+      await sendToCli(inputChannel, message);
+    } catch {
+      // Retry timer will resend the request
+    }
+  },
+
   sendModeChange: async (mode: PermissionMode) => {
     if (!inputChannel || get().state !== 'connected') {
       set({ error: 'Not connected' });
       return;
     }
 
-    const message: RealtimeMessage = {
-      type: 'mode-change',
+    const message = {
+      type: 'mode-change' as const,
       permissionMode: mode,
+      messageId: createMessageId(),
       timestamp: Date.now(),
       seq: ++seq,
     };
 
-    await inputChannel.send({
-      type: 'broadcast',
-      event: 'input',
-      payload: message,
+    await sendWithAck(message, () => {
+      set({ error: 'Failed to change mode' });
     });
   },
 
@@ -461,11 +1039,7 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
       seq: ++seq,
     };
 
-    await inputChannel.send({
-      type: 'broadcast',
-      event: 'input',
-      payload: message,
-    });
+    await sendToCli(inputChannel, message);
   },
 
   sendModelChange: async (model: string) => {
@@ -484,11 +1058,7 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
       seq: ++seq,
     };
 
-    await inputChannel.send({
-      type: 'broadcast',
-      event: 'input',
-      payload: message,
-    });
+    await sendToCli(inputChannel, message);
   },
 
   requestModels: async () => {
@@ -503,11 +1073,7 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
       seq: ++seq,
     };
 
-    await inputChannel.send({
-      type: 'broadcast',
-      event: 'input',
-      payload: message,
-    });
+    await sendToCli(inputChannel, message);
   },
 
   clearError: () => set({ error: null }),
@@ -528,11 +1094,7 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
     };
 
     try {
-      await inputChannel.send({
-        type: 'broadcast',
-        event: 'input',
-        payload: message,
-      });
+      await sendToCli(inputChannel, message);
     } catch {
       set({ isInteractiveLoading: false, interactiveError: 'Failed to send request' });
     }
@@ -552,11 +1114,7 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
     };
 
     try {
-      await inputChannel.send({
-        type: 'broadcast',
-        event: 'input',
-        payload: message,
-      });
+      await sendToCli(inputChannel, message);
     } catch {
       set({ interactiveError: 'Failed to apply change' });
     }
@@ -568,85 +1126,64 @@ export const useConnectionStore = create<ConnectionStoreState>((set, get) => ({
     interactiveError: null,
   }),
 
-  sendUserAnswer: async (answers: Record<string, string>) => {
+  sendUserAnswer: async (userAnswer: UserAnswerData) => {
     if (!inputChannel || get().state !== 'connected') {
       set({ error: 'Not connected' });
       return;
     }
 
-    const pendingQuestion = get().pendingQuestion;
-    if (!pendingQuestion) {
-      return;
-    }
-
-    const userAnswer: UserAnswerData = {
-      toolUseId: pendingQuestion.toolUseId,
-      answers,
-    };
-
-    const message: RealtimeMessage = {
-      type: 'user-answer',
+    const message = {
+      type: 'user-answer' as const,
       userAnswer,
+      messageId: createMessageId(),
       timestamp: Date.now(),
       seq: ++seq,
     };
 
-    // Clear the pending question
-    set({ pendingQuestion: null, isTyping: true });
+    // Remove the answered question from the queue
+    set({
+      pendingQuestions: removeRequest(
+        get().pendingQuestions,
+        userAnswer.toolUseId,
+        getQuestionId
+      ),
+      isTyping: true,
+    });
 
-    try {
-      await inputChannel.send({
-        type: 'broadcast',
-        event: 'input',
-        payload: message,
-      });
-    } catch {
+    await sendWithAck(message, () => {
       set({ error: 'Failed to send answer', isTyping: false });
-    }
+    });
   },
 
-  clearPendingQuestion: () => set({ pendingQuestion: null }),
-
-  sendPermissionResponse: async (behavior: 'allow' | 'deny', message?: string) => {
+  sendPermissionResponse: async (permissionResponse: PermissionResponseData) => {
     if (!inputChannel || get().state !== 'connected') {
       set({ error: 'Not connected' });
       return;
     }
 
-    const pendingRequest = get().pendingPermissionRequest;
-    if (!pendingRequest) {
-      return;
-    }
-
-    const permissionResponse: PermissionResponseData = {
-      requestId: pendingRequest.requestId,
-      behavior,
-      message,
-    };
-
-    const realtimeMessage: RealtimeMessage = {
-      type: 'permission-response',
+    const realtimeMessage = {
+      type: 'permission-response' as const,
       permissionResponse,
+      messageId: createMessageId(),
       timestamp: Date.now(),
       seq: ++seq,
     };
 
-    // Clear the pending request
-    set({ pendingPermissionRequest: null, isTyping: true });
+    // Remove the answered request from the queue
+    set({
+      pendingPermissionRequests: removeRequest(
+        get().pendingPermissionRequests,
+        permissionResponse.requestId,
+        getPermissionRequestId
+      ),
+      isTyping: true,
+    });
 
-    try {
-      await inputChannel.send({
-        type: 'broadcast',
-        event: 'input',
-        payload: realtimeMessage,
-      });
-    } catch {
+    await sendWithAck(realtimeMessage, () => {
       set({ error: 'Failed to send permission response', isTyping: false });
-    }
+    });
   },
 
-  clearPendingPermissionRequest: () => set({ pendingPermissionRequest: null }),
-
   registerScrollToBottom: (callback: () => void) => {
     scrollToBottomCallback = callback;
   },
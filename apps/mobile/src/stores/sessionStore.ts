@@ -1,8 +1,16 @@
 import { create } from 'zustand';
 import { supabase } from '../services/supabase';
-import type { Session, Machine, PresencePayload, MachineCommand } from 'termbridge-shared';
-import { REALTIME_CHANNELS } from 'termbridge-shared';
-import type { RealtimeChannel } from '@supabase/supabase-js';
+import { transport } from '../services/transport';
+import { getMachineKey } from '../services/encryption';
+import type {
+  Session,
+  Machine,
+  PresencePayload,
+  MachineCommand,
+  TransportChannel,
+  RealtimeMessage,
+} from 'termbridge-shared';
+import { REALTIME_CHANNELS, validateMachineCommand, encryptMessage } from 'termbridge-shared';
 
 interface SessionStoreState {
   sessions: Session[];
@@ -35,8 +43,8 @@ interface SessionStoreState {
 }
 
 // Keep track of presence channels outside the store
-const presenceChannels: Map<string, RealtimeChannel> = new Map();
-const machinePresenceChannels: Map<string, RealtimeChannel> = new Map();
+const presenceChannels: Map<string, TransportChannel> = new Map();
+const machinePresenceChannels: Map<string, TransportChannel> = new Map();
 
 export const useSessionStore = create<SessionStoreState>((set, get) => ({
   sessions: [],
@@ -112,24 +120,30 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
     try {
       set({ pendingSessionId: sessionId });
 
-      // Send disconnect notification to CLI via realtime
+      // Send disconnect notification to CLI via realtime - sealed like any other
+      // input once paired, or the CLI refuses it
       try {
+        const machineId = get().sessions.find((session) => session.id === sessionId)?.machine_id;
+        const encryptionKey = machineId ? await getMachineKey(machineId) : null;
+        const disconnect: RealtimeMessage = {
+          type: 'mobile-disconnect',
+          timestamp: Date.now(),
+          seq: 0,
+        };
+
         const inputChannelName = REALTIME_CHANNELS.sessionInput(sessionId);
-        const tempChannel = supabase.channel(inputChannelName);
+        const tempChannel = transport.channel(inputChannelName);
 
         // Subscribe and send disconnect message
         await new Promise<void>((resolve) => {
           tempChannel.subscribe(async (status) => {
             if (status === 'SUBSCRIBED') {
-              await tempChannel.send({
-                type: 'broadcast',
-                event: 'input',
-                payload: {
-                  type: 'mobile-disconnect',
-                  timestamp: Date.now(),
-                  seq: 0,
-                },
-              });
+              await tempChannel.send(
+                'input',
+                encryptionKey
+                  ? encryptMessage(disconnect, encryptionKey, { sessionId, direction: 'input' })
+                  : disconnect
+              );
               // Wait for message to be delivered
               await new Promise((r) => setTimeout(r, 200));
               resolve();
@@ -141,7 +155,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
           setTimeout(resolve, 2000);
         });
 
-        await supabase.removeChannel(tempChannel);
+        await transport.removeChannel(tempChannel);
       } catch {
         // Ignore realtime errors - still proceed with database update
       }
@@ -258,7 +272,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
     // Unsubscribe from sessions that are no longer active
     for (const [sessionId, channel] of presenceChannels) {
       if (!activeSessions.find((s) => s.id === sessionId)) {
-        supabase.removeChannel(channel);
+        transport.removeChannel(channel);
         presenceChannels.delete(sessionId);
       }
     }
@@ -282,10 +296,10 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
       if (presenceChannels.has(session.id)) continue;
 
       const channelName = REALTIME_CHANNELS.sessionPresence(session.id);
-      const channel = supabase.channel(channelName);
+      const channel = transport.channel(channelName);
 
       channel
-        .on('presence', { event: 'sync' }, () => {
+        .onPresence('sync', () => {
           const state = channel.presenceState();
           const entries = Object.values(state);
           const isCliOnline = entries.some((presences) =>
@@ -302,7 +316,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
             };
           });
         })
-        .on('presence', { event: 'join' }, ({ newPresences }) => {
+        .onPresence('join', ({ newPresences }) => {
           const cliJoined = (newPresences as PresencePayload[]).some((p) => p.type === 'cli');
           if (cliJoined) {
             set((s) => ({
@@ -310,7 +324,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
             }));
           }
         })
-        .on('presence', { event: 'leave' }, ({ leftPresences }) => {
+        .onPresence('leave', ({ leftPresences }) => {
           const cliLeft = (leftPresences as PresencePayload[]).some((p) => p.type === 'cli');
           if (cliLeft) {
             // Re-check if any CLI is still present
@@ -333,7 +347,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
 
   unsubscribeFromPresence: () => {
     for (const [, channel] of presenceChannels) {
-      supabase.removeChannel(channel);
+      transport.removeChannel(channel);
     }
     presenceChannels.clear();
     set({ sessionOnlineStatus: {} });
@@ -357,7 +371,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
     // Unsubscribe from machines no longer relevant
     for (const [machineId, channel] of machinePresenceChannels) {
       if (!machineIds.has(machineId)) {
-        supabase.removeChannel(channel);
+        transport.removeChannel(channel);
         machinePresenceChannels.delete(machineId);
       }
     }
@@ -367,10 +381,10 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
       if (machinePresenceChannels.has(machineId)) continue;
 
       const channelName = REALTIME_CHANNELS.machinePresence(machineId);
-      const channel = supabase.channel(channelName);
+      const channel = transport.channel(channelName);
 
       channel
-        .on('presence', { event: 'sync' }, () => {
+        .onPresence('sync', () => {
           const state = channel.presenceState();
           const isListenerOnline = Object.values(state).some((presences) =>
             (presences as PresencePayload[]).some((p) => p.type === 'cli')
@@ -379,7 +393,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
             machineOnlineStatus: { ...s.machineOnlineStatus, [machineId]: isListenerOnline },
           }));
         })
-        .on('presence', { event: 'join' }, ({ newPresences }) => {
+        .onPresence('join', ({ newPresences }) => {
           const cliJoined = (newPresences as PresencePayload[]).some((p) => p.type === 'cli');
           if (cliJoined) {
             set((s) => ({
@@ -387,7 +401,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
             }));
           }
         })
-        .on('presence', { event: 'leave' }, ({ leftPresences }) => {
+        .onPresence('leave', ({ leftPresences }) => {
           const cliLeft = (leftPresences as PresencePayload[]).some((p) => p.type === 'cli');
           if (cliLeft) {
             const state = channel.presenceState();
@@ -407,7 +421,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
 
   unsubscribeMachinePresence: () => {
     for (const [, channel] of machinePresenceChannels) {
-      supabase.removeChannel(channel);
+      transport.removeChannel(channel);
     }
     machinePresenceChannels.clear();
     set({ machineOnlineStatus: {} });
@@ -438,20 +452,25 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
     const inputChannelName = REALTIME_CHANNELS.machineInput(machineId);
     const outputChannelName = REALTIME_CHANNELS.machineOutput(machineId);
 
-    const inputChannel = supabase.channel(inputChannelName);
-    const outputChannel = supabase.channel(outputChannelName);
+    const inputChannel = transport.channel(inputChannelName);
+    const outputChannel = transport.channel(outputChannelName);
 
     let timeoutId: ReturnType<typeof setTimeout>;
 
     const cleanup = () => {
       clearTimeout(timeoutId);
-      supabase.removeChannel(inputChannel);
-      supabase.removeChannel(outputChannel);
+      transport.removeChannel(inputChannel);
+      transport.removeChannel(outputChannel);
     };
 
     // Listen for response on output channel
-    outputChannel.on('broadcast', { event: 'machine-command' }, (payload) => {
-      const cmd = payload.payload as MachineCommand;
+    outputChannel.onMessage('machine-command', (payload) => {
+      const result = validateMachineCommand(payload);
+      if (!result.ok) {
+        console.warn(`[TermBridge] Ignored invalid machine command: ${result.error}`);
+        return;
+      }
+      const cmd = result.value;
 
       if (cmd.type === 'session-started' && cmd.sessionId) {
         cleanup();
@@ -470,7 +489,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
         onSuccess(cmd.sessionId);
       }
 
-      if (cmd.type === 'start-session-error') {
+      if (cmd.type === 'start-session-error' || cmd.type === 'command-rejected') {
         cleanup();
         set({
           isStartingSession: null,
@@ -489,11 +508,7 @@ export const useSessionStore = create<SessionStoreState>((set, get) => ({
               timestamp: Date.now(),
             };
 
-            inputChannel.send({
-              type: 'broadcast',
-              event: 'machine-command',
-              payload: command,
-            });
+            inputChannel.send('machine-command', command);
           }
         });
       }
@@ -0,0 +1,20 @@
+// Retry schedule for messages the CLI hasn't acknowledged yet
+export const ACK_RETRY_BASE_MS = 1000;
+export const ACK_RETRY_MAX_MS = 8000;
+export const MAX_SEND_ATTEMPTS = 5;
+
+/**
+ * Generate a unique ID for an outgoing message.
+ * The CLI acks by this ID and uses it to drop retried duplicates.
+ */
+export function createMessageId(): string {
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${Date.now().toString(36)}-${random}`;
+}
+
+/**
+ * Exponential backoff delay before retrying the given (1-based) attempt.
+ */
+export function getRetryDelay(attempt: number): number {
+  return Math.min(ACK_RETRY_BASE_MS * 2 ** (attempt - 1), ACK_RETRY_MAX_MS);
+}
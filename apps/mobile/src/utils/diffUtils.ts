@@ -0,0 +1,81 @@
+import type { DiffHunk } from 'termbridge-shared';
+
+export type DiffRowType = 'context' | 'add' | 'remove';
+
+export interface DiffRow {
+  type: DiffRowType;
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+// One line of the side-by-side view - either side may be empty
+export interface SplitDiffRow {
+  left?: DiffRow;
+  right?: DiffRow;
+}
+
+const ROW_TYPES: Record<string, DiffRowType> = {
+  ' ': 'context',
+  '+': 'add',
+  '-': 'remove',
+};
+
+/**
+ * Number the lines of a hunk for the unified view.
+ */
+export function getDiffRows(hunk: DiffHunk): DiffRow[] {
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+
+  return hunk.lines.map((line) => {
+    const type = ROW_TYPES[line[0] ?? ' '] ?? 'context';
+    const content = line.slice(1);
+    if (type === 'add') {
+      return { type, content, newLine: newLine++ };
+    }
+    if (type === 'remove') {
+      return { type, content, oldLine: oldLine++ };
+    }
+    return { type, content, oldLine: oldLine++, newLine: newLine++ };
+  });
+}
+
+/**
+ * Pair a hunk's removed lines with the lines added in their place, so the
+ * split view shows old on the left and new on the right.
+ */
+export function getSplitDiffRows(hunk: DiffHunk): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = [];
+  let removed: DiffRow[] = [];
+  let added: DiffRow[] = [];
+
+  const flushChanges = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const row of getDiffRows(hunk)) {
+    if (row.type === 'remove') {
+      removed.push(row);
+    } else if (row.type === 'add') {
+      added.push(row);
+    } else {
+      flushChanges();
+      rows.push({ left: row, right: row });
+    }
+  }
+  flushChanges();
+
+  return rows;
+}
+
+/**
+ * "@@ -1,4 +1,5 @@" header shown above each hunk.
+ */
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
@@ -4,7 +4,8 @@ import type { ImageAttachment } from 'termbridge-shared';
 
 type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
 
-// Max size for Supabase Realtime (leave buffer for message overhead)
+// Keeps uploads quick; older CLIs without chunking also need each message
+// to fit in a single Supabase Realtime broadcast
 const MAX_IMAGE_SIZE_KB = 800;
 const MAX_IMAGE_DIMENSION = 1920;
 
@@ -0,0 +1,63 @@
+import type { SessionLimits, SessionLimitsState } from 'termbridge-shared';
+import { describeSessionLimit } from 'termbridge-shared';
+
+// Text fields of the limits sheet - an empty field means no limit
+export interface LimitsForm {
+  maxCost: string; // USD
+  maxTurns: string;
+  maxPromptMinutes: string;
+}
+
+export type LimitsFormResult = { ok: true; limits: SessionLimits } | { ok: false; error: string };
+
+export function getLimitsForm(limits: SessionLimits): LimitsForm {
+  return {
+    maxCost: limits.maxCostUsd !== undefined ? String(limits.maxCostUsd) : '',
+    maxTurns: limits.maxTurns !== undefined ? String(limits.maxTurns) : '',
+    maxPromptMinutes:
+      limits.maxPromptSeconds !== undefined
+        ? String(Math.round((limits.maxPromptSeconds / 60) * 10) / 10)
+        : '',
+  };
+}
+
+export function parseLimitsForm(form: LimitsForm): LimitsFormResult {
+  const limits: SessionLimits = {};
+
+  const maxCost = form.maxCost.trim().replace(/^\$/, '');
+  if (maxCost) {
+    const maxCostUsd = Number(maxCost);
+    if (!Number.isFinite(maxCostUsd) || maxCostUsd <= 0) {
+      return { ok: false, error: 'Max cost must be a positive amount' };
+    }
+    limits.maxCostUsd = maxCostUsd;
+  }
+
+  const maxTurns = form.maxTurns.trim();
+  if (maxTurns) {
+    const turns = Number(maxTurns);
+    if (!Number.isInteger(turns) || turns <= 0) {
+      return { ok: false, error: 'Max turns must be a positive whole number' };
+    }
+    limits.maxTurns = turns;
+  }
+
+  const maxPromptMinutes = form.maxPromptMinutes.trim();
+  if (maxPromptMinutes) {
+    const minutes = Number(maxPromptMinutes);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      return { ok: false, error: 'Max time per prompt must be a positive number of minutes' };
+    }
+    limits.maxPromptSeconds = Math.max(Math.round(minutes * 60), 1);
+  }
+
+  return { ok: true, limits };
+}
+
+// Banner text while a limit has stopped the session, or null if none has
+export function getLimitReachedText(state: SessionLimitsState | null): string | null {
+  if (!state?.reached) {
+    return null;
+  }
+  return `Stopped: ${describeSessionLimit(state.reached, state.limits)} reached`;
+}
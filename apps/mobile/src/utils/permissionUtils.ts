@@ -0,0 +1,122 @@
+import type { PermissionResponseData, PermissionUpdate, PlanDecision } from 'termbridge-shared';
+import { formatPermissionRule } from 'termbridge-shared';
+
+export interface EditableField {
+  key: string; // Tool input field
+  label: string;
+  multiline: boolean;
+}
+
+// Input fields the user can change before allowing a tool
+const EDITABLE_FIELDS: Record<string, EditableField[]> = {
+  Bash: [{ key: 'command', label: 'Command', multiline: true }],
+  Write: [
+    { key: 'file_path', label: 'Path', multiline: false },
+    { key: 'content', label: 'Content', multiline: true },
+  ],
+  Edit: [
+    { key: 'file_path', label: 'Path', multiline: false },
+    { key: 'old_string', label: 'Replace', multiline: true },
+    { key: 'new_string', label: 'With', multiline: true },
+  ],
+};
+
+export type EditedInputResult =
+  | { ok: true; updatedInput: Record<string, unknown> }
+  | { ok: false; error: string };
+
+export function getEditableFields(toolName: string): EditableField[] {
+  return EDITABLE_FIELDS[toolName] ?? [];
+}
+
+/**
+ * Current values of a tool's editable fields, to prefill the edit form.
+ */
+export function getEditableValues(
+  toolName: string,
+  toolInput: Record<string, unknown>
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const field of getEditableFields(toolName)) {
+    const value = toolInput[field.key];
+    values[field.key] = typeof value === 'string' ? value : '';
+  }
+  return values;
+}
+
+/**
+ * The fields the user changed, to send as the permission response's
+ * updatedInput. Catches obvious mistakes before sending - the CLI checks
+ * the full input against the tool's schema either way.
+ */
+export function buildUpdatedInput(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  values: Record<string, string>
+): EditedInputResult {
+  const updatedInput: Record<string, unknown> = {};
+
+  for (const field of getEditableFields(toolName)) {
+    const value = values[field.key] ?? '';
+    if (field.key === 'command' && !value.trim()) {
+      return { ok: false, error: 'Command cannot be empty' };
+    }
+    if (field.key === 'file_path' && !value.startsWith('/')) {
+      return { ok: false, error: 'Path must be absolute' };
+    }
+    if (field.key === 'old_string' && !value) {
+      return { ok: false, error: 'Text to replace cannot be empty' };
+    }
+    if (value !== toolInput[field.key]) {
+      updatedInput[field.key] = value;
+    }
+  }
+
+  return { ok: true, updatedInput };
+}
+
+type AddRulesUpdate = Extract<PermissionUpdate, { type: 'addRules' }>;
+
+/**
+ * The rule update behind "Always Allow": the first allow suggestion the SDK
+ * offered with the request, if any.
+ */
+export function getAlwaysAllowUpdate(suggestions?: PermissionUpdate[]): AddRulesUpdate | null {
+  const update = suggestions?.find(
+    (suggestion): suggestion is AddRulesUpdate =>
+      suggestion.type === 'addRules' && suggestion.behavior === 'allow'
+  );
+  return update ?? null;
+}
+
+export function getAlwaysAllowLabel(update: AddRulesUpdate): string {
+  return `Always Allow ${update.rules.map(formatPermissionRule).join(', ')}`;
+}
+
+// Buttons of an ExitPlanMode request, in the order they're shown
+export const PLAN_CHOICES: Array<{ decision: PlanDecision; label: string }> = [
+  { decision: 'approve', label: 'Approve' },
+  { decision: 'approve-auto-edits', label: 'Approve & Auto-accept Edits' },
+  { decision: 'keep-planning', label: 'Keep Planning' },
+];
+
+/**
+ * The response to an ExitPlanMode request. Approvals allow the tool, keeping
+ * on planning denies it, with any feedback for Claude as the message.
+ */
+export function getPlanResponse(
+  requestId: string,
+  decision: PlanDecision,
+  feedback = ''
+): PermissionResponseData {
+  if (decision !== 'keep-planning') {
+    return { requestId, behavior: 'allow', planDecision: decision };
+  }
+  const message = feedback.trim();
+  return {
+    requestId,
+    behavior: 'deny',
+    planDecision: decision,
+    ...(message && { message }),
+  };
+}
@@ -0,0 +1,29 @@
+import type { PromptQueueUpdate, QueuedPrompt } from 'termbridge-shared';
+
+/**
+ * Apply a move or remove locally, so the list responds before the CLI
+ * sends the updated queue back.
+ */
+export function applyQueueUpdate(queue: QueuedPrompt[], update: PromptQueueUpdate): QueuedPrompt[] {
+  const prompt = queue.find((queued) => queued.id === update.promptId);
+  if (!prompt) {
+    return queue;
+  }
+
+  const rest = queue.filter((queued) => queued.id !== update.promptId);
+  if (update.action === 'remove') {
+    return rest;
+  }
+  const toIndex = Math.min(update.toIndex, rest.length);
+  return [...rest.slice(0, toIndex), prompt, ...rest.slice(toIndex)];
+}
+
+// One line of the prompt for the queue list
+export function getQueuedPromptLabel(prompt: QueuedPrompt): string {
+  const text = prompt.content.trim().split('\n')[0] ?? '';
+  if (prompt.attachmentCount === 0) {
+    return text;
+  }
+  const images = prompt.attachmentCount === 1 ? '1 image' : `${prompt.attachmentCount} images`;
+  return text ? `${text} (+${images})` : `(${images})`;
+}
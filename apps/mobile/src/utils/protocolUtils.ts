@@ -0,0 +1,51 @@
+import type { ProtocolFeature, ProtocolInfo } from 'termbridge-shared';
+import { SUPPORTED_FEATURES } from 'termbridge-shared';
+
+/**
+ * Whether the CLI has negotiated a feature. Unknown (null) means the
+ * handshake hasn't completed, so nothing is assumed.
+ */
+export function cliSupports(protocol: ProtocolInfo | null, feature: ProtocolFeature): boolean {
+  return protocol?.features.includes(feature) ?? false;
+}
+
+/**
+ * User-facing warning when the CLI or the app lacks features the other one
+ * has, or null when nothing is lost. A version difference alone is fine -
+ * both sides fall back for anything the other doesn't support.
+ */
+export function getProtocolWarning(cliProtocol: ProtocolInfo): string | null {
+  if (SUPPORTED_FEATURES.some((feature) => !cliProtocol.features.includes(feature))) {
+    return 'Your TermBridge CLI is out of date. Update it to use all features.';
+  }
+  if (cliProtocol.features.some((feature) => !SUPPORTED_FEATURES.includes(feature))) {
+    return 'This session uses a newer TermBridge CLI. Update the app to use all features.';
+  }
+  return null;
+}
+
+export const UNPAIRED_WARNING =
+  'This machine uses end-to-end encryption. Pair this device in Settings to connect.';
+
+/**
+ * User-facing warning when this device and the CLI don't share a pairing
+ * key, or null when both are paired with the same key (or neither is).
+ */
+export function getPairingWarning(
+  localKeyId: string | null,
+  cliKeyId: string | undefined
+): string | null {
+  if (!localKeyId && !cliKeyId) {
+    return null;
+  }
+  if (!localKeyId) {
+    return UNPAIRED_WARNING;
+  }
+  if (!cliKeyId) {
+    return 'This device is paired, but the CLI has no encryption key. Run "termbridge pair" on the machine.';
+  }
+  if (localKeyId !== cliKeyId) {
+    return 'The pairing key does not match this machine. Pair this device again in Settings.';
+  }
+  return null;
+}
@@ -0,0 +1,57 @@
+import type { QuestionAnswer, UserAnswerData, UserQuestion } from 'termbridge-shared';
+import { formatQuestionAnswer } from 'termbridge-shared';
+
+/**
+ * Pick or unpick an option. Multi-select questions toggle it in the list;
+ * single-select questions replace the choice, and tapping it again clears it.
+ */
+export function toggleOption(
+  answer: QuestionAnswer,
+  label: string,
+  multiSelect: boolean | undefined
+): QuestionAnswer {
+  const isSelected = answer.selected.includes(label);
+  if (multiSelect) {
+    return {
+      ...answer,
+      selected: isSelected
+        ? answer.selected.filter((selected) => selected !== label)
+        : [...answer.selected, label],
+    };
+  }
+  return { ...answer, selected: isSelected ? [] : [label] };
+}
+
+/**
+ * A question counts as answered once an option is picked or text is typed.
+ */
+export function isQuestionAnswered(answer: QuestionAnswer | undefined): boolean {
+  return !!answer && (answer.selected.length > 0 || !!answer.text?.trim());
+}
+
+/**
+ * The answer to send for a set of questions. `responses` holds the structured
+ * answers; `answers` keeps each one as text by question index for CLIs that
+ * predate responses.
+ */
+export function buildUserAnswer(
+  toolUseId: string,
+  questions: UserQuestion[],
+  drafts: Record<number, QuestionAnswer>
+): UserAnswerData {
+  const responses = questions.map((_, index): QuestionAnswer => {
+    const draft = drafts[index];
+    const text = draft?.text?.trim();
+    return text ? { selected: draft!.selected, text } : { selected: draft?.selected ?? [] };
+  });
+
+  const answers: Record<string, string> = {};
+  responses.forEach((response, index) => {
+    const answerText = formatQuestionAnswer(response);
+    if (answerText) {
+      answers[String(index)] = answerText;
+    }
+  });
+
+  return { toolUseId, answers, responses };
+}
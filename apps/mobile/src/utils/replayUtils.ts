@@ -0,0 +1,59 @@
+import type { RealtimeMessage, RealtimeMessageType, SeqRange } from 'termbridge-shared';
+
+// Message types that belong in the chat log and are restored from a replay.
+// State messages (mode, model, commands...) are re-requested instead, so a stale
+// replayed value never overwrites a newer one.
+const REPLAYABLE_TYPES = new Set<RealtimeMessageType>([
+  'output',
+  'system',
+  'error',
+  'tool-call',
+  'thinking',
+  'question-answer',
+]);
+
+/**
+ * Return the range of CLI sequence numbers missing between the last seq we
+ * received and an incoming one, or null if the incoming message is contiguous
+ * (or old/duplicate).
+ */
+export function findSeqGap(lastSeq: number, incomingSeq: number): SeqRange | null {
+  if (incomingSeq <= lastSeq + 1) {
+    return null;
+  }
+  return { fromSeq: lastSeq + 1, toSeq: incomingSeq - 1 };
+}
+
+/**
+ * Highest CLI sequence number found in message history.
+ * Input messages are excluded because mobile uses its own seq counter.
+ */
+export function getLastCliSeq(messages: RealtimeMessage[]): number {
+  return messages.reduce(
+    (max, m) => (m.type !== 'input' && m.seq > max ? m.seq : max),
+    0
+  );
+}
+
+/**
+ * Merge replayed messages into the current message list, skipping duplicates
+ * and non-chat types. Replayed messages keep their original timestamps, so the
+ * chat (sorted by timestamp) shows them where they originally belonged.
+ */
+export function mergeReplayedMessages(
+  messages: RealtimeMessage[],
+  replayed: RealtimeMessage[]
+): RealtimeMessage[] {
+  const missing = [...replayed]
+    .sort((a, b) => a.seq - b.seq)
+    .filter(
+      (r) =>
+        REPLAYABLE_TYPES.has(r.type) &&
+        !messages.some((m) => m.seq === r.seq && m.type === r.type)
+    );
+
+  if (missing.length === 0) {
+    return messages;
+  }
+  return [...messages, ...missing];
+}
@@ -0,0 +1,92 @@
+import type { PermissionRequestData, RealtimeMessage, UserQuestionData } from 'termbridge-shared';
+
+export const getPermissionRequestId = (request: PermissionRequestData) => request.requestId;
+export const getQuestionId = (question: UserQuestionData) => question.toolUseId;
+
+/**
+ * Add a request to the end of its queue. A request that is already queued
+ * (e.g. sent again after a reconnect) is updated in place.
+ */
+export function enqueueRequest<T>(queue: T[], item: T, getId: (item: T) => string): T[] {
+  const id = getId(item);
+  const index = queue.findIndex((queued) => getId(queued) === id);
+  if (index === -1) {
+    return [...queue, item];
+  }
+  return queue.map((queued, i) => (i === index ? item : queued));
+}
+
+export function removeRequest<T>(queue: T[], id: string, getId: (item: T) => string): T[] {
+  return queue.filter((queued) => getId(queued) !== id);
+}
+
+// Requests and questions waiting on the phone for an answer
+export interface RequestQueues {
+  pendingPermissionRequests: PermissionRequestData[];
+  pendingQuestions: UserQuestionData[];
+}
+
+/**
+ * Apply a message that adds or retracts a request. Returns null for any other
+ * message, so the caller can keep handling it.
+ */
+export function applyRequestMessage(
+  queues: RequestQueues,
+  message: RealtimeMessage
+): RequestQueues | null {
+  if (message.type === 'permission-request' && message.permissionRequest) {
+    return {
+      ...queues,
+      pendingPermissionRequests: enqueueRequest(
+        queues.pendingPermissionRequests,
+        message.permissionRequest,
+        getPermissionRequestId
+      ),
+    };
+  }
+
+  if (message.type === 'user-question' && message.userQuestion) {
+    return {
+      ...queues,
+      pendingQuestions: enqueueRequest(queues.pendingQuestions, message.userQuestion, getQuestionId),
+    };
+  }
+
+  if (message.type === 'request-retracted' && message.retractedId) {
+    return {
+      pendingPermissionRequests: removeRequest(
+        queues.pendingPermissionRequests,
+        message.retractedId,
+        getPermissionRequestId
+      ),
+      pendingQuestions: removeRequest(queues.pendingQuestions, message.retractedId, getQuestionId),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Apply the requests in a replay, in the order the CLI sent them, so a
+ * request that was retracted before the gap closed is not shown.
+ */
+export function applyReplayedRequests(
+  queues: RequestQueues,
+  replayed: RealtimeMessage[]
+): RequestQueues {
+  return [...replayed]
+    .sort((a, b) => a.seq - b.seq)
+    .reduce((current, message) => applyRequestMessage(current, message) ?? current, queues);
+}
+
+/**
+ * The request the user picked, or the oldest one once it's been answered
+ * or retracted.
+ */
+export function selectRequest<T>(
+  queue: T[],
+  selectedId: string | null,
+  getId: (item: T) => string
+): T | null {
+  return queue.find((queued) => getId(queued) === selectedId) ?? queue[0] ?? null;
+}
@@ -0,0 +1,101 @@
+import type { RealtimeMessage, SubAgentData, ToolCallData } from 'termbridge-shared';
+import { collapseToolCalls } from './toolCallUtils';
+
+// One sub-agent in the timeline, with the tool calls it made in order
+export interface AgentTimelineEntry {
+  agent: SubAgentData;
+  toolCalls: ToolCallData[];
+}
+
+/**
+ * Replace the agent's earlier update, or add it to the end if it is new.
+ */
+export function upsertSubAgent(agents: SubAgentData[], agent: SubAgentData): SubAgentData[] {
+  const index = agents.findIndex((known) => known.toolUseId === agent.toolUseId);
+  if (index === -1) {
+    return [...agents, agent];
+  }
+  return agents.map((known, i) => (i === index ? agent : known));
+}
+
+/**
+ * Sub-agents of the session, oldest first, each with its own tool calls.
+ * Agents that started before this connection (or on a CLI that doesn't send
+ * sub-agent updates) are rebuilt from their Task tool calls.
+ */
+export function getAgentTimeline(
+  messages: RealtimeMessage[],
+  agents: SubAgentData[]
+): AgentTimelineEntry[] {
+  const toolCalls = collapseToolCalls(messages).filter(
+    (message): message is RealtimeMessage & { toolCall: ToolCallData } =>
+      message.type === 'tool-call' && message.toolCall !== undefined
+  );
+
+  const known = new Map(agents.map((agent) => [agent.toolUseId, agent]));
+  for (const { toolCall, timestamp } of toolCalls) {
+    if (toolCall.toolName !== 'Task' || known.has(toolCall.toolUseId)) {
+      continue;
+    }
+    known.set(toolCall.toolUseId, {
+      toolUseId: toolCall.toolUseId,
+      agentType: 'Sub-agent',
+      description: toolCall.input.description ?? '',
+      status: toolCall.status,
+      toolCount: toolCalls.filter((call) => call.toolCall.parentToolUseId === toolCall.toolUseId)
+        .length,
+      summary: toolCall.summary,
+      startedAt: timestamp,
+    });
+  }
+
+  return [...known.values()]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .map((agent) => ({
+      agent,
+      toolCalls: toolCalls
+        .filter((call) => call.toolCall.parentToolUseId === agent.toolUseId)
+        .map((call) => call.toolCall),
+    }));
+}
+
+export function getSubAgentLabel(agent: SubAgentData): string {
+  return agent.description ? `${agent.agentType}: ${agent.description}` : agent.agentType;
+}
+
+export function getSubAgentStatusText(agent: SubAgentData): string {
+  const tools = agent.toolCount === 1 ? '1 tool' : `${agent.toolCount} tools`;
+  switch (agent.status) {
+    case 'running':
+      return agent.currentTool ? `Using ${agent.currentTool} · ${tools}` : 'Starting';
+    case 'completed':
+      return `Done · ${tools}`;
+    case 'error':
+      return `Failed · ${tools}`;
+    case 'cancelled':
+      return 'Cancelled';
+  }
+}
+
+// Header line of the collapsed timeline, e.g. "1 agent running · 2 done"
+export function getAgentTimelineSummary(entries: AgentTimelineEntry[]): string {
+  const running = entries.filter((entry) => entry.agent.status === 'running').length;
+  const finished = entries.length - running;
+  if (running === 0) {
+    return `${finished} ${finished === 1 ? 'agent' : 'agents'} finished`;
+  }
+  const summary = `${running} ${running === 1 ? 'agent' : 'agents'} running`;
+  return finished > 0 ? `${summary} · ${finished} finished` : summary;
+}
+
+/**
+ * The sub-agent a tool call or permission request came from, if it came from one.
+ */
+export function findParentAgent(
+  agents: SubAgentData[],
+  item: { parentToolUseId?: string }
+): SubAgentData | null {
+  return item.parentToolUseId
+    ? (agents.find((agent) => agent.toolUseId === item.parentToolUseId) ?? null)
+    : null;
+}
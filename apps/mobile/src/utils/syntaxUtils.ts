@@ -0,0 +1,150 @@
+export type SyntaxLanguage = 'javascript' | 'python' | 'shell' | 'go' | 'rust' | 'css' | 'plain';
+
+export type TokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface SyntaxToken {
+  kind: TokenKind;
+  text: string;
+}
+
+const EXTENSION_LANGUAGES: Record<string, SyntaxLanguage> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  json: 'javascript',
+  java: 'javascript',
+  kt: 'javascript',
+  swift: 'javascript',
+  c: 'javascript',
+  h: 'javascript',
+  cpp: 'javascript',
+  cs: 'javascript',
+  py: 'python',
+  rb: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  yml: 'shell',
+  yaml: 'shell',
+  toml: 'shell',
+  go: 'go',
+  rs: 'rust',
+  css: 'css',
+  scss: 'css',
+};
+
+const KEYWORDS: Record<SyntaxLanguage, Set<string>> = {
+  javascript: new Set(
+    ('const let var function return if else for while do switch case break continue new ' +
+      'class extends import export from default async await try catch finally throw typeof ' +
+      'instanceof in of this super null undefined true false interface type enum implements ' +
+      'public private protected static readonly void as')
+      .split(' ')
+  ),
+  // Python, plus the Ruby keywords it doesn't share
+  python: new Set(
+    ('def return if elif else for while break continue class import from as try except ' +
+      'finally raise with lambda yield pass None True False and or not in is async await ' +
+      'global nonlocal self end do then module require')
+      .split(' ')
+  ),
+  shell: new Set(
+    'if then else elif fi for while do done case esac function return export local in true false'
+      .split(' ')
+  ),
+  go: new Set(
+    ('func return if else for range switch case break continue package import type struct ' +
+      'interface map chan go defer var const nil true false')
+      .split(' ')
+  ),
+  rust: new Set(
+    ('fn let mut return if else for while loop match break continue struct enum impl trait ' +
+      'pub use mod crate self Self as where async await move ref true false None Some Ok Err')
+      .split(' ')
+  ),
+  css: new Set(['important', 'media', 'import']),
+  plain: new Set(),
+};
+
+// Markers that start a comment running to the end of the line
+const COMMENT_MARKERS: Record<SyntaxLanguage, string[]> = {
+  javascript: ['//', '/*'],
+  python: ['#'],
+  shell: ['#'],
+  go: ['//', '/*'],
+  rust: ['//', '/*'],
+  css: ['/*'],
+  plain: [],
+};
+
+const WORD_PATTERN = /^[A-Za-z_$][\w$]*/;
+const NUMBER_PATTERN = /^(0x[\da-fA-F]+|\d[\d_]*(\.\d+)?)/;
+
+export function getLanguage(filePath: string): SyntaxLanguage {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_LANGUAGES[extension] ?? 'plain';
+}
+
+/**
+ * Split one line of code into tokens for coloring. Works a line at a time,
+ * so block comments and strings spanning lines are not recognized - good
+ * enough for diff hunks, which rarely start at the top of a block.
+ */
+export function highlightLine(line: string, language: SyntaxLanguage): SyntaxToken[] {
+  if (language === 'plain') {
+    return [{ kind: 'plain', text: line }];
+  }
+
+  const tokens: SyntaxToken[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const rest = line.slice(i);
+    const char = line[i]!;
+
+    if (COMMENT_MARKERS[language].some((marker) => rest.startsWith(marker))) {
+      push('comment', rest);
+      break;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      let end = i + 1;
+      while (end < line.length && line[end] !== char) {
+        end += line[end] === '\\' ? 2 : 1;
+      }
+      push('string', line.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    const word = WORD_PATTERN.exec(rest);
+    if (word) {
+      push(KEYWORDS[language].has(word[0]) ? 'keyword' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    push('plain', char);
+    i++;
+  }
+
+  return tokens;
+}
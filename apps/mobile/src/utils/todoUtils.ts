@@ -0,0 +1,21 @@
+import type { TodoItem } from 'termbridge-shared';
+
+export function getTodoProgress(todos: TodoItem[]): { completed: number; total: number } {
+  return {
+    completed: todos.filter((todo) => todo.status === 'completed').length,
+    total: todos.length,
+  };
+}
+
+// Header line of the collapsed panel - what Claude is on now, else what's next
+export function getTodoSummary(todos: TodoItem[]): string {
+  const current = todos.find((todo) => todo.status === 'in_progress');
+  if (current) {
+    return current.activeForm ?? current.content;
+  }
+  const next = todos.find((todo) => todo.status === 'pending');
+  if (next) {
+    return `Next: ${next.content}`;
+  }
+  return 'All tasks completed';
+}
@@ -0,0 +1,81 @@
+import type { FileDiff, RealtimeMessage, ToolCallData } from 'termbridge-shared';
+import { parseQuestionAnswer, parseToolCall } from 'termbridge-shared';
+
+/**
+ * Turn a row from the messages table into a realtime message. Tool calls and
+ * question answers are stored as JSON in the content column; rows that no
+ * longer parse (e.g. sealed with an old key) are dropped.
+ */
+export function messageFromRow(
+  row: { type: string; content: string | undefined; seq: number; created_at: string }
+): RealtimeMessage | null {
+  const timestamp = new Date(row.created_at).getTime();
+
+  if (row.type === 'tool-call') {
+    const toolCall = parseToolCall(row.content);
+    return toolCall ? { type: 'tool-call', toolCall, timestamp, seq: row.seq } : null;
+  }
+
+  if (row.type === 'question-answer') {
+    const questionAnswer = parseQuestionAnswer(row.content);
+    return questionAnswer
+      ? { type: 'question-answer', questionAnswer, timestamp, seq: row.seq }
+      : null;
+  }
+
+  return {
+    type: row.type as RealtimeMessage['type'],
+    content: row.content,
+    timestamp,
+    seq: row.seq,
+  };
+}
+
+/**
+ * A tool call is sent again each time its status changes. Keep one message
+ * per tool_use id, where the tool was first seen, holding its latest state.
+ * The diff is only sent with the first message, so it is carried over.
+ */
+export function collapseToolCalls(messages: RealtimeMessage[]): RealtimeMessage[] {
+  const first = new Map<string, RealtimeMessage>();
+  const latest = new Map<string, RealtimeMessage>();
+  const diffs = new Map<string, FileDiff>();
+  for (const message of messages) {
+    const toolUseId = message.toolCall?.toolUseId;
+    if (message.type !== 'tool-call' || !toolUseId) {
+      continue;
+    }
+    const earliest = first.get(toolUseId);
+    if (!earliest || message.timestamp < earliest.timestamp) {
+      first.set(toolUseId, message);
+    }
+    const newest = latest.get(toolUseId);
+    if (!newest || message.seq > newest.seq) {
+      latest.set(toolUseId, message);
+    }
+    if (message.toolCall?.diff) {
+      diffs.set(toolUseId, message.toolCall.diff);
+    }
+  }
+
+  return messages.flatMap((message) => {
+    const toolUseId = message.toolCall?.toolUseId;
+    if (message.type !== 'tool-call' || !toolUseId) {
+      return [message];
+    }
+    if (first.get(toolUseId) !== message) {
+      return [];
+    }
+    const toolCall = latest.get(toolUseId)!.toolCall!;
+    const diff = toolCall.diff ?? diffs.get(toolUseId);
+    return [{ ...message, toolCall: diff ? { ...toolCall, diff } : toolCall }];
+  });
+}
+
+/**
+ * The one line of a tool's input worth showing on its card.
+ */
+export function getToolCallDetail(toolCall: ToolCallData): string | null {
+  const { command, filePath, pattern, url, query, description } = toolCall.input;
+  return command ?? filePath ?? pattern ?? url ?? query ?? description ?? null;
+}
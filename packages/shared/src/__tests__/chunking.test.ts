@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { splitMessage, ChunkAssembler, checksum } from '../chunking/index';
+import type { RealtimeMessage } from '../types/index';
+
+const longOutput: RealtimeMessage = {
+  type: 'output',
+  content: 'x"y\\z\n'.repeat(5000),
+  timestamp: 1,
+  seq: 7,
+};
+
+describe('splitMessage', () => {
+  it('should leave small messages alone', () => {
+    const message: RealtimeMessage = { type: 'output', content: 'hi', timestamp: 1, seq: 1 };
+
+    expect(splitMessage(message)).toEqual([message]);
+  });
+
+  it('should split large messages into ordered frames that keep the seq', () => {
+    const frames = splitMessage(longOutput, 1000, 4000);
+
+    expect(frames.length).toBeGreaterThan(1);
+    expect(frames.every((f) => f.type === 'chunk' && f.seq === 7)).toBe(true);
+    expect(frames.map((f) => f.chunk!.index)).toEqual(frames.map((_, i) => i));
+  });
+});
+
+describe('ChunkAssembler', () => {
+  it('should pass through payloads that are not chunk frames', () => {
+    const assembler = new ChunkAssembler();
+    const payload = { type: 'output', content: 'hi', timestamp: 1, seq: 1 };
+
+    expect(assembler.accept(payload)).toEqual({ status: 'message', payload });
+  });
+
+  it('should reassemble frames received out of order', () => {
+    const assembler = new ChunkAssembler();
+    const frames = splitMessage(longOutput, 1000, 4000).reverse();
+
+    const results = frames.map((frame) => assembler.accept(frame));
+
+    expect(results.slice(0, -1).every((r) => r.status === 'pending')).toBe(true);
+    expect(results[results.length - 1]).toEqual({ status: 'message', payload: longOutput });
+    expect(assembler.getPendingCount()).toBe(0);
+  });
+
+  it('should ignore duplicate frames', () => {
+    const assembler = new ChunkAssembler();
+    const [first, second] = splitMessage(longOutput, 1000, 20000);
+
+    expect(assembler.accept(first).status).toBe('pending');
+    expect(assembler.accept(first).status).toBe('pending');
+    expect(assembler.accept(second).status).toBe('pending');
+  });
+
+  it('should reject messages that fail the integrity check', () => {
+    const assembler = new ChunkAssembler();
+    const frames = splitMessage(longOutput, 1000, 4000);
+    const last = frames[frames.length - 1]!;
+    last.chunk = { ...last.chunk!, data: last.chunk!.data.replace('x', 'X') };
+
+    const results = frames.map((frame) => assembler.accept(frame));
+
+    expect(results[results.length - 1]).toEqual({
+      status: 'error',
+      error: expect.stringContaining('integrity'),
+    });
+  });
+
+  it('should drop the oldest partial message when too many are pending', () => {
+    const assembler = new ChunkAssembler({ maxPendingMessages: 1 });
+    const first = splitMessage(longOutput, 1000, 4000);
+    const second = splitMessage({ ...longOutput, seq: 8 }, 1000, 4000);
+
+    assembler.accept(first[0]);
+    assembler.accept(second[0]);
+
+    expect(assembler.getPendingCount()).toBe(1);
+    expect(first.slice(1).map((f) => assembler.accept(f).status)).not.toContain('message');
+  });
+});
+
+describe('checksum', () => {
+  it('should produce stable 8-digit hex hashes', () => {
+    expect(checksum('')).toBe('811c9dc5');
+    expect(checksum('a')).toMatch(/^[0-9a-f]{8}$/);
+    expect(checksum('a')).not.toBe(checksum('b'));
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateEncryptionKey,
+  encodeEncryptionKey,
+  decodeEncryptionKey,
+  getKeyId,
+  createPairingCode,
+  parsePairingCode,
+  encryptText,
+  decryptText,
+  isEncryptedText,
+  encryptMessage,
+  decryptMessage,
+  requiresEncryption,
+} from '../crypto/index';
+import type { RealtimeMessage } from '../types/index';
+
+describe('E2E encryption', () => {
+  const key = generateEncryptionKey();
+
+  it('should round-trip text, including non-ASCII', () => {
+    const plaintext = 'const greeting = "héllo 👋";\n';
+    const sealed = encryptText(plaintext, key);
+
+    expect(isEncryptedText(sealed)).toBe(true);
+    expect(sealed).not.toContain('greeting');
+    expect(decryptText(sealed, key)).toBe(plaintext);
+  });
+
+  it('should use a fresh nonce for every message', () => {
+    expect(encryptText('same', key)).not.toBe(encryptText('same', key));
+  });
+
+  it('should refuse the wrong key and tampered ciphertext', () => {
+    const sealed = encryptText('secret', key);
+    const flipped = sealed[20] === 'A' ? 'B' : 'A';
+
+    expect(decryptText(sealed, generateEncryptionKey())).toBeNull();
+    expect(decryptText(sealed.slice(0, 20) + flipped + sealed.slice(21), key)).toBeNull();
+    expect(decryptText('plaintext', key)).toBeNull();
+  });
+
+  it('should seal whole messages and keep only seq and timestamp readable', () => {
+    const message: RealtimeMessage = { type: 'output', content: 'ls -la', timestamp: 5, seq: 9 };
+    const context = { sessionId: 'session-1', direction: 'output' as const };
+    const envelope = encryptMessage(message, key, context);
+
+    expect(envelope).toEqual({ type: 'encrypted', encrypted: expect.any(String), timestamp: 5, seq: 9 });
+    expect(decryptMessage(envelope, key, context)).toEqual(message);
+    expect(decryptMessage(envelope, generateEncryptionKey(), context)).toBeNull();
+  });
+
+  it('should only open messages in the session and direction they were sealed for', () => {
+    const message: RealtimeMessage = { type: 'input', content: 'rm -rf build', timestamp: 1, seq: 2 };
+    const envelope = encryptMessage(message, key, { sessionId: 'session-1', direction: 'input' });
+
+    expect(decryptMessage(envelope, key, { sessionId: 'session-2', direction: 'input' })).toBeNull();
+    expect(decryptMessage(envelope, key, { sessionId: 'session-1', direction: 'output' })).toBeNull();
+  });
+
+  it('should refuse messages sealed without a session', () => {
+    const message: RealtimeMessage = { type: 'input', content: 'ls', timestamp: 1, seq: 2 };
+    const envelope: RealtimeMessage = {
+      type: 'encrypted',
+      encrypted: encryptText(JSON.stringify(message), key),
+      timestamp: 1,
+      seq: 2,
+    };
+
+    expect(decryptMessage(envelope, key, { sessionId: 'session-1', direction: 'input' })).toBeNull();
+  });
+
+  it('should keep the handshake and rejections in the clear', () => {
+    expect(requiresEncryption('hello')).toBe(false);
+    expect(requiresEncryption('capabilities')).toBe(false);
+    expect(requiresEncryption('message-rejected')).toBe(false);
+    expect(requiresEncryption('input')).toBe(true);
+    expect(requiresEncryption('ack')).toBe(true);
+  });
+});
+
+describe('Pairing', () => {
+  it('should round-trip keys and pairing codes', () => {
+    const key = generateEncryptionKey();
+    const code = createPairingCode('machine-1', key);
+
+    expect(decodeEncryptionKey(encodeEncryptionKey(key))).toEqual(key);
+    expect(parsePairingCode(`  ${code}\n`)).toEqual({ machineId: 'machine-1', key });
+  });
+
+  it('should reject malformed pairing codes', () => {
+    expect(parsePairingCode('tb1:machine-1')).toBeNull();
+    expect(parsePairingCode('tb2:machine-1:abc')).toBeNull();
+    expect(parsePairingCode('tb1:machine-1:too-short')).toBeNull();
+    expect(decodeEncryptionKey('not base64!')).toBeNull();
+  });
+
+  it('should derive a stable key ID that differs per key', () => {
+    const key = generateEncryptionKey();
+
+    expect(getKeyId(key)).toBe(getKeyId(key));
+    expect(getKeyId(key)).not.toBe(getKeyId(generateEncryptionKey()));
+    expect(getKeyId(key)).not.toContain(encodeEncryptionKey(key).slice(0, 8));
+  });
+});
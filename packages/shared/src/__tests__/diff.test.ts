@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createFileDiff } from '../diff/index';
+
+const lines = (count: number, prefix = 'line') =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('createFileDiff', () => {
+  it('should diff a one-line change with three lines of context', () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    const diff = createFileDiff('a.ts', before.join('\n') + '\n', after.join('\n') + '\n');
+
+    expect(diff).toEqual({
+      filePath: 'a.ts',
+      status: 'modified',
+      additions: 1,
+      deletions: 1,
+      hunks: [
+        {
+          oldStart: 2,
+          oldLines: 7,
+          newStart: 2,
+          newLines: 7,
+          lines: [
+            ' line 2',
+            ' line 3',
+            ' line 4',
+            '-line 5',
+            '+changed',
+            ' line 6',
+            ' line 7',
+            ' line 8',
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should split distant changes into separate hunks and merge close ones', () => {
+    const before = lines(30);
+    const distant = [...before];
+    distant[1] = 'first';
+    distant[25] = 'second';
+    const close = [...before];
+    close[1] = 'first';
+    close[6] = 'second';
+
+    expect(createFileDiff('a.ts', before.join('\n'), distant.join('\n')).hunks).toHaveLength(2);
+    expect(createFileDiff('a.ts', before.join('\n'), close.join('\n')).hunks).toHaveLength(1);
+  });
+
+  it('should show a new file as one block of additions', () => {
+    const diff = createFileDiff('new.ts', '', 'a\nb\n', { status: 'added' });
+
+    expect(diff.status).toBe('added');
+    expect(diff.hunks).toEqual([
+      { oldStart: 0, oldLines: 0, newStart: 1, newLines: 2, lines: ['+a', '+b'] },
+    ]);
+  });
+
+  it('should align insertions instead of rewriting the rest of the file', () => {
+    const diff = createFileDiff('a.ts', 'a\nb\nc\n', 'a\nnew\nb\nc\n');
+
+    expect(diff.additions).toBe(1);
+    expect(diff.deletions).toBe(0);
+    expect(diff.hunks[0]!.lines).toEqual([' a', '+new', ' b', ' c']);
+  });
+
+  it('should cut off large diffs', () => {
+    const diff = createFileDiff('a.ts', '', lines(50).join('\n'), { maxLines: 20 });
+
+    expect(diff.truncated).toBe(true);
+    expect(diff.additions).toBe(50);
+    expect(diff.hunks[0]!.lines).toHaveLength(20);
+  });
+
+  it('should return no hunks for identical text', () => {
+    expect(createFileDiff('a.ts', 'same\n', 'same\n').hunks).toEqual([]);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parsePermissionRule, formatPermissionRule } from '../tools/index';
+
+describe('Permission rules', () => {
+  it('should parse rules with and without content', () => {
+    expect(parsePermissionRule('Read')).toEqual({ toolName: 'Read' });
+    expect(parsePermissionRule('Bash(npm test:*)')).toEqual({
+      toolName: 'Bash',
+      ruleContent: 'npm test:*',
+    });
+    expect(parsePermissionRule(' WebFetch(domain:example.com) ')).toEqual({
+      toolName: 'WebFetch',
+      ruleContent: 'domain:example.com',
+    });
+  });
+
+  it('should reject strings that are not rules', () => {
+    expect(parsePermissionRule('')).toBeNull();
+    expect(parsePermissionRule('Bash(npm test')).toBeNull();
+    expect(parsePermissionRule('two words')).toBeNull();
+  });
+
+  it('should format rules back to settings syntax', () => {
+    expect(formatPermissionRule({ toolName: 'Read' })).toBe('Read');
+    expect(formatPermissionRule({ toolName: 'Edit', ruleContent: 'src/**' })).toBe('Edit(src/**)');
+  });
+});
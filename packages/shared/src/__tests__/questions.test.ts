@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatQuestionAnswer,
+  getQuestionResponses,
+  getToolAnswers,
+  formatQuestionAnswers,
+  serializeQuestionAnswer,
+  parseQuestionAnswer,
+} from '../tools/index';
+import { validateRealtimeMessage } from '../validation/index';
+import type { QuestionAnswerRecord, UserQuestion } from '../types/index';
+
+describe('Questions', () => {
+  const questions: UserQuestion[] = [
+    {
+      question: 'Which library should we use?',
+      header: 'Library',
+      options: [
+        { label: 'date-fns', description: 'Modular' },
+        { label: 'dayjs', description: 'Small' },
+      ],
+    },
+    {
+      question: 'Which features do you want?',
+      header: 'Features',
+      options: [
+        { label: 'Dark mode', description: '' },
+        { label: 'Offline sync', description: '' },
+      ],
+      multiSelect: true,
+    },
+  ];
+  const record: QuestionAnswerRecord = {
+    toolUseId: 'toolu_q',
+    questions,
+    responses: [
+      { selected: ['date-fns'] },
+      { selected: ['Dark mode', 'Offline sync'], text: 'export to CSV' },
+    ],
+  };
+
+  it('should join picked options and free text', () => {
+    expect(formatQuestionAnswer(record.responses[1]!)).toBe(
+      'Dark mode, Offline sync, export to CSV'
+    );
+    expect(formatQuestionAnswer({ selected: [], text: '  ' })).toBe('');
+  });
+
+  it('should read responses, or the answer text older apps send', () => {
+    expect(
+      getQuestionResponses({ toolUseId: 'toolu_q', answers: {}, responses: record.responses }, 2)
+    ).toEqual(record.responses);
+    expect(getQuestionResponses({ toolUseId: 'toolu_q', answers: { '1': 'Both' } }, 2)).toEqual([
+      { selected: [] },
+      { selected: [], text: 'Both' },
+    ]);
+  });
+
+  it('should key tool answers by question text', () => {
+    expect(getToolAnswers(questions, record.responses)).toEqual({
+      'Which library should we use?': 'date-fns',
+      'Which features do you want?': 'Dark mode, Offline sync, export to CSV',
+    });
+    expect(getToolAnswers(questions, [{ selected: [] }])).toEqual({});
+  });
+
+  it('should format questions and answers as text', () => {
+    expect(formatQuestionAnswers(questions, [{ selected: ['dayjs'] }])).toBe(
+      'Which library should we use?\n→ dayjs\n\nWhich features do you want?\n→ (no answer)'
+    );
+  });
+
+  it('should round-trip stored records and refuse anything else', () => {
+    expect(parseQuestionAnswer(serializeQuestionAnswer(record))).toEqual(record);
+    expect(
+      parseQuestionAnswer(JSON.stringify({ ...record, responses: [{ selected: 'x' }] }))
+    ).toBeNull();
+    expect(parseQuestionAnswer('Which library?')).toBeNull();
+    expect(parseQuestionAnswer(undefined)).toBeNull();
+  });
+
+  it('should accept user answers with and without responses', () => {
+    const base = { type: 'user-answer', timestamp: 1, seq: 1 };
+
+    expect(
+      validateRealtimeMessage({ ...base, userAnswer: { toolUseId: 't', answers: { '0': 'a' } } }).ok
+    ).toBe(true);
+    expect(
+      validateRealtimeMessage({
+        ...base,
+        userAnswer: { toolUseId: 't', answers: {}, responses: [{ selected: ['a', 'b'] }] },
+      }).ok
+    ).toBe(true);
+    expect(
+      validateRealtimeMessage({
+        ...base,
+        userAnswer: { toolUseId: 't', answers: {}, responses: [{ text: 'a' }] },
+      }).ok
+    ).toBe(false);
+  });
+});
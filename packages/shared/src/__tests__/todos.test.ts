@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseTodoWriteInput, serializeTodos, parseTodos, MAX_TODOS } from '../tools/index';
+import { validateRealtimeMessage } from '../validation/index';
+import type { TodoItem } from '../types/index';
+
+describe('Todos', () => {
+  const todos: TodoItem[] = [
+    { content: 'Write the parser', status: 'completed', activeForm: 'Writing the parser' },
+    { content: 'Run the tests', status: 'in_progress', activeForm: 'Running the tests' },
+    { content: 'Update the README', status: 'pending' },
+  ];
+
+  it('should read the todo list out of a TodoWrite input', () => {
+    expect(
+      parseTodoWriteInput({
+        todos: [
+          {
+            id: '1',
+            content: ' Write the parser ',
+            status: 'completed',
+            activeForm: 'Writing the parser',
+            priority: 'high',
+          },
+          { content: 'Run the tests', status: 'in_progress', activeForm: 'Running the tests' },
+          { content: 'Update the README', status: 'pending', activeForm: '' },
+        ],
+      })
+    ).toEqual(todos);
+  });
+
+  it('should drop malformed items and cap the list', () => {
+    expect(
+      parseTodoWriteInput({
+        todos: [null, { content: '', status: 'pending' }, { content: 'x', status: 'blocked' }],
+      })
+    ).toEqual([]);
+    expect(parseTodoWriteInput({ todos: [] })).toEqual([]);
+    expect(parseTodoWriteInput({ items: [] })).toBeNull();
+    expect(parseTodoWriteInput('todos')).toBeNull();
+
+    const many = Array.from({ length: MAX_TODOS + 5 }, (_, i) => ({
+      content: `Step ${i}`,
+      status: 'pending',
+    }));
+    expect(parseTodoWriteInput({ todos: many })).toHaveLength(MAX_TODOS);
+  });
+
+  it('should round-trip stored todo lists and refuse anything else', () => {
+    expect(parseTodos(serializeTodos(todos))).toEqual(todos);
+    expect(parseTodos(serializeTodos([]))).toEqual([]);
+    expect(parseTodos(JSON.stringify([{ content: 'x', status: 'done' }]))).toBeNull();
+    expect(parseTodos('not json')).toBeNull();
+    expect(parseTodos(null)).toBeNull();
+  });
+
+  it('should require a todo list on todos messages', () => {
+    expect(validateRealtimeMessage({ type: 'todos', todos, timestamp: 1, seq: 1 }).ok).toBe(true);
+    expect(validateRealtimeMessage({ type: 'todos', timestamp: 1, seq: 1 })).toEqual({
+      ok: false,
+      error: 'Missing field for todos: todos',
+    });
+  });
+});
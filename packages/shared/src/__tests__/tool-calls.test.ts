@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  summarizeToolInput,
+  summarizeToolResult,
+  formatToolCallText,
+  serializeToolCall,
+  parseToolCall,
+  TOOL_RESULT_SUMMARY_LENGTH,
+} from '../tools/index';
+import { validateRealtimeMessage } from '../validation/index';
+import type { ToolCallData } from '../types/index';
+
+describe('Tool calls', () => {
+  const toolCall: ToolCallData = {
+    toolUseId: 'toolu_1',
+    toolName: 'Bash',
+    input: { command: 'npm test', description: 'Run tests' },
+    status: 'completed',
+    summary: '12 passed',
+  };
+
+  it('should keep only the input fields a card shows', () => {
+    expect(
+      summarizeToolInput({ file_path: '/src/a.ts', old_string: 'x', new_string: 'y' })
+    ).toEqual({ filePath: '/src/a.ts' });
+    expect(summarizeToolInput({ pattern: '**/*.ts', path: '/src' })).toEqual({ pattern: '**/*.ts' });
+    expect(summarizeToolInput({ notebook_path: '/nb.ipynb' })).toEqual({ filePath: '/nb.ipynb' });
+    expect(summarizeToolInput(null)).toEqual({});
+  });
+
+  it('should summarize string and block results', () => {
+    expect(summarizeToolResult('  done\n')).toBe('done');
+    expect(
+      summarizeToolResult([
+        { type: 'text', text: 'line 1' },
+        { type: 'image', source: {} },
+        { type: 'text', text: 'line 2' },
+      ])
+    ).toBe('line 1\n\nline 2');
+    expect(summarizeToolResult([])).toBeUndefined();
+    expect(summarizeToolResult('x'.repeat(1000))).toHaveLength(TOOL_RESULT_SUMMARY_LENGTH);
+  });
+
+  it('should format the legacy text lines', () => {
+    expect(formatToolCallText({ ...toolCall, status: 'running' })).toBe('\n[Using tool: Bash]\n');
+    expect(formatToolCallText(toolCall)).toBe('[Tool Bash completed]\n');
+  });
+
+  it('should round-trip stored tool calls and refuse anything else', () => {
+    expect(parseToolCall(serializeToolCall(toolCall))).toEqual(toolCall);
+    expect(parseToolCall('[Using tool: Bash]')).toBeNull();
+    expect(parseToolCall(JSON.stringify({ ...toolCall, status: 'exploded' }))).toBeNull();
+    expect(parseToolCall(undefined)).toBeNull();
+  });
+
+  it('should require a tool call on tool-call messages', () => {
+    expect(validateRealtimeMessage({ type: 'tool-call', toolCall, timestamp: 1, seq: 1 }).ok).toBe(
+      true
+    );
+    expect(validateRealtimeMessage({ type: 'tool-call', timestamp: 1, seq: 1 })).toEqual({
+      ok: false,
+      error: 'Missing field for tool-call: toolCall',
+    });
+  });
+});
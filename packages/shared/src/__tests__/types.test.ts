@@ -8,6 +8,7 @@ import {
   type ImageAttachment,
   type PermissionMode,
   type SlashCommand,
+  type SeqRange,
   // Session types
   type SessionStatus,
   type Session,
@@ -173,6 +174,70 @@ describe('Message Types', () => {
   });
 });
 
+describe('Replay Types', () => {
+  it('should include replay-request and replay-response types', () => {
+    const validTypes: RealtimeMessageType[] = ['replay-request', 'replay-response'];
+    validTypes.forEach((type) => {
+      const msg: { type: RealtimeMessageType } = { type };
+      expect(msg.type).toBe(type);
+    });
+  });
+
+  it('should carry replay range and replayed messages', () => {
+    const range: SeqRange = { fromSeq: 3, toSeq: 5 };
+    const response: RealtimeMessage = {
+      type: 'replay-response',
+      replayRange: range,
+      replayedMessages: [{ type: 'output', content: 'missed', timestamp: 0, seq: 4 }],
+      timestamp: Date.now(),
+      seq: 6,
+    };
+
+    expect(response.replayRange).toEqual({ fromSeq: 3, toSeq: 5 });
+    expect(response.replayedMessages?.[0]?.seq).toBe(4);
+  });
+});
+
+describe('Ack Types', () => {
+  it('should link an ack to the acknowledged message', () => {
+    const input: RealtimeMessage = {
+      type: 'input',
+      content: 'hello',
+      messageId: 'msg-1',
+      timestamp: Date.now(),
+      seq: 1,
+    };
+    const ack: RealtimeMessage = {
+      type: 'ack',
+      ackId: input.messageId,
+      timestamp: Date.now(),
+      seq: 0,
+    };
+
+    expect(ack.ackId).toBe('msg-1');
+  });
+});
+
+describe('Protocol Types', () => {
+  it('should carry protocol info on hello and capabilities', () => {
+    const hello: RealtimeMessage = {
+      type: 'hello',
+      protocol: { version: 2, features: ['replay', 'ack'] },
+      timestamp: Date.now(),
+      seq: 1,
+    };
+    const capabilities: RealtimeMessage = {
+      type: 'capabilities',
+      protocol: { version: 2, features: ['replay'] },
+      timestamp: Date.now(),
+      seq: 1,
+    };
+
+    expect(hello.protocol?.features).toContain('ack');
+    expect(capabilities.protocol?.features).toEqual(['replay']);
+  });
+});
+
 describe('Session Types', () => {
   describe('SessionStatus', () => {
     it('should include active, paused, ended', () => {
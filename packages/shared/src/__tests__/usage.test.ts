@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_USAGE,
+  addUsage,
+  describeSessionLimit,
+  formatDuration,
+  formatCost,
+  formatTokenCount,
+  formatUsage,
+  usageFromSession,
+  usageToSessionColumns,
+} from '../usage/index';
+
+const turn = {
+  inputTokens: 120,
+  outputTokens: 800,
+  cacheReadTokens: 11_000,
+  cacheCreationTokens: 500,
+  costUsd: 0.0412,
+  durationMs: 5300,
+  turns: 1,
+};
+
+describe('usage', () => {
+  it('should add turns up to a session total', () => {
+    expect(addUsage(addUsage(EMPTY_USAGE, turn), turn)).toEqual({
+      inputTokens: 240,
+      outputTokens: 1600,
+      cacheReadTokens: 22_000,
+      cacheCreationTokens: 1000,
+      costUsd: 0.0824,
+      durationMs: 10_600,
+      turns: 2,
+    });
+  });
+
+  it('should round-trip through the sessions row', () => {
+    const session = {
+      id: 's',
+      machine_id: 'm',
+      status: 'active' as const,
+      started_at: '2024-01-01T00:00:00Z',
+    };
+
+    expect(usageFromSession(session)).toEqual(EMPTY_USAGE);
+    expect(usageFromSession({ ...session, ...usageToSessionColumns(turn) })).toEqual(turn);
+  });
+
+  it('should format token counts and costs compactly', () => {
+    expect(formatTokenCount(950)).toBe('950');
+    expect(formatTokenCount(12_345)).toBe('12.3k');
+    expect(formatTokenCount(2_500_000)).toBe('2.5M');
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(1.235)).toBe('$1.24');
+    expect(formatUsage(turn)).toBe('$0.04 · 12.4k tokens');
+  });
+});
+
+describe('session limits', () => {
+  const limits = { maxCostUsd: 5, maxTurns: 50, maxPromptSeconds: 5400 };
+
+  it('should describe the limit that was reached', () => {
+    expect(describeSessionLimit('cost', limits)).toBe('cost limit of $5.00');
+    expect(describeSessionLimit('turns', limits)).toBe('limit of 50 turns');
+    expect(describeSessionLimit('time', limits)).toBe('time limit of 1h 30m per prompt');
+    expect(describeSessionLimit('cost', {})).toBe('cost limit');
+  });
+
+  it('should format durations compactly', () => {
+    expect(formatDuration(45)).toBe('45s');
+    expect(formatDuration(600)).toBe('10m');
+    expect(formatDuration(7200)).toBe('2h');
+  });
+});
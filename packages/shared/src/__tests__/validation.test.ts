@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { validateRealtimeMessage, validateMachineCommand } from '../validation/index';
+
+describe('validateRealtimeMessage', () => {
+  it('should accept a well-formed message', () => {
+    const result = validateRealtimeMessage({
+      type: 'input',
+      content: 'hello',
+      attachments: [{ type: 'image', mediaType: 'image/png', data: 'abc' }],
+      timestamp: 1,
+      seq: 1,
+    });
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('should reject non-objects and unknown types', () => {
+    expect(validateRealtimeMessage(null)).toEqual({ ok: false, error: 'Message must be an object' });
+    expect(validateRealtimeMessage({ type: 'rm-rf', timestamp: 1, seq: 1 })).toEqual({
+      ok: false,
+      error: 'Unknown message type: rm-rf',
+    });
+  });
+
+  it('should require timestamp and a non-negative integer seq', () => {
+    expect(validateRealtimeMessage({ type: 'output', seq: 1 }).ok).toBe(false);
+    expect(validateRealtimeMessage({ type: 'output', timestamp: 1, seq: -1 }).ok).toBe(false);
+    expect(validateRealtimeMessage({ type: 'output', timestamp: 1, seq: 1.5 }).ok).toBe(false);
+  });
+
+  it('should require the fields a type depends on', () => {
+    expect(validateRealtimeMessage({ type: 'permission-response', timestamp: 1, seq: 1 })).toEqual({
+      ok: false,
+      error: 'Missing field for permission-response: permissionResponse',
+    });
+    expect(validateRealtimeMessage({ type: 'request-retracted', timestamp: 1, seq: 1 })).toEqual({
+      ok: false,
+      error: 'Missing field for request-retracted: retractedId',
+    });
+    expect(validateRealtimeMessage({ type: 'output-delta', timestamp: 1, seq: 1 })).toEqual({
+      ok: false,
+      error: 'Missing field for output-delta: content',
+    });
+  });
+
+  it('should accept only well-formed prompt queue updates', () => {
+    const base = { type: 'prompt-queue-update', timestamp: 1, seq: 1 };
+
+    expect(
+      validateRealtimeMessage({ ...base, queueUpdate: { action: 'move', promptId: 'a', toIndex: 0 } })
+        .ok
+    ).toBe(true);
+    expect(
+      validateRealtimeMessage({ ...base, queueUpdate: { action: 'remove', promptId: 'a' } }).ok
+    ).toBe(true);
+    expect(
+      validateRealtimeMessage({ ...base, queueUpdate: { action: 'move', promptId: 'a' } }).ok
+    ).toBe(false);
+    expect(
+      validateRealtimeMessage({ ...base, queueUpdate: { action: 'clear', promptId: 'a' } }).ok
+    ).toBe(false);
+  });
+
+  it('should accept only positive session limits', () => {
+    const base = { type: 'limits-change', timestamp: 1, seq: 1 };
+
+    expect(validateRealtimeMessage({ ...base, sessionLimits: {} }).ok).toBe(true);
+    expect(
+      validateRealtimeMessage({ ...base, sessionLimits: { maxCostUsd: 2.5, maxTurns: 20 } }).ok
+    ).toBe(true);
+    expect(validateRealtimeMessage({ ...base, sessionLimits: { maxCostUsd: -1 } }).ok).toBe(false);
+    expect(validateRealtimeMessage({ ...base, sessionLimits: { maxTurns: 1.5 } }).ok).toBe(false);
+    expect(validateRealtimeMessage(base).ok).toBe(false);
+  });
+
+  it('should accept only well-formed sub-agent updates', () => {
+    const base = { type: 'sub-agent', timestamp: 1, seq: 1 };
+    const subAgent = {
+      toolUseId: 'toolu_task',
+      agentType: 'Explore',
+      description: 'Find the config loader',
+      status: 'running',
+      toolCount: 2,
+      currentTool: 'Grep',
+      startedAt: 1,
+    };
+
+    expect(validateRealtimeMessage({ ...base, subAgent }).ok).toBe(true);
+    expect(validateRealtimeMessage({ ...base, subAgent: { ...subAgent, status: 'paused' } }).ok).toBe(
+      false
+    );
+    expect(validateRealtimeMessage({ ...base, subAgent: { ...subAgent, toolCount: -1 } }).ok).toBe(
+      false
+    );
+    expect(validateRealtimeMessage(base)).toEqual({
+      ok: false,
+      error: 'Missing field for sub-agent: subAgent',
+    });
+  });
+
+  it('should reject resume session IDs that are not UUIDs', () => {
+    const base = { type: 'resume-request', timestamp: 1, seq: 1 };
+
+    expect(validateRealtimeMessage({ ...base, resumeSessionId: "'; drop table --" }).ok).toBe(false);
+    expect(
+      validateRealtimeMessage({
+        ...base,
+        resumeSessionId: '123e4567-e89b-12d3-a456-426614174000',
+      }).ok
+    ).toBe(true);
+  });
+
+  it('should validate nested payloads', () => {
+    const result = validateRealtimeMessage({
+      type: 'permission-response',
+      permissionResponse: { requestId: 'r1', behavior: 'maybe' },
+      timestamp: 1,
+      seq: 1,
+    });
+
+    expect(result).toEqual({ ok: false, error: 'Invalid field: permissionResponse' });
+  });
+
+  it('should validate plan decisions on permission responses', () => {
+    const message = (permissionResponse: unknown) =>
+      validateRealtimeMessage({ type: 'permission-response', permissionResponse, timestamp: 1, seq: 1 });
+
+    expect(
+      message({ requestId: 'r1', behavior: 'allow', planDecision: 'approve-auto-edits' }).ok
+    ).toBe(true);
+    expect(message({ requestId: 'r1', behavior: 'allow', planDecision: 'yolo' }).ok).toBe(false);
+  });
+
+  it('should validate diffs attached to permission requests', () => {
+    const request = { requestId: 'r1', toolName: 'Edit', toolInput: {}, toolUseId: 't1' };
+    const diff = { filePath: 'a.ts', status: 'modified', additions: 1, deletions: 0 };
+    const hunk = { oldStart: 1, oldLines: 0, newStart: 1, newLines: 1 };
+    const message = (permissionRequest: unknown) =>
+      validateRealtimeMessage({ type: 'permission-request', permissionRequest, timestamp: 1, seq: 1 });
+
+    expect(message({ ...request, diff: { ...diff, hunks: [{ ...hunk, lines: ['+x'] }] } }).ok).toBe(true);
+    expect(message({ ...request, diff: { ...diff, hunks: [{ ...hunk, lines: ['x'] }] } }).ok).toBe(false);
+  });
+
+  it('should validate replayed messages recursively', () => {
+    const base = { type: 'replay-response', replayRange: { fromSeq: 1, toSeq: 2 }, timestamp: 1, seq: 3 };
+
+    expect(
+      validateRealtimeMessage({ ...base, replayedMessages: [{ type: 'output', timestamp: 1, seq: 1 }] }).ok
+    ).toBe(true);
+    expect(validateRealtimeMessage({ ...base, replayedMessages: [{ type: 'output' }] }).ok).toBe(false);
+  });
+
+  it('should allow unknown protocol features and extra fields from newer peers', () => {
+    const result = validateRealtimeMessage({
+      type: 'hello',
+      protocol: { version: 99, features: ['replay', 'teleport'] },
+      futureField: true,
+      timestamp: 1,
+      seq: 1,
+    });
+
+    expect(result.ok).toBe(true);
+  });
+});
+
+describe('validateMachineCommand', () => {
+  it('should accept a start-session command', () => {
+    expect(validateMachineCommand({ type: 'start-session', timestamp: 1 }).ok).toBe(true);
+  });
+
+  it('should reject unknown command types', () => {
+    expect(validateMachineCommand({ type: 'format-disk', timestamp: 1 })).toEqual({
+      ok: false,
+      error: 'Unknown command type: format-disk',
+    });
+  });
+
+  it('should require a session ID to stop a session', () => {
+    expect(validateMachineCommand({ type: 'stop-session', timestamp: 1 }).ok).toBe(false);
+    expect(validateMachineCommand({ type: 'stop-session', sessionId: 's1', timestamp: 1 }).ok).toBe(
+      true
+    );
+  });
+});
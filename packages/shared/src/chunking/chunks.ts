@@ -0,0 +1,199 @@
+import type { RealtimeMessage, MessageChunk } from '../types/message.js';
+import { validateRealtimeMessage } from '../validation/messages.js';
+
+/**
+ * Messages whose JSON is longer than this are split into chunk frames.
+ * Kept well under the 256 KB Supabase Realtime broadcast limit.
+ */
+export const MAX_MESSAGE_SIZE = 128 * 1024;
+
+/**
+ * Characters of serialized message carried by each frame. Leaves room for
+ * the frame envelope and for escaping, which can double the data's length.
+ */
+export const CHUNK_DATA_SIZE = 48 * 1024;
+
+// Partial messages are dropped if their frames stop arriving
+const DEFAULT_ASSEMBLY_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_PENDING_MESSAGES = 16;
+
+export type ChunkResult =
+  | { status: 'message'; payload: unknown } // Complete - pass on for validation
+  | { status: 'pending' } // Waiting for more frames
+  | { status: 'error'; error: string };
+
+/**
+ * 32-bit FNV-1a hash of a string's UTF-16 code units, as 8 hex digits.
+ * Not cryptographic - it catches frames that were lost, reordered or mixed up.
+ */
+export function checksum(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function createChunkId(message: RealtimeMessage): string {
+  return `${message.seq}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Split a message into chunk frames if it is too large to broadcast in one
+ * piece. Small messages are returned unchanged as a single-element array.
+ * Frames keep the original seq so they are ordered with the message stream.
+ */
+export function splitMessage(
+  message: RealtimeMessage,
+  maxMessageSize: number = MAX_MESSAGE_SIZE,
+  chunkDataSize: number = CHUNK_DATA_SIZE
+): RealtimeMessage[] {
+  const serialized = JSON.stringify(message);
+  if (serialized.length <= maxMessageSize) {
+    return [message];
+  }
+
+  const id = createChunkId(message);
+  const total = Math.ceil(serialized.length / chunkDataSize);
+  const hash = checksum(serialized);
+  const frames: RealtimeMessage[] = [];
+
+  for (let index = 0; index < total; index++) {
+    frames.push({
+      type: 'chunk',
+      chunk: {
+        id,
+        index,
+        total,
+        data: serialized.slice(index * chunkDataSize, (index + 1) * chunkDataSize),
+        size: serialized.length,
+        checksum: hash,
+      },
+      timestamp: message.timestamp,
+      seq: message.seq,
+    });
+  }
+
+  return frames;
+}
+
+export interface ChunkAssemblerOptions {
+  timeoutMs?: number;
+  maxPendingMessages?: number;
+}
+
+interface PartialMessage {
+  frames: Array<string | undefined>;
+  received: number;
+  total: number;
+  size: number;
+  checksum: string;
+  updatedAt: number;
+}
+
+/**
+ * Reassembles chunk frames from one sender. Payloads that aren't chunk
+ * frames are passed straight through, so every inbound payload can be fed
+ * to accept() before validation.
+ */
+export class ChunkAssembler {
+  private partials: Map<string, PartialMessage> = new Map();
+  private timeoutMs: number;
+  private maxPendingMessages: number;
+
+  constructor(options: ChunkAssemblerOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_ASSEMBLY_TIMEOUT_MS;
+    this.maxPendingMessages = options.maxPendingMessages ?? DEFAULT_MAX_PENDING_MESSAGES;
+  }
+
+  accept(payload: unknown): ChunkResult {
+    if (
+      typeof payload !== 'object' ||
+      payload === null ||
+      (payload as { type?: unknown }).type !== 'chunk'
+    ) {
+      return { status: 'message', payload };
+    }
+
+    const result = validateRealtimeMessage(payload);
+    if (!result.ok) {
+      return { status: 'error', error: result.error };
+    }
+
+    this.evictStale();
+
+    const chunk = result.value.chunk as MessageChunk;
+    let partial = this.partials.get(chunk.id);
+    if (!partial) {
+      partial = {
+        frames: new Array<string | undefined>(chunk.total),
+        received: 0,
+        total: chunk.total,
+        size: chunk.size,
+        checksum: chunk.checksum,
+        updatedAt: Date.now(),
+      };
+      this.partials.set(chunk.id, partial);
+      this.evictOverflow();
+    }
+
+    if (
+      chunk.total !== partial.total ||
+      chunk.size !== partial.size ||
+      chunk.checksum !== partial.checksum
+    ) {
+      this.partials.delete(chunk.id);
+      return { status: 'error', error: `Chunk ${chunk.id} frames disagree` };
+    }
+
+    // Duplicate frames (e.g. from a retried send) are ignored
+    if (partial.frames[chunk.index] === undefined) {
+      partial.frames[chunk.index] = chunk.data;
+      partial.received++;
+    }
+    partial.updatedAt = Date.now();
+
+    if (partial.received < partial.total) {
+      return { status: 'pending' };
+    }
+
+    this.partials.delete(chunk.id);
+
+    const serialized = partial.frames.join('');
+    if (serialized.length !== partial.size || checksum(serialized) !== partial.checksum) {
+      return { status: 'error', error: `Chunk ${chunk.id} failed integrity check` };
+    }
+
+    try {
+      return { status: 'message', payload: JSON.parse(serialized) };
+    } catch {
+      return { status: 'error', error: `Chunk ${chunk.id} is not valid JSON` };
+    }
+  }
+
+  getPendingCount(): number {
+    return this.partials.size;
+  }
+
+  clear(): void {
+    this.partials.clear();
+  }
+
+  private evictStale(): void {
+    const now = Date.now();
+    for (const [id, partial] of this.partials) {
+      if (now - partial.updatedAt > this.timeoutMs) {
+        this.partials.delete(id);
+      }
+    }
+  }
+
+  // Map iteration follows insertion order, so the first entry is the oldest
+  private evictOverflow(): void {
+    while (this.partials.size > this.maxPendingMessages) {
+      const oldest = this.partials.keys().next().value as string;
+      this.partials.delete(oldest);
+    }
+  }
+}
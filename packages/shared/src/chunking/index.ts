@@ -0,0 +1 @@
+export * from './chunks.js';
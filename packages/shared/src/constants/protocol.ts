@@ -0,0 +1,30 @@
+import type { ProtocolFeature } from '../types/message.js';
+
+/**
+ * Realtime protocol version spoken by this build. Bump it when adding message
+ * types, and gate the new messages behind a ProtocolFeature so peers running
+ * an older build are sent something they understand.
+ */
+export const PROTOCOL_VERSION = 16;
+
+// Version assumed for peers that predate the hello/capabilities handshake
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+export const SUPPORTED_FEATURES: ProtocolFeature[] = [
+  'replay',
+  'ack',
+  'rejections',
+  'chunking',
+  'e2e',
+  'tool-calls',
+  'retractions',
+  'interrupt',
+  'prompt-queue',
+  'usage',
+  'limits',
+  'streaming',
+  'thinking',
+  'todos',
+  'sub-agents',
+  'question-answers',
+];
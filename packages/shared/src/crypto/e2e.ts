@@ -0,0 +1,186 @@
+import nacl from 'tweetnacl';
+import type { RealtimeMessage, RealtimeMessageType } from '../types/message.js';
+import { toBase64Url, fromBase64Url, toUtf8, fromUtf8 } from './encoding.js';
+
+/**
+ * End-to-end encryption between a machine and the devices paired with it.
+ *
+ * Each machine has one 32-byte key, created by `termbridge pair` and handed to
+ * the phone out of band as a pairing code. Realtime messages and persisted
+ * message content are sealed with XSalsa20-Poly1305 (NaCl secretbox), so
+ * Supabase and the relay only ever see ciphertext.
+ */
+
+export const ENCRYPTION_KEY_LENGTH = nacl.secretbox.keyLength;
+
+// Marks persisted content and envelopes as ciphertext, versioned for future schemes
+export const ENCRYPTED_TEXT_PREFIX = 'e2e1:';
+
+const PAIRING_CODE_PREFIX = 'tb1';
+
+// Sent in the clear: the handshake, and errors an unpaired peer must be able to read
+export const PLAINTEXT_MESSAGE_TYPES: RealtimeMessageType[] = [
+  'hello',
+  'capabilities',
+  'message-rejected',
+  'chunk',
+  'encrypted',
+];
+
+/**
+ * Supply the random source used for keys and nonces. Node and browsers
+ * provide one; React Native needs e.g. expo-crypto's getRandomBytes.
+ */
+export function setRandomSource(randomBytes: (length: number) => Uint8Array): void {
+  nacl.setPRNG((target, length) => {
+    target.set(randomBytes(length));
+  });
+}
+
+export function generateEncryptionKey(): Uint8Array {
+  return nacl.randomBytes(ENCRYPTION_KEY_LENGTH);
+}
+
+export function encodeEncryptionKey(key: Uint8Array): string {
+  return toBase64Url(key);
+}
+
+export function decodeEncryptionKey(value: string): Uint8Array | null {
+  const key = fromBase64Url(value);
+  return key && key.length === ENCRYPTION_KEY_LENGTH ? key : null;
+}
+
+/**
+ * Short public fingerprint of a key, exchanged in the handshake so each side
+ * can tell whether the other holds the same key. Reveals nothing about it.
+ */
+export function getKeyId(key: Uint8Array): string {
+  return toBase64Url(nacl.hash(key).slice(0, 9));
+}
+
+export function createPairingCode(machineId: string, key: Uint8Array): string {
+  return `${PAIRING_CODE_PREFIX}:${machineId}:${encodeEncryptionKey(key)}`;
+}
+
+export function parsePairingCode(code: string): { machineId: string; key: Uint8Array } | null {
+  const [prefix, machineId, encodedKey, ...rest] = code.trim().split(':');
+  if (prefix !== PAIRING_CODE_PREFIX || !machineId || !encodedKey || rest.length > 0) {
+    return null;
+  }
+
+  const key = decodeEncryptionKey(encodedKey);
+  return key ? { machineId, key } : null;
+}
+
+export function isEncryptedText(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_TEXT_PREFIX);
+}
+
+export function encryptText(plaintext: string, key: Uint8Array): string {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const box = nacl.secretbox(toUtf8(plaintext), nonce, key);
+
+  const sealed = new Uint8Array(nonce.length + box.length);
+  sealed.set(nonce);
+  sealed.set(box, nonce.length);
+  return ENCRYPTED_TEXT_PREFIX + toBase64Url(sealed);
+}
+
+/**
+ * Returns null if the value isn't ciphertext, was sealed with another key
+ * or has been tampered with.
+ */
+export function decryptText(value: string, key: Uint8Array): string | null {
+  if (!isEncryptedText(value)) {
+    return null;
+  }
+
+  const sealed = fromBase64Url(value.slice(ENCRYPTED_TEXT_PREFIX.length));
+  if (!sealed || sealed.length < nacl.secretbox.nonceLength + nacl.secretbox.overheadLength) {
+    return null;
+  }
+
+  const opened = nacl.secretbox.open(
+    sealed.subarray(nacl.secretbox.nonceLength),
+    sealed.subarray(0, nacl.secretbox.nonceLength),
+    key
+  );
+  if (!opened) {
+    return null;
+  }
+
+  try {
+    return fromUtf8(opened);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where a sealed message may be opened. Sealed along with the message, so the
+ * relay can't replay it into another session or echo the CLI's output back to
+ * it as input - the key alone is shared by every session of the machine.
+ */
+export interface SealContext {
+  sessionId: string;
+  direction: 'input' | 'output'; // Input goes phone to CLI, output CLI to phone
+}
+
+/**
+ * Seal a whole message in an `encrypted` envelope. Only seq and timestamp stay
+ * readable, for ordering and gap detection.
+ */
+export function encryptMessage(
+  message: RealtimeMessage,
+  key: Uint8Array,
+  context: SealContext
+): RealtimeMessage {
+  const sealed = { sessionId: context.sessionId, direction: context.direction, message };
+  return {
+    type: 'encrypted',
+    encrypted: encryptText(JSON.stringify(sealed), key),
+    timestamp: message.timestamp,
+    seq: message.seq,
+  };
+}
+
+/**
+ * Open an `encrypted` envelope. The result is untrusted and still needs
+ * validating. Returns null if the envelope can't be opened with this key, or
+ * was sealed for another session or direction.
+ */
+export function decryptMessage(
+  message: RealtimeMessage,
+  key: Uint8Array,
+  context: SealContext
+): unknown | null {
+  if (!message.encrypted) {
+    return null;
+  }
+
+  const plaintext = decryptText(message.encrypted, key);
+  if (plaintext === null) {
+    return null;
+  }
+
+  let sealed: unknown;
+  try {
+    sealed = JSON.parse(plaintext);
+  } catch {
+    return null;
+  }
+
+  const { sessionId, direction, message: opened } = (sealed ?? {}) as {
+    sessionId?: unknown;
+    direction?: unknown;
+    message?: unknown;
+  };
+  if (sessionId !== context.sessionId || direction !== context.direction) {
+    return null;
+  }
+  return opened ?? null;
+}
+
+export function requiresEncryption(type: RealtimeMessageType): boolean {
+  return !PLAINTEXT_MESSAGE_TYPES.includes(type);
+}
@@ -0,0 +1,108 @@
+// Byte/string conversions that work the same in Node and React Native
+// (no Buffer, TextEncoder or atob in this package's lib).
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const BASE64_LOOKUP: Record<string, number> = {};
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET[i]!] = i;
+}
+
+/**
+ * Unpadded base64url, safe for URLs, pairing codes and SecureStore values.
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i]!;
+    const b1 = bytes[i + 1];
+    const b2 = bytes[i + 2];
+    out += BASE64_ALPHABET[b0 >> 2];
+    out += BASE64_ALPHABET[((b0 & 0x03) << 4) | ((b1 ?? 0) >> 4)];
+    if (b1 !== undefined) {
+      out += BASE64_ALPHABET[((b1 & 0x0f) << 2) | ((b2 ?? 0) >> 6)];
+    }
+    if (b2 !== undefined) {
+      out += BASE64_ALPHABET[b2 & 0x3f];
+    }
+  }
+  return out;
+}
+
+export function fromBase64Url(value: string): Uint8Array | null {
+  if (value.length % 4 === 1) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(Math.floor((value.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of value) {
+    const index = BASE64_LOOKUP[char];
+    if (index === undefined) {
+      return null;
+    }
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
+
+export function toUtf8(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+export function fromUtf8(bytes: Uint8Array): string {
+  const codePoints: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const b0 = bytes[i]!;
+    if (b0 < 0x80) {
+      codePoints.push(b0);
+      i += 1;
+    } else if (b0 < 0xe0) {
+      codePoints.push(((b0 & 0x1f) << 6) | (bytes[i + 1]! & 0x3f));
+      i += 2;
+    } else if (b0 < 0xf0) {
+      codePoints.push(((b0 & 0x0f) << 12) | ((bytes[i + 1]! & 0x3f) << 6) | (bytes[i + 2]! & 0x3f));
+      i += 3;
+    } else {
+      codePoints.push(
+        ((b0 & 0x07) << 18) |
+          ((bytes[i + 1]! & 0x3f) << 12) |
+          ((bytes[i + 2]! & 0x3f) << 6) |
+          (bytes[i + 3]! & 0x3f)
+      );
+      i += 4;
+    }
+  }
+
+  // Chunked to stay under engine argument limits for long messages
+  let out = '';
+  for (let j = 0; j < codePoints.length; j += 8192) {
+    out += String.fromCodePoint(...codePoints.slice(j, j + 8192));
+  }
+  return out;
+}
@@ -0,0 +1 @@
+export * from './e2e.js';
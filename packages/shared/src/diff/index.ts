@@ -0,0 +1 @@
+export * from './line-diff.js';
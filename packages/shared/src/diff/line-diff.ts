@@ -0,0 +1,203 @@
+import type { DiffHunk, FileDiff } from '../types/message.js';
+
+// Unchanged lines shown around each change
+export const DIFF_CONTEXT_LINES = 3;
+
+// Hunk lines carried in one diff - the rest is cut off and marked truncated
+export const MAX_DIFF_LINES = 500;
+
+// Above this many line pairs the changed region is shown as a plain
+// remove/add block instead of being aligned line by line
+const MAX_ALIGNED_CELLS = 1_000_000;
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  text: string;
+  oldIndex: number; // Lines of the old text before this one
+  newIndex: number; // Lines of the new text before this one
+}
+
+export interface FileDiffOptions {
+  status?: FileDiff['status'];
+  snippet?: boolean;
+  contextLines?: number;
+  maxLines?: number;
+}
+
+function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split('\n');
+  // A trailing newline ends the last line rather than starting a new one
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line operations turning `oldLines` into `newLines`. The common prefix and
+ * suffix are skipped first, so a small edit in a large file stays cheap.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const ops: DiffOp[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  const push = (type: DiffOp['type'], text: string) => {
+    ops.push({ type, text, oldIndex, newIndex });
+    if (type !== '+') oldIndex++;
+    if (type !== '-') newIndex++;
+  };
+
+  for (let i = 0; i < prefix; i++) {
+    push(' ', oldLines[i]!);
+  }
+
+  if (oldMiddle.length * newMiddle.length > MAX_ALIGNED_CELLS) {
+    oldMiddle.forEach((line) => push('-', line));
+    newMiddle.forEach((line) => push('+', line));
+  } else {
+    // Longest common subsequence, filled from the end so it can be walked forwards
+    const rows = oldMiddle.length;
+    const cols = newMiddle.length;
+    const lcs = new Uint32Array((rows + 1) * (cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * (cols + 1) + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lcs[(i + 1) * (cols + 1) + j + 1]! + 1
+            : Math.max(lcs[(i + 1) * (cols + 1) + j]!, lcs[i * (cols + 1) + j + 1]!);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+        push(' ', oldMiddle[i++]!);
+        j++;
+      } else if (
+        i < rows &&
+        (j === cols || lcs[(i + 1) * (cols + 1) + j]! >= lcs[i * (cols + 1) + j + 1]!)
+      ) {
+        // Removals go first, as in `diff -u`
+        push('-', oldMiddle[i++]!);
+      } else {
+        push('+', newMiddle[j++]!);
+      }
+    }
+  }
+
+  for (let i = oldLines.length - suffix; i < oldLines.length; i++) {
+    push(' ', oldLines[i]!);
+  }
+
+  return ops;
+}
+
+function createHunk(ops: DiffOp[]): DiffHunk {
+  const first = ops[0]!;
+  const oldLines = ops.filter((op) => op.type !== '+').length;
+  const newLines = ops.filter((op) => op.type !== '-').length;
+  return {
+    // Like `diff -u`, an empty side starts at the line before the change
+    oldStart: oldLines > 0 ? first.oldIndex + 1 : first.oldIndex,
+    oldLines,
+    newStart: newLines > 0 ? first.newIndex + 1 : first.newIndex,
+    newLines,
+    lines: ops.map((op) => op.type + op.text),
+  };
+}
+
+/**
+ * Unified diff between two versions of a file, grouped into hunks with
+ * surrounding context. Large diffs are cut off after `maxLines` hunk lines.
+ */
+export function createFileDiff(
+  filePath: string,
+  oldText: string,
+  newText: string,
+  options: FileDiffOptions = {}
+): FileDiff {
+  const context = options.contextLines ?? DIFF_CONTEXT_LINES;
+  const maxLines = options.maxLines ?? MAX_DIFF_LINES;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  const diff: FileDiff = {
+    filePath,
+    status: options.status ?? 'modified',
+    hunks: [],
+    additions: ops.filter((op) => op.type === '+').length,
+    deletions: ops.filter((op) => op.type === '-').length,
+  };
+  if (options.snippet) {
+    diff.snippet = true;
+  }
+
+  let lineCount = 0;
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i]!.type === ' ') {
+      i++;
+      continue;
+    }
+
+    // Extend over changes separated by less context than two hunks would show
+    const start = Math.max(0, i - context);
+    let end = i;
+    let j = i;
+    while (j < ops.length) {
+      if (ops[j]!.type !== ' ') {
+        end = j++;
+        continue;
+      }
+      let k = j;
+      while (k < ops.length && ops[k]!.type === ' ') {
+        k++;
+      }
+      if (k === ops.length || k - j > context * 2) {
+        break;
+      }
+      j = k;
+    }
+    const stop = Math.min(ops.length, end + 1 + context);
+
+    let hunkOps = ops.slice(start, stop);
+    if (lineCount + hunkOps.length > maxLines) {
+      hunkOps = hunkOps.slice(0, maxLines - lineCount);
+      diff.truncated = true;
+    }
+    if (hunkOps.length > 0) {
+      diff.hunks.push(createHunk(hunkOps));
+      lineCount += hunkOps.length;
+    }
+    if (diff.truncated) {
+      break;
+    }
+    i = stop;
+  }
+
+  return diff;
+}
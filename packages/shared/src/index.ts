@@ -3,3 +3,24 @@ export * from './types/index.js';
 
 // Constants
 export * from './constants/index.js';
+
+// Transport
+export * from './transport/index.js';
+
+// Validation
+export * from './validation/index.js';
+
+// Chunking
+export * from './chunking/index.js';
+
+// Crypto
+export * from './crypto/index.js';
+
+// Tool calls
+export * from './tools/index.js';
+
+// Diffs
+export * from './diff/index.js';
+
+// Usage
+export * from './usage/index.js';
@@ -0,0 +1,4 @@
+export * from './tool-calls.js';
+export * from './permission-rules.js';
+export * from './todos.js';
+export * from './questions.js';
@@ -0,0 +1,21 @@
+import type { PermissionRuleValue } from '../types/message.js';
+
+// "Tool" or "Tool(content)", as written in .claude/settings.json
+const RULE_PATTERN = /^([\w-]+)(?:\((.*)\))?$/s;
+
+/**
+ * Parse a permission rule such as "Bash(npm test:*)" or "Read". Returns
+ * null for strings that aren't rules.
+ */
+export function parsePermissionRule(value: string): PermissionRuleValue | null {
+  const match = RULE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, toolName, ruleContent] = match;
+  return ruleContent ? { toolName: toolName!, ruleContent } : { toolName: toolName! };
+}
+
+export function formatPermissionRule(rule: PermissionRuleValue): string {
+  return rule.ruleContent ? `${rule.toolName}(${rule.ruleContent})` : rule.toolName;
+}
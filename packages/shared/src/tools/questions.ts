@@ -0,0 +1,88 @@
+import type {
+  QuestionAnswer,
+  QuestionAnswerRecord,
+  UserAnswerData,
+  UserQuestion,
+} from '../types/message.js';
+import { validateQuestionAnswer } from '../validation/messages.js';
+
+/**
+ * One question's answer as a line of text: the options picked, then any
+ * free text, e.g. "Dark mode, Offline sync, and export to CSV".
+ */
+export function formatQuestionAnswer(answer: QuestionAnswer): string {
+  const text = answer.text?.trim();
+  return [...answer.selected, ...(text ? [text] : [])].join(', ');
+}
+
+/**
+ * The answer to each of `questionCount` questions, in order. Apps that
+ * predate responses only send answer text keyed by question index.
+ */
+export function getQuestionResponses(
+  answer: UserAnswerData,
+  questionCount: number
+): QuestionAnswer[] {
+  return Array.from({ length: questionCount }, (_, index) => {
+    const response = answer.responses?.[index];
+    if (response) {
+      return response;
+    }
+    const text = answer.answers[String(index)];
+    return text ? { selected: [], text } : { selected: [] };
+  });
+}
+
+/**
+ * The `answers` AskUserQuestion expects in its input: answer text keyed by
+ * the question text. Unanswered questions are left out.
+ */
+export function getToolAnswers(
+  questions: UserQuestion[],
+  responses: QuestionAnswer[]
+): Record<string, string> {
+  const answers: Record<string, string> = {};
+  questions.forEach((question, index) => {
+    const answer = responses[index] && formatQuestionAnswer(responses[index]);
+    if (answer) {
+      answers[question.question] = answer;
+    }
+  });
+  return answers;
+}
+
+/**
+ * Questions and their answers as text, for the terminal and for sending the
+ * answers on as a prompt.
+ */
+export function formatQuestionAnswers(
+  questions: UserQuestion[],
+  responses: QuestionAnswer[]
+): string {
+  return questions
+    .map((question, index) => {
+      const answer = responses[index] ? formatQuestionAnswer(responses[index]) : '';
+      return `${question.question}\n→ ${answer || '(no answer)'}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Question-answer records are stored in the messages table as JSON in the content column.
+ */
+export function serializeQuestionAnswer(record: QuestionAnswerRecord): string {
+  return JSON.stringify(record);
+}
+
+export function parseQuestionAnswer(content: string | undefined): QuestionAnswerRecord | null {
+  if (!content) {
+    return null;
+  }
+
+  try {
+    const result = validateQuestionAnswer(JSON.parse(content));
+    return result.ok ? result.value : null;
+  } catch {
+    return null;
+  }
+}
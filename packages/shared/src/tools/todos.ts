@@ -0,0 +1,70 @@
+import type { TodoItem, TodoStatus } from '../types/message.js';
+import { validateTodos } from '../validation/messages.js';
+import { TOOL_CALL_FIELD_LENGTH } from './tool-calls.js';
+
+// Most items kept from one TodoWrite call
+export const MAX_TODOS = 50;
+
+const TODO_STATUSES: TodoStatus[] = ['pending', 'in_progress', 'completed'];
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+/**
+ * Read the todo list out of a TodoWrite tool_use input. Items without text
+ * or with an unknown status are dropped, and any other fields the tool
+ * carries (ids, priorities) are left out. Returns null when the input has
+ * no todos array at all.
+ */
+export function parseTodoWriteInput(input: unknown): TodoItem[] | null {
+  if (typeof input !== 'object' || input === null) {
+    return null;
+  }
+
+  const todos = (input as Record<string, unknown>)['todos'];
+  if (!Array.isArray(todos)) {
+    return null;
+  }
+
+  const items: TodoItem[] = [];
+  for (const todo of todos.slice(0, MAX_TODOS)) {
+    const { content, status, activeForm } = (todo ?? {}) as Record<string, unknown>;
+    if (typeof content !== 'string' || !content.trim()) {
+      continue;
+    }
+    if (!TODO_STATUSES.includes(status as TodoStatus)) {
+      continue;
+    }
+
+    const item: TodoItem = {
+      content: truncate(content.trim(), TOOL_CALL_FIELD_LENGTH),
+      status: status as TodoStatus,
+    };
+    if (typeof activeForm === 'string' && activeForm.trim()) {
+      item.activeForm = truncate(activeForm.trim(), TOOL_CALL_FIELD_LENGTH);
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * The latest todo list is stored on the session row as JSON.
+ */
+export function serializeTodos(todos: TodoItem[]): string {
+  return JSON.stringify(todos);
+}
+
+export function parseTodos(content: string | null | undefined): TodoItem[] | null {
+  if (!content) {
+    return null;
+  }
+
+  try {
+    const result = validateTodos(JSON.parse(content));
+    return result.ok ? result.value : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+import type { ToolCallData, ToolCallInput } from '../types/message.js';
+import { validateToolCall } from '../validation/messages.js';
+
+// Longest input field or result summary carried on a tool call
+export const TOOL_CALL_FIELD_LENGTH = 500;
+export const TOOL_RESULT_SUMMARY_LENGTH = 200;
+
+// Tool input keys -> ToolCallInput fields (the SDK uses snake_case)
+const INPUT_FIELDS: Record<string, keyof ToolCallInput> = {
+  command: 'command',
+  file_path: 'filePath',
+  notebook_path: 'filePath',
+  pattern: 'pattern',
+  url: 'url',
+  query: 'query',
+  description: 'description',
+};
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+/**
+ * Pick the fields a tool card shows out of a tool_use input. Everything else
+ * (file contents, edit strings...) is left out to keep messages small.
+ */
+export function summarizeToolInput(input: unknown): ToolCallInput {
+  const summary: ToolCallInput = {};
+  if (typeof input !== 'object' || input === null) {
+    return summary;
+  }
+
+  for (const [key, field] of Object.entries(INPUT_FIELDS)) {
+    const value = (input as Record<string, unknown>)[key];
+    if (typeof value === 'string' && value) {
+      summary[field] = truncate(value, TOOL_CALL_FIELD_LENGTH);
+    }
+  }
+  return summary;
+}
+
+/**
+ * First lines of a tool_result's content, which is either a string or a
+ * list of content blocks. Returns undefined when there is no text.
+ */
+export function summarizeToolResult(content: unknown): string | undefined {
+  let text = '';
+  if (typeof content === 'string') {
+    text = content;
+  } else if (Array.isArray(content)) {
+    text = content
+      .map((block: { type?: unknown; text?: unknown }) =>
+        block?.type === 'text' && typeof block.text === 'string' ? block.text : ''
+      )
+      .join('\n');
+  }
+
+  text = text.trim();
+  return text ? truncate(text, TOOL_RESULT_SUMMARY_LENGTH) : undefined;
+}
+
+/**
+ * The plain-text line older mobile apps show for a tool call.
+ */
+export function formatToolCallText(toolCall: ToolCallData): string {
+  return toolCall.status === 'running'
+    ? `\n[Using tool: ${toolCall.toolName}]\n`
+    : `[Tool ${toolCall.toolName} completed]\n`;
+}
+
+/**
+ * Tool calls are stored in the messages table as JSON in the content column.
+ */
+export function serializeToolCall(toolCall: ToolCallData): string {
+  return JSON.stringify(toolCall);
+}
+
+export function parseToolCall(content: string | undefined): ToolCallData | null {
+  if (!content) {
+    return null;
+  }
+
+  try {
+    const result = validateToolCall(JSON.parse(content));
+    return result.ok ? result.value : null;
+  } catch {
+    return null;
+  }
+}
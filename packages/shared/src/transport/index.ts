@@ -0,0 +1,4 @@
+export * from './types.js';
+export * from './protocol.js';
+export * from './supabase.js';
+export * from './websocket.js';
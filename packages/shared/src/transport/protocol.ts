@@ -0,0 +1,29 @@
+import type { PresencePayload } from '../types/presence.js';
+import type { PresenceState } from './types.js';
+
+/**
+ * Frames sent from a client to the `termbridge relay` server.
+ */
+export type RelayClientFrame =
+  | { type: 'join'; channel: string }
+  | { type: 'leave'; channel: string }
+  | { type: 'broadcast'; channel: string; event: string; payload: unknown }
+  | { type: 'track'; channel: string; payload: PresencePayload }
+  | { type: 'untrack'; channel: string };
+
+/**
+ * Frames sent from the relay server to a client.
+ */
+export type RelayServerFrame =
+  | { type: 'joined'; channel: string }
+  | { type: 'broadcast'; channel: string; event: string; payload: unknown }
+  | {
+      type: 'presence';
+      channel: string;
+      state: PresenceState;
+      joins: PresencePayload[];
+      leaves: PresencePayload[];
+    }
+  | { type: 'error'; channel?: string; message: string };
+
+export const RELAY_DEFAULT_PORT = 8787;
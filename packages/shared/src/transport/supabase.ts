@@ -0,0 +1,108 @@
+import type { PresencePayload } from '../types/presence.js';
+import type {
+  PresenceEvent,
+  PresenceEventType,
+  PresenceState,
+  Transport,
+  TransportChannel,
+  TransportStatus,
+} from './types.js';
+
+/**
+ * The subset of a Supabase RealtimeChannel used by the adapter.
+ * Declared structurally so this package doesn't depend on supabase-js.
+ */
+export interface SupabaseChannelLike {
+  on(
+    type: string,
+    filter: { event: string },
+    callback: (message?: { [key: string]: unknown }) => void
+  ): unknown;
+  subscribe(callback?: (status: `${TransportStatus}`, err?: Error) => void): unknown;
+  send(message: { type: 'broadcast'; event: string; payload: unknown }): Promise<unknown>;
+  track(payload: { [key: string]: unknown }): Promise<unknown>;
+  untrack(): Promise<unknown>;
+  presenceState(): Record<string, unknown[]>;
+}
+
+/**
+ * The subset of a SupabaseClient used by the adapter.
+ */
+export interface SupabaseRealtimeLike {
+  channel(name: string): SupabaseChannelLike;
+  removeChannel(channel: SupabaseChannelLike): Promise<unknown>;
+}
+
+// Presence lists arrive untyped; anything that isn't a list counts as empty
+function toPresences(value: unknown): PresencePayload[] {
+  return Array.isArray(value) ? (value as PresencePayload[]) : [];
+}
+
+class SupabaseTransportChannel implements TransportChannel {
+  readonly name: string;
+  readonly raw: SupabaseChannelLike;
+
+  constructor(name: string, raw: SupabaseChannelLike) {
+    this.name = name;
+    this.raw = raw;
+  }
+
+  onMessage(event: string, handler: (payload: unknown) => void): TransportChannel {
+    this.raw.on('broadcast', { event }, (message) => {
+      handler(message?.['payload']);
+    });
+    return this;
+  }
+
+  onPresence(event: PresenceEventType, handler: (event: PresenceEvent) => void): TransportChannel {
+    this.raw.on('presence', { event }, (message) => {
+      handler({
+        newPresences: toPresences(message?.['newPresences']),
+        leftPresences: toPresences(message?.['leftPresences']),
+      });
+    });
+    return this;
+  }
+
+  subscribe(callback?: (status: TransportStatus, err?: Error) => void): TransportChannel {
+    this.raw.subscribe(callback);
+    return this;
+  }
+
+  async send(event: string, payload: unknown): Promise<void> {
+    await this.raw.send({ type: 'broadcast', event, payload });
+  }
+
+  async track(payload: PresencePayload): Promise<void> {
+    await this.raw.track({ ...payload });
+  }
+
+  async untrack(): Promise<void> {
+    await this.raw.untrack();
+  }
+
+  presenceState(): PresenceState {
+    return this.raw.presenceState() as PresenceState;
+  }
+}
+
+/**
+ * Transport backed by Supabase Realtime broadcast and presence.
+ */
+export class SupabaseTransport implements Transport {
+  private supabase: SupabaseRealtimeLike;
+
+  constructor(supabase: SupabaseRealtimeLike) {
+    this.supabase = supabase;
+  }
+
+  channel(name: string): TransportChannel {
+    return new SupabaseTransportChannel(name, this.supabase.channel(name));
+  }
+
+  async removeChannel(channel: TransportChannel): Promise<void> {
+    if (channel instanceof SupabaseTransportChannel) {
+      await this.supabase.removeChannel(channel.raw);
+    }
+  }
+}
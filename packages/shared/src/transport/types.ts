@@ -0,0 +1,43 @@
+import type { PresencePayload } from '../types/presence.js';
+
+/**
+ * Channel subscription status reported to `subscribe` callbacks.
+ * Mirrors the statuses Supabase Realtime uses so callers can treat every
+ * transport the same way.
+ */
+export type TransportStatus = 'SUBSCRIBED' | 'CHANNEL_ERROR' | 'CLOSED' | 'TIMED_OUT';
+
+export type PresenceEventType = 'sync' | 'join' | 'leave';
+
+/**
+ * Presence entries currently tracked on a channel, keyed by client.
+ */
+export type PresenceState = Record<string, PresencePayload[]>;
+
+export interface PresenceEvent {
+  newPresences: PresencePayload[];
+  leftPresences: PresencePayload[];
+}
+
+/**
+ * A named pub/sub channel. Handlers must be registered before `subscribe`.
+ */
+export interface TransportChannel {
+  readonly name: string;
+  onMessage(event: string, handler: (payload: unknown) => void): TransportChannel;
+  onPresence(event: PresenceEventType, handler: (event: PresenceEvent) => void): TransportChannel;
+  subscribe(callback?: (status: TransportStatus, err?: Error) => void): TransportChannel;
+  send(event: string, payload: unknown): Promise<void>;
+  track(payload: PresencePayload): Promise<void>;
+  untrack(): Promise<void>;
+  presenceState(): PresenceState;
+}
+
+/**
+ * Realtime transport used by the CLI and mobile app to exchange messages.
+ * Implemented by SupabaseTransport and WebSocketTransport (relay).
+ */
+export interface Transport {
+  channel(name: string): TransportChannel;
+  removeChannel(channel: TransportChannel): Promise<void>;
+}
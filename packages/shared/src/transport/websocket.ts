@@ -0,0 +1,308 @@
+import type { PresencePayload } from '../types/presence.js';
+import type { RelayClientFrame, RelayServerFrame } from './protocol.js';
+import type {
+  PresenceEvent,
+  PresenceEventType,
+  PresenceState,
+  Transport,
+  TransportChannel,
+  TransportStatus,
+} from './types.js';
+
+// Checked like a method parameter, so sockets whose handlers take a more
+// specific event (e.g. `ws`'s MessageEvent) still fit
+type EventHandler<E> = { handle(event: E): void }['handle'];
+
+/**
+ * Minimal WebSocket surface used by the transport. Satisfied by the browser /
+ * React Native WebSocket and by the `ws` package in Node.js.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: EventHandler<unknown> | null;
+  onclose: EventHandler<unknown> | null;
+  onerror: EventHandler<unknown> | null;
+  onmessage: EventHandler<{ data: unknown }> | null;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface WebSocketTransportOptions {
+  url: string;
+  WebSocket?: WebSocketConstructor;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+// Timers exist in every runtime this runs in (Node.js, React Native, browsers),
+// but the shared package is compiled without DOM or Node typings
+declare function setTimeout(callback: () => void, ms: number): unknown;
+declare function clearTimeout(handle: unknown): void;
+
+const WS_OPEN = 1;
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+
+class WebSocketTransportChannel implements TransportChannel {
+  readonly name: string;
+  private transport: WebSocketTransport;
+  private messageHandlers: Map<string, Array<(payload: unknown) => void>> = new Map();
+  private presenceHandlers: Map<PresenceEventType, Array<(event: PresenceEvent) => void>> =
+    new Map();
+  private statusCallback: ((status: TransportStatus, err?: Error) => void) | null = null;
+  private presence: PresenceState = {};
+  subscribed: boolean = false;
+
+  constructor(name: string, transport: WebSocketTransport) {
+    this.name = name;
+    this.transport = transport;
+  }
+
+  onMessage(event: string, handler: (payload: unknown) => void): TransportChannel {
+    const handlers = this.messageHandlers.get(event) ?? [];
+    handlers.push(handler);
+    this.messageHandlers.set(event, handlers);
+    return this;
+  }
+
+  onPresence(event: PresenceEventType, handler: (event: PresenceEvent) => void): TransportChannel {
+    const handlers = this.presenceHandlers.get(event) ?? [];
+    handlers.push(handler);
+    this.presenceHandlers.set(event, handlers);
+    return this;
+  }
+
+  subscribe(callback?: (status: TransportStatus, err?: Error) => void): TransportChannel {
+    this.statusCallback = callback ?? null;
+    this.subscribed = true;
+    this.transport.join(this);
+    return this;
+  }
+
+  async send(event: string, payload: unknown): Promise<void> {
+    this.transport.sendFrame({ type: 'broadcast', channel: this.name, event, payload });
+  }
+
+  async track(payload: PresencePayload): Promise<void> {
+    this.transport.sendFrame({ type: 'track', channel: this.name, payload });
+  }
+
+  async untrack(): Promise<void> {
+    this.transport.sendFrame({ type: 'untrack', channel: this.name });
+  }
+
+  presenceState(): PresenceState {
+    return this.presence;
+  }
+
+  setStatus(status: TransportStatus, err?: Error): void {
+    this.statusCallback?.(status, err);
+  }
+
+  handleFrame(frame: RelayServerFrame): void {
+    if (frame.type === 'joined') {
+      this.setStatus('SUBSCRIBED');
+      return;
+    }
+
+    if (frame.type === 'broadcast') {
+      for (const handler of this.messageHandlers.get(frame.event) ?? []) {
+        handler(frame.payload);
+      }
+      return;
+    }
+
+    if (frame.type === 'presence') {
+      this.presence = frame.state;
+      if (frame.joins.length > 0) {
+        this.emitPresence('join', { newPresences: frame.joins, leftPresences: [] });
+      }
+      if (frame.leaves.length > 0) {
+        this.emitPresence('leave', { newPresences: [], leftPresences: frame.leaves });
+      }
+      this.emitPresence('sync', { newPresences: [], leftPresences: [] });
+      return;
+    }
+
+    if (frame.type === 'error') {
+      this.setStatus('CHANNEL_ERROR', new Error(frame.message));
+    }
+  }
+
+  dispose(): void {
+    this.subscribed = false;
+    this.statusCallback = null;
+    this.messageHandlers.clear();
+    this.presenceHandlers.clear();
+  }
+
+  private emitPresence(event: PresenceEventType, payload: PresenceEvent): void {
+    for (const handler of this.presenceHandlers.get(event) ?? []) {
+      handler(payload);
+    }
+  }
+}
+
+/**
+ * Transport that talks to a self-hosted `termbridge relay` server over a
+ * single WebSocket. The socket is opened lazily on the first subscribe,
+ * re-established with backoff while channels exist, and closed once the
+ * last channel is removed.
+ */
+export class WebSocketTransport implements Transport {
+  private url: string;
+  private WebSocketImpl: WebSocketConstructor | undefined;
+  private reconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private socket: WebSocketLike | null = null;
+  private channels: Set<WebSocketTransportChannel> = new Set();
+  private reconnectTimer: unknown = null;
+  private reconnectAttempts: number = 0;
+
+  constructor(options: WebSocketTransportOptions) {
+    this.url = options.url;
+    this.WebSocketImpl =
+      options.WebSocket ??
+      (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS;
+  }
+
+  channel(name: string): TransportChannel {
+    const channel = new WebSocketTransportChannel(name, this);
+    this.channels.add(channel);
+    return channel;
+  }
+
+  async removeChannel(channel: TransportChannel): Promise<void> {
+    if (!(channel instanceof WebSocketTransportChannel) || !this.channels.has(channel)) {
+      return;
+    }
+
+    this.channels.delete(channel);
+    const wasSubscribed = channel.subscribed;
+    channel.dispose();
+
+    // Only leave on the relay when no other local channel uses the same name
+    const stillJoined = [...this.channels].some(
+      (c) => c.name === channel.name && c.subscribed
+    );
+    if (wasSubscribed && !stillJoined) {
+      this.trySendFrame({ type: 'leave', channel: channel.name });
+    }
+
+    if (this.channels.size === 0) {
+      this.close();
+    }
+  }
+
+  join(channel: WebSocketTransportChannel): void {
+    if (this.socket?.readyState === WS_OPEN) {
+      this.trySendFrame({ type: 'join', channel: channel.name });
+      return;
+    }
+    // Joined from onopen once the socket is ready
+    this.open();
+  }
+
+  sendFrame(frame: RelayClientFrame): void {
+    if (!this.socket || this.socket.readyState !== WS_OPEN) {
+      throw new Error('Not connected');
+    }
+    this.socket.send(JSON.stringify(frame));
+  }
+
+  private trySendFrame(frame: RelayClientFrame): void {
+    try {
+      this.sendFrame(frame);
+    } catch {
+      // Socket is down - channels are re-joined on reconnect
+    }
+  }
+
+  private open(): void {
+    if (this.socket || this.reconnectTimer) {
+      return;
+    }
+
+    if (!this.WebSocketImpl) {
+      const error = new Error('WebSocket is not available in this environment');
+      this.channels.forEach((c) => c.setStatus('CHANNEL_ERROR', error));
+      return;
+    }
+
+    const socket = new this.WebSocketImpl(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      const names = new Set(
+        [...this.channels].filter((c) => c.subscribed).map((c) => c.name)
+      );
+      names.forEach((name) => this.trySendFrame({ type: 'join', channel: name }));
+    };
+
+    socket.onmessage = (event: { data: unknown }) => {
+      let frame: RelayServerFrame;
+      try {
+        frame = JSON.parse(String(event.data)) as RelayServerFrame;
+      } catch {
+        return;
+      }
+
+      this.channels.forEach((c) => {
+        if (c.subscribed && (!('channel' in frame) || c.name === frame.channel)) {
+          c.handleFrame(frame);
+        }
+      });
+    };
+
+    socket.onerror = () => {
+      // onclose follows and handles reconnection
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+
+      const subscribed = [...this.channels].filter((c) => c.subscribed);
+      subscribed.forEach((c) => c.setStatus('CLOSED'));
+
+      if (subscribed.length > 0) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      this.reconnectDelayMs * 2 ** this.reconnectAttempts,
+      this.maxReconnectDelayMs
+    );
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.channels.size > 0) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  private close(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.reconnectAttempts = 0;
+  }
+}
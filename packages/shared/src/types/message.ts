@@ -1,4 +1,13 @@
-export type MessageType = 'output' | 'input' | 'error' | 'system';
+import type { UsageStats } from './session.js';
+
+export type MessageType =
+  | 'output'
+  | 'input'
+  | 'error'
+  | 'system'
+  | 'tool-call'
+  | 'thinking'
+  | 'question-answer';
 
 export type PermissionMode =
   | 'default' // Ask before making changes
@@ -41,7 +50,29 @@ export type RealtimeMessageType =
   | 'user-question' // Claude is asking the user a question with options
   | 'user-answer' // User's answer to a question
   | 'permission-request' // SDK is asking for tool permission
-  | 'permission-response'; // User's response to permission request
+  | 'permission-response' // User's response to permission request
+  | 'replay-request' // Mobile asks CLI to resend output it missed (doesn't appear in chat)
+  | 'replay-response' // CLI resends the requested range of output messages
+  | 'ack' // CLI confirms receipt of a mobile message (doesn't appear in chat)
+  | 'hello' // Mobile advertises its protocol version and features on connect
+  | 'capabilities' // CLI replies with its protocol version and the features both sides support
+  | 'message-rejected' // Either side refused a payload that failed validation
+  | 'chunk' // One frame of a message too large for a single broadcast
+  | 'encrypted' // Envelope holding an end-to-end encrypted message
+  | 'tool-call' // Claude started, or finished, using a tool
+  | 'request-retracted' // A permission request or question was aborted and needs no answer
+  | 'interrupt' // Mobile asks the CLI to cancel the running query (doesn't appear in chat)
+  | 'prompt-queue' // CLI sends the prompts waiting for the running query to finish
+  | 'prompt-queue-update' // Mobile moves or removes a queued prompt
+  | 'usage' // CLI reports a finished turn's token usage and cost, and the session total
+  | 'limits' // CLI sends the session's limits and whether one has been reached
+  | 'limits-change' // Mobile sets new limits
+  | 'limit-override' // Mobile lets the session continue past the limit it reached
+  | 'output-delta' // CLI streams text as Claude writes it - not stored, superseded by the output message
+  | 'thinking' // CLI sends a thinking block from an assistant message (content is the thinking text)
+  | 'todos' // CLI sends Claude's todo list each time TodoWrite updates it
+  | 'sub-agent' // A Task sub-agent started, used a tool, or finished
+  | 'question-answer'; // CLI records a question Claude asked and how the user answered it
 
 export type InteractiveCommandType =
   | 'config'
@@ -106,10 +137,174 @@ export interface RealtimeMessage {
   userAnswer?: UserAnswerData; // For user-answer type
   permissionRequest?: PermissionRequestData; // For permission-request type
   permissionResponse?: PermissionResponseData; // For permission-response type
+  replayRange?: SeqRange; // For replay-request/replay-response types
+  replayedMessages?: RealtimeMessage[]; // For replay-response type
+  messageId?: string; // Unique ID for mobile messages that must be acknowledged
+  ackId?: string; // For ack type - messageId being acknowledged
+  protocol?: ProtocolInfo; // For hello/capabilities types
+  rejection?: MessageRejection; // For message-rejected type
+  chunk?: MessageChunk; // For chunk type
+  encrypted?: string; // For encrypted type - sealed JSON of the original message
+  toolCall?: ToolCallData; // For tool-call type
+  retractedId?: string; // For request-retracted type - requestId or toolUseId withdrawn
+  promptQueue?: QueuedPrompt[]; // For prompt-queue type - oldest (next to run) first
+  queueUpdate?: PromptQueueUpdate; // For prompt-queue-update type
+  usage?: UsageUpdate; // For usage type
+  limitsState?: SessionLimitsState; // For limits type
+  sessionLimits?: SessionLimits; // For limits-change type
+  todos?: TodoItem[]; // For todos type - the whole list, in Claude's order
+  subAgent?: SubAgentData; // For sub-agent type
+  questionAnswer?: QuestionAnswerRecord; // For question-answer type
   timestamp: number;
   seq: number;
 }
 
+// Optional protocol features negotiated in the hello/capabilities handshake
+export type ProtocolFeature =
+  | 'replay' // replay-request/replay-response gap recovery
+  | 'ack' // Acknowledged, retried mobile messages
+  | 'rejections' // message-rejected replies to invalid payloads
+  | 'chunking' // Oversized messages split into chunk frames
+  | 'e2e' // Messages sealed with the machine's pairing key
+  | 'tool-calls' // Structured tool-call messages instead of "[Using tool: X]" output
+  | 'retractions' // request-retracted when a pending request or question is aborted
+  | 'interrupt' // interrupt cancels the running query
+  | 'prompt-queue' // Prompts sent during a query are queued, not dropped
+  | 'usage' // usage messages after each turn
+  | 'limits' // Cost, turn and time limits that stop the session until overridden
+  | 'streaming' // output-delta messages while a text block is being written
+  | 'thinking' // thinking messages when thinking mode is on
+  | 'todos' // todos messages when Claude updates its todo list
+  | 'sub-agents' // sub-agent messages, and tool calls and requests tagged with their agent
+  | 'question-answers'; // question-answer records once a user-answer is handled
+
+export interface ProtocolInfo {
+  version: number;
+  features: ProtocolFeature[];
+  keyId?: string; // Fingerprint of the sender's pairing key, if it has one
+}
+
+export interface MessageRejection {
+  reason: string;
+  rejectedType?: string; // Type of the rejected payload, if it had one
+  messageId?: string; // messageId of the rejected payload, so its sender can stop retrying
+  protocolVersion: number; // Schema version the payload was validated against
+}
+
+// A slice of a serialized message. Frames share an id and are reassembled
+// by index once all `total` have arrived.
+export interface MessageChunk {
+  id: string;
+  index: number; // 0-based
+  total: number;
+  data: string; // Slice of the JSON-serialized message
+  size: number; // Length of the full serialized message
+  checksum: string; // FNV-1a hash of the full serialized message
+}
+
+// Tool call types (from tool_use blocks and their tool_result)
+export type ToolCallStatus = 'running' | 'completed' | 'error';
+
+// The parts of a tool's input worth showing on a card
+export interface ToolCallInput {
+  command?: string; // Bash
+  filePath?: string; // Read, Edit, Write, NotebookEdit
+  pattern?: string; // Glob, Grep
+  url?: string; // WebFetch
+  query?: string; // WebSearch
+  description?: string;
+}
+
+export interface ToolCallData {
+  toolUseId: string;
+  toolName: string;
+  input: ToolCallInput;
+  status: ToolCallStatus;
+  summary?: string; // Start of the tool result, once it has one
+  diff?: FileDiff; // For Edit, MultiEdit and Write - the change to the file
+  parentToolUseId?: string; // Task tool use of the sub-agent that made the call
+}
+
+// Task sub-agents, identified by the tool_use id of the Task call that started them
+export type SubAgentStatus = 'running' | 'completed' | 'error' | 'cancelled';
+
+export interface SubAgentData {
+  toolUseId: string; // The sub-agent's tool calls carry it as parentToolUseId
+  agentType: string; // e.g. "general-purpose", "Explore"
+  description: string; // Short task description Claude gave it
+  status: SubAgentStatus;
+  toolCount: number; // Tools it has started so far
+  currentTool?: string; // Last tool it started, while running
+  summary?: string; // Start of its result, once finished
+  startedAt: number;
+  finishedAt?: number;
+}
+
+// A prompt waiting for the running query to finish
+export interface QueuedPrompt {
+  id: string;
+  content: string;
+  attachmentCount: number; // Images are sent with the prompt but not echoed back
+  queuedAt: number;
+}
+
+export type PromptQueueUpdate =
+  | { action: 'move'; promptId: string; toIndex: number }
+  | { action: 'remove'; promptId: string };
+
+export interface UsageUpdate {
+  turn: UsageStats; // The turn that just finished
+  total: UsageStats; // Everything the session has used so far, including this turn
+}
+
+// Caps that stop a session, e.g. one left running in bypassPermissions mode
+export interface SessionLimits {
+  maxCostUsd?: number; // Total cost of the session
+  maxTurns?: number; // Agentic turns (model round-trips) across the session
+  maxPromptSeconds?: number; // Wall-clock time for one prompt
+}
+
+export type SessionLimitKind = 'cost' | 'turns' | 'time';
+
+export interface SessionLimitsState {
+  limits: SessionLimits;
+  reached?: SessionLimitKind; // No prompts run until it's overridden or the limits change
+}
+
+// Todo list items (from TodoWrite tool uses)
+export type TodoStatus = 'pending' | 'in_progress' | 'completed';
+
+export interface TodoItem {
+  content: string; // e.g. "Run the tests"
+  status: TodoStatus;
+  activeForm?: string; // Shown while in progress, e.g. "Running the tests"
+}
+
+// A unified diff of one file. Hunk lines start with ' ', '+' or '-'.
+export interface FileDiff {
+  filePath: string;
+  status: 'modified' | 'added';
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+  truncated?: boolean; // Hunks were cut off at MAX_DIFF_LINES
+  snippet?: boolean; // Only the edited text was compared - line numbers are relative to it
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+// Inclusive range of CLI sequence numbers (for gap replay)
+export interface SeqRange {
+  fromSeq: number;
+  toSeq: number;
+}
+
 export interface ModelInfo {
   value: string;
   displayName: string;
@@ -148,7 +343,21 @@ export interface UserQuestionData {
 
 export interface UserAnswerData {
   toolUseId: string;
-  answers: Record<string, string>; // question index -> selected option label or custom text
+  answers: Record<string, string>; // question index -> answer text, for CLIs without responses
+  responses?: QuestionAnswer[]; // One per question, in order
+}
+
+// The answer to one question
+export interface QuestionAnswer {
+  selected: string[]; // Labels of the options picked - at most one unless multiSelect
+  text?: string; // Free-text answer, typed instead of or alongside the options
+}
+
+// A question Claude asked and how it was answered, kept in the session history
+export interface QuestionAnswerRecord {
+  toolUseId: string;
+  questions: UserQuestion[];
+  responses: QuestionAnswer[]; // One per question, in order
 }
 
 // Permission request types (for SDK canUseTool callback)
@@ -210,14 +419,24 @@ export interface PermissionRequestData {
   blockedPath?: string;
   decisionReason?: string;
   agentId?: string;
+  diff?: FileDiff; // For Edit, MultiEdit and Write - the proposed change to the file on disk
+  parentToolUseId?: string; // Task tool use of the sub-agent asking, if a sub-agent is
+  plan?: string; // For ExitPlanMode - the plan Claude wants approved, as markdown
 }
 
+// Answers to an ExitPlanMode request, and the permission mode each leaves the session in
+export type PlanDecision =
+  | 'approve' // Start implementing, asking before edits (default mode)
+  | 'approve-auto-edits' // Start implementing, accepting edits (acceptEdits mode)
+  | 'keep-planning'; // Stay in plan mode; the response message is feedback on the plan
+
 export interface PermissionResponseData {
   requestId: string;
   behavior: 'allow' | 'deny';
   message?: string; // For deny - reason message
   updatedInput?: Record<string, unknown>; // For allow - modified input
   updatedPermissions?: PermissionUpdate[]; // For allow - permission updates
+  planDecision?: PlanDecision; // For ExitPlanMode requests - allow for approvals, deny to keep planning
 }
 
 // Machine-level command types (for listen mode)
@@ -226,7 +445,8 @@ export type MachineCommandType =
   | 'session-started'
   | 'session-ended'
   | 'start-session-error'
-  | 'stop-session';
+  | 'stop-session'
+  | 'command-rejected'; // CLI refused a command that failed validation
 
 export interface MachineCommand {
   type: MachineCommandType;
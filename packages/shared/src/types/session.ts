@@ -10,4 +10,24 @@ export interface Session {
   title?: string;
   started_at: string;
   ended_at?: string;
+  // Usage totals, updated after every turn (see UsageStats)
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_tokens?: number;
+  cache_creation_tokens?: number;
+  cost_usd?: number;
+  duration_ms?: number;
+  turn_count?: number;
+  todos?: string | null; // Latest TodoWrite list as JSON (see serializeTodos), sealed when paired
+}
+
+// Token and cost figures for one turn, or summed over a session
+export interface UsageStats {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  durationMs: number;
+  turns: number; // Prompts Claude finished answering
 }
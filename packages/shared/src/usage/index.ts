@@ -0,0 +1,2 @@
+export * from './usage-stats.js';
+export * from './limits.js';
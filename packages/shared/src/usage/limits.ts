@@ -0,0 +1,31 @@
+import type { SessionLimitKind, SessionLimits } from '../types/message.js';
+import { formatCost } from './usage-stats.js';
+
+// "cost limit of $5.00", "limit of 50 turns", "time limit of 10m per prompt"
+export function describeSessionLimit(kind: SessionLimitKind, limits: SessionLimits): string {
+  switch (kind) {
+    case 'cost':
+      return limits.maxCostUsd !== undefined
+        ? `cost limit of ${formatCost(limits.maxCostUsd)}`
+        : 'cost limit';
+    case 'turns':
+      return limits.maxTurns !== undefined ? `limit of ${limits.maxTurns} turns` : 'turn limit';
+    case 'time':
+      return limits.maxPromptSeconds !== undefined
+        ? `time limit of ${formatDuration(limits.maxPromptSeconds)} per prompt`
+        : 'time limit';
+  }
+}
+
+// 45 -> "45s", 600 -> "10m", 5400 -> "1h 30m"
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+}
@@ -0,0 +1,94 @@
+import type { Session, UsageStats } from '../types/session.js';
+
+export const EMPTY_USAGE: UsageStats = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+  costUsd: 0,
+  durationMs: 0,
+  turns: 0,
+};
+
+export type SessionUsageColumns = Required<
+  Pick<
+    Session,
+    | 'input_tokens'
+    | 'output_tokens'
+    | 'cache_read_tokens'
+    | 'cache_creation_tokens'
+    | 'cost_usd'
+    | 'duration_ms'
+    | 'turn_count'
+  >
+>;
+
+export function addUsage(a: UsageStats, b: UsageStats): UsageStats {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+    costUsd: a.costUsd + b.costUsd,
+    durationMs: a.durationMs + b.durationMs,
+    turns: a.turns + b.turns,
+  };
+}
+
+// Every token the session sent or received, cached or not
+export function getTotalTokens(usage: UsageStats): number {
+  return (
+    usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheCreationTokens
+  );
+}
+
+/**
+ * Usage totals stored on a sessions row. Sessions from before usage
+ * tracking have no columns set and count as unused.
+ */
+export function usageFromSession(session: Session): UsageStats {
+  return {
+    inputTokens: session.input_tokens ?? 0,
+    outputTokens: session.output_tokens ?? 0,
+    cacheReadTokens: session.cache_read_tokens ?? 0,
+    cacheCreationTokens: session.cache_creation_tokens ?? 0,
+    costUsd: session.cost_usd ?? 0,
+    durationMs: session.duration_ms ?? 0,
+    turns: session.turn_count ?? 0,
+  };
+}
+
+export function usageToSessionColumns(usage: UsageStats): SessionUsageColumns {
+  return {
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cache_read_tokens: usage.cacheReadTokens,
+    cache_creation_tokens: usage.cacheCreationTokens,
+    cost_usd: usage.costUsd,
+    duration_ms: usage.durationMs,
+    turn_count: usage.turns,
+  };
+}
+
+// 950 -> "950", 12345 -> "12.3k", 2500000 -> "2.5M"
+export function formatTokenCount(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  if (count >= 1_000) {
+    return `${(count / 1_000).toFixed(1)}k`;
+  }
+  return String(count);
+}
+
+export function formatCost(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.01) {
+    return '<$0.01';
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
+
+// "$0.42 · 12.3k tokens"
+export function formatUsage(usage: UsageStats): string {
+  return `${formatCost(usage.costUsd)} · ${formatTokenCount(getTotalTokens(usage))} tokens`;
+}
@@ -0,0 +1 @@
+export * from './messages.js';
@@ -0,0 +1,523 @@
+import type {
+  RealtimeMessage,
+  RealtimeMessageType,
+  PermissionMode,
+  InteractiveCommandType,
+  MachineCommand,
+  MachineCommandType,
+  ToolCallData,
+  TodoItem,
+  QuestionAnswerRecord,
+} from '../types/message.js';
+import { PROTOCOL_VERSION } from '../constants/protocol.js';
+
+/**
+ * Schema version the validators enforce, reported back in rejections so the
+ * sender can tell a version mismatch from a genuinely malformed payload.
+ */
+export const MESSAGE_SCHEMA_VERSION = PROTOCOL_VERSION;
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+type Check = (value: unknown) => boolean;
+
+// Records (rather than arrays) so adding a union member without listing it
+// here fails to compile
+const REALTIME_MESSAGE_TYPES: Record<RealtimeMessageType, true> = {
+  output: true,
+  input: true,
+  error: true,
+  system: true,
+  mode: true,
+  'mode-change': true,
+  commands: true,
+  'commands-request': true,
+  model: true,
+  'model-change': true,
+  models: true,
+  'models-request': true,
+  'mobile-disconnect': true,
+  'interactive-request': true,
+  'interactive-response': true,
+  'interactive-apply': true,
+  'interactive-confirm': true,
+  'clear-request': true,
+  'resume-request': true,
+  'resume-history': true,
+  'user-question': true,
+  'user-answer': true,
+  'permission-request': true,
+  'permission-response': true,
+  'replay-request': true,
+  'replay-response': true,
+  ack: true,
+  hello: true,
+  capabilities: true,
+  'message-rejected': true,
+  chunk: true,
+  encrypted: true,
+  'tool-call': true,
+  'request-retracted': true,
+  interrupt: true,
+  'prompt-queue': true,
+  'prompt-queue-update': true,
+  usage: true,
+  limits: true,
+  'limits-change': true,
+  'limit-override': true,
+  'output-delta': true,
+  thinking: true,
+  todos: true,
+  'sub-agent': true,
+  'question-answer': true,
+};
+
+const MACHINE_COMMAND_TYPES: Record<MachineCommandType, true> = {
+  'start-session': true,
+  'session-started': true,
+  'session-ended': true,
+  'start-session-error': true,
+  'stop-session': true,
+  'command-rejected': true,
+};
+
+const PERMISSION_MODES: Record<PermissionMode, true> = {
+  default: true,
+  acceptEdits: true,
+  plan: true,
+  bypassPermissions: true,
+  delegate: true,
+  dontAsk: true,
+};
+
+const INTERACTIVE_COMMANDS: Record<InteractiveCommandType, true> = {
+  config: true,
+  permissions: true,
+  'allowed-tools': true,
+  vim: true,
+  mcp: true,
+  agents: true,
+  hooks: true,
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Basic checks
+const isString: Check = (v) => typeof v === 'string';
+const isBoolean: Check = (v) => typeof v === 'boolean';
+const isNumber: Check = (v) => typeof v === 'number' && Number.isFinite(v);
+const isSeq: Check = (v) => Number.isInteger(v) && (v as number) >= 0;
+const isUuid: Check = (v) => typeof v === 'string' && UUID_PATTERN.test(v);
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+const isKeyOf =
+  (record: Record<string, true>): Check =>
+  (v) =>
+    typeof v === 'string' && Object.prototype.hasOwnProperty.call(record, v);
+const isOneOf =
+  (...values: unknown[]): Check =>
+  (v) =>
+    values.includes(v);
+const isArrayOf =
+  (check: Check): Check =>
+  (v) =>
+    Array.isArray(v) && v.every(check);
+const isRecordOf =
+  (check: Check): Check =>
+  (v) =>
+    isObject(v) && Object.values(v).every(check);
+
+/**
+ * Object with the given required and optional fields. Extra fields are
+ * allowed so newer peers can add data without breaking older ones.
+ */
+const isShape =
+  (required: Record<string, Check>, optional: Record<string, Check> = {}): Check =>
+  (v) =>
+    isObject(v) &&
+    Object.entries(required).every(([key, check]) => check(v[key])) &&
+    Object.entries(optional).every(([key, check]) => v[key] === undefined || check(v[key]));
+
+// Nested payload shapes
+const isImageAttachment = isShape({
+  type: isOneOf('image'),
+  mediaType: isOneOf('image/jpeg', 'image/png', 'image/gif', 'image/webp'),
+  data: isString,
+});
+
+const isSlashCommand = isShape(
+  { name: isString, description: isString },
+  { argumentHint: isString }
+);
+
+const isModelInfo = isShape({ value: isString, displayName: isString, description: isString });
+
+const isInteractiveOption: Check = (v) =>
+  isShape(
+    { id: isString, label: isString },
+    { description: isString, selected: isBoolean, children: isArrayOf(isInteractiveOption) }
+  )(v);
+
+const isInteractiveData = isShape(
+  {
+    command: isKeyOf(INTERACTIVE_COMMANDS),
+    uiType: isOneOf('select', 'toggle', 'multi-select', 'nested'),
+    title: isString,
+    options: isArrayOf(isInteractiveOption),
+  },
+  { description: isString }
+);
+
+const isInteractivePayload = isShape(
+  {
+    command: isKeyOf(INTERACTIVE_COMMANDS),
+    action: isOneOf('set', 'add', 'remove', 'toggle'),
+  },
+  { key: isString }
+);
+
+const isInteractiveResult = isShape({ success: isBoolean }, { message: isString });
+
+const isUserQuestion = isShape(
+  {
+    question: isString,
+    header: isString,
+    options: isArrayOf(isShape({ label: isString, description: isString })),
+  },
+  { multiSelect: isBoolean }
+);
+
+const isUserQuestionData = isShape({ toolUseId: isString, questions: isArrayOf(isUserQuestion) });
+
+const isQuestionAnswer = isShape({ selected: isArrayOf(isString) }, { text: isString });
+
+const isUserAnswerData = isShape(
+  { toolUseId: isString, answers: isRecordOf(isString) },
+  { responses: isArrayOf(isQuestionAnswer) }
+);
+
+const isQuestionAnswerRecord = isShape({
+  toolUseId: isString,
+  questions: isArrayOf(isUserQuestion),
+  responses: isArrayOf(isQuestionAnswer),
+});
+
+const isDiffLine: Check = (v) => typeof v === 'string' && /^[ +-]/.test(v);
+
+const isFileDiff = isShape(
+  {
+    filePath: isString,
+    status: isOneOf('modified', 'added'),
+    hunks: isArrayOf(
+      isShape({
+        oldStart: isSeq,
+        oldLines: isSeq,
+        newStart: isSeq,
+        newLines: isSeq,
+        lines: isArrayOf(isDiffLine),
+      })
+    ),
+    additions: isSeq,
+    deletions: isSeq,
+  },
+  { truncated: isBoolean, snippet: isBoolean }
+);
+
+const isPermissionUpdate = isShape({ type: isString, destination: isString });
+
+const isPermissionRequestData = isShape(
+  {
+    requestId: isString,
+    toolName: isString,
+    toolInput: isObject,
+    toolUseId: isString,
+  },
+  {
+    suggestions: isArrayOf(isPermissionUpdate),
+    blockedPath: isString,
+    decisionReason: isString,
+    agentId: isString,
+    diff: isFileDiff,
+    parentToolUseId: isString,
+    plan: isString,
+  }
+);
+
+const isPermissionResponseData = isShape(
+  { requestId: isString, behavior: isOneOf('allow', 'deny') },
+  {
+    message: isString,
+    updatedInput: isObject,
+    updatedPermissions: isArrayOf(isPermissionUpdate),
+    planDecision: isOneOf('approve', 'approve-auto-edits', 'keep-planning'),
+  }
+);
+
+const isSeqRange: Check = (v) =>
+  isShape({ fromSeq: isSeq, toSeq: isSeq })(v) &&
+  (v as { fromSeq: number; toSeq: number }).fromSeq <=
+    (v as { fromSeq: number; toSeq: number }).toSeq;
+
+const isProtocolInfo = isShape(
+  {
+    version: isSeq,
+    // Unknown features from newer peers are allowed and ignored
+    features: isArrayOf(isString),
+  },
+  { keyId: isString }
+);
+
+const isMessageRejection = isShape(
+  { reason: isString, protocolVersion: isSeq },
+  { rejectedType: isString, messageId: isString }
+);
+
+const isMessageChunk: Check = (v) =>
+  isShape({
+    id: isString,
+    index: isSeq,
+    total: isSeq,
+    data: isString,
+    size: isSeq,
+    checksum: isString,
+  })(v) && (v as { index: number }).index < (v as { total: number }).total;
+
+const isToolCallData = isShape(
+  {
+    toolUseId: isString,
+    toolName: isString,
+    input: isShape(
+      {},
+      {
+        command: isString,
+        filePath: isString,
+        pattern: isString,
+        url: isString,
+        query: isString,
+        description: isString,
+      }
+    ),
+    status: isOneOf('running', 'completed', 'error'),
+  },
+  { summary: isString, diff: isFileDiff, parentToolUseId: isString }
+);
+
+const isSubAgentData = isShape(
+  {
+    toolUseId: isString,
+    agentType: isString,
+    description: isString,
+    status: isOneOf('running', 'completed', 'error', 'cancelled'),
+    toolCount: isSeq,
+    startedAt: isNumber,
+  },
+  { currentTool: isString, summary: isString, finishedAt: isNumber }
+);
+
+const isQueuedPrompt = isShape({
+  id: isString,
+  content: isString,
+  attachmentCount: isSeq,
+  queuedAt: isNumber,
+});
+
+const isPromptQueueUpdate: Check = (v) =>
+  isShape({ action: isOneOf('move'), promptId: isString, toIndex: isSeq })(v) ||
+  isShape({ action: isOneOf('remove'), promptId: isString })(v);
+
+const isUsageStats = isShape({
+  inputTokens: isSeq,
+  outputTokens: isSeq,
+  cacheReadTokens: isSeq,
+  cacheCreationTokens: isSeq,
+  costUsd: isNumber,
+  durationMs: isNumber,
+  turns: isSeq,
+});
+
+const isPositive: Check = (v) => isNumber(v) && (v as number) > 0;
+const isPositiveInteger: Check = (v) => Number.isInteger(v) && (v as number) > 0;
+
+const isSessionLimits = isShape(
+  {},
+  { maxCostUsd: isPositive, maxTurns: isPositiveInteger, maxPromptSeconds: isPositiveInteger }
+);
+
+const isTodoItem = isShape(
+  { content: isString, status: isOneOf('pending', 'in_progress', 'completed') },
+  { activeForm: isString }
+);
+
+// Optional RealtimeMessage fields and the shape each must have when present
+const MESSAGE_FIELD_CHECKS: Partial<Record<keyof RealtimeMessage, Check>> = {
+  content: isString,
+  attachments: isArrayOf(isImageAttachment),
+  permissionMode: isKeyOf(PERMISSION_MODES),
+  commands: isArrayOf(isSlashCommand),
+  model: isString,
+  availableModels: isArrayOf(isModelInfo),
+  interactiveCommand: isKeyOf(INTERACTIVE_COMMANDS),
+  interactiveData: isInteractiveData,
+  interactivePayload: isInteractivePayload,
+  interactiveResult: isInteractiveResult,
+  resumeSessionId: isUuid,
+  historySessionId: isUuid,
+  userQuestion: isUserQuestionData,
+  userAnswer: isUserAnswerData,
+  permissionRequest: isPermissionRequestData,
+  permissionResponse: isPermissionResponseData,
+  replayRange: isSeqRange,
+  replayedMessages: (v) =>
+    Array.isArray(v) && v.every((m) => validateRealtimeMessage(m).ok),
+  messageId: isString,
+  ackId: isString,
+  protocol: isProtocolInfo,
+  rejection: isMessageRejection,
+  chunk: isMessageChunk,
+  encrypted: isString,
+  toolCall: isToolCallData,
+  retractedId: isString,
+  promptQueue: isArrayOf(isQueuedPrompt),
+  queueUpdate: isPromptQueueUpdate,
+  usage: isShape({ turn: isUsageStats, total: isUsageStats }),
+  limitsState: isShape(
+    { limits: isSessionLimits },
+    { reached: isOneOf('cost', 'turns', 'time') }
+  ),
+  sessionLimits: isSessionLimits,
+  todos: isArrayOf(isTodoItem),
+  subAgent: isSubAgentData,
+  questionAnswer: isQuestionAnswerRecord,
+};
+
+// Fields a message type can't be acted on without
+const REQUIRED_MESSAGE_FIELDS: Partial<Record<RealtimeMessageType, Array<keyof RealtimeMessage>>> = {
+  'mode-change': ['permissionMode'],
+  'model-change': ['model'],
+  'interactive-request': ['interactiveCommand'],
+  'interactive-apply': ['interactivePayload'],
+  'resume-request': ['resumeSessionId'],
+  'resume-history': ['historySessionId'],
+  'user-question': ['userQuestion'],
+  'user-answer': ['userAnswer'],
+  'permission-request': ['permissionRequest'],
+  'permission-response': ['permissionResponse'],
+  'replay-request': ['replayRange'],
+  'replay-response': ['replayRange', 'replayedMessages'],
+  ack: ['ackId'],
+  hello: ['protocol'],
+  capabilities: ['protocol'],
+  'message-rejected': ['rejection'],
+  chunk: ['chunk'],
+  encrypted: ['encrypted'],
+  'tool-call': ['toolCall'],
+  'request-retracted': ['retractedId'],
+  'prompt-queue': ['promptQueue'],
+  'prompt-queue-update': ['queueUpdate'],
+  usage: ['usage'],
+  limits: ['limitsState'],
+  'limits-change': ['sessionLimits'],
+  'output-delta': ['content'],
+  thinking: ['content'],
+  todos: ['todos'],
+  'sub-agent': ['subAgent'],
+  'question-answer': ['questionAnswer'],
+};
+
+/**
+ * Validate an untrusted realtime payload against the message schema for
+ * PROTOCOL_VERSION. Returns the typed message, or the first problem found.
+ */
+export function validateRealtimeMessage(value: unknown): ValidationResult<RealtimeMessage> {
+  if (!isObject(value)) {
+    return { ok: false, error: 'Message must be an object' };
+  }
+
+  const type = value['type'];
+  if (!isKeyOf(REALTIME_MESSAGE_TYPES)(type)) {
+    return { ok: false, error: `Unknown message type: ${String(type)}` };
+  }
+
+  if (!isNumber(value['timestamp'])) {
+    return { ok: false, error: 'Invalid field: timestamp' };
+  }
+  if (!isSeq(value['seq'])) {
+    return { ok: false, error: 'Invalid field: seq' };
+  }
+
+  for (const field of REQUIRED_MESSAGE_FIELDS[type as RealtimeMessageType] ?? []) {
+    if (value[field] === undefined) {
+      return { ok: false, error: `Missing field for ${String(type)}: ${field}` };
+    }
+  }
+
+  for (const [field, check] of Object.entries(MESSAGE_FIELD_CHECKS)) {
+    if (value[field] !== undefined && !check(value[field])) {
+      return { ok: false, error: `Invalid field: ${field}` };
+    }
+  }
+
+  return { ok: true, value: value as unknown as RealtimeMessage };
+}
+
+/**
+ * Validate an untrusted tool call, e.g. one read back from the messages table.
+ */
+export function validateToolCall(value: unknown): ValidationResult<ToolCallData> {
+  return isToolCallData(value)
+    ? { ok: true, value: value as ToolCallData }
+    : { ok: false, error: 'Invalid tool call' };
+}
+
+/**
+ * Validate an untrusted question-answer record, e.g. one read back from the messages table.
+ */
+export function validateQuestionAnswer(value: unknown): ValidationResult<QuestionAnswerRecord> {
+  return isQuestionAnswerRecord(value)
+    ? { ok: true, value: value as QuestionAnswerRecord }
+    : { ok: false, error: 'Invalid question answer' };
+}
+
+/**
+ * Validate an untrusted todo list, e.g. one read back from the sessions table.
+ */
+export function validateTodos(value: unknown): ValidationResult<TodoItem[]> {
+  return isArrayOf(isTodoItem)(value)
+    ? { ok: true, value: value as TodoItem[] }
+    : { ok: false, error: 'Invalid todo list' };
+}
+
+/**
+ * Validate an untrusted machine channel payload.
+ */
+export function validateMachineCommand(value: unknown): ValidationResult<MachineCommand> {
+  if (!isObject(value)) {
+    return { ok: false, error: 'Command must be an object' };
+  }
+
+  const type = value['type'];
+  if (!isKeyOf(MACHINE_COMMAND_TYPES)(type)) {
+    return { ok: false, error: `Unknown command type: ${String(type)}` };
+  }
+
+  if (!isNumber(value['timestamp'])) {
+    return { ok: false, error: 'Invalid field: timestamp' };
+  }
+
+  const checks: Record<string, Check> = {
+    sessionId: isString,
+    workingDirectory: isString,
+    error: isString,
+  };
+  for (const [field, check] of Object.entries(checks)) {
+    if (value[field] !== undefined && !check(value[field])) {
+      return { ok: false, error: `Invalid field: ${field}` };
+    }
+  }
+
+  if ((type === 'session-started' || type === 'stop-session') && value['sessionId'] === undefined) {
+    return { ok: false, error: `Missing field for ${type}: sessionId` };
+  }
+
+  return { ok: true, value: value as unknown as MachineCommand };
+}
@@ -0,0 +1,4 @@
+-- Allow structured tool-call messages; their content holds the tool call as JSON
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_type_check
+  CHECK (type IN ('output', 'input', 'error', 'system', 'tool-call'));
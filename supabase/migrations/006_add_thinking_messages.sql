@@ -0,0 +1,4 @@
+-- Allow thinking messages; their content is the model's thinking text
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_type_check
+  CHECK (type IN ('output', 'input', 'error', 'system', 'tool-call', 'thinking'));
@@ -0,0 +1,2 @@
+-- Latest TodoWrite list per session, as JSON (ciphertext for paired machines)
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS todos TEXT;
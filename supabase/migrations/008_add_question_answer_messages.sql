@@ -0,0 +1,4 @@
+-- Allow question-answer messages; their content is a QuestionAnswerRecord as JSON
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_type_check
+  CHECK (type IN ('output', 'input', 'error', 'system', 'tool-call', 'thinking', 'question-answer'));